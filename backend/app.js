@@ -185,6 +185,9 @@ function broadcastSignal(signal) {
     });
 }
 
+// Lets routes push signals they create, e.g. manual signals, to every client
+app.locals.broadcastSignal = broadcastSignal;
+
 // Market Data Endpoint & Update
 app.get('/api/market/data', async (req, res) => {
     try {
@@ -419,7 +422,7 @@ async function generateSignals() {
     if (mongoose.connection.readyState === 1) {
         await Signal.updateMany(
             { expiresAt: { $lt: new Date() }, status: 'active' },
-            { status: 'inactive' }
+            { status: 'expired' }
         );
     }
 }
@@ -530,6 +533,12 @@ async function initializeAndStart() {
         await mongoose.connect(process.env.MONGO_URI);
         console.log('✅ Step 1: MongoDB connected successfully!');
         isDbConnected = true;
+        try {
+            const { named, dropped } = await require('./models/DemoAccount').migrateIndexes();
+            console.log(`✅ Step 1: Demo account indexes synced (named ${named}, dropped ${dropped.join(', ') || 'none'})`);
+        } catch (error) {
+            console.error('❌ Step 1: Failed to migrate demo account indexes:', error.message);
+        }
     } catch (error) {
         console.error('❌ Step 1: Database connection failed:', error.message);
         console.log('🔒 IP whitelist issue – add your IP in Atlas');
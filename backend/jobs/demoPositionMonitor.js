@@ -2,6 +2,8 @@ const DemoAccount = require('../models/DemoAccount');
 const DemoPosition = require('../models/DemoPosition');
 const DemoTrade = require('../models/DemoTrade');
 const getPrice = require('../utils/getPrice');
+const { evaluateExitPlan, calculatePnl, isLong } = require('../utils/exitManagement');
+const { simulateExitFill, recordExitFees } = require('../utils/fillModel');
 const mongoose = require('mongoose');
 
 // WebSocket server reference (will be set from app.js)
@@ -12,22 +14,37 @@ const setWebSocketServer = (websocketServer) => {
   wss = websocketServer;
 };
 
-// Broadcast position closure notification
-const broadcastPositionClosure = (position, closureType, pnl) => {
+// WebSocket message type for each closure type
+const CLOSURE_MESSAGE_TYPES = {
+  take_profit: 'take_profit_hit',
+  stop_loss: 'stop_loss_hit',
+  trailing_stop: 'trailing_stop_hit',
+  breakeven_stop: 'breakeven_stop_hit',
+  partial_take_profit: 'partial_take_profit',
+};
+
+// Broadcast position closure notification. The P&L is gross; the balance is
+// the account's after the exit commission was taken, so clients can apply it as is.
+const broadcastPositionClosure = (position, closureType, pnl, { commission, balance, quantity } = {}) => {
   if (!wss) return;
   
   try {
     wss.clients.forEach(client => {
       if (client.readyState === require('ws').OPEN) {
         client.send(JSON.stringify({
-          type: closureType === 'take_profit' ? 'take_profit_hit' : 'stop_loss_hit',
+          type: CLOSURE_MESSAGE_TYPES[closureType] || 'stop_loss_hit',
           data: {
             positionId: position._id,
             symbol: position.symbol,
             closureType: closureType,
             pnl: pnl,
+            commission: commission ?? 0,
+            balance: balance,
+            quantity: quantity ?? position.quantity,
+            activeStop: position.activeStop,
             closedAt: new Date().toISOString(),
-            user: position.user
+            user: position.user,
+            account: position.account
           }
         }));
       }
@@ -57,7 +74,8 @@ async function monitorDemoPositions() {
         continue;
       }
       
-      console.log(`👤 Checking ${account.openPositions.length} positions for user ${account.user}`);
+      console.log(`👤 Checking ${account.openPositions.length} positions in account "${account.name}" for user ${account.user}`);
+      let accountChanged = false;
       
       for (const positionRef of account.openPositions) {
         try {
@@ -81,61 +99,97 @@ async function monitorDemoPositions() {
           // Update position with current price
           position.currentPrice = currentPrice;
           
-          // Calculate P&L
           const entryPrice = Number(position.entryPrice);
-          const quantity = Number(position.quantity);
-          const positionType = position.type || position.direction || 'BUY';
+          const long = isLong(position);
+          if (position.initialQuantity === undefined || position.initialQuantity === null) {
+            position.initialQuantity = Number(position.quantity);
+          }
           
-          let pnl = 0;
-          if (positionType === 'BUY') {
-            pnl = (currentPrice - entryPrice) * quantity;
-          } else if (positionType === 'SELL') {
-            pnl = (entryPrice - currentPrice) * quantity;
+          // Move stops and check the take-profit ladder
+          const evaluation = evaluateExitPlan(position, currentPrice);
+          position.bestPrice = evaluation.bestPrice;
+          if (evaluation.activeStop !== null && evaluation.activeStop !== position.activeStop) {
+            if (evaluation.stopReason !== position.stopReason) {
+              console.log(`🔒 ${position.symbol} stop moved to ${evaluation.stopReason} at ${evaluation.activeStop}`);
+            }
+            position.activeStop = evaluation.activeStop;
+            position.stopReason = evaluation.stopReason;
           }
           
+          // Scale out of the filled take-profit levels
+          for (const fill of evaluation.fills) {
+            const exitFill = simulateExitFill(position, fill.price, fill.quantity);
+            const fillPnl = calculatePnl(long, entryPrice, exitFill.price, fill.quantity);
+            try {
+              await DemoTrade.create({
+                symbol: position.symbol,
+                entryPrice: position.entryPrice,
+                exitPrice: exitFill.price,
+                quantity: fill.quantity,
+                direction: position.type,
+                profit: fillPnl,
+                commission: exitFill.commission,
+                openedAt: position.openedAt,
+                closedAt: new Date(),
+                signalId: position.signalId,
+                closureType: 'partial_take_profit',
+                user: position.user,
+                market: position.market,
+                timeframe: position.timeframe,
+              });
+              
+              account.balance = Number(account.balance) + Number(fillPnl) - exitFill.commission;
+              accountChanged = true;
+              
+              position.quantity = Number(position.quantity) - fill.quantity;
+              position.realizedPnl = Number(position.realizedPnl || 0) + fillPnl;
+              recordExitFees(position, exitFill);
+              position.exitPlan.takeProfitLevels[fill.levelIndex].filled = true;
+              position.partialCloses.push({
+                price: exitFill.price,
+                quantity: fill.quantity,
+                pnl: fillPnl,
+                commission: exitFill.commission,
+                closedAt: new Date(),
+              });
+              
+              broadcastPositionClosure(position, 'partial_take_profit', fillPnl, {
+                commission: exitFill.commission,
+                balance: account.balance,
+                quantity: fill.quantity,
+              });
+              
+              console.log(`🎯 Partial take profit for ${position.symbol}: closed ${fill.quantity} - P&L: $${fillPnl.toFixed(2)}`);
+            } catch (error) {
+              console.error(`❌ Error scaling out of ${position.symbol}:`, error.message);
+            }
+          }
+          
+          // P&L of the remaining quantity
+          const quantity = Number(position.quantity);
+          const pnl = calculatePnl(long, entryPrice, currentPrice, quantity);
+          
           position.pnl = pnl;
           position.pnlPercentage = entryPrice > 0 ? (pnl / (entryPrice * quantity)) * 100 : 0;
           
-          // Check take profit and stop loss conditions
-          let shouldClose = false;
-          let closureType = null;
-          
-          if (position.targetPrice && position.stopLoss) {
-            if (positionType === 'BUY') {
-              // For BUY positions
-              if (currentPrice >= position.targetPrice) {
-                shouldClose = true;
-                closureType = 'take_profit';
-                console.log(`🎯 Take profit hit for ${position.symbol} BUY position`);
-              } else if (currentPrice <= position.stopLoss) {
-                shouldClose = true;
-                closureType = 'stop_loss';
-                console.log(`🛑 Stop loss hit for ${position.symbol} BUY position`);
-              }
-            } else if (positionType === 'SELL') {
-              // For SELL positions
-              if (currentPrice <= position.targetPrice) {
-                shouldClose = true;
-                closureType = 'take_profit';
-                console.log(`🎯 Take profit hit for ${position.symbol} SELL position`);
-              } else if (currentPrice >= position.stopLoss) {
-                shouldClose = true;
-                closureType = 'stop_loss';
-                console.log(`🛑 Stop loss hit for ${position.symbol} SELL position`);
-              }
-            }
-          }
+          const closureType = evaluation.exit;
           
-          if (shouldClose) {
+          if (closureType) {
             try {
+              // Exit at the bid/ask with slippage and commission
+              const exitFill = simulateExitFill(position, currentPrice, quantity);
+              const exitPnl = calculatePnl(long, entryPrice, exitFill.price, quantity);
+              recordExitFees(position, exitFill);
+              
               // Create trade record
               await DemoTrade.create({
                 symbol: position.symbol,
                 entryPrice: position.entryPrice,
-                exitPrice: currentPrice,
+                exitPrice: exitFill.price,
                 quantity: position.quantity,
                 direction: position.type,
-                profit: pnl,
+                profit: exitPnl,
+                commission: exitFill.commission,
                 openedAt: position.openedAt,
                 closedAt: new Date(),
                 signalId: position.signalId,
@@ -146,30 +200,36 @@ async function monitorDemoPositions() {
               });
               
               // Update account balance
-              account.balance = Number(account.balance) + Number(pnl);
+              account.balance = Number(account.balance) + Number(exitPnl) - exitFill.commission;
               
               // Move position to trade history
               account.tradeHistory.push(position._id);
               account.openPositions = account.openPositions.filter(p => p.toString() !== position._id.toString());
               
-              // Update position status
+              // Update position status; P&L on the record includes earlier partial closes
+              position.currentPrice = exitFill.price;
+              position.pnl = exitPnl + Number(position.realizedPnl || 0);
               position.status = 'closed';
               position.closedAt = new Date();
               position.closureType = closureType;
               await position.save();
               
               // Broadcast notification
-              broadcastPositionClosure(position, closureType, pnl);
+              broadcastPositionClosure(position, closureType, exitPnl, {
+                commission: exitFill.commission,
+                balance: account.balance,
+              });
               
               positionsClosed++;
+              accountChanged = true;
               
-              console.log(`✅ Position closed: ${position.symbol} - ${closureType} - P&L: $${pnl.toFixed(2)}`);
+              console.log(`✅ Position closed: ${position.symbol} - ${closureType} - P&L: $${exitPnl.toFixed(2)}, commission $${exitFill.commission.toFixed(2)}`);
               
             } catch (error) {
               console.error(`❌ Error closing position ${position.symbol}:`, error.message);
             }
           } else {
-            // Save updated position with current price and P&L
+            // Save updated position with current price, stop level and P&L
             await position.save();
           }
           
@@ -179,7 +239,7 @@ async function monitorDemoPositions() {
       }
       
       // Save account changes
-      if (positionsClosed > 0) {
+      if (accountChanged) {
         await account.save();
         console.log(`💰 Account ${account.user} updated - Balance: $${account.balance.toFixed(2)}`);
       }
@@ -230,7 +290,8 @@ const getMonitoringStatus = () => {
 // Manual position closure for testing
 const closePositionManually = async (positionId, userId) => {
   try {
-    const account = await DemoAccount.findOne({ user: userId }).populate('openPositions');
+    // Whichever of the user's accounts holds the position
+    const account = await DemoAccount.findOne({ user: userId, openPositions: positionId }).populate('openPositions');
     if (!account) {
       throw new Error('Account not found');
     }
@@ -246,26 +307,22 @@ const closePositionManually = async (positionId, userId) => {
       throw new Error('Could not fetch current price');
     }
     
-    // Calculate P&L
+    // Calculate P&L at the simulated exit fill
     const entryPrice = Number(position.entryPrice);
     const quantity = Number(position.quantity);
-    const positionType = position.type || position.direction || 'BUY';
-    
-    let pnl = 0;
-    if (positionType === 'BUY') {
-      pnl = (currentPrice - entryPrice) * quantity;
-    } else if (positionType === 'SELL') {
-      pnl = (entryPrice - currentPrice) * quantity;
-    }
+    const exitFill = simulateExitFill(position, currentPrice, quantity);
+    const pnl = calculatePnl(isLong(position), entryPrice, exitFill.price, quantity);
+    recordExitFees(position, exitFill);
     
     // Create trade record
     await DemoTrade.create({
       symbol: position.symbol,
       entryPrice: position.entryPrice,
-      exitPrice: currentPrice,
+      exitPrice: exitFill.price,
       quantity: position.quantity,
       direction: position.type,
       profit: pnl,
+      commission: exitFill.commission,
       openedAt: position.openedAt,
       closedAt: new Date(),
       signalId: position.signalId,
@@ -276,23 +333,25 @@ const closePositionManually = async (positionId, userId) => {
     });
     
     // Update account
-    account.balance = Number(account.balance) + Number(pnl);
+    account.balance = Number(account.balance) + Number(pnl) - exitFill.commission;
     account.tradeHistory.push(position._id);
     account.openPositions = account.openPositions.filter(p => p._id.toString() !== positionId);
     await account.save();
     
     // Update position
+    position.currentPrice = exitFill.price;
+    position.pnl = pnl + Number(position.realizedPnl || 0);
     position.status = 'closed';
     position.closedAt = new Date();
     position.closureType = 'manual';
     await position.save();
     
     // Broadcast notification
-    broadcastPositionClosure(position, 'manual', pnl);
+    broadcastPositionClosure(position, 'manual', pnl, { commission: exitFill.commission, balance: account.balance });
     
     console.log(`✅ Manual position closure: ${position.symbol} - P&L: $${pnl.toFixed(2)}`);
     
-    return { success: true, pnl, currentPrice };
+    return { success: true, pnl, currentPrice: exitFill.price, commission: exitFill.commission };
     
   } catch (error) {
     console.error('❌ Error in manual position closure:', error.message);
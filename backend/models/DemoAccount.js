@@ -1,8 +1,13 @@
 const mongoose = require('mongoose');
 
+// A user can run several named demo accounts side by side, e.g. one per
+// strategy. The oldest account is the default when none is selected.
 const DemoAccountSchema = new mongoose.Schema({
-  user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', unique: true },
+  user: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  name: { type: String, default: 'Main', trim: true },
+  description: String,
   balance: { type: Number, default: 100000 },
+  startingBalance: { type: Number, default: 100000 },
   autoTrading: { type: Boolean, default: false },
   maxOpenPositions: { type: Number, default: 5 },
   openPositions: [{ type: mongoose.Schema.Types.ObjectId, ref: 'DemoPosition' }],
@@ -10,4 +15,19 @@ const DemoAccountSchema = new mongoose.Schema({
   createdAt: { type: Date, default: Date.now }
 });
 
-module.exports = mongoose.model('DemoAccount', DemoAccountSchema);
\ No newline at end of file
+DemoAccountSchema.index({ user: 1, name: 1 }, { unique: true });
+
+// Accounts from before multi-account support have no name, and their
+// collection still carries the old unique `user_1` index, which Mongoose
+// never drops by itself. Name them first so the { user, name } index can
+// build, then bring the indexes in line with the schema.
+DemoAccountSchema.statics.migrateIndexes = async function () {
+  const named = await this.updateMany(
+    { $or: [{ name: { $exists: false } }, { name: null }, { name: '' }] },
+    { $set: { name: 'Main' } }
+  );
+  const dropped = await this.syncIndexes();
+  return { named: named.modifiedCount, dropped };
+};
+
+module.exports = mongoose.model('DemoAccount', DemoAccountSchema);
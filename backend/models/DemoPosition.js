@@ -2,11 +2,61 @@ const mongoose = require('mongoose');
 // Example DemoPosition schema
 const DemoPositionSchema = new mongoose.Schema({
   user: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  account: { type: mongoose.Schema.Types.ObjectId, ref: 'DemoAccount' },
   symbol: String,
   type: String, // or 'direction'
   quantity: Number,
   entryPrice: { type: Number, required: true },
   currentPrice: { type: Number, required: true },
-  // ... other fields ...
+  targetPrice: Number,
+  stopLoss: Number, // Initial stop; activeStop is the one in force
+  status: { type: String, enum: ['open', 'closed'], default: 'open' },
+  openedAt: { type: Date, default: Date.now },
+  closedAt: Date,
+  pnl: { type: Number, default: 0 },
+  pnlPercentage: Number,
+  closureType: String,
+  signalId: String,
+  market: String,
+  timeframe: String,
+  exitPlan: {
+    trailing: {
+      mode: { type: String, enum: ['percent', 'atr'] },
+      value: Number, // percent of price, or ATR multiple
+      atr: Number,   // ATR at entry for 'atr' mode
+    },
+    breakevenTriggerPercent: Number,
+    takeProfitLevels: [{
+      price: Number,
+      closePercent: Number, // share of the initial quantity
+      filled: { type: Boolean, default: false },
+    }],
+  },
+  activeStop: Number,
+  stopReason: { type: String, enum: ['initial', 'breakeven', 'trailing'], default: 'initial' },
+  bestPrice: Number,
+  initialQuantity: Number,
+  realizedPnl: { type: Number, default: 0 },
+  partialCloses: [{
+    price: Number,
+    quantity: Number,
+    pnl: Number,
+    commission: Number,
+    closedAt: Date,
+  }],
+  // Fill simulation: entryPrice is the fill, quotedEntryPrice the price asked for
+  quotedEntryPrice: Number,
+  fillModel: {
+    slippageBps: Number,
+    commissionPercent: Number,
+    minCommission: Number,
+    spread: Number, // Bid/ask spread at entry, reused for exits
+  },
+  fees: {
+    entryCommission: { type: Number, default: 0 },
+    exitCommission: { type: Number, default: 0 },
+    spreadCost: { type: Number, default: 0 },
+    slippageCost: { type: Number, default: 0 },
+  },
 });
 module.exports = mongoose.model('DemoPosition', DemoPositionSchema);
\ No newline at end of file
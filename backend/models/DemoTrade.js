@@ -6,8 +6,13 @@ const DemoTradeSchema = new mongoose.Schema({
   quantity: Number,
   direction: String,
   profit: Number,
+  commission: Number,
   openedAt: Date,
   closedAt: Date,
   signalId: String,
+  closureType: String, // partial_take_profit for scale-outs, else how the position closed
+  user: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  market: String,
+  timeframe: String,
 });
 module.exports = mongoose.model('DemoTrade', DemoTradeSchema);
\ No newline at end of file
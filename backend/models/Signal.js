@@ -16,7 +16,11 @@ const SignalSchema = new mongoose.Schema({
   createdAt: { type: Date, default: Date.now },
   expiresAt: { type: Date, required: true },
   source: String,
-  risk: String
-});
+  risk: String,
+  tags: [String]
+}, { timestamps: { createdAt: false, updatedAt: true } });
+
+// Supports the paginated, newest-first signal list
+SignalSchema.index({ createdAt: -1, _id: -1 });
 
 module.exports = mongoose.model('Signal', SignalSchema);
\ No newline at end of file
@@ -0,0 +1,16 @@
+const mongoose = require('mongoose');
+
+// A user's own star, note and tags on a signal. Signal ids are kept as
+// strings since signals can come from sources other than this database.
+const SignalAnnotationSchema = new mongoose.Schema({
+  user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  signalId: { type: String, required: true },
+  starred: { type: Boolean, default: false },
+  note: { type: String, default: '', maxlength: 2000 },
+  tags: [{ type: String, trim: true }],
+  updatedAt: { type: Date, default: Date.now }
+});
+
+SignalAnnotationSchema.index({ user: 1, signalId: 1 }, { unique: true });
+
+module.exports = mongoose.model('SignalAnnotation', SignalAnnotationSchema);
@@ -1,8 +1,11 @@
 const express = require('express');
 const router = express.Router();
 const axios = require('axios');
+const mongoose = require('mongoose');
 const DemoAccount = require('../models/DemoAccount');
 const DemoPosition = require('../models/DemoPosition');
+const { normalizeExitPlan } = require('../utils/exitManagement');
+const { simulateExitFill, recordExitFees } = require('../utils/fillModel');
 
 // Helper function to fetch current price
 const fetchCurrentPrice = async (symbol) => {
@@ -16,16 +19,82 @@ const fetchCurrentPrice = async (symbol) => {
   }
 };
 
-// Get demo account for user
-router.get('/:userId', async (req, res) => {
-  const account = await DemoAccount.findOne({ user: req.params.userId })
+// The account a request works on: the one named by ?accountId=, otherwise
+// the user's oldest account
+const findAccount = async (userId, accountId) => {
+  if (accountId) {
+    if (!mongoose.isValidObjectId(accountId)) return null;
+    return DemoAccount.findOne({ _id: accountId, user: userId });
+  }
+  return DemoAccount.findOne({ user: userId }).sort({ createdAt: 1 });
+};
+
+const findPopulatedAccount = (accountId) => DemoAccount.findById(accountId)
+  .populate('openPositions')
+  .populate('tradeHistory');
+
+// List all demo accounts of a user, oldest first, with positions and history
+router.get('/:userId/accounts', async (req, res) => {
+  const accounts = await DemoAccount.find({ user: req.params.userId })
+    .sort({ createdAt: 1 })
     .populate('openPositions')
     .populate('tradeHistory');
-  if (!account) return res.status(404).json({ msg: 'No demo account found' });
+  res.json(accounts);
+});
+
+// Create another named demo account for user
+router.post('/:userId/accounts', async (req, res) => {
+  const name = (req.body.name || '').trim();
+  const balance = Number(req.body.balance) || 100000;
+  if (!name) return res.status(400).json({ msg: 'Account name is required' });
+  if (await DemoAccount.exists({ user: req.params.userId, name })) {
+    return res.status(400).json({ msg: `An account named "${name}" already exists` });
+  }
+  const account = await DemoAccount.create({
+    user: req.params.userId,
+    name,
+    description: req.body.description,
+    balance,
+    startingBalance: balance,
+  });
   res.json(account);
 });
 
-// Create demo account for user
+// Rename a demo account or change its description
+router.patch('/:userId/accounts/:accountId', async (req, res) => {
+  const account = await findAccount(req.params.userId, req.params.accountId);
+  if (!account) return res.status(404).json({ msg: 'No demo account found' });
+  const name = req.body.name?.trim();
+  if (name && name !== account.name) {
+    if (await DemoAccount.exists({ user: req.params.userId, name })) {
+      return res.status(400).json({ msg: `An account named "${name}" already exists` });
+    }
+    account.name = name;
+  }
+  if (req.body.description !== undefined) account.description = req.body.description;
+  await account.save();
+  res.json(await findPopulatedAccount(account._id));
+});
+
+// Delete a demo account and its open positions; the last account cannot go
+router.delete('/:userId/accounts/:accountId', async (req, res) => {
+  const account = await findAccount(req.params.userId, req.params.accountId);
+  if (!account) return res.status(404).json({ msg: 'No demo account found' });
+  const count = await DemoAccount.countDocuments({ user: req.params.userId });
+  if (count <= 1) return res.status(400).json({ msg: 'Cannot delete the only demo account' });
+  await DemoPosition.deleteMany({ _id: { $in: account.openPositions } });
+  await account.deleteOne();
+  res.json({ deleted: account._id });
+});
+
+// Get demo account for user
+router.get('/:userId', async (req, res) => {
+  const account = await findAccount(req.params.userId, req.query.accountId);
+  if (!account) return res.status(404).json({ msg: 'No demo account found' });
+  res.json(await findPopulatedAccount(account._id));
+});
+
+// Create the first demo account for user
 router.post('/:userId', async (req, res) => {
   let account = await DemoAccount.findOne({ user: req.params.userId });
   if (account) return res.status(400).json({ msg: 'Demo account already exists' });
@@ -36,9 +105,10 @@ router.post('/:userId', async (req, res) => {
 // Reset demo account for user
 router.patch('/:userId/reset', async (req, res) => {
   const { balance } = req.body;
-  const account = await DemoAccount.findOne({ user: req.params.userId });
+  const account = await findAccount(req.params.userId, req.query.accountId);
   if (!account) return res.status(404).json({ msg: 'No demo account found' });
   account.balance = balance || 100000;
+  account.startingBalance = account.balance;
   account.openPositions = [];
   account.tradeHistory = [];
   await account.save();
@@ -47,13 +117,20 @@ router.patch('/:userId/reset', async (req, res) => {
 
 // Create a new demo position for user
 router.post('/:userId/positions', async (req, res) => {
-  const { symbol, direction, quantity, entryPrice, targetPrice, stopLoss, signalId, market, timeframe } = req.body;
-  const account = await DemoAccount.findOne({ user: req.params.userId });
+  const {
+    symbol, direction, quantity, entryPrice, targetPrice, stopLoss, signalId, market, timeframe,
+    quotedEntryPrice, fillModel, fees,
+  } = req.body;
+  const account = await findAccount(req.params.userId, req.query.accountId);
   if (!account) return res.status(404).json({ msg: 'No demo account found' });
 
+  const { plan: exitPlan, error } = normalizeExitPlan(req.body.exitPlan, { direction, entryPrice });
+  if (error) return res.status(400).json({ msg: error });
+
   // Create the position
   const position = await DemoPosition.create({
     user: req.params.userId,
+    account: account._id,
     symbol,
     type: direction,
     quantity,
@@ -64,36 +141,93 @@ router.post('/:userId/positions', async (req, res) => {
     signalId,
     market,
     timeframe,
+    exitPlan,
+    quotedEntryPrice: quotedEntryPrice ?? entryPrice,
+    fillModel,
+    fees: {
+      entryCommission: Number(fees?.entryCommission) || 0,
+      spreadCost: Number(fees?.spreadCost) || 0,
+      slippageCost: Number(fees?.slippageCost) || 0,
+    },
+    activeStop: stopLoss,
+    bestPrice: entryPrice,
+    initialQuantity: quantity,
     openedAt: new Date(),
     status: 'open',
   });
 
-  // Add to account's openPositions
+  // Add to account's openPositions; the entry commission is paid up front
   account.openPositions.push(position._id);
+  account.balance = Number(account.balance) - position.fees.entryCommission;
   await account.save();
 
   // Return the updated account with populated openPositions
-  const updatedAccount = await DemoAccount.findOne({ user: req.params.userId })
-    .populate('openPositions')
-    .populate('tradeHistory');
-  res.json(updatedAccount);
+  res.json(await findPopulatedAccount(account._id));
 });
 
 // Get all open positions for a user's demo account
 router.get('/:userId/positions', async (req, res) => {
-  const account = await DemoAccount.findOne({ user: req.params.userId }).populate('openPositions');
+  const account = await findAccount(req.params.userId, req.query.accountId);
   if (!account) return res.status(404).json({ msg: 'No demo account found' });
+  await account.populate('openPositions');
   res.json(account.openPositions);
 });
 
+// Update the stop, target and exit plan of an open position
+router.patch('/:userId/positions/:positionId/exit-plan', async (req, res) => {
+  try {
+    const { userId, positionId } = req.params;
+    const account = await findAccount(userId, req.query.accountId);
+    if (!account) return res.status(404).json({ msg: 'No demo account found' });
+    if (!account.openPositions.some(id => id.toString() === positionId)) {
+      return res.status(404).json({ msg: 'Position not found' });
+    }
+
+    const position = await DemoPosition.findById(positionId);
+    if (!position) return res.status(404).json({ msg: 'Position not found' });
+
+    const direction = position.type || position.direction;
+    const { plan, error } = normalizeExitPlan(req.body.exitPlan, { direction, entryPrice: position.entryPrice });
+    if (error) return res.status(400).json({ msg: error });
+
+    // Levels that already filled stay filled
+    const filledPrices = (position.exitPlan?.takeProfitLevels || [])
+      .filter(level => level.filled)
+      .map(level => level.price);
+    (plan?.takeProfitLevels || []).forEach(level => {
+      if (filledPrices.includes(level.price)) level.filled = true;
+    });
+
+    const { stopLoss, targetPrice } = req.body;
+    if (targetPrice !== undefined) position.targetPrice = targetPrice;
+    // Resending the stop in force keeps trailing and break-even progress
+    const unchangedStop = [position.stopLoss, position.activeStop]
+      .some(stop => stop !== undefined && stop !== null && Number(stop) === Number(stopLoss));
+    if (stopLoss !== undefined && !unchangedStop) {
+      position.stopLoss = stopLoss;
+      position.activeStop = stopLoss;
+      position.stopReason = 'initial';
+    }
+    position.exitPlan = plan;
+    if (position.initialQuantity === undefined || position.initialQuantity === null) {
+      position.initialQuantity = position.quantity;
+    }
+    await position.save();
+
+    res.json(await findPopulatedAccount(account._id));
+  } catch (err) {
+    console.error('❌ Error updating exit plan:', err);
+    res.status(500).json({ msg: 'Failed to update exit plan', error: err.message });
+  }
+});
+
 // Close a single open position
 router.patch('/:userId/positions/:positionId/close', async (req, res) => {
   try {
     const { userId, positionId } = req.params;
-    const account = await DemoAccount.findOne({ user: userId })
-      .populate('openPositions')
-      .populate('tradeHistory');
+    const account = await findAccount(userId, req.query.accountId);
     if (!account) return res.status(404).json({ msg: 'No demo account found' });
+    await account.populate(['openPositions', 'tradeHistory']);
 
     // Find the position
     const positionIndex = account.openPositions.findIndex(
@@ -107,6 +241,7 @@ router.patch('/:userId/positions/:positionId/close', async (req, res) => {
     // 🔥 FETCH CURRENT PRICE BEFORE CLOSING
     const livePrice = await fetchCurrentPrice(position.symbol);
     const currentPrice = livePrice || position.currentPrice || position.entryPrice;
+    const exitFill = simulateExitFill(position, currentPrice, Number(position.quantity));
     
     const entryPrice = Number(position.entryPrice);
     const quantity = Number(position.quantity);
@@ -116,29 +251,31 @@ router.patch('/:userId/positions/:positionId/close', async (req, res) => {
     console.log(`  - Entry Price: ${entryPrice}`);
     console.log(`  - Live Price: ${livePrice}`);
     console.log(`  - Current Price (used): ${currentPrice}`);
+    console.log(`  - Exit Fill: ${exitFill.price} (commission ${exitFill.commission})`);
     console.log(`  - Quantity: ${quantity}`);
     console.log(`  - Type: ${positionType}`);
 
     // Calculate P&L
     let pnl = 0;
     if (positionType === 'BUY') {
-      pnl = (currentPrice - entryPrice) * quantity;
-      console.log(`  - BUY P&L: (${currentPrice} - ${entryPrice}) * ${quantity} = ${pnl}`);
+      pnl = (exitFill.price - entryPrice) * quantity;
+      console.log(`  - BUY P&L: (${exitFill.price} - ${entryPrice}) * ${quantity} = ${pnl}`);
     } else if (positionType === 'SELL') {
-      pnl = (entryPrice - currentPrice) * quantity;
-      console.log(`  - SELL P&L: (${entryPrice} - ${currentPrice}) * ${quantity} = ${pnl}`);
+      pnl = (entryPrice - exitFill.price) * quantity;
+      console.log(`  - SELL P&L: (${entryPrice} - ${exitFill.price}) * ${quantity} = ${pnl}`);
     }
 
     console.log(`  - Old Balance: ${account.balance}`);
 
     // 🔥 KEY FIX: Add P&L to account balance
-    account.balance = Number(account.balance) + Number(pnl);
+    account.balance = Number(account.balance) + Number(pnl) - exitFill.commission;
 
     console.log(`  - New Balance: ${account.balance}`);
 
-    // Update position with live price and P&L
-    position.currentPrice = currentPrice;
-    position.pnl = pnl;
+    // Update position with live price and P&L, including earlier partial closes
+    position.currentPrice = exitFill.price;
+    position.pnl = pnl + Number(position.realizedPnl || 0);
+    recordExitFees(position, exitFill);
     position.status = 'closed';
     position.closedAt = new Date();
     
@@ -152,10 +289,7 @@ router.patch('/:userId/positions/:positionId/close', async (req, res) => {
     await account.save();
 
     // Return updated account
-    const updatedAccount = await DemoAccount.findOne({ user: userId })
-      .populate('openPositions')
-      .populate('tradeHistory');
-    res.json(updatedAccount);
+    res.json(await findPopulatedAccount(account._id));
   } catch (err) {
     console.error('❌ Error closing position:', err);
     res.status(500).json({ msg: 'Failed to close position', error: err.message });
@@ -166,10 +300,9 @@ router.patch('/:userId/positions/:positionId/close', async (req, res) => {
 router.patch('/:userId/positions/close-all', async (req, res) => {
   try {
     const { userId } = req.params;
-    const account = await DemoAccount.findOne({ user: userId })
-      .populate('openPositions')
-      .populate('tradeHistory');
+    const account = await findAccount(userId, req.query.accountId);
     if (!account) return res.status(404).json({ msg: 'No demo account found' });
+    await account.populate(['openPositions', 'tradeHistory']);
 
     console.log(`💰 Closing all positions for user ${userId}`);
     console.log(`  Old Balance: ${account.balance}`);
@@ -180,6 +313,7 @@ router.patch('/:userId/positions/close-all', async (req, res) => {
       // 🔥 FETCH CURRENT PRICE BEFORE CLOSING
       const livePrice = await fetchCurrentPrice(position.symbol);
       const currentPrice = livePrice || position.currentPrice || position.entryPrice;
+      const exitFill = simulateExitFill(position, currentPrice, Number(position.quantity));
       
       const entryPrice = Number(position.entryPrice);
       const quantity = Number(position.quantity);
@@ -189,25 +323,27 @@ router.patch('/:userId/positions/close-all', async (req, res) => {
       console.log(`  - Entry Price: ${entryPrice}`);
       console.log(`  - Live Price: ${livePrice}`);
       console.log(`  - Current Price (used): ${currentPrice}`);
+      console.log(`  - Exit Fill: ${exitFill.price} (commission ${exitFill.commission})`);
       console.log(`  - Quantity: ${quantity}`);
       console.log(`  - Type: ${positionType}`);
 
       let pnl = 0;
       if (positionType === 'BUY') {
-        pnl = (currentPrice - entryPrice) * quantity;
-        console.log(`  - BUY P&L: (${currentPrice} - ${entryPrice}) * ${quantity} = ${pnl}`);
+        pnl = (exitFill.price - entryPrice) * quantity;
+        console.log(`  - BUY P&L: (${exitFill.price} - ${entryPrice}) * ${quantity} = ${pnl}`);
       } else if (positionType === 'SELL') {
-        pnl = (entryPrice - currentPrice) * quantity;
-        console.log(`  - SELL P&L: (${entryPrice} - ${currentPrice}) * ${quantity} = ${pnl}`);
+        pnl = (entryPrice - exitFill.price) * quantity;
+        console.log(`  - SELL P&L: (${entryPrice} - ${exitFill.price}) * ${quantity} = ${pnl}`);
       }
 
-      totalPnL += pnl;
+      totalPnL += pnl - exitFill.commission;
 
       console.log(`  ${position.symbol}: P&L = ${pnl}`);
 
-      // Update position with live price and P&L
-      position.currentPrice = currentPrice;
-      position.pnl = pnl;
+      // Update position with live price and P&L, including earlier partial closes
+      position.currentPrice = exitFill.price;
+      position.pnl = pnl + Number(position.realizedPnl || 0);
+      recordExitFees(position, exitFill);
       position.status = 'closed';
       position.closedAt = new Date();
       
@@ -226,10 +362,7 @@ router.patch('/:userId/positions/close-all', async (req, res) => {
     account.openPositions = [];
     await account.save();
 
-    const updatedAccount = await DemoAccount.findOne({ user: userId })
-      .populate('openPositions')
-      .populate('tradeHistory');
-    res.json(updatedAccount);
+    res.json(await findPopulatedAccount(account._id));
   } catch (err) {
     console.error('❌ Error closing all positions:', err);
     res.status(500).json({ msg: 'Failed to close all positions', error: err.message });
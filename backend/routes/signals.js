@@ -1,19 +1,120 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const router = express.Router();
 const Signal = require('../models/Signal'); // Assuming you have a Signal model
+const SignalAnnotation = require('../models/SignalAnnotation');
 
-// Get all signals
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Cursors point just past the last signal of a page, as "<createdAt ms>_<id>"
+const encodeCursor = (signal) => `${new Date(signal.createdAt).getTime()}_${signal._id}`;
+
+const decodeCursor = (cursor) => {
+  const [time, id] = String(cursor).split('_');
+  const createdAt = new Date(Number(time));
+  if (Number.isNaN(createdAt.getTime()) || !mongoose.isValidObjectId(id)) return null;
+  return { createdAt, id: new mongoose.Types.ObjectId(id) };
+};
+
+// Get signals, newest first, one page at a time. ?status= takes a comma
+// separated list; ?cursor= continues from the previous page's nextCursor.
 router.get('/', async (req, res) => {
   try {
-    const signals = await Signal.find({ status: 'active' })
-      .sort({ createdAt: -1 })
-      .limit(50);
-    res.json(signals);
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const query = {};
+    if (req.query.status && req.query.status !== 'all') {
+      query.status = { $in: String(req.query.status).split(',') };
+    }
+    if (req.query.market) {
+      query.market = req.query.market;
+    }
+    if (req.query.cursor) {
+      const cursor = decodeCursor(req.query.cursor);
+      if (!cursor) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+      query.$or = [
+        { createdAt: { $lt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $lt: cursor.id } },
+      ];
+    }
+
+    // One extra row tells us whether another page exists
+    const rows = await Signal.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1);
+    const signals = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    res.json({
+      signals,
+      nextCursor: hasMore ? encodeCursor(signals[signals.length - 1]) : null,
+      hasMore,
+    });
   } catch (error) {
     res.status(500).json({ message: 'Failed to fetch signals', error: error.message });
   }
 });
 
+// Get a user's stars, notes and tags on signals
+router.get('/annotations/:userId', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.userId)) {
+      return res.status(400).json({ message: 'Invalid user id' });
+    }
+    const annotations = await SignalAnnotation.find({ user: req.params.userId }).sort({ updatedAt: -1 });
+    res.json(annotations);
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to fetch signal annotations', error: error.message });
+  }
+});
+
+// Set a user's star, note and tags on a signal. An annotation left with
+// nothing in it is removed.
+router.put('/annotations/:userId/:signalId', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.userId)) {
+      return res.status(400).json({ message: 'Invalid user id' });
+    }
+    const { starred = false, note = '', tags = [] } = req.body;
+    const cleanTags = Array.isArray(tags)
+      ? [...new Set(tags.map(tag => String(tag).trim()).filter(Boolean))]
+      : [];
+    const filter = { user: req.params.userId, signalId: req.params.signalId };
+
+    if (!starred && !String(note).trim() && cleanTags.length === 0) {
+      await SignalAnnotation.deleteOne(filter);
+      return res.json({ signalId: req.params.signalId, starred: false, note: '', tags: [], deleted: true });
+    }
+
+    const annotation = await SignalAnnotation.findOneAndUpdate(
+      filter,
+      { starred: !!starred, note: String(note), tags: cleanTags, updatedAt: new Date() },
+      { new: true, upsert: true, runValidators: true }
+    );
+    res.json(annotation);
+  } catch (error) {
+    res.status(400).json({ message: 'Failed to save signal annotation', error: error.message });
+  }
+});
+
+// Get a single signal, whatever its status, so shared links keep working
+router.get('/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Signal not found' });
+    }
+    const signal = await Signal.findById(req.params.id);
+    if (!signal) {
+      return res.status(404).json({ message: 'Signal not found' });
+    }
+    res.json(signal);
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to fetch signal', error: error.message });
+  }
+});
+
 // Create new signal
 router.post('/', async (req, res) => {
   try {
@@ -25,6 +126,77 @@ router.post('/', async (req, res) => {
   }
 });
 
+// Checks a manual signal's levels sit on the right side of entry: a BUY has
+// its stop below and target above, a SELL the reverse
+const validateManualSignal = (body) => {
+  const errors = [];
+  const entry = Number(body.entryPrice);
+  const target = Number(body.targetPrice);
+  const stop = Number(body.stopLoss);
+  const buy = body.type === 'BUY';
+
+  if (!body.symbol || typeof body.symbol !== 'string') errors.push('Symbol is required');
+  if (body.type !== 'BUY' && body.type !== 'SELL') errors.push('Type must be BUY or SELL');
+  if (!(entry > 0) || !(target > 0) || !(stop > 0)) errors.push('Entry, target and stop must be positive');
+  else {
+    if (buy ? stop >= entry : stop <= entry) errors.push(`Stop loss must be ${buy ? 'below' : 'above'} entry`);
+    if (buy ? target <= entry : target >= entry) errors.push(`Target must be ${buy ? 'above' : 'below'} entry`);
+  }
+  const confidence = Number(body.confidence);
+  if (!(confidence >= 0 && confidence <= 100)) errors.push('Confidence must be between 0 and 100');
+  if (!(new Date(body.expiresAt).getTime() > Date.now())) errors.push('Expiry must be in the future');
+  return errors;
+};
+
+// Publish an analyst's own signal to everyone alongside the ML signals
+router.post('/custom', async (req, res) => {
+  try {
+    const errors = validateManualSignal(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: errors.join('; '), errors });
+    }
+
+    const signal = await Signal.create({
+      ...req.body,
+      symbol: req.body.symbol.trim().toUpperCase(),
+      source: 'manual',
+      status: 'active',
+      createdAt: new Date(),
+    });
+    if (typeof req.app.locals.broadcastSignal === 'function') {
+      req.app.locals.broadcastSignal(signal);
+    }
+    res.status(201).json(signal);
+  } catch (error) {
+    res.status(400).json({ message: 'Failed to create signal', error: error.message });
+  }
+});
+
+const SIGNAL_STATUSES = ['active', 'executed', 'expired', 'cancelled'];
+
+// Set a signal's status, e.g. when a client sees it expire
+router.patch('/:id/status', async (req, res) => {
+  try {
+    if (!SIGNAL_STATUSES.includes(req.body.status)) {
+      return res.status(400).json({ message: `Status must be one of ${SIGNAL_STATUSES.join(', ')}` });
+    }
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Signal not found' });
+    }
+    const signal = await Signal.findByIdAndUpdate(
+      req.params.id,
+      { status: req.body.status },
+      { new: true }
+    );
+    if (!signal) {
+      return res.status(404).json({ message: 'Signal not found' });
+    }
+    res.json(signal);
+  } catch (error) {
+    res.status(400).json({ message: 'Failed to update signal status', error: error.message });
+  }
+});
+
 // Update signal status
 router.patch('/:id', async (req, res) => {
   try {
@@ -0,0 +1,150 @@
+// Exit management for demo positions: trailing stops, breakeven moves and
+// scale-out take-profit ladders. Pure functions only, shared by the position
+// monitor and the demo account routes.
+
+const STOP_CLOSURE_TYPES = {
+  initial: 'stop_loss',
+  breakeven: 'breakeven_stop',
+  trailing: 'trailing_stop',
+};
+
+const isLong = (position) => (position.type || position.direction || 'BUY') === 'BUY';
+
+// The tighter of two stops never gives back protection already gained
+const tighterStop = (long, current, candidate) => {
+  if (current === undefined || current === null) return candidate;
+  return long ? Math.max(current, candidate) : Math.min(current, candidate);
+};
+
+const calculatePnl = (long, entryPrice, exitPrice, quantity) =>
+  (long ? exitPrice - entryPrice : entryPrice - exitPrice) * quantity;
+
+/**
+ * Validate an exit plan from a request body. Returns { plan } or { error }.
+ */
+function normalizeExitPlan(input, { direction, entryPrice }) {
+  if (!input) return { plan: undefined };
+
+  const long = (direction || 'BUY') === 'BUY';
+  const plan = {};
+
+  if (input.trailing && input.trailing.mode) {
+    const { mode, value, atr } = input.trailing;
+    if (!['percent', 'atr'].includes(mode)) {
+      return { error: `Unknown trailing stop mode "${mode}"` };
+    }
+    if (!(Number(value) > 0)) {
+      return { error: 'Trailing stop distance must be positive' };
+    }
+    if (mode === 'atr' && !(Number(atr) > 0)) {
+      return { error: 'ATR trailing stops need the ATR at entry' };
+    }
+    plan.trailing = { mode, value: Number(value), ...(mode === 'atr' && { atr: Number(atr) }) };
+  }
+
+  if (input.breakevenTriggerPercent !== undefined && input.breakevenTriggerPercent !== null) {
+    const trigger = Number(input.breakevenTriggerPercent);
+    if (!(trigger > 0)) return { error: 'Breakeven trigger must be a positive percentage' };
+    plan.breakevenTriggerPercent = trigger;
+  }
+
+  if (Array.isArray(input.takeProfitLevels) && input.takeProfitLevels.length > 0) {
+    const levels = input.takeProfitLevels.map(level => ({
+      price: Number(level.price),
+      closePercent: Number(level.closePercent),
+      filled: Boolean(level.filled),
+    }));
+    if (levels.some(level => !(level.price > 0) || !(level.closePercent > 0))) {
+      return { error: 'Take-profit levels need a positive price and close percentage' };
+    }
+    const total = levels.reduce((sum, level) => sum + level.closePercent, 0);
+    if (total > 100) return { error: 'Take-profit levels close more than 100% of the position' };
+    if (entryPrice && levels.some(level => (long ? level.price <= entryPrice : level.price >= entryPrice))) {
+      return { error: 'Take-profit levels must be on the profitable side of the entry' };
+    }
+    // Nearest target first
+    plan.takeProfitLevels = levels.sort((a, b) => (long ? a.price - b.price : b.price - a.price));
+  }
+
+  return { plan };
+}
+
+/**
+ * Work out what a new price does to a position: where the stop moves to,
+ * which take-profit levels fill and whether the rest of the position exits.
+ *
+ * Returns { bestPrice, activeStop, stopReason, fills: [{ levelIndex, price, quantity }], exit }
+ * where exit is null or the closure type for the remaining quantity.
+ */
+function evaluateExitPlan(position, price) {
+  const long = isLong(position);
+  const plan = position.exitPlan || {};
+  const entryPrice = Number(position.entryPrice);
+  const previousBest = position.bestPrice ?? entryPrice;
+  const bestPrice = long ? Math.max(previousBest, price) : Math.min(previousBest, price);
+
+  let activeStop = position.activeStop ?? position.stopLoss ?? null;
+  let stopReason = position.stopReason || 'initial';
+
+  if (plan.breakevenTriggerPercent > 0 && entryPrice > 0) {
+    const favorableMove = ((long ? bestPrice - entryPrice : entryPrice - bestPrice) / entryPrice) * 100;
+    if (favorableMove >= plan.breakevenTriggerPercent) {
+      const next = tighterStop(long, activeStop, entryPrice);
+      if (next !== activeStop) {
+        activeStop = next;
+        stopReason = 'breakeven';
+      }
+    }
+  }
+
+  if (plan.trailing && plan.trailing.value > 0) {
+    const distance = plan.trailing.mode === 'atr'
+      ? (plan.trailing.atr || 0) * plan.trailing.value
+      : bestPrice * (plan.trailing.value / 100);
+    if (distance > 0) {
+      const next = tighterStop(long, activeStop, long ? bestPrice - distance : bestPrice + distance);
+      if (next !== activeStop) {
+        activeStop = next;
+        stopReason = 'trailing';
+      }
+    }
+  }
+
+  const result = { bestPrice, activeStop, stopReason, fills: [], exit: null };
+
+  if (activeStop !== null && (long ? price <= activeStop : price >= activeStop)) {
+    result.exit = STOP_CLOSURE_TYPES[stopReason];
+    return result;
+  }
+
+  const levels = plan.takeProfitLevels || [];
+  if (levels.length > 0) {
+    const initialQuantity = Number(position.initialQuantity ?? position.quantity);
+    let remaining = Number(position.quantity);
+
+    levels.forEach((level, levelIndex) => {
+      if (level.filled || result.exit) return;
+      if (long ? price < level.price : price > level.price) return;
+
+      const quantity = Math.min(remaining, initialQuantity * (level.closePercent / 100));
+      // A fill that would leave dust behind closes the whole position instead
+      if (remaining - quantity <= initialQuantity * 1e-6) {
+        result.exit = 'take_profit';
+        return;
+      }
+      result.fills.push({ levelIndex, price, quantity });
+      remaining -= quantity;
+    });
+  } else if (position.targetPrice && (long ? price >= position.targetPrice : price <= position.targetPrice)) {
+    result.exit = 'take_profit';
+  }
+
+  return result;
+}
+
+module.exports = {
+  normalizeExitPlan,
+  evaluateExitPlan,
+  calculatePnl,
+  isLong,
+};
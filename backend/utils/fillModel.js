@@ -0,0 +1,50 @@
+// Exit fills for demo positions. The client prices the entry from the live
+// bid/ask and stores the cost schedule on the position; exits reuse it here.
+// Positions opened before fill simulation have no schedule and exit at cost.
+
+const { isLong } = require('./exitManagement');
+
+/**
+ * Fill for closing `quantity` of a position at the last traded `price`. Longs
+ * sell at the bid and shorts buy at the ask, half the entry spread away from
+ * the last price, then slip by the schedule's basis points.
+ *
+ * Returns { price, commission, spreadCost, slippageCost }.
+ */
+function simulateExitFill(position, price, quantity) {
+  const model = position.fillModel || {};
+  const long = isLong(position);
+  // Closing a long sells into the bid, closing a short buys from the ask
+  const direction = long ? -1 : 1;
+
+  const halfSpread = (Number(model.spread) || 0) / 2;
+  const slippage = price * ((Number(model.slippageBps) || 0) / 10000);
+  const fillPrice = price + direction * (halfSpread + slippage);
+  const notional = fillPrice * quantity;
+  const commission = notional > 0
+    ? Math.max(notional * ((Number(model.commissionPercent) || 0) / 100), Number(model.minCommission) || 0)
+    : 0;
+
+  return {
+    price: fillPrice,
+    commission,
+    spreadCost: halfSpread * quantity,
+    slippageCost: slippage * quantity,
+  };
+}
+
+// Adds an exit fill's costs to the position's running fee totals
+function recordExitFees(position, fill) {
+  const fees = position.fees || {};
+  position.fees = {
+    entryCommission: Number(fees.entryCommission) || 0,
+    exitCommission: (Number(fees.exitCommission) || 0) + fill.commission,
+    spreadCost: (Number(fees.spreadCost) || 0) + fill.spreadCost,
+    slippageCost: (Number(fees.slippageCost) || 0) + fill.slippageCost,
+  };
+}
+
+module.exports = {
+  simulateExitFill,
+  recordExitFees,
+};
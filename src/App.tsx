@@ -6,6 +6,14 @@ import { store } from './store';
 import { useAppDispatch, useAppSelector } from './hooks/redux';
 import useWebSocket from './hooks/useWebSocket';
 import useSignalNotifications from './hooks/useSignalNotifications';
+import usePendingOrders from './hooks/usePendingOrders';
+import useSignalOutcomes from './hooks/useSignalOutcomes';
+import useScreenerAlerts from './hooks/useScreenerAlerts';
+import useSignalAnnotations from './hooks/useSignalAnnotations';
+import useSignalExpiry from './hooks/useSignalExpiry';
+import useOfflineStore from './hooks/useOfflineStore';
+import useWatchlists from './hooks/useWatchlists';
+import usePriceAlerts from './hooks/usePriceAlerts';
 import autoTradeService from './services/autoTradeService';
 import signalCacheService from './services/signalCacheService';
 import errorHandlingService from './services/errorHandlingService';
@@ -14,6 +22,7 @@ import './chartConfig';
 // Components
 import Navbar from './components/Layout/Navbar';
 import Footer from './components/Layout/Footer';
+import OfflineBanner from './components/Layout/OfflineBanner';
 import LoadingSpinner from './components/UI/LoadingSpinner';
 
 // Pages
@@ -21,8 +30,11 @@ import Dashboard from './pages/Dashboard';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Signals from './pages/Signals';
+import SignalDetail from './pages/SignalDetail';
+import Market from './pages/Market';
 import Portfolio from './pages/Portfolio';
 import Settings from './pages/Settings';
+import Alerts from './pages/Alerts';
 
 // Auth actions
 import { checkAuthStatus } from './store/slices/authSlice';
@@ -64,7 +76,8 @@ const AppContent: React.FC = () => {
   const { loading, isAuthenticated } = useAppSelector((state) => state.auth);
 
   // WebSocket connection for real-time updates
-  const { isConnected, error: wsError } = useWebSocket({
+  const { isConnected, error: wsError, subscribe, unsubscribe } = useWebSocket({
+    replay: true,
     onSignalReceived: (signal) => {
       console.log('🎯 Signal received in App:', signal);
       // Cache the signal for performance
@@ -93,7 +106,31 @@ const AppContent: React.FC = () => {
   });
 
   // Signal notifications and auto-trade integration
-  useSignalNotifications();
+  const { handleSignalExpired, handleSignalExpiring } = useSignalNotifications();
+
+  // Fill and expire working orders of the demo account
+  usePendingOrders();
+
+  // Resolve signals to target, stop or expiry outcomes
+  useSignalOutcomes();
+
+  // Saved screeners and their new-signal alerts
+  useScreenerAlerts();
+
+  // The user's stars, notes and tags on signals
+  useSignalAnnotations();
+
+  // Named watchlists and the market data subscriptions they need
+  useWatchlists({ subscribe, unsubscribe });
+
+  // Price alerts on live market data
+  usePriceAlerts();
+
+  // Expire signals on time and warn before watched ones expire
+  useSignalExpiry({ onExpired: handleSignalExpired, onExpiring: handleSignalExpiring });
+
+  // Cached signals, candles and portfolio for reloads and offline use
+  useOfflineStore();
 
   useEffect(() => {
     dispatch(checkAuthStatus());
@@ -122,6 +159,7 @@ const AppContent: React.FC = () => {
     >
       <Navbar />
       <Box component="main" sx={{ flexGrow: 1, pt: { xs: 7, sm: 8 } }}>
+        <OfflineBanner />
         <Routes>
           {/* Public Routes */}
           <Route path="/" element={<PublicRoute><Login /></PublicRoute>} />
@@ -130,7 +168,11 @@ const AppContent: React.FC = () => {
           {/* Protected Routes */}
           <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
           <Route path="/signals" element={<ProtectedRoute><Signals /></ProtectedRoute>} />
+          <Route path="/signals/:id" element={<ProtectedRoute><SignalDetail /></ProtectedRoute>} />
+          <Route path="/markets" element={<ProtectedRoute><Market /></ProtectedRoute>} />
+          <Route path="/markets/:symbol" element={<ProtectedRoute><Market /></ProtectedRoute>} />
           <Route path="/portfolio" element={<ProtectedRoute><Portfolio /></ProtectedRoute>} />
+          <Route path="/alerts" element={<ProtectedRoute><Alerts /></ProtectedRoute>} />
           <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
 
           {/* Catch-all route */}
@@ -39,7 +39,7 @@ const Navbar = () => {
   const handleClose = () => setAnchorEl(null);
 
   // Helper for active link styling
-  const isActive = (path: string) => location.pathname === path;
+  const isActive = (path: string) => location.pathname === path || location.pathname.startsWith(`${path}/`);
 
   return (
     <AppBar
@@ -95,6 +95,19 @@ const Navbar = () => {
           >
             Signals
           </Button>
+          <Button
+            component={Link}
+            to="/markets"
+            color="inherit"
+            sx={{
+              fontWeight: isActive('/markets') ? 'bold' : 'normal',
+              borderBottom: isActive('/markets') ? '2px solid #00d4aa' : 'none',
+              color: isActive('/markets') ? '#00d4aa' : 'inherit',
+              borderRadius: 0,
+            }}
+          >
+            Markets
+          </Button>
           <Button
             component={Link}
             to="/portfolio"
@@ -108,6 +121,19 @@ const Navbar = () => {
           >
             Portfolio
           </Button>
+          <Button
+            component={Link}
+            to="/alerts"
+            color="inherit"
+            sx={{
+              fontWeight: isActive('/alerts') ? 'bold' : 'normal',
+              borderBottom: isActive('/alerts') ? '2px solid #00d4aa' : 'none',
+              color: isActive('/alerts') ? '#00d4aa' : 'inherit',
+              borderRadius: 0,
+            }}
+          >
+            Alerts
+          </Button>
           <Button
             component={Link}
             to="/settings"
@@ -0,0 +1,31 @@
+import React, { useSyncExternalStore } from 'react';
+import { Alert, Button } from '@mui/material';
+import { CloudOff } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { fetchSignals } from '../../store/slices/signalSlice';
+import errorHandlingService from '../../services/errorHandlingService';
+
+const OfflineBanner: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const inFallbackMode = useSyncExternalStore(errorHandlingService.subscribe, errorHandlingService.isInFallbackMode);
+  const retrying = useAppSelector((state) => state.signals.loading.signals);
+
+  if (!inFallbackMode) return null;
+
+  return (
+    <Alert
+      severity="warning"
+      icon={<CloudOff />}
+      square
+      action={
+        <Button color="inherit" size="small" onClick={() => dispatch(fetchSignals({}))} disabled={retrying}>
+          {retrying ? 'Retrying...' : 'Retry'}
+        </Button>
+      }
+    >
+      Offline — showing cached data
+    </Alert>
+  );
+};
+
+export default OfflineBanner;
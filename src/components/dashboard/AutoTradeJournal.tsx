@@ -0,0 +1,248 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Chip,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+  IconButton,
+  Tooltip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Collapse,
+} from '@mui/material';
+import {
+  MenuBook,
+  FileDownload,
+  DeleteSweep,
+  KeyboardArrowDown,
+  KeyboardArrowUp,
+  CheckCircle,
+  Cancel,
+} from '@mui/icons-material';
+import autoTradeService, {
+  AutoTradeAction,
+  AutoTradeDecision,
+  filterDecisions,
+} from '../../services/autoTradeService';
+import { AUTO_TRADE_RULE_LABELS, AutoTradeRejectionCode } from '../../services/autoTradeRules';
+import { downloadFile, toCsv } from '../../utils/exportData';
+
+const ACTION_COLORS: Record<AutoTradeAction, 'success' | 'warning' | 'error'> = {
+  opened: 'success',
+  skipped: 'warning',
+  failed: 'error',
+};
+
+const PAGE_SIZE = 50;
+
+const DecisionRow: React.FC<{ decision: AutoTradeDecision }> = ({ decision }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <TableRow hover sx={{ '& > *': { borderBottom: open ? 'unset' : undefined } }}>
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setOpen(!open)}>
+            {open ? <KeyboardArrowUp fontSize="small" /> : <KeyboardArrowDown fontSize="small" />}
+          </IconButton>
+        </TableCell>
+        <TableCell>{new Date(decision.timestamp).toLocaleString()}</TableCell>
+        <TableCell>
+          <Typography variant="body2" fontWeight="bold">{decision.symbol}</Typography>
+          <Typography variant="caption" color="text.secondary">{decision.market}</Typography>
+        </TableCell>
+        <TableCell>
+          <Chip
+            label={decision.type}
+            size="small"
+            color={decision.type === 'BUY' ? 'success' : decision.type === 'SELL' ? 'error' : 'default'}
+            variant="outlined"
+          />
+        </TableCell>
+        <TableCell align="right">{decision.confidence}%</TableCell>
+        <TableCell>
+          <Chip label={decision.action} size="small" color={ACTION_COLORS[decision.action]} />
+          {decision.replay && <Chip label="replay" size="small" variant="outlined" sx={{ ml: 0.5 }} />}
+        </TableCell>
+        <TableCell>
+          <Typography variant="body2">
+            {decision.reason?.message || decision.error ||
+              (decision.positionId ? `Position ${decision.positionId}` : '')}
+          </Typography>
+          {decision.quantity !== undefined && (
+            <Typography variant="caption" color="text.secondary">
+              {decision.quantity.toFixed(6)} units · {decision.sizingMode}
+            </Typography>
+          )}
+        </TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell sx={{ py: 0 }} colSpan={7}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Box sx={{ py: 1, pl: 6 }}>
+              {decision.checks.map((check, index) => (
+                <Box key={`${check.code}-${index}`} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                  {check.passed
+                    ? <CheckCircle fontSize="small" color="success" />
+                    : <Cancel fontSize="small" color="error" />}
+                  <Typography variant="body2" sx={{ minWidth: 140 }}>
+                    {AUTO_TRADE_RULE_LABELS[check.code] || check.code}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">{check.message}</Typography>
+                </Box>
+              ))}
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+};
+
+const AutoTradeJournal: React.FC = () => {
+  const decisions = useSyncExternalStore(autoTradeService.subscribe, autoTradeService.getDecisions);
+  const [action, setAction] = useState<AutoTradeAction | ''>('');
+  const [reason, setReason] = useState<AutoTradeRejectionCode | ''>('');
+  const [symbol, setSymbol] = useState('');
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  const filtered = useMemo(
+    () => filterDecisions(decisions, {
+      action: action || undefined,
+      reason: reason || undefined,
+      symbol: symbol || undefined,
+    }),
+    [decisions, action, reason, symbol]
+  );
+
+  const handleExportJson = () => {
+    downloadFile(JSON.stringify(filtered, null, 2), 'auto-trade-journal.json', 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    const csv = toCsv(filtered, [
+      { header: 'timestamp', value: d => d.timestamp },
+      { header: 'signalId', value: d => d.signalId },
+      { header: 'symbol', value: d => d.symbol },
+      { header: 'market', value: d => d.market },
+      { header: 'type', value: d => d.type },
+      { header: 'confidence', value: d => d.confidence },
+      { header: 'action', value: d => d.action },
+      { header: 'reasonCode', value: d => d.reason?.code },
+      { header: 'reason', value: d => d.reason?.message || d.error },
+      { header: 'quantity', value: d => d.quantity },
+      { header: 'sizingMode', value: d => d.sizingMode },
+      { header: 'positionId', value: d => d.positionId },
+      {
+        header: 'checks',
+        value: d => d.checks.map(check => `${check.code}:${check.passed ? 'pass' : 'fail'}`).join('; '),
+      },
+    ]);
+    downloadFile(csv, 'auto-trade-journal.csv', 'text/csv');
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center' }}>
+            <MenuBook sx={{ mr: 1, color: 'primary.main' }} />
+            Auto-Trade Journal
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button size="small" startIcon={<FileDownload />} onClick={handleExportCsv} disabled={filtered.length === 0}>
+              CSV
+            </Button>
+            <Button size="small" startIcon={<FileDownload />} onClick={handleExportJson} disabled={filtered.length === 0}>
+              JSON
+            </Button>
+            <Tooltip title="Clear journal">
+              <span>
+                <IconButton size="small" onClick={() => autoTradeService.clearDecisions()} disabled={decisions.length === 0}>
+                  <DeleteSweep fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+          <TextField
+            size="small"
+            label="Symbol"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value)}
+          />
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Action</InputLabel>
+            <Select value={action} label="Action" onChange={(e) => setAction(e.target.value as AutoTradeAction | '')}>
+              <MenuItem value="">All</MenuItem>
+              <MenuItem value="opened">Opened</MenuItem>
+              <MenuItem value="skipped">Skipped</MenuItem>
+              <MenuItem value="failed">Failed</MenuItem>
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Failed Rule</InputLabel>
+            <Select value={reason} label="Failed Rule" onChange={(e) => setReason(e.target.value as AutoTradeRejectionCode | '')}>
+              <MenuItem value="">Any</MenuItem>
+              {Object.entries(AUTO_TRADE_RULE_LABELS).map(([code, label]) => (
+                <MenuItem key={code} value={code}>{label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+
+        {filtered.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {decisions.length === 0
+              ? 'No signals have been evaluated by auto-trade yet.'
+              : 'No journal entries match these filters.'}
+          </Typography>
+        ) : (
+          <TableContainer sx={{ maxHeight: 480 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell>Time</TableCell>
+                  <TableCell>Symbol</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell align="right">Confidence</TableCell>
+                  <TableCell>Action</TableCell>
+                  <TableCell>Details</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {filtered.slice(0, visible).map(decision => (
+                  <DecisionRow key={decision.id} decision={decision} />
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {filtered.length > visible && (
+          <Box sx={{ textAlign: 'center', mt: 1 }}>
+            <Button size="small" onClick={() => setVisible(prev => prev + PAGE_SIZE)}>
+              Show more ({filtered.length - visible} remaining)
+            </Button>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AutoTradeJournal;
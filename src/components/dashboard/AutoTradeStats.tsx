@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo, useSyncExternalStore } from 'react';
 import {
   Card,
   CardContent,
@@ -8,6 +8,9 @@ import {
   LinearProgress,
   Tooltip,
   IconButton,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material';
 import {
   TrendingUp,
@@ -22,9 +25,13 @@ import Grid from '@mui/material/Grid';
 import { useAppSelector } from '../../hooks/redux';
 import { selectPortfolioStats } from '../../store/slices/portfolioSlice';
 import autoTradeService from '../../services/autoTradeService';
+import { AUTO_TRADE_RULE_LABELS, AutoTradeRejectionCode } from '../../services/autoTradeRules';
 
 const AutoTradeStats: React.FC = () => {
   const stats = useAppSelector(selectPortfolioStats) as any; // Replace 'any' with the correct type if available
+  const decisions = useSyncExternalStore(autoTradeService.subscribe, autoTradeService.getDecisions);
+  const rejections = useMemo(() => decisions.filter(decision => decision.reason), [decisions]);
+  const rejectionsByReason = autoTradeService.getStats().rejectionsByReason;
   // Remove or comment out: const isEnabled = autoTradeService.isEnabled();
 
   const getWinRateColor = (rate: number) => {
@@ -198,6 +205,43 @@ const AutoTradeStats: React.FC = () => {
               </Box>
             </Box>
           </Grid>
+
+          {/* Skipped Signals */}
+          {rejections.length > 0 && (
+            <Grid size={{ xs: 12 }}>
+              <Box sx={{ mt: 1 }}>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1, display: 'flex', alignItems: 'center' }}>
+                  <Info sx={{ mr: 0.5, fontSize: '1rem' }} />
+                  Skipped Signals ({autoTradeService.getStats().skippedSignals})
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+                  {Object.entries(rejectionsByReason)
+                    .sort(([, a], [, b]) => (b || 0) - (a || 0))
+                    .map(([code, count]) => (
+                      <Chip
+                        key={code}
+                        label={`${AUTO_TRADE_RULE_LABELS[code as AutoTradeRejectionCode] || code}: ${count}`}
+                        size="small"
+                        color="warning"
+                        variant="outlined"
+                      />
+                    ))}
+                </Box>
+                <List dense disablePadding>
+                  {rejections.slice(0, 5).map(decision => (
+                    <ListItem key={decision.id} disableGutters>
+                      <ListItemText
+                        primary={`${decision.symbol} ${decision.type} · ${AUTO_TRADE_RULE_LABELS[decision.reason!.code] || decision.reason!.code}`}
+                        secondary={`${decision.reason!.message} · ${new Date(decision.timestamp).toLocaleTimeString()}`}
+                        primaryTypographyProps={{ variant: 'body2' }}
+                        secondaryTypographyProps={{ variant: 'caption' }}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Box>
+            </Grid>
+          )}
         </Grid>
       </CardContent>
     </Card>
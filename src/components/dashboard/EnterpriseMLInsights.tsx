@@ -4,6 +4,8 @@ import PsychologyIcon from '@mui/icons-material/Psychology';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import axios from 'axios';
+import { useAppSelector } from '../../hooks/redux';
+import { selectSignalStats } from '../../store/slices/signalSlice';
 
 interface EnterpriseSignal {
   id: string;
@@ -35,6 +37,9 @@ const EnterpriseMLInsights: React.FC = () => {
   const [recentSignals, setRecentSignals] = useState<EnterpriseSignal[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  // Accuracy comes from tracked signal outcomes, not the analytics endpoint
+  const stats = useAppSelector(selectSignalStats);
+  const modelAccuracy = stats.accuracy.byModel.filter(model => model.resolved > 0);
 
   useEffect(() => {
     const fetchAnalytics = async () => {
@@ -85,12 +90,37 @@ const EnterpriseMLInsights: React.FC = () => {
             </Box>
             <Divider sx={{ my: 2 }} />
             <Typography variant="subtitle2" gutterBottom>Performance</Typography>
-            <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+              <Chip label={`Win Rate: ${stats.winRate.toFixed(1)}%`} color="success" size="small" />
               <Chip label={`Avg Confidence: ${analytics.performance.averageConfidence}%`} color="primary" size="small" />
               <Chip label={`Latency: ${analytics.performance.averageLatency}`} color="info" size="small" />
               <Chip label={`Error Rate: ${analytics.performance.errorRate}`} color="error" size="small" />
             </Box>
             <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>Model Accuracy</Typography>
+            {modelAccuracy.length > 0 ? (
+              modelAccuracy.slice(0, 5).map(model => (
+                <Box key={model.key} sx={{ mb: 1.5 }}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <Typography variant="body2"><b>{model.key}</b></Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {model.hitRate.toFixed(0)}% hit rate ({model.targetHits} target, {model.stopHits} stop, {model.expiredFlat} expired)
+                    </Typography>
+                  </Box>
+                  <LinearProgress
+                    variant="determinate"
+                    value={model.hitRate}
+                    color={model.hitRate >= 50 ? 'success' : 'warning'}
+                  />
+                  <Typography variant="caption" color="text.secondary">
+                    Avg MFE {model.avgMfe.toFixed(2)}% · Avg MAE {model.avgMae.toFixed(2)}% · Avg return {model.avgReturn.toFixed(2)}%
+                  </Typography>
+                </Box>
+              ))
+            ) : (
+              <Typography variant="body2" color="text.secondary">No resolved signals yet</Typography>
+            )}
+            <Divider sx={{ my: 2 }} />
             <Typography variant="subtitle2" gutterBottom>Recent Signals</Typography>
             {recentSignals.length > 0 ? (
               <List dense>
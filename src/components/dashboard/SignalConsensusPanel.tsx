@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Chip,
+  Tooltip,
+  FormControlLabel,
+  Switch,
+  LinearProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { Groups, WarningAmber } from '@mui/icons-material';
+import { useAppSelector } from '../../hooks/redux';
+import { selectSignalConsensus } from '../../store/slices/signalSlice';
+import { ConsensusDirection } from '../../utils/signalConsensus';
+import { SignalSource, SignalType } from '../../types';
+
+const SOURCE_LABELS: Record<SignalSource, string> = {
+  ai: 'AI',
+  manual: 'Manual',
+  copy_trading: 'Copy Trading',
+  enterprise_ml: 'Enterprise ML',
+};
+
+const VOTE_COLORS: Record<SignalType, 'success' | 'error' | 'default'> = {
+  BUY: 'success',
+  SELL: 'error',
+  HOLD: 'default',
+};
+
+const DIRECTION_COLORS: Record<ConsensusDirection, 'success' | 'error' | 'default'> = {
+  BUY: 'success',
+  SELL: 'error',
+  NEUTRAL: 'default',
+};
+
+const SignalConsensusPanel: React.FC = () => {
+  const navigate = useNavigate();
+  const consensus = useAppSelector(selectSignalConsensus);
+  const [multiSourceOnly, setMultiSourceOnly] = useState(true);
+
+  const rows = useMemo(
+    () => (multiSourceOnly ? consensus.filter(group => group.votes.length > 1) : consensus),
+    [consensus, multiSourceOnly]
+  );
+  const conflicts = consensus.filter(group => group.conflict).length;
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center' }}>
+            <Groups sx={{ mr: 1, color: 'primary.main' }} />
+            Signal Consensus
+            {conflicts > 0 && (
+              <Chip
+                icon={<WarningAmber />}
+                label={`${conflicts} conflicting`}
+                size="small"
+                color="warning"
+                sx={{ ml: 1 }}
+              />
+            )}
+          </Typography>
+          <FormControlLabel
+            control={<Switch size="small" checked={multiSourceOnly} onChange={(e) => setMultiSourceOnly(e.target.checked)} />}
+            label="Multiple sources only"
+          />
+        </Box>
+
+        {rows.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            {multiSourceOnly
+              ? 'No symbol has active signals from more than one source.'
+              : 'No active signals.'}
+          </Typography>
+        ) : (
+          <TableContainer sx={{ maxHeight: 480 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Symbol</TableCell>
+                  <TableCell>Sources</TableCell>
+                  <TableCell>Net Direction</TableCell>
+                  <TableCell sx={{ minWidth: 140 }}>Agreement</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map(group => (
+                  <TableRow key={group.key} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="bold" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        {group.symbol}
+                        {group.conflict && (
+                          <Tooltip title={`${group.buySources} source(s) buy while ${group.sellSources} sell`}>
+                            <WarningAmber fontSize="small" color="warning" />
+                          </Tooltip>
+                        )}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {group.timeframe} · {group.market}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                        {group.votes.map(vote => (
+                          <Tooltip key={vote.source} title={`Created ${new Date(vote.createdAt).toLocaleString()}`}>
+                            <Chip
+                              label={`${SOURCE_LABELS[vote.source] || vote.source}: ${vote.type} ${vote.confidence}%`}
+                              size="small"
+                              color={VOTE_COLORS[vote.type]}
+                              variant="outlined"
+                              onClick={() => navigate(`/signals/${vote.signalId}`)}
+                            />
+                          </Tooltip>
+                        ))}
+                      </Box>
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={group.direction} size="small" color={DIRECTION_COLORS[group.direction]} />
+                      <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                        {group.netScore >= 0 ? '+' : ''}{group.netScore.toFixed(2)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <LinearProgress
+                          variant="determinate"
+                          value={group.agreement}
+                          color={group.conflict ? 'warning' : 'primary'}
+                          sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+                        />
+                        <Typography variant="caption">{group.agreement.toFixed(0)}%</Typography>
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SignalConsensusPanel;
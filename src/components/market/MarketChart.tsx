@@ -0,0 +1,258 @@
+import React, { useMemo } from 'react';
+import { Chart } from 'react-chartjs-2';
+import type { ChartData as ChartJsData, ChartDataset, ChartOptions, ScaleOptions, TooltipItem } from 'chart.js';
+import { Box, Typography, useTheme } from '@mui/material';
+import { ChartData } from '../../store/slices/marketSlice';
+import {
+  IndicatorSeries,
+  bollingerSeries,
+  emaSeries,
+  macdSeries,
+  rsiSeries,
+  smaSeries,
+  vwapSeries,
+} from '../../utils/indicators';
+
+export type MarketOverlay = 'sma' | 'ema' | 'bollinger' | 'vwap';
+export type MarketPane = 'rsi' | 'macd';
+
+export const SMA_PERIOD = 20;
+export const EMA_PERIOD = 50;
+
+interface MarketChartProps {
+  candles: ChartData[];
+  overlays: MarketOverlay[];
+  panes: MarketPane[];
+  height?: number;
+}
+
+// Every pane reserves the same axis width so their candles line up
+const Y_AXIS_WIDTH = 72;
+const PANE_HEIGHT = 140;
+
+// Candles are floating [low, high] or [open, close] bars; indicators are
+// null until they have enough candles
+type PricePoint = { x: number; y: number | [number, number] | null };
+type PaneType = 'bar' | 'line';
+type PaneData = ChartJsData<PaneType, PricePoint[]>;
+
+const formatTime = (value: string | number) => new Date(Number(value)).toLocaleString([], {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+const seriesLine = (
+  label: string,
+  candles: ChartData[],
+  values: IndicatorSeries,
+  color: string,
+  dash: number[] = []
+): ChartDataset<PaneType, PricePoint[]> => ({
+  type: 'line' as const,
+  label,
+  data: candles.map((candle, i) => ({ x: candle.timestamp, y: values[i] })),
+  borderColor: color,
+  borderWidth: 1.5,
+  borderDash: dash,
+  pointRadius: 0,
+  fill: false,
+});
+
+const levelLine = (label: string, value: number, from: number, to: number, color: string): ChartDataset<PaneType, PricePoint[]> => ({
+  type: 'line' as const,
+  label,
+  data: [{ x: from, y: value }, { x: to, y: value }],
+  borderColor: color,
+  borderWidth: 1,
+  borderDash: [4, 4],
+  pointRadius: 0,
+  fill: false,
+});
+
+/**
+ * Candlestick chart with volume underneath, optional price overlays and
+ * RSI/MACD panes. Candles are drawn as floating bars the same way as
+ * SignalPriceChart, and all panes share the time axis of the price chart.
+ */
+const MarketChart: React.FC<MarketChartProps> = ({ candles, overlays, panes, height = 420 }) => {
+  const theme = useTheme();
+  const up = theme.palette.success.main;
+  const down = theme.palette.error.main;
+
+  const sorted = useMemo(() => [...candles].sort((a, b) => a.timestamp - b.timestamp), [candles]);
+  const from = sorted[0]?.timestamp ?? 0;
+  const to = sorted[sorted.length - 1]?.timestamp ?? 0;
+  const halfCandle = sorted.length > 1 ? (sorted[1].timestamp - sorted[0].timestamp) / 2 : 0;
+
+  const priceData = useMemo((): PaneData => {
+    const datasets: ChartDataset<PaneType, PricePoint[]>[] = [
+      {
+        type: 'bar' as const,
+        label: 'Wick',
+        data: sorted.map(candle => ({ x: candle.timestamp, y: [candle.low, candle.high] })),
+        backgroundColor: sorted.map(candle => (candle.close >= candle.open ? up : down)),
+        barPercentage: 0.1,
+        categoryPercentage: 1,
+        grouped: false,
+      },
+      {
+        type: 'bar' as const,
+        label: 'Candles',
+        data: sorted.map(candle => ({
+          x: candle.timestamp,
+          // Keep doji candles visible
+          y: candle.open === candle.close ? [candle.open * 0.9999, candle.close * 1.0001] : [candle.open, candle.close],
+        })),
+        backgroundColor: sorted.map(candle => (candle.close >= candle.open ? up : down)),
+        barPercentage: 0.7,
+        categoryPercentage: 1,
+        grouped: false,
+      },
+    ];
+
+    if (overlays.includes('sma')) {
+      datasets.push(seriesLine(`SMA ${SMA_PERIOD}`, sorted, smaSeries(sorted, SMA_PERIOD), theme.palette.warning.main));
+    }
+    if (overlays.includes('ema')) {
+      datasets.push(seriesLine(`EMA ${EMA_PERIOD}`, sorted, emaSeries(sorted, EMA_PERIOD), theme.palette.info.main));
+    }
+    if (overlays.includes('bollinger')) {
+      const bands = bollingerSeries(sorted);
+      datasets.push(
+        seriesLine('Bollinger Upper', sorted, bands.upper, theme.palette.secondary.main, [2, 3]),
+        seriesLine('Bollinger Middle', sorted, bands.middle, theme.palette.text.disabled, [2, 3]),
+        seriesLine('Bollinger Lower', sorted, bands.lower, theme.palette.secondary.main, [2, 3]),
+      );
+    }
+    if (overlays.includes('vwap')) {
+      datasets.push(seriesLine('VWAP', sorted, vwapSeries(sorted), theme.palette.primary.main));
+    }
+    return { datasets };
+  }, [sorted, overlays, theme, up, down]);
+
+  const volumeData = useMemo((): PaneData => ({
+    datasets: [{
+      type: 'bar' as const,
+      label: 'Volume',
+      data: sorted.map(candle => ({ x: candle.timestamp, y: candle.volume })),
+      backgroundColor: sorted.map(candle => `${candle.close >= candle.open ? up : down}80`),
+      barPercentage: 0.7,
+      categoryPercentage: 1,
+    }],
+  }), [sorted, up, down]);
+
+  const rsiData = useMemo((): PaneData => ({
+    datasets: [
+      seriesLine('RSI 14', sorted, rsiSeries(sorted), theme.palette.warning.main),
+      levelLine('Overbought', 70, from, to, down),
+      levelLine('Oversold', 30, from, to, up),
+    ],
+  }), [sorted, from, to, theme, up, down]);
+
+  const macdData = useMemo((): PaneData => {
+    const { macd, signal, histogram } = macdSeries(sorted);
+    return {
+      datasets: [
+        {
+          type: 'bar' as const,
+          label: 'Histogram',
+          data: sorted.map((candle, i) => ({ x: candle.timestamp, y: histogram[i] })),
+          backgroundColor: histogram.map(value => ((value ?? 0) >= 0 ? `${up}99` : `${down}99`)),
+          barPercentage: 0.7,
+          categoryPercentage: 1,
+        },
+        seriesLine('MACD', sorted, macd, theme.palette.info.main),
+        seriesLine('Signal', sorted, signal, theme.palette.warning.main),
+      ],
+    };
+  }, [sorted, theme, up, down]);
+
+  const paneOptions = (
+    showTime: boolean,
+    y: ScaleOptions<'linear'> = {},
+    legend: boolean = false
+  ): ChartOptions<PaneType> => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false as const,
+    interaction: { mode: 'index' as const, intersect: false },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: from - halfCandle,
+        max: to + halfCandle,
+        ticks: { display: showTime, callback: formatTime },
+        grid: { color: theme.palette.divider },
+      },
+      y: {
+        beginAtZero: false,
+        afterFit: (axis: { width: number }) => { axis.width = Y_AXIS_WIDTH; },
+        grid: { color: theme.palette.divider },
+        ...y,
+      },
+    },
+    plugins: {
+      legend: {
+        display: legend,
+        position: 'top' as const,
+        labels: { filter: (item: { text: string }) => item.text !== 'Wick' && item.text !== 'Candles' },
+      },
+      tooltip: {
+        filter: (item: TooltipItem<PaneType>) => (item.raw as PricePoint).y !== null && item.dataset.label !== 'Wick',
+        callbacks: {
+          label: (context: TooltipItem<PaneType>) => {
+            const raw = context.raw as PricePoint;
+            if (context.dataset.label === 'Candles') {
+              const candle = sorted.find(c => c.timestamp === raw.x);
+              return candle ? `O ${candle.open} H ${candle.high} L ${candle.low} C ${candle.close}` : '';
+            }
+            const value = Array.isArray(raw.y) ? raw.y.join(' - ') : raw.y;
+            return `${context.dataset.label}: ${typeof value === 'number' ? Number(value.toFixed(6)) : value}`;
+          },
+        },
+      },
+    },
+  });
+
+  if (sorted.length === 0) {
+    return (
+      <Box sx={{ height, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <Typography color="text.secondary">No candles for this timeframe yet</Typography>
+      </Box>
+    );
+  }
+
+  const lastPane = panes[panes.length - 1];
+
+  return (
+    <Box>
+      <Box sx={{ height }}>
+        <Chart type="bar" data={priceData} options={paneOptions(false, {}, overlays.length > 0)} />
+      </Box>
+      <Box sx={{ height: PANE_HEIGHT * 0.6 }}>
+        <Chart type="bar" data={volumeData} options={paneOptions(!lastPane, { beginAtZero: true })} />
+      </Box>
+      {panes.includes('rsi') && (
+        <Box>
+          <Typography variant="caption" color="text.secondary">RSI 14</Typography>
+          <Box sx={{ height: PANE_HEIGHT }}>
+            <Chart
+              type="line"
+              data={rsiData}
+              options={paneOptions(lastPane === 'rsi', { min: 0, max: 100, ticks: { stepSize: 30 } })}
+            />
+          </Box>
+        </Box>
+      )}
+      {panes.includes('macd') && (
+        <Box>
+          <Typography variant="caption" color="text.secondary">MACD 12 26 9</Typography>
+          <Box sx={{ height: PANE_HEIGHT }}>
+            <Chart type="bar" data={macdData} options={paneOptions(lastPane === 'macd')} />
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default MarketChart;
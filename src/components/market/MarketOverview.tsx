@@ -12,6 +12,7 @@ import {
   Tooltip,
 } from '@mui/material';
 import { ArrowDropUp, ArrowDropDown, Remove } from '@mui/icons-material';
+import { Link } from 'react-router-dom';
 
 export interface MarketData {
   symbol: string;
@@ -57,7 +58,9 @@ const MarketOverview: React.FC<MarketOverviewProps> = ({ data, compact }) => {
                 <TableRow key={symbol} hover>
                   <TableCell>
                     <Tooltip title={`View ${symbol} details`}>
-                      <span style={{ cursor: 'pointer', fontWeight: 500 }}>{symbol}</span>
+                      <Link to={`/markets/${symbol}`} style={{ color: 'inherit', fontWeight: 500, textDecoration: 'none' }}>
+                        {symbol}
+                      </Link>
                     </Tooltip>
                   </TableCell>
                   <TableCell align="right">{formatPrice(price)}</TableCell>
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useTheme } from '@mui/material';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+}
+
+// Plain SVG line for table rows, where a chart.js instance per row is too heavy.
+// Green when the last value is above the first, red when below.
+const Sparkline: React.FC<SparklineProps> = ({ values, width = 96, height = 28 }) => {
+  const theme = useTheme();
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const points = values
+    .map((value, i) => {
+      const x = (i / (values.length - 1)) * width;
+      const y = height - 1 - ((value - min) / range) * (height - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const last = values[values.length - 1];
+  const color = last > values[0]
+    ? theme.palette.success.main
+    : last < values[0] ? theme.palette.error.main : theme.palette.text.secondary;
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-hidden>
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+export default Sparkline;
@@ -0,0 +1,280 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Paper,
+  Box,
+  Typography,
+  TextField,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  Autocomplete,
+  createFilterOptions,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+} from '@mui/material';
+import { Add, Edit, Delete as DeleteIcon, DragIndicator, Close } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import {
+  addToWatchlist,
+  createWatchlist,
+  deleteWatchlist,
+  removeFromWatchlist,
+  renameWatchlist,
+  reorderWatchlist,
+  selectActiveWatchlist,
+  selectChartData,
+  selectWatchlistData,
+  selectWatchlists,
+  setActiveWatchlist,
+} from '../../store/slices/marketSlice';
+import { MARKET_LABELS, SymbolInfo, buildSymbolCatalog, findSymbol } from '../../utils/symbolCatalog';
+import Sparkline from './Sparkline';
+
+// Hourly closes shown in each row's sparkline
+const SPARKLINE_CANDLES = 24;
+
+const filterSymbols = createFilterOptions<SymbolInfo>({ stringify: option => `${option.symbol} ${option.name}` });
+
+const formatQuote = (value?: number) => {
+  if (value === undefined || !Number.isFinite(value)) return '—';
+  return value.toFixed(value >= 1000 ? 2 : value >= 1 ? 4 : 6);
+};
+
+// Moves a symbol to where another one is, shifting the rest along
+const moveSymbol = (symbols: string[], moved: string, target: string) => {
+  const rest = symbols.filter(symbol => symbol !== moved);
+  rest.splice(symbols.indexOf(target), 0, moved);
+  return rest;
+};
+
+interface WatchlistPanelProps {
+  selectedSymbol?: string;
+}
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ selectedSymbol }) => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const watchlists = useAppSelector(selectWatchlists);
+  const watchlist = useAppSelector(selectActiveWatchlist);
+  const watchlistData = useAppSelector(selectWatchlistData);
+  const chartData = useAppSelector(selectChartData);
+  const signals = useAppSelector((state) => state.signals.signals);
+  const [dialog, setDialog] = useState<'create' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+  const [dragging, setDragging] = useState<string | null>(null);
+  // Order shown while a row is dragged, committed on drop
+  const [preview, setPreview] = useState<string[] | null>(null);
+
+  const symbols = watchlist?.symbols ?? [];
+  const rows = preview ?? symbols;
+  const quotes = useMemo(() => new Map(watchlistData.map(data => [data.symbol, data])), [watchlistData]);
+  const catalog = useMemo(() => buildSymbolCatalog(signals), [signals]);
+
+  const openDialog = (kind: 'create' | 'rename') => {
+    setName(kind === 'rename' ? watchlist?.name ?? '' : '');
+    setDialog(kind);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (dialog === 'create') {
+      dispatch(createWatchlist(trimmed));
+    } else if (watchlist) {
+      dispatch(renameWatchlist({ id: watchlist.id, name: trimmed }));
+    }
+    setDialog(null);
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setPreview(null);
+  };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Box display="flex" alignItems="center" gap={1} mb={2}>
+        <TextField
+          select
+          size="small"
+          label="Watchlist"
+          value={watchlist?.id ?? ''}
+          onChange={(e) => dispatch(setActiveWatchlist(e.target.value))}
+          sx={{ flex: 1 }}
+        >
+          {watchlists.map(w => (
+            <MenuItem key={w.id} value={w.id}>{w.name} ({w.symbols.length})</MenuItem>
+          ))}
+        </TextField>
+        <Tooltip title="New watchlist">
+          <IconButton size="small" onClick={() => openDialog('create')}>
+            <Add fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Rename">
+          <IconButton size="small" onClick={() => openDialog('rename')}>
+            <Edit fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title={watchlists.length > 1 ? 'Delete watchlist' : 'The last watchlist cannot be deleted'}>
+          <span>
+            <IconButton
+              size="small"
+              disabled={watchlists.length <= 1}
+              onClick={() => watchlist && window.confirm(`Delete "${watchlist.name}"?`) && dispatch(deleteWatchlist(watchlist.id))}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      <Autocomplete
+        size="small"
+        options={catalog}
+        value={null}
+        blurOnSelect
+        clearOnBlur
+        filterOptions={filterSymbols}
+        groupBy={option => MARKET_LABELS[option.market]}
+        getOptionLabel={option => option.symbol}
+        getOptionDisabled={option => symbols.includes(option.symbol)}
+        onChange={(_, option) => option && dispatch(addToWatchlist(option.symbol))}
+        renderOption={(props, option) => {
+          const { key, ...rest } = props as React.HTMLAttributes<HTMLLIElement> & { key: string };
+          return (
+            <li key={key} {...rest}>
+              <Box>
+                <Typography variant="body2" fontWeight={500}>{option.symbol}</Typography>
+                <Typography variant="caption" color="text.secondary">{option.name}</Typography>
+              </Box>
+            </li>
+          );
+        }}
+        renderInput={(params) => <TextField {...params} placeholder="Add symbol…" />}
+        sx={{ mb: 1 }}
+      />
+
+      {rows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+          This watchlist is empty. Search above to add symbols.
+        </Typography>
+      ) : (
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="none" />
+                <TableCell>Symbol</TableCell>
+                <TableCell align="right">Bid</TableCell>
+                <TableCell align="right">Ask</TableCell>
+                <TableCell align="right">Spread</TableCell>
+                <TableCell align="right">Change</TableCell>
+                <TableCell align="center">24h</TableCell>
+                <TableCell padding="none" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(symbol => {
+                const quote = quotes.get(symbol);
+                const bid = quote?.bid ?? quote?.price;
+                const ask = quote?.ask ?? quote?.price;
+                const spread = quote?.spread ?? (bid !== undefined && ask !== undefined ? ask - bid : undefined);
+                const change = quote?.changePercent;
+                const closes = (chartData[symbol] || []).slice(-SPARKLINE_CANDLES).map(candle => candle.close);
+                return (
+                  <TableRow
+                    key={symbol}
+                    hover
+                    selected={symbol === selectedSymbol}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', symbol);
+                      setDragging(symbol);
+                      setPreview(symbols);
+                    }}
+                    onDragOver={(e) => {
+                      if (!dragging) return;
+                      e.preventDefault();
+                      if (dragging !== symbol) setPreview(prev => moveSymbol(prev ?? symbols, dragging, symbol));
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (preview) dispatch(reorderWatchlist(preview));
+                      endDrag();
+                    }}
+                    onDragEnd={endDrag}
+                    onClick={() => navigate(`/markets/${symbol}`)}
+                    sx={{ cursor: 'pointer', opacity: dragging === symbol ? 0.5 : 1 }}
+                  >
+                    <TableCell padding="none" sx={{ cursor: 'grab', color: 'text.disabled' }}>
+                      <DragIndicator fontSize="small" />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={500}>{symbol}</Typography>
+                      <Typography variant="caption" color="text.secondary">{findSymbol(symbol)?.name}</Typography>
+                    </TableCell>
+                    <TableCell align="right">{formatQuote(bid)}</TableCell>
+                    <TableCell align="right">{formatQuote(ask)}</TableCell>
+                    <TableCell align="right">{formatQuote(spread)}</TableCell>
+                    <TableCell
+                      align="right"
+                      sx={{ color: !change ? 'text.secondary' : change > 0 ? 'success.main' : 'error.main', fontWeight: 500 }}
+                    >
+                      {change === undefined ? '—' : `${change > 0 ? '+' : ''}${change.toFixed(2)}%`}
+                    </TableCell>
+                    <TableCell align="center">
+                      <Sparkline values={closes} />
+                    </TableCell>
+                    <TableCell padding="none">
+                      <IconButton
+                        size="small"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          dispatch(removeFromWatchlist(symbol));
+                        }}
+                      >
+                        <Close fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Box>
+      )}
+
+      <Dialog open={dialog !== null} onClose={() => setDialog(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{dialog === 'create' ? 'New Watchlist' : 'Rename Watchlist'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSave()}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialog(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!name.trim()}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default WatchlistPanel;
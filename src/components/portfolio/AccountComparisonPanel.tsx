@@ -0,0 +1,144 @@
+import React, { useMemo } from 'react';
+import {
+  Paper,
+  Typography,
+  Box,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { CompareArrows } from '@mui/icons-material';
+import { Line } from 'react-chartjs-2';
+import { useAppSelector } from '../../hooks/redux';
+import {
+  DemoAccount,
+  getPositionCosts,
+  selectDemoAccounts,
+  summarizeAccount,
+} from '../../store/slices/portfolioSlice';
+import { formatCurrency } from '../../utils/formatters';
+
+const ACCOUNT_COLORS = ['#00d4ff', '#ff9800', '#4caf50', '#e91e63', '#9c27b0'];
+
+// Net realized return over time, as a percentage of the starting balance so
+// accounts of different sizes share one scale
+const returnCurve = (account: DemoAccount) => {
+  const startingBalance = account.startingBalance || 100000;
+  let realized = 0;
+  return [...(account.tradeHistory || [])]
+    .filter(trade => trade.closedAt)
+    .sort((a, b) => new Date(a.closedAt!).getTime() - new Date(b.closedAt!).getTime())
+    .map(trade => {
+      realized += (trade.pnl || 0) - getPositionCosts(trade).commissions;
+      return { x: new Date(trade.closedAt!).getTime(), y: (realized / startingBalance) * 100 };
+    });
+};
+
+interface AccountComparisonPanelProps {
+  activeAccountId: string | null;
+}
+
+const AccountComparisonPanel: React.FC<AccountComparisonPanelProps> = ({ activeAccountId }) => {
+  const accounts = useAppSelector(selectDemoAccounts);
+
+  const rows = useMemo(
+    () => accounts.map(account => ({ account, stats: summarizeAccount(account) })),
+    [accounts]
+  );
+
+  const returnChart = {
+    datasets: accounts.map((account, index) => ({
+      label: account.name,
+      data: returnCurve(account),
+      borderColor: ACCOUNT_COLORS[index % ACCOUNT_COLORS.length],
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+    })),
+  };
+
+  const returnChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: {
+        type: 'linear' as const,
+        ticks: {
+          callback: (value: string | number) => new Date(Number(value)).toLocaleDateString(),
+        },
+      },
+      y: {
+        ticks: {
+          callback: (value: string | number) => `${value}%`,
+        },
+      },
+    },
+    plugins: {
+      legend: { position: 'top' as const },
+    },
+  };
+
+  if (accounts.length < 2) return null;
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <CompareArrows color="primary" />
+        Account Comparison
+      </Typography>
+
+      <TableContainer sx={{ mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Account</TableCell>
+              <TableCell align="right">Balance</TableCell>
+              <TableCell align="right">Return</TableCell>
+              <TableCell align="right">Net P&L</TableCell>
+              <TableCell align="right">Fees</TableCell>
+              <TableCell align="right">Trades</TableCell>
+              <TableCell align="right">Win Rate</TableCell>
+              <TableCell align="right">Profit Factor</TableCell>
+              <TableCell align="right">Open</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(({ account, stats }) => (
+              <TableRow key={account._id} hover selected={account._id === activeAccountId}>
+                <TableCell>
+                  <Typography variant="body2" fontWeight="bold">{account.name}</Typography>
+                  {account.description && (
+                    <Typography variant="caption" color="text.secondary">{account.description}</Typography>
+                  )}
+                </TableCell>
+                <TableCell align="right">{formatCurrency(stats.balance)}</TableCell>
+                <TableCell
+                  align="right"
+                  sx={{ color: stats.totalReturnPercentage >= 0 ? 'success.main' : 'error.main' }}
+                >
+                  {stats.totalReturnPercentage.toFixed(2)}%
+                </TableCell>
+                <TableCell align="right">{formatCurrency(stats.netPnL)}</TableCell>
+                <TableCell align="right">{formatCurrency(stats.totalFees)}</TableCell>
+                <TableCell align="right">{stats.closedPositions}</TableCell>
+                <TableCell align="right">{stats.successRate.toFixed(1)}%</TableCell>
+                <TableCell align="right">{stats.profitFactor.toFixed(2)}</TableCell>
+                <TableCell align="right">{stats.openPositions}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="subtitle2" gutterBottom>Realized Return (% of starting balance)</Typography>
+      <Box sx={{ height: 280 }}>
+        <Line data={returnChart} options={returnChartOptions} />
+      </Box>
+    </Paper>
+  );
+};
+
+export default AccountComparisonPanel;
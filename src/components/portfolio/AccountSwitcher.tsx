@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import {
+  addDemoAccount,
+  deleteDemoAccount,
+  selectDemoAccounts,
+} from '../../store/slices/portfolioSlice';
+
+interface AccountSwitcherProps {
+  userId: string;
+  activeAccountId: string | null;
+  onSwitch: (accountId: string | null) => void;
+}
+
+const EMPTY_ACCOUNT_FORM = { name: '', description: '', balance: '100000' };
+
+// Selects which demo account the portfolio shows, and adds or removes accounts
+const AccountSwitcher: React.FC<AccountSwitcherProps> = ({ userId, activeAccountId, onSwitch }) => {
+  const dispatch = useAppDispatch();
+  const accounts = useAppSelector(selectDemoAccounts);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_ACCOUNT_FORM);
+  const [error, setError] = useState('');
+
+  // Without a selection the backend serves the oldest account
+  const currentId = activeAccountId ?? accounts[0]?._id ?? '';
+  const current = accounts.find(account => account._id === currentId);
+
+  const handleCreate = async () => {
+    setError('');
+    try {
+      const account = await dispatch(addDemoAccount({
+        userId,
+        name: form.name.trim(),
+        description: form.description.trim() || undefined,
+        balance: Number(form.balance) || 100000,
+      })).unwrap();
+      setDialogOpen(false);
+      setForm(EMPTY_ACCOUNT_FORM);
+      onSwitch(account._id);
+    } catch (err: unknown) {
+      setError(typeof err === 'string' ? err : 'Failed to create demo account');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!current) return;
+    if (!window.confirm(`Delete "${current.name}" with its open positions and history?`)) return;
+    try {
+      await dispatch(deleteDemoAccount({ userId, accountId: current._id })).unwrap();
+      onSwitch(null);
+    } catch (err: unknown) {
+      window.alert(typeof err === 'string' ? err : 'Failed to delete demo account');
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      <FormControl size="small" sx={{ minWidth: 220 }}>
+        <InputLabel>Demo Account</InputLabel>
+        <Select
+          label="Demo Account"
+          value={accounts.some(account => account._id === currentId) ? currentId : ''}
+          onChange={(e) => onSwitch(e.target.value)}
+        >
+          {accounts.map(account => (
+            <MenuItem key={account._id} value={account._id}>
+              {account.name}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <Button size="small" variant="outlined" startIcon={<Add />} onClick={() => setDialogOpen(true)}>
+        New Account
+      </Button>
+      <Tooltip title={accounts.length > 1 ? 'Delete Account' : 'The only account cannot be deleted'}>
+        <span>
+          <IconButton size="small" color="error" onClick={handleDelete} disabled={accounts.length <= 1}>
+            <Delete fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>New Demo Account</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            label="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. ML-only"
+            sx={{ mt: 1, mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            label="Strategy / Description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            label="Starting Balance"
+            type="number"
+            value={form.balance}
+            onChange={(e) => setForm({ ...form, balance: e.target.value })}
+          />
+          {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleCreate} disabled={!form.name.trim()}>
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AccountSwitcher;
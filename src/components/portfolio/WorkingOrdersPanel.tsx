@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Typography,
+  Chip,
+  IconButton,
+  Tooltip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Grid,
+  TextField,
+  Button,
+  Alert,
+} from '@mui/material';
+import { Edit, Cancel, PendingActions, Replay } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import {
+  cancelPendingOrder,
+  modifyPendingOrder,
+  selectWorkingOrders,
+} from '../../store/slices/portfolioSlice';
+import { selectMarketData } from '../../store/slices/marketSlice';
+import { PendingOrder } from '../../types';
+import { ORDER_TYPE_LABELS, validatePendingOrder } from '../../utils/pendingOrders';
+import { formatCurrency } from '../../utils/formatters';
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+interface ModifyForm {
+  price: string;
+  quantity: string;
+  takeProfit: string;
+  stopLoss: string;
+  expiresAt: string;
+}
+
+const WorkingOrdersPanel: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const orders = useAppSelector(selectWorkingOrders);
+  const marketData = useAppSelector(selectMarketData);
+
+  const [editing, setEditing] = useState<PendingOrder | null>(null);
+  const [form, setForm] = useState<ModifyForm>({ price: '', quantity: '', takeProfit: '', stopLoss: '', expiresAt: '' });
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleEdit = (order: PendingOrder) => {
+    setEditing(order);
+    setErrors([]);
+    setForm({
+      price: order.price.toString(),
+      quantity: order.quantity.toString(),
+      takeProfit: order.takeProfit?.toString() ?? '',
+      stopLoss: order.stopLoss?.toString() ?? '',
+      expiresAt: toLocalInput(order.expiresAt),
+    });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const changes = {
+      price: Number(form.price),
+      quantity: Number(form.quantity),
+      takeProfit: form.takeProfit ? Number(form.takeProfit) : undefined,
+      stopLoss: form.stopLoss ? Number(form.stopLoss) : undefined,
+      expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : undefined,
+      fillError: undefined,
+    };
+    const validation = validatePendingOrder({ ...editing, ...changes }, marketData[editing.symbol]?.price);
+    if (validation.length > 0) {
+      setErrors(validation);
+      return;
+    }
+    dispatch(modifyPendingOrder({ id: editing.id, changes }));
+    setEditing(null);
+  };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <PendingActions color="primary" />
+        Working Orders ({orders.length})
+      </Typography>
+
+      {orders.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+          No working orders. Place a limit or stop-entry order from a signal or with Add Position.
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Symbol</TableCell>
+                <TableCell>Side</TableCell>
+                <TableCell>Order</TableCell>
+                <TableCell align="right">Price</TableCell>
+                <TableCell align="right">Market</TableCell>
+                <TableCell align="right">Quantity</TableCell>
+                <TableCell>OCO Bracket</TableCell>
+                <TableCell>Expires</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {orders.map(order => {
+                const marketPrice = marketData[order.symbol]?.price;
+                return (
+                  <TableRow key={order.id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="bold">{order.symbol}</Typography>
+                      {order.signalId && (
+                        <Typography variant="caption" color="text.secondary">From signal</Typography>
+                      )}
+                      {order.fillError && (
+                        <Tooltip title={order.fillError}>
+                          <Chip label="Fill failed" size="small" color="error" variant="outlined" sx={{ ml: 1 }} />
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={order.side} size="small" color={order.side === 'BUY' ? 'success' : 'error'} />
+                    </TableCell>
+                    <TableCell>{ORDER_TYPE_LABELS[order.orderType]}</TableCell>
+                    <TableCell align="right">{formatCurrency(order.price)}</TableCell>
+                    <TableCell align="right">{marketPrice !== undefined ? formatCurrency(marketPrice) : '-'}</TableCell>
+                    <TableCell align="right">{order.quantity}</TableCell>
+                    <TableCell>
+                      {order.takeProfit || order.stopLoss ? (
+                        <Typography variant="body2">
+                          TP {order.takeProfit ? formatCurrency(order.takeProfit) : '-'} / SL {order.stopLoss ? formatCurrency(order.stopLoss) : '-'}
+                        </Typography>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {order.expiresAt ? new Date(order.expiresAt).toLocaleString() : 'GTC'}
+                    </TableCell>
+                    <TableCell align="right">
+                      {order.fillError && (
+                        <Tooltip title="Retry Fill">
+                          <IconButton
+                            size="small"
+                            onClick={() => dispatch(modifyPendingOrder({ id: order.id, changes: { fillError: undefined } }))}
+                          >
+                            <Replay fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      <Tooltip title="Modify Order">
+                        <IconButton size="small" onClick={() => handleEdit(order)}>
+                          <Edit fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Cancel Order">
+                        <IconButton size="small" color="error" onClick={() => dispatch(cancelPendingOrder(order.id))}>
+                          <Cancel fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          Modify {editing?.symbol} {editing?.side} {editing && ORDER_TYPE_LABELS[editing.orderType]}
+        </DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 1 }}>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="Order Price"
+                type="number"
+                value={form.price}
+                onChange={(e) => setForm({ ...form, price: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="Quantity"
+                type="number"
+                value={form.quantity}
+                onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="Take Profit"
+                type="number"
+                value={form.takeProfit}
+                onChange={(e) => setForm({ ...form, takeProfit: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="Stop Loss"
+                type="number"
+                value={form.stopLoss}
+                onChange={(e) => setForm({ ...form, stopLoss: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Expires"
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+                helperText="Leave empty for good till cancelled"
+              />
+            </Grid>
+          </Grid>
+          {errors.length > 0 && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {errors.map(error => <div key={error}>{error}</div>)}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave}>Save Order</Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default WorkingOrdersPanel;
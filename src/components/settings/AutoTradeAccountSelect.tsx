@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { FormControl, InputLabel, Select, MenuItem } from '@mui/material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { fetchDemoAccounts, selectDemoAccounts } from '../../store/slices/portfolioSlice';
+import { selectUserId } from '../../store/slices/authSlice';
+import autoTradeService from '../../services/autoTradeService';
+
+// Picks the demo account auto-trade opens positions in
+const AutoTradeAccountSelect: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const userId = useAppSelector(selectUserId);
+  const accounts = useAppSelector(selectDemoAccounts);
+  const [accountId, setAccountId] = useState(() => autoTradeService.getCriteria().accountId);
+
+  useEffect(() => {
+    if (userId) dispatch(fetchDemoAccounts(userId));
+  }, [userId, dispatch]);
+
+  const handleChange = (value: string) => {
+    setAccountId(value);
+    autoTradeService.updateCriteria({ accountId: value });
+  };
+
+  // A deleted account falls back to the viewed one
+  const known = !accountId || accounts.some(account => account._id === accountId);
+
+  return (
+    <FormControl fullWidth size="small">
+      <InputLabel>Trade In Account</InputLabel>
+      <Select
+        label="Trade In Account"
+        value={known ? accountId : ''}
+        onChange={(e) => handleChange(e.target.value)}
+        displayEmpty
+      >
+        <MenuItem value="">Account shown in Portfolio</MenuItem>
+        {accounts.map(account => (
+          <MenuItem key={account._id} value={account._id}>
+            {account.name}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+export default AutoTradeAccountSelect;
@@ -0,0 +1,364 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Grid,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  FormControlLabel,
+  Button,
+  Alert,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import { Assessment, CloudDownload, PlayArrow, Delete as DeleteIcon, CheckCircle } from '@mui/icons-material';
+import { Line } from 'react-chartjs-2';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { selectSignalHistory } from '../../store/slices/signalSlice';
+import { fetchChartData, selectChartData, selectMarketLoading } from '../../store/slices/marketSlice';
+import autoTradeService, { AutoTradeCriteria } from '../../services/autoTradeService';
+import { runBacktest, BacktestResult } from '../../utils/backtest';
+import { formatCurrency } from '../../utils/formatters';
+
+interface BacktestRun {
+  id: number;
+  label: string;
+  criteria: AutoTradeCriteria;
+  result: BacktestResult;
+}
+
+const MAX_RUNS = 5;
+const RUN_COLORS = ['#00d4ff', '#ff9800', '#4caf50', '#e91e63', '#9c27b0'];
+
+const BacktestPanel: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const signalHistory = useAppSelector(selectSignalHistory);
+  const chartData = useAppSelector(selectChartData);
+  const marketLoading = useAppSelector(selectMarketLoading);
+
+  const [criteria, setCriteria] = useState<AutoTradeCriteria>(() => autoTradeService.getCriteria());
+  const [initialBalance, setInitialBalance] = useState(100000);
+  const [runs, setRuns] = useState<BacktestRun[]>([]);
+
+  const symbols = useMemo(
+    () => Array.from(new Set(signalHistory.map(signal => signal.symbol))),
+    [signalHistory]
+  );
+  const missingSymbols = symbols.filter(symbol => !chartData[symbol]?.length);
+
+  const updateCriteria = (changes: Partial<AutoTradeCriteria>) => {
+    setCriteria(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleLoadPriceHistory = () => {
+    missingSymbols.forEach(symbol => {
+      dispatch(fetchChartData({ symbol, timeframe: '1h', limit: 1000 }));
+    });
+  };
+
+  const handleRun = () => {
+    const result = runBacktest(signalHistory, chartData, criteria, { initialBalance });
+    setRuns(prev => {
+      const id = (prev[0]?.id ?? 0) + 1;
+      const run = { id, label: `Run #${id}`, criteria, result };
+      return [run, ...prev].slice(0, MAX_RUNS);
+    });
+  };
+
+  const handleApply = (run: BacktestRun) => {
+    const { enabled, ...rest } = run.criteria;
+    autoTradeService.updateCriteria(rest);
+  };
+
+  const equityChart = {
+    datasets: runs.map((run, index) => ({
+      label: run.label,
+      data: run.result.equityCurve.map(point => ({ x: point.timestamp, y: point.equity })),
+      borderColor: RUN_COLORS[index % RUN_COLORS.length],
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+    })),
+  };
+
+  const equityChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: {
+        type: 'linear' as const,
+        ticks: {
+          callback: (value: string | number) => new Date(Number(value)).toLocaleDateString(),
+        },
+      },
+    },
+    plugins: {
+      legend: { position: 'top' as const },
+    },
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Assessment color="primary" />
+          Backtest
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Replay {signalHistory.length} historical signals across {symbols.length} symbols through the
+          auto-trade rules to compare criteria before enabling auto-trade.
+        </Typography>
+
+        {missingSymbols.length > 0 && (
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                startIcon={<CloudDownload />}
+                onClick={handleLoadPriceHistory}
+                disabled={marketLoading.chartData}
+              >
+                Load
+              </Button>
+            }
+          >
+            Price history missing for {missingSymbols.length} symbol(s): {missingSymbols.slice(0, 5).join(', ')}
+            {missingSymbols.length > 5 ? '…' : ''}
+          </Alert>
+        )}
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Starting Balance"
+              type="number"
+              value={initialBalance}
+              onChange={(e) => setInitialBalance(parseFloat(e.target.value) || 100000)}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Min Confidence (%)"
+              type="number"
+              value={criteria.minConfidence}
+              onChange={(e) => updateCriteria({ minConfidence: parseInt(e.target.value) || 0 })}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Max Risk</InputLabel>
+              <Select
+                value={criteria.maxRisk}
+                label="Max Risk"
+                onChange={(e) => updateCriteria({ maxRisk: e.target.value as AutoTradeCriteria['maxRisk'] })}
+              >
+                <MenuItem value="low">Low</MenuItem>
+                <MenuItem value="medium">Medium</MenuItem>
+                <MenuItem value="high">High</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Position Size (%)"
+              type="number"
+              value={criteria.positionSize}
+              onChange={(e) => updateCriteria({ positionSize: parseFloat(e.target.value) || 0 })}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Default Stop Loss (%)"
+              type="number"
+              value={criteria.stopLossPercentage}
+              onChange={(e) => updateCriteria({ stopLossPercentage: parseFloat(e.target.value) || 0 })}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Default Take Profit (%)"
+              type="number"
+              value={criteria.takeProfitPercentage}
+              onChange={(e) => updateCriteria({ takeProfitPercentage: parseFloat(e.target.value) || 0 })}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Max Daily Loss (%)"
+              type="number"
+              value={criteria.maxDrawdown}
+              onChange={(e) => updateCriteria({ maxDrawdown: parseFloat(e.target.value) || 0 })}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Max Positions"
+              type="number"
+              value={criteria.maxPositions}
+              onChange={(e) => updateCriteria({ maxPositions: parseInt(e.target.value) || 0 })}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Max Daily Trades"
+              type="number"
+              value={criteria.maxDailyTrades}
+              onChange={(e) => updateCriteria({ maxDailyTrades: parseInt(e.target.value) || 0 })}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Trading Hours Start"
+              type="time"
+              value={criteria.tradingHours.start}
+              onChange={(e) => updateCriteria({ tradingHours: { ...criteria.tradingHours, start: e.target.value } })}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Trading Hours End"
+              type="time"
+              value={criteria.tradingHours.end}
+              onChange={(e) => updateCriteria({ tradingHours: { ...criteria.tradingHours, end: e.target.value } })}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={criteria.excludeWeekends}
+                  onChange={(e) => updateCriteria({ excludeWeekends: e.target.checked })}
+                />
+              }
+              label="Exclude Weekends"
+            />
+          </Grid>
+        </Grid>
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <Button
+            variant="contained"
+            startIcon={<PlayArrow />}
+            onClick={handleRun}
+            disabled={signalHistory.length === 0}
+          >
+            Run Backtest
+          </Button>
+          <Button variant="outlined" onClick={() => setCriteria(autoTradeService.getCriteria())}>
+            Reset to Current Criteria
+          </Button>
+        </Box>
+
+        {signalHistory.length === 0 && (
+          <Alert severity="warning">No signal history available to replay yet.</Alert>
+        )}
+
+        {runs.length > 0 && (
+          <>
+            <Box sx={{ height: 280, mb: 2 }}>
+              <Line data={equityChart} options={equityChartOptions} />
+            </Box>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Run</TableCell>
+                  <TableCell>Criteria</TableCell>
+                  <TableCell align="right">Trades</TableCell>
+                  <TableCell align="right">Win Rate</TableCell>
+                  <TableCell align="right">Net P&L</TableCell>
+                  <TableCell align="right">Max Drawdown</TableCell>
+                  <TableCell align="right">Sharpe</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {runs.map((run, index) => (
+                  <TableRow key={run.id}>
+                    <TableCell>
+                      <Chip
+                        label={run.label}
+                        size="small"
+                        sx={{ bgcolor: RUN_COLORS[index % RUN_COLORS.length], color: 'white' }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="caption" color="text.secondary">
+                        ≥{run.criteria.minConfidence}% · {run.criteria.maxRisk} risk · {run.criteria.positionSize}% size ·
+                        {' '}{run.result.signalsSkipped} skipped · {run.result.signalsWithoutData} no data
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{run.result.trades.length}</TableCell>
+                    <TableCell align="right">{run.result.winRate.toFixed(1)}%</TableCell>
+                    <TableCell
+                      align="right"
+                      sx={{ color: run.result.totalPnL >= 0 ? 'success.main' : 'error.main' }}
+                    >
+                      {formatCurrency(run.result.totalPnL)} ({run.result.totalReturnPercentage.toFixed(2)}%)
+                    </TableCell>
+                    <TableCell align="right">{run.result.maxDrawdown.toFixed(2)}%</TableCell>
+                    <TableCell align="right">{run.result.sharpeRatio.toFixed(2)}</TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Apply these criteria to auto-trade">
+                        <IconButton size="small" color="primary" onClick={() => handleApply(run)}>
+                          <CheckCircle fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Remove run">
+                        <IconButton
+                          size="small"
+                          onClick={() => setRuns(prev => prev.filter(r => r.id !== run.id))}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BacktestPanel;
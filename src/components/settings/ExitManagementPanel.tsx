@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Grid,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+} from '@mui/material';
+import { ExitToApp } from '@mui/icons-material';
+import autoTradeService, { AutoTradeCriteria, TrailingStopMode } from '../../services/autoTradeService';
+
+const ExitManagementPanel: React.FC = () => {
+  const [criteria, setCriteria] = useState<AutoTradeCriteria>(() => autoTradeService.getCriteria());
+
+  const updateCriteria = (changes: Partial<AutoTradeCriteria>) => {
+    setCriteria(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = () => {
+    const { trailingStopMode, trailingStopValue, breakevenTriggerPercent, scaleOutPercent, scaleOutAt } = criteria;
+    autoTradeService.updateCriteria({
+      trailingStopMode,
+      trailingStopValue,
+      breakevenTriggerPercent,
+      scaleOutPercent,
+      scaleOutAt,
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <ExitToApp color="primary" />
+          Exit Management
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Applied to positions opened by auto-trade. Set a value to 0 to disable it.
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Trailing Stop</InputLabel>
+              <Select
+                value={criteria.trailingStopMode}
+                label="Trailing Stop"
+                onChange={(e) => updateCriteria({ trailingStopMode: e.target.value as TrailingStopMode })}
+              >
+                <MenuItem value="off">Off</MenuItem>
+                <MenuItem value="percent">Percent</MenuItem>
+                <MenuItem value="atr">ATR</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label={criteria.trailingStopMode === 'atr' ? 'Trail Distance (ATRs)' : 'Trail Distance (%)'}
+              type="number"
+              value={criteria.trailingStopValue}
+              onChange={(e) => updateCriteria({ trailingStopValue: parseFloat(e.target.value) || 0 })}
+              disabled={criteria.trailingStopMode === 'off'}
+              helperText={criteria.trailingStopMode === 'atr' ? `ATR period ${criteria.atrPeriod}` : undefined}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Breakeven After (%)"
+              type="number"
+              value={criteria.breakevenTriggerPercent}
+              onChange={(e) => updateCriteria({ breakevenTriggerPercent: parseFloat(e.target.value) || 0 })}
+              helperText="Favorable move before the stop goes to entry"
+            />
+          </Grid>
+        </Grid>
+
+        <Typography variant="subtitle2" gutterBottom>Scale-Out</Typography>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Close at TP1 (%)"
+              type="number"
+              value={criteria.scaleOutPercent}
+              onChange={(e) => updateCriteria({ scaleOutPercent: parseFloat(e.target.value) || 0 })}
+              inputProps={{ min: 0, max: 99 }}
+              helperText="The rest closes at the signal target"
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="TP1 Distance"
+              type="number"
+              value={criteria.scaleOutAt}
+              onChange={(e) => updateCriteria({ scaleOutAt: parseFloat(e.target.value) || 0 })}
+              inputProps={{ step: 0.05, min: 0, max: 1 }}
+              helperText="Fraction of the way to target"
+              disabled={criteria.scaleOutPercent <= 0}
+            />
+          </Grid>
+        </Grid>
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button variant="contained" onClick={handleSave}>
+            Save Exits
+          </Button>
+          <Button variant="outlined" onClick={() => setCriteria(autoTradeService.getCriteria())}>
+            Reset
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExitManagementPanel;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Grid,
+  TextField,
+  Button,
+} from '@mui/material';
+import { Shield } from '@mui/icons-material';
+import autoTradeService, { AutoTradeCriteria } from '../../services/autoTradeService';
+
+const MARKETS = ['crypto', 'forex', 'stocks', 'commodities'];
+
+const ExposureLimitsPanel: React.FC = () => {
+  const [criteria, setCriteria] = useState<AutoTradeCriteria>(() => autoTradeService.getCriteria());
+
+  const updateCriteria = (changes: Partial<AutoTradeCriteria>) => {
+    setCriteria(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = () => {
+    const { maxMarketExposure, maxCurrencyExposure, maxPositionsPerSymbol, maxCorrelation, correlationLookback } = criteria;
+    autoTradeService.updateCriteria({
+      maxMarketExposure,
+      maxCurrencyExposure,
+      maxPositionsPerSymbol,
+      maxCorrelation,
+      correlationLookback,
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Shield color="primary" />
+          Exposure Limits
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Caps applied to auto-trade on top of the signal criteria. Set a value to 0 to disable it.
+        </Typography>
+
+        <Typography variant="subtitle2" gutterBottom>Max Exposure per Market (% of equity)</Typography>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          {MARKETS.map(market => (
+            <Grid key={market} size={{ xs: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label={market.charAt(0).toUpperCase() + market.slice(1)}
+                type="number"
+                value={criteria.maxMarketExposure[market] ?? 0}
+                onChange={(e) => updateCriteria({
+                  maxMarketExposure: { ...criteria.maxMarketExposure, [market]: parseFloat(e.target.value) || 0 },
+                })}
+              />
+            </Grid>
+          ))}
+        </Grid>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Max Net Currency Exposure (%)"
+              type="number"
+              value={criteria.maxCurrencyExposure}
+              onChange={(e) => updateCriteria({ maxCurrencyExposure: parseFloat(e.target.value) || 0 })}
+              helperText="Across forex pairs"
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Max Open per Symbol"
+              type="number"
+              value={criteria.maxPositionsPerSymbol}
+              onChange={(e) => updateCriteria({ maxPositionsPerSymbol: parseInt(e.target.value) || 0 })}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Max Correlation"
+              type="number"
+              value={criteria.maxCorrelation}
+              onChange={(e) => updateCriteria({ maxCorrelation: parseFloat(e.target.value) || 0 })}
+              inputProps={{ step: 0.05, min: 0, max: 1 }}
+              helperText="With open same-direction bets"
+            />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Correlation Lookback (candles)"
+              type="number"
+              value={criteria.correlationLookback}
+              onChange={(e) => updateCriteria({ correlationLookback: parseInt(e.target.value) || 100 })}
+            />
+          </Grid>
+        </Grid>
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button variant="contained" onClick={handleSave}>
+            Save Limits
+          </Button>
+          <Button variant="outlined" onClick={() => setCriteria(autoTradeService.getCriteria())}>
+            Reset
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExposureLimitsPanel;
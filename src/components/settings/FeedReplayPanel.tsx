@@ -0,0 +1,190 @@
+import React, { useRef, useSyncExternalStore } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import {
+  Replay,
+  FiberManualRecord,
+  Stop,
+  CloudDownload,
+  UploadFile,
+  PlayArrow,
+  Pause,
+} from '@mui/icons-material';
+import feedReplayService from '../../services/feedReplayService';
+import { useAppSelector } from '../../hooks/redux';
+import { selectReplayEvents, selectReplayMarketData, selectReplaySignals } from '../../store/slices/replaySlice';
+
+// 0 plays messages back to back
+const SPEEDS = [1, 2, 5, 10, 0];
+
+// Most recent replayed signals and events listed
+const SHOWN_REPLAY_ITEMS = 5;
+
+const FeedReplayPanel: React.FC = () => {
+  const replay = useSyncExternalStore(feedReplayService.subscribe, feedReplayService.getState);
+  const replayedSignals = useAppSelector(selectReplaySignals);
+  const replayedPrices = useAppSelector(selectReplayMarketData);
+  const replayedEvents = useAppSelector(selectReplayEvents);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const replaying = feedReplayService.isReplaying();
+  const progress = replay.total > 0 ? (replay.position / replay.total) * 100 : 0;
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) feedReplayService.load(file);
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Replay color="primary" />
+          Feed Recording & Replay
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Record the live feed to a file, then play it back through the app to reproduce what happened. Replayed
+          signals, prices and portfolio events are kept apart from the live ones, live messages are ignored during a
+          replay, and auto-trade trades in a throwaway demo account.
+        </Typography>
+
+        <Typography variant="subtitle2" gutterBottom>Recorder</Typography>
+        <Box display="flex" alignItems="center" gap={1} flexWrap="wrap" sx={{ mb: 3 }}>
+          {replay.recording ? (
+            <Button variant="outlined" color="error" startIcon={<Stop />} onClick={() => feedReplayService.stopRecording()}>
+              Stop Recording
+            </Button>
+          ) : (
+            <Button variant="outlined" startIcon={<FiberManualRecord />} onClick={() => feedReplayService.startRecording()} disabled={replaying}>
+              Record
+            </Button>
+          )}
+          <Button
+            startIcon={<CloudDownload />}
+            onClick={() => feedReplayService.downloadRecording()}
+            disabled={replay.recording || replay.recordedCount === 0}
+          >
+            Download
+          </Button>
+          {(replay.recording || replay.recordedCount > 0) && (
+            <Chip
+              size="small"
+              color={replay.recording ? 'error' : 'default'}
+              label={`${replay.recordedCount} message${replay.recordedCount === 1 ? '' : 's'}`}
+            />
+          )}
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>Replay</Typography>
+        <Box display="flex" alignItems="center" gap={1} flexWrap="wrap" sx={{ mb: 2 }}>
+          <input ref={fileInput} type="file" accept="application/json,.json" hidden onChange={handleFile} />
+          <Button variant="outlined" startIcon={<UploadFile />} onClick={() => fileInput.current?.click()} disabled={replaying}>
+            Load Recording
+          </Button>
+          <FormControl size="small" sx={{ minWidth: 110 }}>
+            <InputLabel>Speed</InputLabel>
+            <Select
+              label="Speed"
+              value={replay.speed}
+              onChange={(e) => feedReplayService.setSpeed(Number(e.target.value))}
+            >
+              {SPEEDS.map(speed => (
+                <MenuItem key={speed} value={speed}>{speed > 0 ? `${speed}x` : 'Max'}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {replay.status === 'playing' ? (
+            <Button variant="contained" startIcon={<Pause />} onClick={() => feedReplayService.pause()}>
+              Pause
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              startIcon={<PlayArrow />}
+              onClick={() => feedReplayService.play()}
+              disabled={!replay.loadedName || replay.total === 0 || replay.status === 'starting'}
+            >
+              {replay.status === 'paused' ? 'Resume' : 'Play'}
+            </Button>
+          )}
+          <Button
+            color="error"
+            startIcon={<Stop />}
+            onClick={() => feedReplayService.reset()}
+            disabled={replay.status === 'idle' || replay.status === 'starting'}
+          >
+            {replay.status === 'finished' ? 'Discard Account' : 'Stop'}
+          </Button>
+        </Box>
+
+        {replay.loadedName && (
+          <Box sx={{ mb: 2 }}>
+            <Box display="flex" justifyContent="space-between" sx={{ mb: 0.5 }}>
+              <Typography variant="body2">{replay.loadedName}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {replay.position} / {replay.total}
+              </Typography>
+            </Box>
+            <LinearProgress
+              variant={replay.status === 'starting' ? 'indeterminate' : 'determinate'}
+              value={progress}
+            />
+          </Box>
+        )}
+
+        {replay.accountId && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            {replay.status === 'finished'
+              ? 'Replay finished. Its demo account is kept for review until you discard it or start another replay.'
+              : 'Auto-trade is trading in a throwaway demo account for this replay.'}
+          </Alert>
+        )}
+        {(replayedSignals.length > 0 || replayedEvents.length > 0) && (
+          <Box sx={{ mb: 2 }}>
+            <Box display="flex" gap={1} flexWrap="wrap" sx={{ mb: 1 }}>
+              <Chip size="small" label={`${replayedSignals.length} signal${replayedSignals.length === 1 ? '' : 's'}`} />
+              <Chip size="small" label={`${Object.keys(replayedPrices).length} priced symbols`} />
+              <Chip size="small" label={`${replayedEvents.length} event${replayedEvents.length === 1 ? '' : 's'}`} />
+            </Box>
+            <List dense disablePadding>
+              {replayedSignals.slice(0, SHOWN_REPLAY_ITEMS).map(signal => (
+                <ListItem key={signal.id} disableGutters>
+                  <ListItemText
+                    primary={`${signal.symbol} ${signal.type} (${signal.confidence}%)`}
+                    secondary={`${signal.source} · ${new Date(signal.createdAt).toLocaleTimeString()}`}
+                  />
+                </ListItem>
+              ))}
+              {replayedEvents.slice(0, SHOWN_REPLAY_ITEMS).map((event, index) => (
+                <ListItem key={`${event.receivedAt}-${index}`} disableGutters>
+                  <ListItemText
+                    primary={event.type.replace(/_/g, ' ')}
+                    secondary={[event.data?.symbol ?? event.data?.title, new Date(event.receivedAt).toLocaleTimeString()].filter(Boolean).join(' · ')}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Box>
+        )}
+        {replay.error && <Alert severity="error">{replay.error}</Alert>}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FeedReplayPanel;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Grid,
+  TextField,
+  Button,
+} from '@mui/material';
+import { RequestQuote } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { updateFillModel } from '../../store/slices/portfolioSlice';
+import { MarketType } from '../../types';
+import { FillModelSettings, MarketCostSchedule, saveFillModel } from '../../utils/fillModel';
+
+const MARKETS: MarketType[] = ['crypto', 'forex', 'stocks', 'commodities'];
+
+const FIELDS: { key: keyof MarketCostSchedule; label: string; step: number }[] = [
+  { key: 'defaultSpreadBps', label: 'Spread (bps)', step: 0.5 },
+  { key: 'slippageBps', label: 'Slippage (bps)', step: 0.5 },
+  { key: 'commissionPercent', label: 'Commission (%)', step: 0.01 },
+  { key: 'minCommission', label: 'Min Commission', step: 0.5 },
+];
+
+const FillModelPanel: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const savedModel = useAppSelector((state) => state.portfolio.fillModel);
+  const [model, setModel] = useState<FillModelSettings>(savedModel);
+
+  const updateSchedule = (market: MarketType, changes: Partial<MarketCostSchedule>) => {
+    setModel(prev => ({ ...prev, [market]: { ...prev[market], ...changes } }));
+  };
+
+  const handleSave = () => {
+    dispatch(updateFillModel(model));
+    saveFillModel(model);
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <RequestQuote color="primary" />
+          Trading Costs
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Demo orders buy at the ask and sell at the bid. The spread applies when a quote has no bid/ask;
+          slippage and commission apply to every fill.
+        </Typography>
+
+        {MARKETS.map(market => (
+          <Box key={market} sx={{ mb: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              {market.charAt(0).toUpperCase() + market.slice(1)}
+            </Typography>
+            <Grid container spacing={2}>
+              {FIELDS.map(field => (
+                <Grid key={field.key} size={{ xs: 6, md: 3 }}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label={field.label}
+                    type="number"
+                    value={model[market][field.key]}
+                    onChange={(e) => updateSchedule(market, { [field.key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    inputProps={{ step: field.step, min: 0 }}
+                  />
+                </Grid>
+              ))}
+            </Grid>
+          </Box>
+        ))}
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button variant="contained" onClick={handleSave}>
+            Save Costs
+          </Button>
+          <Button variant="outlined" onClick={() => setModel(savedModel)}>
+            Reset
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FillModelPanel;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  TextField,
+  Button,
+  MenuItem,
+  IconButton,
+} from '@mui/material';
+import { Insights, Add, Delete as DeleteIcon } from '@mui/icons-material';
+import autoTradeService, { IndicatorFilter } from '../../services/autoTradeService';
+import { INDICATOR_LABELS, IndicatorKey } from '../../utils/indicators';
+
+const NEW_FILTER: IndicatorFilter = { side: 'BUY', indicator: 'rsi', operator: 'below', value: 70 };
+
+const IndicatorFiltersPanel: React.FC = () => {
+  const [filters, setFilters] = useState<IndicatorFilter[]>(() => autoTradeService.getCriteria().indicatorFilters || []);
+
+  const updateFilter = (index: number, changes: Partial<IndicatorFilter>) => {
+    setFilters(prev => prev.map((filter, i) => (i === index ? { ...filter, ...changes } : filter)));
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Insights color="primary" />
+          Indicator Filters
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Only take signals while the symbol's indicators, computed from its candles, meet every filter for that
+          direction. Signals without candles are skipped while a filter applies.
+        </Typography>
+
+        {filters.map((filter, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1.5, flexWrap: 'wrap' }}>
+            <TextField
+              select
+              size="small"
+              label="Side"
+              value={filter.side}
+              onChange={(e) => updateFilter(index, { side: e.target.value as IndicatorFilter['side'] })}
+              sx={{ width: 100 }}
+            >
+              <MenuItem value="BUY">BUY</MenuItem>
+              <MenuItem value="SELL">SELL</MenuItem>
+              <MenuItem value="ANY">Any</MenuItem>
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Indicator"
+              value={filter.indicator}
+              onChange={(e) => updateFilter(index, { indicator: e.target.value as IndicatorKey })}
+              sx={{ width: 180 }}
+            >
+              {(Object.keys(INDICATOR_LABELS) as IndicatorKey[]).map(key => (
+                <MenuItem key={key} value={key}>{INDICATOR_LABELS[key]}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Is"
+              value={filter.operator}
+              onChange={(e) => updateFilter(index, { operator: e.target.value as IndicatorFilter['operator'] })}
+              sx={{ width: 110 }}
+            >
+              <MenuItem value="below">below</MenuItem>
+              <MenuItem value="above">above</MenuItem>
+            </TextField>
+            <TextField
+              size="small"
+              label="Value"
+              type="number"
+              value={filter.value}
+              onChange={(e) => updateFilter(index, { value: parseFloat(e.target.value) || 0 })}
+              sx={{ width: 120 }}
+            />
+            <IconButton size="small" onClick={() => setFilters(prev => prev.filter((_, i) => i !== index))}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+
+        <Box sx={{ display: 'flex', gap: 2, mt: 1 }}>
+          <Button startIcon={<Add />} onClick={() => setFilters(prev => [...prev, NEW_FILTER])}>
+            Add Filter
+          </Button>
+          <Button variant="contained" onClick={() => autoTradeService.updateCriteria({ indicatorFilters: filters })}>
+            Save Filters
+          </Button>
+          <Button variant="outlined" onClick={() => setFilters(autoTradeService.getCriteria().indicatorFilters || [])}>
+            Reset
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IndicatorFiltersPanel;
@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Grid,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+  Alert,
+  Table,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { Straighten } from '@mui/icons-material';
+import { useAppSelector } from '../../hooks/redux';
+import { selectActiveSignals } from '../../store/slices/signalSlice';
+import { ChartData } from '../../store/slices/marketSlice';
+import autoTradeService, { AutoTradeCriteria, PositionSizingMode } from '../../services/autoTradeService';
+import { TradingSignal } from '../../types';
+import { formatCurrency } from '../../utils/formatters';
+
+const SIZING_MODES: { value: PositionSizingMode; label: string; description: string }[] = [
+  { value: 'fixed_percent', label: 'Fixed Percent', description: 'Invest a fixed share of the balance in every trade.' },
+  { value: 'fixed_fractional', label: 'Fixed Fractional Risk', description: 'Risk a fixed share of equity between entry and stop loss.' },
+  { value: 'atr', label: 'Volatility (ATR)', description: 'Risk a fixed share of equity over an ATR multiple, or the stop distance when that is wider.' },
+  { value: 'kelly', label: 'Kelly Fraction', description: 'Scale risk by the Kelly stake from the historical win rate and reward/risk.' },
+  { value: 'ml', label: 'ML Position Size', description: 'Use the position size suggested by the model with each signal.' },
+];
+
+// Used for the preview when there are no active signals
+const SAMPLE_SIGNAL: TradingSignal = {
+  id: 'sample',
+  symbol: 'BTCUSDT',
+  type: 'BUY',
+  confidence: 80,
+  entryPrice: 65000,
+  targetPrice: 68250,
+  stopLoss: 63700,
+  timeframe: '1h',
+  market: 'crypto',
+  description: 'Sample signal',
+  reasoning: '',
+  status: 'active',
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date().toISOString(),
+  tags: [],
+  source: 'enterprise_ml',
+  risk: 'medium',
+  positionSize: 0.1,
+};
+
+const NO_CANDLES: ChartData[] = [];
+
+const PositionSizingPanel: React.FC = () => {
+  const activeSignals = useAppSelector(selectActiveSignals);
+  // Subscribed so the preview follows balance changes
+  const balance = useAppSelector((state) => state.portfolio.balance);
+
+  const [criteria, setCriteria] = useState<AutoTradeCriteria>(() => autoTradeService.getCriteria());
+  const [sampleId, setSampleId] = useState<string>(SAMPLE_SIGNAL.id);
+
+  const sampleSignals = useMemo(() => [SAMPLE_SIGNAL, ...activeSignals.slice(0, 20)], [activeSignals]);
+  const sampleSignal = sampleSignals.find(signal => signal.id === sampleId) || SAMPLE_SIGNAL;
+  const candles = useAppSelector((state) => state.market.chartData[sampleSignal.symbol]) ?? NO_CANDLES;
+
+  // Recomputed on every render: the balance reaches the service through the store
+  const preview = autoTradeService.calculatePositionSize(sampleSignal, criteria, candles);
+
+  const updateCriteria = (changes: Partial<AutoTradeCriteria>) => {
+    setCriteria(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = () => {
+    const { sizingMode, riskPerTrade, positionSize, atrPeriod, atrMultiplier, kellyFraction } = criteria;
+    autoTradeService.updateCriteria({ sizingMode, riskPerTrade, positionSize, atrPeriod, atrMultiplier, kellyFraction });
+  };
+
+  const selectedMode = SIZING_MODES.find(mode => mode.value === criteria.sizingMode);
+  const isRiskBased = ['fixed_fractional', 'atr', 'kelly'].includes(criteria.sizingMode);
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Straighten color="primary" />
+          Position Sizing
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {selectedMode?.description}
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Sizing Mode</InputLabel>
+              <Select
+                value={criteria.sizingMode}
+                label="Sizing Mode"
+                onChange={(e) => updateCriteria({ sizingMode: e.target.value as PositionSizingMode })}
+              >
+                {SIZING_MODES.map(mode => (
+                  <MenuItem key={mode.value} value={mode.value}>{mode.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 6, md: 4 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label={isRiskBased ? 'Max Position Size (%)' : 'Position Size (%)'}
+              type="number"
+              value={criteria.positionSize}
+              onChange={(e) => updateCriteria({ positionSize: parseFloat(e.target.value) || 0 })}
+            />
+          </Grid>
+          {isRiskBased && (
+            <Grid size={{ xs: 6, md: 4 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Risk per Trade (%)"
+                type="number"
+                value={criteria.riskPerTrade}
+                onChange={(e) => updateCriteria({ riskPerTrade: parseFloat(e.target.value) || 0 })}
+              />
+            </Grid>
+          )}
+          {criteria.sizingMode === 'atr' && (
+            <>
+              <Grid size={{ xs: 6, md: 4 }}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="ATR Period"
+                  type="number"
+                  value={criteria.atrPeriod}
+                  onChange={(e) => updateCriteria({ atrPeriod: parseInt(e.target.value) || 14 })}
+                />
+              </Grid>
+              <Grid size={{ xs: 6, md: 4 }}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="ATR Multiplier"
+                  type="number"
+                  value={criteria.atrMultiplier}
+                  onChange={(e) => updateCriteria({ atrMultiplier: parseFloat(e.target.value) || 0 })}
+                />
+              </Grid>
+            </>
+          )}
+          {criteria.sizingMode === 'kelly' && (
+            <Grid size={{ xs: 6, md: 4 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Kelly Fraction"
+                type="number"
+                value={criteria.kellyFraction}
+                onChange={(e) => updateCriteria({ kellyFraction: parseFloat(e.target.value) || 0 })}
+                inputProps={{ step: 0.1, min: 0, max: 1 }}
+              />
+            </Grid>
+          )}
+        </Grid>
+
+        <Typography variant="subtitle2" gutterBottom>Preview</Typography>
+        <FormControl fullWidth size="small" sx={{ mb: 1 }}>
+          <InputLabel>Sample Signal</InputLabel>
+          <Select value={sampleSignal.id} label="Sample Signal" onChange={(e) => setSampleId(e.target.value)}>
+            {sampleSignals.map(signal => (
+              <MenuItem key={signal.id} value={signal.id}>
+                {signal.id === SAMPLE_SIGNAL.id ? 'Sample: ' : ''}
+                {signal.symbol} {signal.type} @ {signal.entryPrice} (stop {signal.stopLoss}, target {signal.targetPrice})
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <Table size="small" sx={{ mb: 2 }}>
+          <TableBody>
+            <TableRow>
+              <TableCell>Quantity</TableCell>
+              <TableCell align="right">{preview.quantity.toFixed(6)}</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>Position Value</TableCell>
+              <TableCell align="right">
+                {formatCurrency(preview.positionValue)}
+                {balance > 0 && ` (${((preview.positionValue / balance) * 100).toFixed(2)}% of balance)`}
+              </TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>Risk at Stop</TableCell>
+              <TableCell align="right">
+                {formatCurrency(preview.riskAmount)}
+                {balance > 0 && ` (${((preview.riskAmount / balance) * 100).toFixed(2)}% of balance)`}
+              </TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>Mode Applied</TableCell>
+              <TableCell align="right">
+                {SIZING_MODES.find(mode => mode.value === preview.mode)?.label || preview.mode}
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        {preview.note && (
+          <Alert severity="info" sx={{ mb: 2 }}>{preview.note}</Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button variant="contained" onClick={handleSave}>
+            Save Sizing
+          </Button>
+          <Button variant="outlined" onClick={() => setCriteria(autoTradeService.getCriteria())}>
+            Reset
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PositionSizingPanel;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import {
+  NotificationsActive,
+  NotificationsOff,
+  Delete,
+  Save,
+  BookmarkAdd,
+} from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import {
+  deleteScreener,
+  saveScreener,
+  selectActiveScreenerId,
+  selectScreeners,
+  setActiveScreener,
+  updateScreener,
+} from '../../store/slices/screenersSlice';
+import { clearFilters, selectSignalFilters, setFilters } from '../../store/slices/signalSlice';
+import { SignalScreener } from '../../types';
+import { describeSignalFilter } from '../../utils/signalFilters';
+
+const ScreenerSidebar: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const screeners = useAppSelector(selectScreeners);
+  const activeScreenerId = useAppSelector(selectActiveScreenerId);
+  const filters = useAppSelector(selectSignalFilters);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [alert, setAlert] = useState(false);
+
+  const activeScreener = screeners.find(s => s.id === activeScreenerId);
+  const activeIsModified = !!activeScreener &&
+    JSON.stringify(activeScreener.filter) !== JSON.stringify(filters);
+
+  const handleSelect = (screener: SignalScreener) => {
+    if (screener.id === activeScreenerId) {
+      dispatch(setActiveScreener(null));
+      dispatch(clearFilters());
+      return;
+    }
+    dispatch(setActiveScreener(screener.id));
+    dispatch(setFilters(screener.filter));
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    dispatch(saveScreener({ name: name.trim(), filter: filters, alert }));
+    setDialogOpen(false);
+    setName('');
+    setAlert(false);
+  };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom>Screeners</Typography>
+
+      {screeners.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Save the current filters as a screener to reuse them and get alerted on new matches.
+        </Typography>
+      ) : (
+        <List dense disablePadding sx={{ mb: 2 }}>
+          {screeners.map(screener => (
+            <ListItemButton
+              key={screener.id}
+              selected={screener.id === activeScreenerId}
+              onClick={() => handleSelect(screener)}
+              sx={{ borderRadius: 1, pr: 10, position: 'relative' }}
+            >
+              <ListItemText
+                primary={screener.name}
+                secondary={describeSignalFilter(screener.filter)}
+                secondaryTypographyProps={{ noWrap: true }}
+              />
+              <Box sx={{ position: 'absolute', right: 4, display: 'flex' }}>
+                <Tooltip title={screener.alert ? 'Alerts on' : 'Alerts off'}>
+                  <IconButton
+                    size="small"
+                    color={screener.alert ? 'primary' : 'default'}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      dispatch(updateScreener({ id: screener.id, changes: { alert: !screener.alert } }));
+                    }}
+                  >
+                    {screener.alert ? <NotificationsActive fontSize="small" /> : <NotificationsOff fontSize="small" />}
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Delete">
+                  <IconButton
+                    size="small"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      dispatch(deleteScreener(screener.id));
+                    }}
+                  >
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </ListItemButton>
+          ))}
+        </List>
+      )}
+
+      <Box display="flex" flexDirection="column" gap={1}>
+        {activeScreener && activeIsModified && (
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<Save />}
+            onClick={() => dispatch(updateScreener({ id: activeScreener.id, changes: { filter: filters } }))}
+          >
+            Update "{activeScreener.name}"
+          </Button>
+        )}
+        <Button size="small" variant="contained" startIcon={<BookmarkAdd />} onClick={() => setDialogOpen(true)}>
+          Save Current Filters
+        </Button>
+      </Box>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save Screener</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {describeSignalFilter(filters)}
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSave()}
+            sx={{ mb: 1 }}
+          />
+          <FormControlLabel
+            control={<Switch checked={alert} onChange={e => setAlert(e.target.checked)} />}
+            label="Notify me when a new signal matches"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!name.trim()}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default ScreenerSidebar;
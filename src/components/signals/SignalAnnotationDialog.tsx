@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Autocomplete,
+  Alert,
+} from '@mui/material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import {
+  saveSignalAnnotation,
+  selectSignalAnnotations,
+  selectSignalAnnotationsError,
+} from '../../store/slices/signalAnnotationsSlice';
+import { selectSignalTags } from '../../store/slices/signalSlice';
+import { TradingSignal } from '../../types';
+
+interface SignalAnnotationDialogProps {
+  signal: TradingSignal | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const SignalAnnotationDialog: React.FC<SignalAnnotationDialogProps> = ({ signal, open, onClose }) => {
+  const dispatch = useAppDispatch();
+  const annotations = useAppSelector(selectSignalAnnotations);
+  const error = useAppSelector(selectSignalAnnotationsError);
+  const tagOptions = useAppSelector(selectSignalTags).map(({ tag }) => tag);
+  const [note, setNote] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+
+  const annotation = signal ? annotations[signal.id] : undefined;
+
+  useEffect(() => {
+    if (open) {
+      setNote(annotation?.note ?? '');
+      setTags(annotation?.tags ?? []);
+    }
+    // Only reset the form when it opens, not on every sync
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, signal?.id]);
+
+  const handleSave = () => {
+    if (!signal) return;
+    dispatch(saveSignalAnnotation({ signalId: signal.id, changes: { note: note.trim(), tags } }));
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Notes & Tags: {signal?.symbol}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <TextField
+          autoFocus
+          fullWidth
+          multiline
+          minRows={4}
+          label="Note"
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          inputProps={{ maxLength: 2000 }}
+          sx={{ mt: 1, mb: 2 }}
+        />
+        <Autocomplete
+          multiple
+          freeSolo
+          options={tagOptions}
+          value={tags}
+          onChange={(_, value) => setTags(Array.from(new Set(value.map(v => v.trim()).filter(Boolean))))}
+          renderInput={(params) => <TextField {...params} label="Tags" placeholder="Add a tag" />}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!signal}>Save</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SignalAnnotationDialog;
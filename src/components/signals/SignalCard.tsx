@@ -23,14 +23,47 @@ import {
   ExpandLess,
   Star,
   StarBorder,
+  OpenInNew,
+  EditNote,
+  Timer,
 } from '@mui/icons-material';
-import { TradingSignal } from '../../types';
+import { SignalAnnotation, TradingSignal } from '../../types';
+import { EXPIRY_WARNING_MINUTES, formatTimeLeft, msUntilExpiry } from '../../utils/signalExpiry';
+
+// Ticks every second in the last hour, every minute before that
+const ExpiryCountdown: React.FC<{ expiresAt: string }> = ({ expiresAt }) => {
+  const [now, setNow] = React.useState(Date.now());
+  const left = msUntilExpiry({ expiresAt }, now);
+
+  React.useEffect(() => {
+    if (!Number.isFinite(left) || left <= 0) return;
+    const timer = setTimeout(() => setNow(Date.now()), left > 3600000 ? 60000 : 1000);
+    return () => clearTimeout(timer);
+  }, [left]);
+
+  if (!Number.isFinite(left)) return null;
+  const color = left <= 0 ? 'default' : left <= EXPIRY_WARNING_MINUTES * 60000 ? 'warning' : 'default';
+  return (
+    <Tooltip title={`Expires ${new Date(expiresAt).toLocaleString()}`}>
+      <Chip
+        icon={<Timer />}
+        label={formatTimeLeft(left)}
+        size="small"
+        variant="outlined"
+        color={color}
+      />
+    </Tooltip>
+  );
+};
 
 interface SignalCardProps {
   signal: TradingSignal;
   compact?: boolean;
   onExecute?: (signal: TradingSignal) => void;
   onFavorite?: (signalId: string) => void;
+  onView?: (signal: TradingSignal) => void;
+  onAnnotate?: (signal: TradingSignal) => void;
+  annotation?: SignalAnnotation; // The user's note and tags
   isFavorite?: boolean;
   showDetails?: boolean;
 }
@@ -40,6 +73,9 @@ const SignalCard: React.FC<SignalCardProps> = ({
   compact = false,
   onExecute,
   onFavorite,
+  onView,
+  onAnnotate,
+  annotation,
   isFavorite = false,
   showDetails = false,
 }) => {
@@ -148,6 +184,28 @@ const SignalCard: React.FC<SignalCardProps> = ({
                 {isFavorite ? <Star color="warning" /> : <StarBorder />}
               </IconButton>
             )}
+            {onAnnotate && (
+              <Tooltip title="Notes & tags">
+                <IconButton
+                  size="small"
+                  onClick={() => onAnnotate(signal)}
+                  sx={{ p: 0.5 }}
+                >
+                  <EditNote fontSize="small" color={annotation?.note ? 'primary' : 'inherit'} />
+                </IconButton>
+              </Tooltip>
+            )}
+            {onView && (
+              <Tooltip title="Open details">
+                <IconButton
+                  size="small"
+                  onClick={() => onView(signal)}
+                  sx={{ p: 0.5 }}
+                >
+                  <OpenInNew fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
             <IconButton
               size="small"
               onClick={() => setExpanded(!expanded)}
@@ -243,9 +301,31 @@ const SignalCard: React.FC<SignalCardProps> = ({
           {signal.description}
         </Typography>
 
-        <Typography variant="caption" color="text.secondary">
-          {getTimeAgo(signal.createdAt)}
-        </Typography>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Typography variant="caption" color="text.secondary">
+            {getTimeAgo(signal.createdAt)}
+          </Typography>
+          {signal.status === 'active' && <ExpiryCountdown expiresAt={signal.expiresAt} />}
+        </Box>
+
+        {annotation && (annotation.note || annotation.tags.length > 0) && (
+          <Box sx={{ mb: 1.5 }}>
+            {annotation.note && (
+              <Typography
+                variant="body2"
+                color="text.secondary"
+                sx={{ fontStyle: 'italic', mb: 0.5, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+              >
+                {annotation.note}
+              </Typography>
+            )}
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {annotation.tags.map(tag => (
+                <Chip key={tag} label={`#${tag}`} size="small" variant="outlined" color="primary" />
+              ))}
+            </Box>
+          </Box>
+        )}
 
         <Collapse in={expanded}>
           <Divider sx={{ my: 1.5 }} />
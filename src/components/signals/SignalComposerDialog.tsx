@@ -0,0 +1,342 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Autocomplete,
+  Alert,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Slider,
+  Typography,
+  Box,
+  Chip,
+  InputAdornment,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import { TrendingUp, TrendingDown, MyLocation } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { createCustomSignal, selectAllSignals } from '../../store/slices/signalSlice';
+import { selectMarketData, selectWatchlist } from '../../store/slices/marketSlice';
+import { MarketType, TradingSignal } from '../../types';
+import {
+  SignalDraft,
+  calculateRiskReward,
+  classifySignalRisk,
+  draftToSignal,
+  validateSignalDraft,
+} from '../../utils/signalComposer';
+import { fetchPrice } from '../../utils/priceService';
+
+const MARKETS: MarketType[] = ['forex', 'crypto', 'stocks', 'commodities'];
+const TIMEFRAMES = ['1M', '5M', '15M', '30M', '1H', '4H', '1D'];
+const EXPIRY_HOURS = [1, 4, 24, 72, 168];
+
+// Levels prefilled from the live price, as a percentage away from entry
+const DEFAULT_STOP_PERCENT = 2;
+const DEFAULT_TARGET_PERCENT = 4;
+
+const RISK_COLORS = { low: 'success', medium: 'warning', high: 'error' } as const;
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const roundPrice = (price: number) => Number(price.toPrecision(6));
+
+interface LevelsForm {
+  entryPrice: string;
+  targetPrice: string;
+  stopLoss: string;
+}
+
+const levelsAround = (price: number, type: SignalDraft['type']): LevelsForm => {
+  const direction = type === 'BUY' ? 1 : -1;
+  return {
+    entryPrice: String(roundPrice(price)),
+    targetPrice: String(roundPrice(price * (1 + direction * DEFAULT_TARGET_PERCENT / 100))),
+    stopLoss: String(roundPrice(price * (1 - direction * DEFAULT_STOP_PERCENT / 100))),
+  };
+};
+
+interface SignalComposerDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onPublished?: (signal: TradingSignal) => void;
+}
+
+const SignalComposerDialog: React.FC<SignalComposerDialogProps> = ({ open, onClose, onPublished }) => {
+  const dispatch = useAppDispatch();
+  const watchlist = useAppSelector(selectWatchlist);
+  const marketData = useAppSelector(selectMarketData);
+  const signals = useAppSelector(selectAllSignals);
+
+  const [symbol, setSymbol] = useState('');
+  const [market, setMarket] = useState<MarketType>('crypto');
+  const [type, setType] = useState<SignalDraft['type']>('BUY');
+  const [levels, setLevels] = useState<LevelsForm>({ entryPrice: '', targetPrice: '', stopLoss: '' });
+  const [timeframe, setTimeframe] = useState('1H');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [confidence, setConfidence] = useState(70);
+  const [reasoning, setReasoning] = useState('');
+  const [pricing, setPricing] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [publishError, setPublishError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setSymbol('');
+    setType('BUY');
+    setLevels({ entryPrice: '', targetPrice: '', stopLoss: '' });
+    setTimeframe('1H');
+    setExpiresAt(toLocalInput(Date.now() + 24 * 3600000));
+    setConfidence(70);
+    setReasoning('');
+    setSubmitted(false);
+    setPublishError('');
+  }, [open]);
+
+  const draft: SignalDraft = {
+    symbol,
+    market,
+    type,
+    entryPrice: parseFloat(levels.entryPrice),
+    targetPrice: parseFloat(levels.targetPrice),
+    stopLoss: parseFloat(levels.stopLoss),
+    timeframe,
+    expiresAt,
+    confidence,
+    reasoning,
+  };
+  const errors = validateSignalDraft(draft);
+  const geometryValid = !errors.some(error => /entry|target|stop/i.test(error));
+  const riskReward = geometryValid ? calculateRiskReward(draft) : 0;
+  const risk = geometryValid ? classifySignalRisk(draft) : null;
+
+  const livePrice = marketData[symbol.toUpperCase()]?.price;
+
+  // Markets of symbols we have seen signals for, to preselect one
+  const knownMarkets = useMemo(() => {
+    const markets: Record<string, MarketType> = {};
+    signals.forEach(signal => {
+      if (!markets[signal.symbol]) markets[signal.symbol] = signal.market;
+    });
+    return markets;
+  }, [signals]);
+
+  const prefillFromPrice = async (target: string, targetMarket: MarketType) => {
+    const streamed = marketData[target]?.price;
+    if (streamed) {
+      setLevels(levelsAround(streamed, type));
+      return;
+    }
+    setPricing(true);
+    try {
+      const price = await fetchPrice(target, targetMarket);
+      if (price) setLevels(levelsAround(price, type));
+    } finally {
+      setPricing(false);
+    }
+  };
+
+  const handleSymbolChange = (value: string | null) => {
+    const next = (value || '').trim().toUpperCase();
+    setSymbol(next);
+    if (!next) return;
+    const nextMarket = knownMarkets[next] || market;
+    setMarket(nextMarket);
+    if (!levels.entryPrice) prefillFromPrice(next, nextMarket);
+  };
+
+  // Flipping direction mirrors the stop and target around entry
+  const handleTypeChange = (next: SignalDraft['type'] | null) => {
+    if (!next || next === type) return;
+    setType(next);
+    const entry = parseFloat(levels.entryPrice);
+    if (!(entry > 0)) return;
+    const mirror = (value: string) => {
+      const price = parseFloat(value);
+      return price > 0 ? String(roundPrice(2 * entry - price)) : value;
+    };
+    setLevels({ entryPrice: levels.entryPrice, targetPrice: mirror(levels.targetPrice), stopLoss: mirror(levels.stopLoss) });
+  };
+
+  const handlePublish = async () => {
+    setSubmitted(true);
+    if (errors.length > 0) return;
+    setPublishing(true);
+    setPublishError('');
+    try {
+      const signal = await dispatch(createCustomSignal(draftToSignal(draft))).unwrap();
+      onPublished?.(signal);
+      onClose();
+    } catch (error: any) {
+      setPublishError(error?.message || 'Failed to publish signal');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const levelField = (field: keyof LevelsForm, label: string) => (
+    <TextField
+      fullWidth
+      size="small"
+      label={label}
+      type="number"
+      value={levels[field]}
+      onChange={(e) => setLevels({ ...levels, [field]: e.target.value })}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>New Signal</DialogTitle>
+      <DialogContent>
+        <Grid container spacing={2} sx={{ mt: 0.5 }}>
+          <Grid size={{ xs: 12, sm: 7 }}>
+            <Autocomplete
+              freeSolo
+              options={watchlist}
+              value={symbol}
+              onChange={(_, value) => handleSymbolChange(value)}
+              onInputChange={(_, value, reason) => reason === 'input' && setSymbol(value.toUpperCase())}
+              onBlur={() => symbol && handleSymbolChange(symbol)}
+              renderInput={(params) => (
+                <TextField {...params} size="small" label="Symbol" placeholder="Pick from your watchlist" />
+              )}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 5 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Market</InputLabel>
+              <Select value={market} label="Market" onChange={(e) => setMarket(e.target.value as MarketType)}>
+                {MARKETS.map(m => <MenuItem key={m} value={m}>{m}</MenuItem>)}
+              </Select>
+            </FormControl>
+          </Grid>
+
+          <Grid size={{ xs: 12 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+              <ToggleButtonGroup value={type} exclusive size="small" onChange={(_, value) => handleTypeChange(value)}>
+                <ToggleButton value="BUY" color="success"><TrendingUp sx={{ mr: 0.5 }} />Buy</ToggleButton>
+                <ToggleButton value="SELL" color="error"><TrendingDown sx={{ mr: 0.5 }} />Sell</ToggleButton>
+              </ToggleButtonGroup>
+              <Typography variant="body2" color="text.secondary">
+                {livePrice ? `Live: ${livePrice}` : symbol ? 'No streamed price' : ''}
+              </Typography>
+            </Box>
+          </Grid>
+
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Entry"
+              type="number"
+              value={levels.entryPrice}
+              onChange={(e) => setLevels({ ...levels, entryPrice: e.target.value })}
+              InputProps={{
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <Tooltip title="Prefill from the live price">
+                      <span>
+                        <IconButton size="small" edge="end" disabled={!symbol || pricing} onClick={() => prefillFromPrice(symbol, market)}>
+                          {pricing ? <CircularProgress size={16} /> : <MyLocation fontSize="small" />}
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </InputAdornment>
+                ),
+              }}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 4 }}>{levelField('targetPrice', 'Target')}</Grid>
+          <Grid size={{ xs: 12, sm: 4 }}>{levelField('stopLoss', 'Stop Loss')}</Grid>
+
+          <Grid size={{ xs: 12 }}>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              <Chip size="small" label={`R:R ${riskReward > 0 ? riskReward.toFixed(2) : '—'}`} color={riskReward >= 1 ? 'primary' : 'default'} />
+              {risk && <Chip size="small" label={`${risk} risk`} color={RISK_COLORS[risk]} />}
+            </Box>
+          </Grid>
+
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Timeframe</InputLabel>
+              <Select value={timeframe} label="Timeframe" onChange={(e) => setTimeframe(e.target.value)}>
+                {TIMEFRAMES.map(tf => <MenuItem key={tf} value={tf}>{tf}</MenuItem>)}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 12, sm: 8 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Expires"
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <Box sx={{ display: 'flex', gap: 0.5, mt: 0.5, flexWrap: 'wrap' }}>
+              {EXPIRY_HOURS.map(hours => (
+                <Chip
+                  key={hours}
+                  size="small"
+                  variant="outlined"
+                  label={hours < 24 ? `${hours}h` : `${hours / 24}d`}
+                  onClick={() => setExpiresAt(toLocalInput(Date.now() + hours * 3600000))}
+                />
+              ))}
+            </Box>
+          </Grid>
+
+          <Grid size={{ xs: 12 }}>
+            <Typography variant="body2" gutterBottom>Confidence: {confidence}%</Typography>
+            <Slider value={confidence} onChange={(_, value) => setConfidence(value as number)} min={0} max={100} size="small" />
+          </Grid>
+
+          <Grid size={{ xs: 12 }}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label="Reasoning"
+              value={reasoning}
+              onChange={(e) => setReasoning(e.target.value)}
+              inputProps={{ maxLength: 2000 }}
+            />
+          </Grid>
+        </Grid>
+
+        {submitted && errors.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {errors.map(error => <div key={error}>{error}</div>)}
+          </Alert>
+        )}
+        {publishError && <Alert severity="error" sx={{ mt: 2 }}>{publishError}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handlePublish} disabled={publishing}>
+          {publishing ? 'Publishing...' : 'Publish'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SignalComposerDialog;
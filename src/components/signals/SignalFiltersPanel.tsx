@@ -0,0 +1,347 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  FormControlLabel,
+  Switch,
+  Slider,
+  Typography,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Autocomplete,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Button,
+  Divider,
+  useTheme,
+} from '@mui/material';
+import {
+  FilterList,
+  ExpandMore,
+  Clear,
+  Save,
+  TrendingUp,
+  Security,
+  SwapVert,
+} from '@mui/icons-material';
+import { SignalFilter } from '../../types';
+import { countActiveFilters } from '../../utils/signalFilters';
+
+interface SignalFiltersPanelProps {
+  filters: SignalFilter;
+  onFiltersChange: (filters: SignalFilter) => void;
+  onReset: () => void;
+  onSave?: () => void;
+  saveLabel?: string;
+  availableSymbols?: string[];
+  availableTags?: string[];
+}
+
+const availableMarkets = ['crypto', 'forex', 'stocks', 'commodities'];
+const availableTypes = ['BUY', 'SELL', 'HOLD'];
+const availableRiskLevels = ['low', 'medium', 'high'];
+const availableTimeframes = ['1M', '5M', '15M', '30M', '1H', '4H', '1D'];
+const availableSources = ['enterprise_ml', 'ai', 'manual', 'copy_trading'];
+
+const HIGH_CONFIDENCE = 80;
+
+const SignalFiltersPanel: React.FC<SignalFiltersPanelProps> = ({
+  filters,
+  onFiltersChange,
+  onReset,
+  onSave,
+  saveLabel = 'Save Filters',
+  availableSymbols = [],
+  availableTags = [],
+}) => {
+  const theme = useTheme();
+  const [expanded, setExpanded] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  const handleFilterChange = <K extends keyof SignalFilter>(key: K, value: SignalFilter[K]) => {
+    onFiltersChange({ ...filters, [key]: value });
+  };
+
+  const toggleValue = (key: 'markets' | 'types' | 'risk', value: string) => {
+    const values = filters[key];
+    handleFilterChange(key, values.includes(value) ? values.filter(v => v !== value) : [...values, value]);
+  };
+
+  const handleConfidenceChange = (event: Event, newValue: number | number[]) => {
+    handleFilterChange('confidence', newValue as [number, number]);
+  };
+
+  const enterpriseMLOnly = filters.sources.length === 1 && filters.sources[0] === 'enterprise_ml';
+  const highConfidenceOnly = filters.confidence[0] >= HIGH_CONFIDENCE;
+  const activeSignalsOnly = filters.status.length === 1 && filters.status[0] === 'active';
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Accordion
+        expanded={expanded}
+        onChange={() => setExpanded(!expanded)}
+        sx={{
+          background: theme.palette.mode === 'dark'
+            ? 'rgba(255,255,255,0.05)'
+            : 'rgba(0,0,0,0.02)',
+          border: `1px solid ${theme.palette.divider}`,
+        }}
+      >
+        <AccordionSummary expandIcon={<ExpandMore />}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FilterList />
+            <Typography variant="h6">Filters</Typography>
+            {activeCount > 0 && (
+              <Chip
+                label={activeCount}
+                size="small"
+                color="primary"
+                sx={{ ml: 1 }}
+              />
+            )}
+          </Box>
+        </AccordionSummary>
+
+        <AccordionDetails>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+
+            {/* Quick Filters */}
+            <Box>
+              <Typography variant="subtitle1" sx={{ mb: 2, fontWeight: 600 }}>
+                Quick Filters
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={enterpriseMLOnly}
+                      onChange={(e) => handleFilterChange('sources', e.target.checked ? ['enterprise_ml'] : [])}
+                    />
+                  }
+                  label="Enterprise ML Only"
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={highConfidenceOnly}
+                      onChange={(e) => handleFilterChange(
+                        'confidence',
+                        [e.target.checked ? HIGH_CONFIDENCE : 0, filters.confidence[1]]
+                      )}
+                    />
+                  }
+                  label={`High Confidence (≥${HIGH_CONFIDENCE}%)`}
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={activeSignalsOnly}
+                      onChange={(e) => handleFilterChange('status', e.target.checked ? ['active'] : [])}
+                    />
+                  }
+                  label="Active Signals Only"
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={filters.starred}
+                      onChange={(e) => handleFilterChange('starred', e.target.checked)}
+                    />
+                  }
+                  label="Starred"
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={filters.hasNotes}
+                      onChange={(e) => handleFilterChange('hasNotes', e.target.checked)}
+                    />
+                  }
+                  label="Has Notes"
+                />
+              </Box>
+            </Box>
+
+            <Divider />
+
+            {/* Confidence Range */}
+            <Box>
+              <Typography variant="subtitle1" sx={{ mb: 2, fontWeight: 600 }}>
+                Confidence Range
+              </Typography>
+              <Box sx={{ px: 2 }}>
+                <Slider
+                  value={filters.confidence}
+                  onChange={handleConfidenceChange}
+                  valueLabelDisplay="auto"
+                  min={0}
+                  max={100}
+                  marks={[
+                    { value: 0, label: '0%' },
+                    { value: 50, label: '50%' },
+                    { value: 80, label: '80%' },
+                    { value: 100, label: '100%' },
+                  ]}
+                />
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+                  <Typography variant="body2">
+                    {filters.confidence[0]}% - {filters.confidence[1]}%
+                  </Typography>
+                </Box>
+              </Box>
+            </Box>
+
+            <Divider />
+
+            {/* Signal Types and Risk Levels */}
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+              <Box>
+                <Typography variant="subtitle1" sx={{ mb: 2, fontWeight: 600 }}>
+                  Signal Types
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {availableTypes.map((type) => (
+                    <Chip
+                      key={type}
+                      label={type}
+                      onClick={() => toggleValue('types', type)}
+                      color={filters.types.includes(type) ? 'primary' : 'default'}
+                      variant={filters.types.includes(type) ? 'filled' : 'outlined'}
+                      icon={<SwapVert />}
+                    />
+                  ))}
+                </Box>
+              </Box>
+              <Box>
+                <Typography variant="subtitle1" sx={{ mb: 2, fontWeight: 600 }}>
+                  Risk Levels
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {availableRiskLevels.map((risk) => (
+                    <Chip
+                      key={risk}
+                      label={risk.toUpperCase()}
+                      onClick={() => toggleValue('risk', risk)}
+                      color={filters.risk.includes(risk) ? 'primary' : 'default'}
+                      variant={filters.risk.includes(risk) ? 'filled' : 'outlined'}
+                      icon={<Security />}
+                    />
+                  ))}
+                </Box>
+              </Box>
+            </Box>
+
+            <Divider />
+
+            {/* Markets */}
+            <Box>
+              <Typography variant="subtitle1" sx={{ mb: 2, fontWeight: 600 }}>
+                Markets
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                {availableMarkets.map((market) => (
+                  <Chip
+                    key={market}
+                    label={market.toUpperCase()}
+                    onClick={() => toggleValue('markets', market)}
+                    color={filters.markets.includes(market) ? 'primary' : 'default'}
+                    variant={filters.markets.includes(market) ? 'filled' : 'outlined'}
+                    icon={<TrendingUp />}
+                  />
+                ))}
+              </Box>
+            </Box>
+
+            <Divider />
+
+            {/* Advanced Settings */}
+            <Box>
+              <Typography variant="subtitle1" sx={{ mb: 2, fontWeight: 600 }}>
+                Advanced Settings
+              </Typography>
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>Timeframes</InputLabel>
+                  <Select
+                    multiple
+                    value={filters.timeframes}
+                    onChange={(e) => handleFilterChange('timeframes', e.target.value as string[])}
+                    label="Timeframes"
+                  >
+                    {availableTimeframes.map((tf) => (
+                      <MenuItem key={tf} value={tf}>{tf}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                <FormControl fullWidth size="small">
+                  <InputLabel>Sources</InputLabel>
+                  <Select
+                    multiple
+                    value={filters.sources}
+                    onChange={(e) => handleFilterChange('sources', e.target.value as string[])}
+                    label="Sources"
+                  >
+                    {availableSources.map((source) => (
+                      <MenuItem key={source} value={source}>
+                        {source.replace('_', ' ').toUpperCase()}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                <Autocomplete
+                  multiple
+                  freeSolo
+                  size="small"
+                  options={availableSymbols}
+                  value={filters.symbols}
+                  onChange={(_, value) => handleFilterChange('symbols', value.map(v => v.trim().toUpperCase()).filter(Boolean))}
+                  renderInput={(params) => <TextField {...params} label="Symbols" placeholder="e.g. BTCUSDT" />}
+                />
+
+                <Autocomplete
+                  multiple
+                  freeSolo
+                  size="small"
+                  options={availableTags}
+                  value={filters.tags}
+                  onChange={(_, value) => handleFilterChange('tags', value.map(v => v.trim()).filter(Boolean))}
+                  renderInput={(params) => <TextField {...params} label="Tags" placeholder="Any of" />}
+                />
+              </Box>
+            </Box>
+
+            {/* Action Buttons */}
+            <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
+              <Button
+                startIcon={<Clear />}
+                onClick={onReset}
+                variant="outlined"
+                size="small"
+              >
+                Reset
+              </Button>
+              {onSave && (
+                <Button
+                  startIcon={<Save />}
+                  onClick={onSave}
+                  variant="contained"
+                  size="small"
+                >
+                  {saveLabel}
+                </Button>
+              )}
+            </Box>
+          </Box>
+        </AccordionDetails>
+      </Accordion>
+    </Box>
+  );
+};
+
+export default SignalFiltersPanel;
@@ -0,0 +1,174 @@
+import React, { useMemo } from 'react';
+import { Chart } from 'react-chartjs-2';
+import type { ChartData as ChartJsData, ChartDataset, ChartOptions, TooltipItem } from 'chart.js';
+import { Box, Chip, useTheme } from '@mui/material';
+import { ChartData } from '../../store/slices/marketSlice';
+import { TradingSignal } from '../../types';
+
+export interface SignalChartMarker {
+  label: string;
+  timestamp: number;
+  price: number;
+  color: string;
+}
+
+interface SignalPriceChartProps {
+  signal: TradingSignal;
+  candles: ChartData[];
+  markers: SignalChartMarker[];
+  height?: number;
+}
+
+// Candles are floating [low, high] or [open, close] bars over the time axis
+type PricePoint = { x: number; y: number | [number, number] };
+type SignalChartType = 'bar' | 'line';
+
+// Horizontal line across the whole candle range
+const levelLine = (
+  label: string,
+  value: number,
+  from: number,
+  to: number,
+  color: string,
+  dash: number[] = []
+): ChartDataset<SignalChartType, PricePoint[]> => ({
+  type: 'line' as const,
+  label,
+  data: [{ x: from, y: value }, { x: to, y: value }],
+  borderColor: color,
+  borderWidth: 1.5,
+  borderDash: dash,
+  pointRadius: 0,
+  fill: false,
+});
+
+/**
+ * Candlestick chart for a signal: chart.js has no candlestick type, so each
+ * candle is drawn as a thin floating bar for the wick and a wide one for the
+ * body. Entry, target and stop, the signal's Bollinger band and its lifecycle
+ * events are layered on top.
+ */
+const SignalPriceChart: React.FC<SignalPriceChartProps> = ({ signal, candles, markers, height = 420 }) => {
+  const theme = useTheme();
+  const up = theme.palette.success.main;
+  const down = theme.palette.error.main;
+
+  const data = useMemo((): ChartJsData<SignalChartType, PricePoint[]> => {
+    const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    const from = sorted[0]?.timestamp ?? Date.parse(signal.createdAt);
+    const to = sorted[sorted.length - 1]?.timestamp ?? Date.now();
+    const candleColor = (candle: ChartData) => (candle.close >= candle.open ? up : down);
+    const bollinger = signal.technicalIndicators?.bollinger;
+
+    const datasets: ChartDataset<SignalChartType, PricePoint[]>[] = [
+      {
+        type: 'bar' as const,
+        label: 'Wick',
+        data: sorted.map(candle => ({ x: candle.timestamp, y: [candle.low, candle.high] })),
+        backgroundColor: sorted.map(candleColor),
+        barPercentage: 0.1,
+        categoryPercentage: 1,
+        grouped: false,
+      },
+      {
+        type: 'bar' as const,
+        label: 'Candles',
+        data: sorted.map(candle => ({
+          x: candle.timestamp,
+          // Keep doji candles visible
+          y: candle.open === candle.close ? [candle.open * 0.9999, candle.close * 1.0001] : [candle.open, candle.close],
+        })),
+        backgroundColor: sorted.map(candleColor),
+        barPercentage: 0.7,
+        categoryPercentage: 1,
+        grouped: false,
+      },
+      levelLine('Entry', signal.entryPrice, from, to, theme.palette.info.main),
+    ];
+
+    if (signal.targetPrice) datasets.push(levelLine('Target', signal.targetPrice, from, to, up, [6, 4]));
+    if (signal.stopLoss) datasets.push(levelLine('Stop', signal.stopLoss, from, to, down, [6, 4]));
+    if (bollinger) {
+      datasets.push(
+        levelLine('Bollinger Upper', bollinger.upper, from, to, theme.palette.secondary.main, [2, 3]),
+        levelLine('Bollinger Middle', bollinger.middle, from, to, theme.palette.text.disabled, [2, 3]),
+        levelLine('Bollinger Lower', bollinger.lower, from, to, theme.palette.secondary.main, [2, 3]),
+      );
+    }
+    markers.forEach(marker => {
+      datasets.push({
+        type: 'line' as const,
+        label: marker.label,
+        data: [{ x: marker.timestamp, y: marker.price }],
+        borderColor: marker.color,
+        backgroundColor: marker.color,
+        pointStyle: 'triangle',
+        pointRadius: 8,
+        showLine: false,
+      });
+    });
+
+    return { datasets };
+  }, [candles, markers, signal, theme, up, down]);
+
+  const options: ChartOptions<SignalChartType> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: {
+        type: 'linear' as const,
+        offset: true,
+        ticks: {
+          callback: (value: string | number) => new Date(Number(value)).toLocaleString([], {
+            month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+          }),
+        },
+      },
+      y: { beginAtZero: false },
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: { filter: (item: { text: string }) => item.text !== 'Wick' },
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<SignalChartType>) => {
+            const raw = context.raw as PricePoint;
+            if (context.dataset.label === 'Candles') {
+              const candle = candles.find(c => c.timestamp === raw.x);
+              return candle
+                ? `O ${candle.open} H ${candle.high} L ${candle.low} C ${candle.close}`
+                : '';
+            }
+            return `${context.dataset.label}: ${Array.isArray(raw.y) ? raw.y.join(' - ') : raw.y}`;
+          },
+        },
+      },
+    },
+  };
+
+  const { rsi, macd } = signal.technicalIndicators || {};
+
+  return (
+    <Box sx={{ position: 'relative', height }}>
+      <Chart type="bar" data={data} options={options} />
+      {(rsi !== undefined || macd !== undefined) && (
+        <Box sx={{ position: 'absolute', top: 36, left: 56, display: 'flex', gap: 1 }}>
+          {rsi !== undefined && (
+            <Chip
+              size="small"
+              label={`RSI ${rsi.toFixed(1)}`}
+              color={rsi >= 70 ? 'error' : rsi <= 30 ? 'success' : 'default'}
+            />
+          )}
+          {macd !== undefined && (
+            <Chip size="small" label={`MACD ${macd.toFixed(4)}`} color={macd >= 0 ? 'success' : 'error'} />
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default SignalPriceChart;
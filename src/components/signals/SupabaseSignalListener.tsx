@@ -1,13 +1,15 @@
 import React, { useEffect, useState } from 'react';
 import { supabase } from '../../services/supabaseClient';
+import { ingestSignal, ingestSignals } from '../../services/signalIngestion';
+import { TradingSignal } from '../../types';
 
 export default function SupabaseSignalListener() {
-  const [signals, setSignals] = useState<any[]>([]);
+  const [signals, setSignals] = useState<TradingSignal[]>([]);
 
   useEffect(() => {
     // Initial fetch
     supabase.from('signals').select('*').then(({ data }) => {
-      if (data) setSignals(data);
+      if (data) setSignals(ingestSignals(data, 'supabase'));
     });
 
     // Real-time subscription
@@ -17,17 +19,20 @@ export default function SupabaseSignalListener() {
         'postgres_changes',
         { event: '*', schema: 'public', table: 'signals' },
         (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const deletedId = String((payload.old as { id?: unknown }).id);
+            setSignals((prev) => prev.filter((s) => s.id !== deletedId));
+            return;
+          }
+
+          const signal = ingestSignal(payload.new, 'supabase');
+          if (!signal) return;
+
           setSignals((prev) => {
             if (payload.eventType === 'INSERT') {
-              return [payload.new, ...prev];
-            }
-            if (payload.eventType === 'UPDATE') {
-              return prev.map((s) => (s.id === payload.new.id ? payload.new : s));
-            }
-            if (payload.eventType === 'DELETE') {
-              return prev.filter((s) => s.id !== payload.old.id);
+              return [signal, ...prev];
             }
-            return prev;
+            return prev.map((s) => (s.id === signal.id ? signal : s));
           });
         }
       )
@@ -2,31 +2,55 @@
 export const API_CONFIG = {
   BASE_URL: process.env.REACT_APP_API_BASE_URL || 'http://localhost:5000/api',
   WEBSOCKET_URL: process.env.REACT_APP_WS_URL || 'ws://localhost:5000',
-  
+
   // External API Keys (store in environment variables)
   ALPHA_VANTAGE_KEY: process.env.REACT_APP_ALPHA_VANTAGE_KEY,
   FINANCIAL_MODELING_PREP_KEY: process.env.REACT_APP_FINANCIAL_MODELING_PREP_KEY,
   NEWS_API_KEY: process.env.REACT_APP_NEWS_API_KEY,
-  
+
   // API Endpoints
   ENDPOINTS: {
     SIGNALS: '/signals',
     MARKET_DATA: '/market-data',
     PORTFOLIO: '/portfolio',
     NEWS: '/news',
+    PRICE: '/price',
   },
-  
+
   EXTERNAL_APIS: {
     ALPHA_VANTAGE: 'https://www.alphavantage.co/query',
     COINGECKO: 'https://api.coingecko.com/api/v3',
     NEWS_API: 'https://newsapi.org/v2',
+    BINANCE: 'https://api.binance.com/api/v3',
+    EXCHANGE_RATE_HOST: 'https://api.exchangerate.host',
+    YAHOO_FINANCE: 'https://query1.finance.yahoo.com/v7/finance',
   },
+
+  // Price provider fallback chains per market, tried in order.
+  // Set REACT_APP_PRICE_PROVIDER=mock to price everything locally (tests, demos, offline).
+  PRICE_PROVIDERS: {
+    crypto: ['BACKEND', 'BINANCE'],
+    forex: ['BACKEND', 'EXCHANGE_RATE_HOST'],
+    stocks: ['BACKEND', 'YAHOO_FINANCE'],
+    commodities: ['BACKEND', 'EXCHANGE_RATE_HOST'],
+  } as Record<string, string[]>,
+  USE_MOCK_PRICES: process.env.REACT_APP_PRICE_PROVIDER === 'mock',
+  MAX_CONCURRENT_PRICE_REQUESTS: 4,
 };
 
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
 // Rate limiting configuration
 export const RATE_LIMITS = {
-  ALPHA_VANTAGE: 5, // calls per minute
-  FINANCIAL_MODELING_PREP: 250, // calls per day for free tier
-  NEWS_API: 1000, // calls per day for free tier
+  ALPHA_VANTAGE: { calls: 5, intervalMs: MINUTE },
+  FINANCIAL_MODELING_PREP: { calls: 250, intervalMs: DAY }, // free tier
+  NEWS_API: { calls: 1000, intervalMs: DAY }, // free tier
+  COINGECKO: { calls: 30, intervalMs: MINUTE },
+  BINANCE: { calls: 1200, intervalMs: MINUTE },
+  EXCHANGE_RATE_HOST: { calls: 100, intervalMs: MINUTE },
+  YAHOO_FINANCE: { calls: 60, intervalMs: MINUTE },
+  BACKEND: { calls: 120, intervalMs: MINUTE },
 };
-export {};
\ No newline at end of file
+
+export type RateLimitKey = keyof typeof RATE_LIMITS;
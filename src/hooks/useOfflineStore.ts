@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from './redux';
+import { fetchSignals, hydrateSignals, selectAllSignals } from '../store/slices/signalSlice';
+import { ChartData, hydrateChartData, selectChartData } from '../store/slices/marketSlice';
+import { hydratePortfolio, selectDemoAccounts } from '../store/slices/portfolioSlice';
+import { selectUserId } from '../store/slices/authSlice';
+import offlineStoreService from '../services/offlineStoreService';
+import errorHandlingService from '../services/errorHandlingService';
+
+// Coalesces bursts of updates, e.g. streamed candles, into one write
+const PERSIST_DELAY_MS = 1000;
+
+// Hydrates signals, candles and the portfolio from IndexedDB on startup, keeps
+// the copy there up to date, and switches to fallback mode while the backend
+// or the network is unreachable
+export const useOfflineStore = () => {
+  const dispatch = useAppDispatch();
+  const userId = useAppSelector(selectUserId);
+  const signals = useAppSelector(selectAllSignals);
+  const chartData = useAppSelector(selectChartData);
+  const demoAccount = useAppSelector((state) => state.portfolio.demoAccount);
+  const accounts = useAppSelector(selectDemoAccounts);
+  const signalsLoading = useAppSelector((state) => state.signals.loading.signals);
+  const signalsError = useAppSelector((state) => state.signals.error.signals);
+  const [hydrated, setHydrated] = useState(false);
+  const [portfolioOwner, setPortfolioOwner] = useState<string | null>(null);
+  const savedCandles = useRef<Record<string, ChartData[]>>({});
+  const latestCandles = useRef(chartData);
+  latestCandles.current = chartData;
+  const candleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const wasLoading = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([offlineStoreService.loadSignals(), offlineStoreService.loadChartData()]).then(([cachedSignals, cachedCandles]) => {
+      if (cancelled) return;
+      if (cachedSignals.length > 0) dispatch(hydrateSignals(cachedSignals));
+      if (Object.keys(cachedCandles).length > 0) {
+        savedCandles.current = cachedCandles;
+        dispatch(hydrateChartData(cachedCandles));
+      }
+      setHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    offlineStoreService.loadPortfolioSnapshot(userId).then(snapshot => {
+      if (cancelled) return;
+      if (snapshot) dispatch(hydratePortfolio(snapshot));
+      setPortfolioOwner(userId);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, dispatch]);
+
+  // Writes wait for hydration so the empty startup state can't wipe the cache
+  useEffect(() => {
+    if (!hydrated) return;
+    const timer = setTimeout(() => offlineStoreService.saveSignals(signals), PERSIST_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [signals, hydrated]);
+
+  // Live ticks change candles continuously, so these writes are throttled
+  // rather than debounced
+  useEffect(() => {
+    if (!hydrated || candleTimer.current) return;
+    candleTimer.current = setTimeout(() => {
+      candleTimer.current = null;
+      const changed = Object.fromEntries(
+        Object.entries(latestCandles.current).filter(([key, candles]) => savedCandles.current[key] !== candles)
+      );
+      if (Object.keys(changed).length === 0) return;
+      savedCandles.current = { ...savedCandles.current, ...changed };
+      offlineStoreService.saveChartData(changed);
+    }, PERSIST_DELAY_MS);
+  }, [chartData, hydrated]);
+
+  useEffect(() => () => {
+    if (candleTimer.current) clearTimeout(candleTimer.current);
+  }, []);
+
+  useEffect(() => {
+    if (!userId || portfolioOwner !== userId || (!demoAccount && accounts.length === 0)) return;
+    const timer = setTimeout(() => {
+      offlineStoreService.savePortfolioSnapshot({ userId, demoAccount, accounts, savedAt: Date.now() });
+    }, PERSIST_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [demoAccount, accounts, userId, portfolioOwner]);
+
+  // A signal request that fails means cached data is all we have; the next
+  // one that succeeds means the backend is back
+  useEffect(() => {
+    if (wasLoading.current && !signalsLoading) {
+      if (signalsError) {
+        errorHandlingService.enterFallbackMode();
+      } else {
+        errorHandlingService.exitFallbackMode();
+      }
+    }
+    wasLoading.current = signalsLoading;
+  }, [signalsLoading, signalsError]);
+
+  // Back online, a refetch decides whether the backend is reachable too
+  useEffect(() => {
+    const handleOffline = () => errorHandlingService.enterFallbackMode();
+    const handleOnline = () => dispatch(fetchSignals({}));
+    if (!navigator.onLine) handleOffline();
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [dispatch]);
+};
+
+export default useOfflineStore;
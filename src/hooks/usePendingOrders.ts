@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from './redux';
+import { usePerUserStorage } from './usePerUserStorage';
+import { add } from '../store/slices/notificationsSlice';
+import { selectMarketData } from '../store/slices/marketSlice';
+import {
+  cancelPendingOrder,
+  fillPendingOrder,
+  loadWorkingOrders,
+  selectWorkingOrders,
+  selectWorkingOrdersOwner,
+  setWorkingOrders,
+  workingOrdersStorageKey,
+} from '../store/slices/portfolioSlice';
+import { isOrderExpired, isOrderTriggered, ORDER_TYPE_LABELS } from '../utils/pendingOrders';
+
+const EXPIRY_CHECK_INTERVAL = 30 * 1000;
+
+// Loads the signed-in user's working orders, fills them when market data
+// reaches their level and drops them once they expire. An order whose fill
+// failed waits for the user to retry it.
+export const usePendingOrders = () => {
+  const dispatch = useAppDispatch();
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+  const workingOrders = useAppSelector(selectWorkingOrders);
+  const owner = useAppSelector(selectWorkingOrdersOwner);
+  // Working orders survive a reload
+  const userId = usePerUserStorage({
+    value: workingOrders,
+    owner,
+    storageKey: workingOrdersStorageKey,
+    hydrate: id => setWorkingOrders({ userId: id, orders: id ? loadWorkingOrders(id) : [] }),
+    description: 'working orders',
+  });
+  const marketData = useAppSelector(selectMarketData);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Orders can expire while prices are quiet
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), EXPIRY_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated || !userId || owner !== userId) return;
+
+    workingOrders.forEach(order => {
+      const label = `${order.symbol} ${order.side} ${ORDER_TYPE_LABELS[order.orderType].toLowerCase()} @ ${order.price}`;
+
+      if (isOrderExpired(order, new Date(now))) {
+        dispatch(cancelPendingOrder(order.id));
+        dispatch(add({
+          type: 'warning',
+          title: '⏰ Order Expired',
+          message: `${label} expired without filling`,
+          persistent: false,
+        }));
+        return;
+      }
+
+      if (order.fillError) return;
+      const price = marketData[order.symbol]?.price;
+      if (price === undefined || !isOrderTriggered(order, price)) return;
+
+      // fillPendingOrder takes the order off the book as soon as it is dispatched
+      dispatch(fillPendingOrder({ userId, order, price }))
+        .unwrap()
+        .then(() => {
+          dispatch(add({
+            type: 'success',
+            title: '✅ Order Filled',
+            message: `${label} filled at ${price}`,
+            persistent: false,
+          }));
+        })
+        .catch((error: unknown) => {
+          dispatch(add({
+            type: 'error',
+            title: 'Order Fill Failed',
+            message: `${label}: ${typeof error === 'string' ? error : 'could not open the position'}. The order is held until you retry it.`,
+            persistent: true,
+          }));
+        });
+    });
+  }, [workingOrders, marketData, now, isAuthenticated, userId, owner, dispatch]);
+};
+
+export default usePendingOrders;
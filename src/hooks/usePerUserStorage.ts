@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import type { AnyAction } from '@reduxjs/toolkit';
+import { useAppDispatch, useAppSelector } from './redux';
+import { selectUserId } from '../store/slices/authSlice';
+
+interface PerUserStorageOptions<T> {
+  value: T; // What is saved; keep it referentially stable between changes
+  owner: string | null; // User the value in the store was loaded for
+  storageKey: (userId: string) => string;
+  hydrate: (userId: string | null) => AnyAction; // Loads the user's saved copy into the store
+  description: string; // For the error logged when saving fails
+}
+
+// Loads per-user state from local storage whenever the signed-in user
+// changes and saves it back on change. Saving waits until the store holds the
+// current user's copy, so one user's data is never written under another's key.
+// Returns the signed-in user's id.
+export const usePerUserStorage = <T>({ value, owner, storageKey, hydrate, description }: PerUserStorageOptions<T>) => {
+  const dispatch = useAppDispatch();
+  const userId = useAppSelector(selectUserId);
+  const hydrateRef = useRef(hydrate);
+  hydrateRef.current = hydrate;
+
+  useEffect(() => {
+    dispatch(hydrateRef.current(userId));
+  }, [userId, dispatch]);
+
+  useEffect(() => {
+    if (!owner || owner !== userId) return;
+    try {
+      localStorage.setItem(storageKey(owner), JSON.stringify(value));
+    } catch (error) {
+      console.error(`Failed to save ${description}:`, error);
+    }
+  }, [value, owner, userId, storageKey, description]);
+
+  return userId;
+};
+
+export default usePerUserStorage;
@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react';
+import { useAppDispatch, useAppSelector } from './redux';
+import { usePerUserStorage } from './usePerUserStorage';
+import { add, selectNotificationSettings } from '../store/slices/notificationsSlice';
+import { MarketData, selectMarketData } from '../store/slices/marketSlice';
+import {
+  loadPriceAlerts,
+  priceAlertsStorageKey,
+  recordPriceAlertTrigger,
+  selectPriceAlerts,
+  selectPriceAlertsOwner,
+  setPriceAlerts,
+} from '../store/slices/priceAlertsSlice';
+import { selectAllDemoAccounts } from '../store/slices/portfolioSlice';
+import { PriceAlertTracker, createPriceAlertTracker, evaluatePriceAlert, findAlertPosition } from '../utils/priceAlerts';
+import { playNotificationSound, showDesktopNotification } from '../utils/notificationChannels';
+
+// Loads the signed-in user's price alerts and fires them as market data
+// arrives, in the app and by sound or desktop notification per the settings
+export const usePriceAlerts = () => {
+  const dispatch = useAppDispatch();
+  const alerts = useAppSelector(selectPriceAlerts);
+  const owner = useAppSelector(selectPriceAlertsOwner);
+  const marketData = useAppSelector(selectMarketData);
+  const settings = useAppSelector(selectNotificationSettings);
+  const accounts = useAppSelector(selectAllDemoAccounts);
+  const trackers = useRef(new Map<string, PriceAlertTracker>());
+  // Quotes already evaluated, so only symbols with a new tick are checked
+  const evaluated = useRef<Record<string, MarketData>>({});
+
+  const userId = usePerUserStorage({
+    value: alerts,
+    owner,
+    storageKey: priceAlertsStorageKey,
+    hydrate: id => setPriceAlerts({ userId: id, alerts: id ? loadPriceAlerts(id) : [] }),
+    description: 'price alerts',
+  });
+
+  // Another user's alerts start watching afresh
+  useEffect(() => {
+    trackers.current.clear();
+  }, [userId]);
+
+  useEffect(() => {
+    const previous = evaluated.current;
+    evaluated.current = marketData;
+    if (!owner || owner !== userId) return;
+
+    alerts.forEach(alert => {
+      // Re-enabled alerts start from a fresh baseline
+      if (!alert.enabled) {
+        trackers.current.delete(alert.id);
+        return;
+      }
+      const data = marketData[alert.symbol];
+      if (!data || data === previous[alert.symbol] || !Number.isFinite(data.price)) return;
+
+      let tracker = trackers.current.get(alert.id);
+      if (!tracker) {
+        tracker = createPriceAlertTracker();
+        trackers.current.set(alert.id, tracker);
+      }
+      const position = findAlertPosition(alert, accounts);
+      const message = evaluatePriceAlert(alert, tracker, data.price, data.timestamp || Date.now(), position);
+      if (!message) return;
+
+      dispatch(recordPriceAlertTrigger({ id: alert.id, at: new Date().toISOString() }));
+      if (!settings.enabled) return;
+      const title = `🔔 ${alert.symbol} price alert`;
+      const body = alert.note ? `${message} — ${alert.note}` : message;
+      dispatch(add({ type: 'warning', title, message: body, persistent: true, data: { priceAlertId: alert.id } }));
+      if (settings.sound) playNotificationSound();
+      if (settings.desktop) showDesktopNotification(title, body, `price-alert-${alert.id}`);
+    });
+  }, [marketData, alerts, accounts, settings, owner, userId, dispatch]);
+};
+
+export default usePriceAlerts;
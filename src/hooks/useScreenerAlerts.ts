@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { useAppDispatch, useAppSelector } from './redux';
+import { usePerUserStorage } from './usePerUserStorage';
+import { add } from '../store/slices/notificationsSlice';
+import {
+  loadScreeners,
+  screenersStorageKey,
+  selectScreeners,
+  selectScreenersOwner,
+  setScreeners,
+} from '../store/slices/screenersSlice';
+import { matchesSignalFilter } from '../utils/signalFilters';
+
+const NEW_SIGNAL_GRACE = 60 * 1000;
+
+// Loads the signed-in user's saved screeners and notifies when a newly
+// arriving signal matches one that is armed
+export const useScreenerAlerts = () => {
+  const dispatch = useAppDispatch();
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+  const signals = useAppSelector((state) => state.signals.signals);
+  const screeners = useAppSelector(selectScreeners);
+  const owner = useAppSelector(selectScreenersOwner);
+  // A signal is new the first time it shows up, unless it was created before
+  // the app started (e.g. the history loaded on sign-in)
+  const seenSignalIds = useRef(new Set<string>());
+  const startedAt = useRef(Date.now());
+
+  usePerUserStorage({
+    value: screeners,
+    owner,
+    storageKey: screenersStorageKey,
+    hydrate: id => setScreeners({ userId: id, screeners: id ? loadScreeners(id) : [] }),
+    description: 'screeners',
+  });
+
+  useEffect(() => {
+    const seen = seenSignalIds.current;
+    const arrived = signals.filter(signal => !seen.has(signal.id));
+    arrived.forEach(signal => seen.add(signal.id));
+    if (!isAuthenticated) return;
+
+    const armed = screeners.filter(screener => screener.alert);
+    const fresh = arrived.filter(signal => new Date(signal.createdAt).getTime() >= startedAt.current - NEW_SIGNAL_GRACE);
+    fresh.forEach(signal => {
+      armed
+        .filter(screener => matchesSignalFilter(signal, screener.filter))
+        .forEach(screener => {
+          dispatch(add({
+            type: 'info',
+            title: `🔔 ${screener.name}`,
+            message: `${signal.symbol} ${signal.type} signal (${signal.confidence}% confidence) matches your screener`,
+            persistent: true,
+            data: { signalId: signal.id, screenerId: screener.id },
+          }));
+        });
+    });
+  }, [signals, screeners, isAuthenticated, dispatch]);
+};
+
+export default useScreenerAlerts;
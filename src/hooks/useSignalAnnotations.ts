@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from './redux';
+import { usePerUserStorage } from './usePerUserStorage';
+import {
+  fetchSignalAnnotations,
+  loadSignalAnnotations,
+  selectSignalAnnotations,
+  selectSignalAnnotationsOwner,
+  setSignalAnnotations,
+  signalAnnotationsStorageKey,
+} from '../store/slices/signalAnnotationsSlice';
+
+// Loads the signed-in user's stars, notes and tags on signals and keeps them
+// in step with the backend and with other open tabs
+export const useSignalAnnotations = () => {
+  const dispatch = useAppDispatch();
+  const annotations = useAppSelector(selectSignalAnnotations);
+  const owner = useAppSelector(selectSignalAnnotationsOwner);
+  const userId = usePerUserStorage({
+    value: annotations,
+    owner,
+    storageKey: signalAnnotationsStorageKey,
+    hydrate: id => setSignalAnnotations({ userId: id, annotations: id ? loadSignalAnnotations(id) : {} }),
+    description: 'signal annotations',
+  });
+
+  // The cached copy shows straight away; the backend's replaces it
+  useEffect(() => {
+    if (userId) {
+      dispatch(fetchSignalAnnotations(userId));
+    }
+  }, [userId, dispatch]);
+
+  // Storage events only fire in the other tabs, so this never echoes back
+  useEffect(() => {
+    if (!userId) return;
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== signalAnnotationsStorageKey(userId) || !event.newValue) return;
+      dispatch(setSignalAnnotations({ userId, annotations: loadSignalAnnotations(userId) }));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [userId, dispatch]);
+};
+
+export default useSignalAnnotations;
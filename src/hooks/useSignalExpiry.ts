@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from './redux';
+import { expireSignals, selectActiveSignals, updateSignalStatus } from '../store/slices/signalSlice';
+import { selectSignalAnnotations } from '../store/slices/signalAnnotationsSlice';
+import { selectOpenPositionSignalIds } from '../store/slices/portfolioSlice';
+import { TradingSignal } from '../types';
+import { EXPIRY_WARNING_MINUTES, msUntilExpiry } from '../utils/signalExpiry';
+
+// Browsers fire longer timeouts immediately, so far-off expiries are re-armed
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+interface UseSignalExpiryOptions {
+  onExpired?: (signal: TradingSignal) => void;
+  onExpiring?: (signal: TradingSignal, minutesLeft: number) => void;
+  warningMinutes?: number;
+}
+
+// Moves active signals to history when they expire, and warns ahead of
+// expiry for signals the user starred or holds a position on. Callbacks only
+// fire for those watched signals.
+export const useSignalExpiry = ({
+  onExpired,
+  onExpiring,
+  warningMinutes = EXPIRY_WARNING_MINUTES,
+}: UseSignalExpiryOptions = {}) => {
+  const dispatch = useAppDispatch();
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+  const activeSignals = useAppSelector(selectActiveSignals);
+  const annotations = useAppSelector(selectSignalAnnotations);
+  const positionSignalIds = useAppSelector(selectOpenPositionSignalIds);
+  const [wakeUp, setWakeUp] = useState(0);
+  const warned = useRef(new Set<string>());
+
+  // Kept in refs so new handler identities don't re-arm the timer
+  const handlers = useRef({ onExpired, onExpiring });
+  handlers.current = { onExpired, onExpiring };
+
+  useEffect(() => {
+    if (!isAuthenticated || activeSignals.length === 0) return;
+
+    const now = Date.now();
+    const warningMs = warningMinutes * 60000;
+    const isWatched = (signal: TradingSignal) =>
+      !!annotations[signal.id]?.starred || positionSignalIds.has(signal.id);
+
+    const expired = activeSignals.filter(signal => msUntilExpiry(signal, now) <= 0);
+    if (expired.length > 0) {
+      // The store update re-runs this effect for the signals still active
+      dispatch(expireSignals(expired.map(signal => signal.id)));
+      expired.forEach(signal => {
+        warned.current.delete(signal.id);
+        dispatch(updateSignalStatus({ signalId: signal.id, status: 'expired' }))
+          .unwrap()
+          .catch(error => console.error(`Failed to mark signal ${signal.id} expired:`, error));
+        if (isWatched(signal)) handlers.current.onExpired?.(signal);
+      });
+      return;
+    }
+
+    let nextWakeUp = Infinity;
+    activeSignals.forEach(signal => {
+      const left = msUntilExpiry(signal, now);
+      nextWakeUp = Math.min(nextWakeUp, left);
+      if (!isWatched(signal) || warned.current.has(signal.id)) return;
+      if (left <= warningMs) {
+        warned.current.add(signal.id);
+        handlers.current.onExpiring?.(signal, Math.ceil(left / 60000));
+      } else {
+        nextWakeUp = Math.min(nextWakeUp, left - warningMs);
+      }
+    });
+
+    if (!Number.isFinite(nextWakeUp)) return;
+    const timer = setTimeout(() => setWakeUp(count => count + 1), Math.min(Math.max(nextWakeUp, 0) + 50, MAX_TIMER_MS));
+    return () => clearTimeout(timer);
+  }, [activeSignals, annotations, positionSignalIds, warningMinutes, isAuthenticated, wakeUp, dispatch]);
+};
+
+export default useSignalExpiry;
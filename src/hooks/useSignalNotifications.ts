@@ -65,6 +65,17 @@ export const useSignalNotifications = () => {
     }));
   }, [dispatch, isAuthenticated]);
 
+  const handleSignalExpiring = useCallback((signal: TradingSignal, minutesLeft: number) => {
+    if (!isAuthenticated) return;
+
+    dispatch(add({
+      type: 'warning',
+      title: '⏳ Signal Expiring Soon',
+      message: `${signal.symbol} ${signal.type} signal expires in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}`,
+      persistent: false,
+    }));
+  }, [dispatch, isAuthenticated]);
+
   const handleHighConfidenceSignal = useCallback((signal: TradingSignal) => {
     if (!isAuthenticated || signal.confidence < 85) return;
 
@@ -106,6 +117,7 @@ export const useSignalNotifications = () => {
     handleNewSignal,
     handleSignalUpdate,
     handleSignalExpired,
+    handleSignalExpiring,
     handleHighConfidenceSignal,
     handleRiskAlert,
   };
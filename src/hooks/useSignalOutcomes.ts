@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { useAppDispatch, useAppSelector } from './redux';
+import { fetchChartData, selectChartData } from '../store/slices/marketSlice';
+import {
+  fetchSignalStats,
+  recordSignalOutcomes,
+  selectSignalOutcomes,
+  selectSignalStatsTimeframe,
+  SIGNAL_OUTCOMES_STORAGE_KEY,
+} from '../store/slices/signalSlice';
+import { coversSignal, evaluateSignalOutcome, isResolved, SignalOutcome } from '../utils/signalOutcomes';
+
+const OUTCOME_CANDLE_TIMEFRAME = '1h';
+const OUTCOME_CANDLE_LIMIT = 500;
+
+// Scores signals against the candles that followed them whenever signals or
+// price history change, and keeps the signal statistics in step
+export const useSignalOutcomes = () => {
+  const dispatch = useAppDispatch();
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+  const signals = useAppSelector((state) => state.signals.signals);
+  const outcomes = useAppSelector(selectSignalOutcomes);
+  const statsTimeframe = useAppSelector(selectSignalStatsTimeframe);
+  const chartData = useAppSelector(selectChartData);
+  const requestedSymbols = useRef(new Set<string>());
+
+  // Outcomes survive a reload, so resolved signals are not re-evaluated
+  useEffect(() => {
+    try {
+      localStorage.setItem(SIGNAL_OUTCOMES_STORAGE_KEY, JSON.stringify(outcomes));
+    } catch (error) {
+      console.error('Failed to save signal outcomes:', error);
+    }
+  }, [outcomes]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const changed: SignalOutcome[] = [];
+    signals.forEach(signal => {
+      const previous = outcomes[signal.id];
+      if (isResolved(previous) || signal.type === 'HOLD') return;
+
+      const candles = chartData[signal.symbol];
+      if (!coversSignal(signal, candles)) {
+        // Price history is loaded once per symbol per session, and is merged
+        // with the candles already held
+        if (!requestedSymbols.current.has(signal.symbol)) {
+          requestedSymbols.current.add(signal.symbol);
+          dispatch(fetchChartData({ symbol: signal.symbol, timeframe: OUTCOME_CANDLE_TIMEFRAME, limit: OUTCOME_CANDLE_LIMIT }));
+        }
+        return;
+      }
+
+      const outcome = evaluateSignalOutcome(signal, candles);
+      if (outcome && (
+        outcome.status !== previous?.status ||
+        outcome.mfe !== previous.mfe ||
+        outcome.mae !== previous.mae ||
+        outcome.exitPrice !== previous.exitPrice
+      )) {
+        changed.push(outcome);
+      }
+    });
+
+    if (changed.length > 0) {
+      dispatch(recordSignalOutcomes(changed));
+    }
+  }, [signals, chartData, outcomes, isAuthenticated, dispatch]);
+
+  useEffect(() => {
+    dispatch(fetchSignalStats(statsTimeframe));
+  }, [outcomes, signals, statsTimeframe, dispatch]);
+};
+
+export default useSignalOutcomes;
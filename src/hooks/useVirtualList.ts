@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface VirtualListOptions {
+  count: number;
+  estimateSize: number; // Height assumed for rows not measured yet
+  overscan?: number; // Rows rendered beyond each edge of the viewport
+}
+
+// Windowed rendering for long lists of rows of varying height. Only rows in
+// or near the scroll container's viewport are mounted; callers render
+// spacers of `paddingTop`/`paddingBottom` in place of the rest, which works
+// for table rows as well as plain blocks. Rendered rows are measured through
+// `measureRow` so the spacers track the real layout.
+export const useVirtualList = <T extends HTMLElement = HTMLDivElement>({
+  count,
+  estimateSize,
+  overscan = 4,
+}: VirtualListOptions) => {
+  const [container, setContainer] = useState<T | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [, setMeasured] = useState(0);
+  const sizes = useRef(new Map<number, number>());
+  const rows = useRef(new Map<number, HTMLElement>());
+  const observer = useRef<ResizeObserver | null>(null);
+
+  const recordSize = useCallback((index: number, height: number) => {
+    if (height > 0 && sizes.current.get(index) !== height) {
+      sizes.current.set(index, height);
+      setMeasured(version => version + 1);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (typeof ResizeObserver === 'undefined') return;
+    observer.current = new ResizeObserver(entries => {
+      entries.forEach(entry => {
+        const element = entry.target as HTMLElement;
+        recordSize(Number(element.dataset.virtualIndex), element.offsetHeight);
+      });
+    });
+    return () => observer.current?.disconnect();
+  }, [recordSize]);
+
+  useEffect(() => {
+    if (!container) return;
+    // A new container (e.g. another view of the same data) lays rows out anew
+    sizes.current.clear();
+    const handleScroll = () => setScrollTop(container.scrollTop);
+    const handleResize = () => setViewportHeight(container.clientHeight);
+    handleScroll();
+    handleResize();
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleResize);
+    return () => {
+      container.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [container]);
+
+  const measureRow = useCallback((index: number) => (element: HTMLElement | null) => {
+    const previous = rows.current.get(index);
+    if (previous && previous !== element) {
+      observer.current?.unobserve(previous);
+      rows.current.delete(index);
+    }
+    if (!element || previous === element) return;
+    element.dataset.virtualIndex = String(index);
+    rows.current.set(index, element);
+    if (observer.current) {
+      observer.current.observe(element);
+    } else {
+      recordSize(index, element.offsetHeight);
+    }
+  }, [recordSize]);
+
+  const scrollToTop = useCallback(() => {
+    if (container) container.scrollTop = 0;
+  }, [container]);
+
+  const sizeOf = (index: number) => sizes.current.get(index) ?? estimateSize;
+
+  let visibleStart = 0;
+  let offset = 0;
+  while (visibleStart < count && offset + sizeOf(visibleStart) <= scrollTop) {
+    offset += sizeOf(visibleStart);
+    visibleStart++;
+  }
+  let visibleEnd = visibleStart;
+  while (visibleEnd < count && offset < scrollTop + viewportHeight) {
+    offset += sizeOf(visibleEnd);
+    visibleEnd++;
+  }
+
+  const start = Math.max(0, visibleStart - overscan);
+  const end = Math.min(count, visibleEnd + overscan);
+  let paddingTop = 0;
+  for (let i = 0; i < start; i++) paddingTop += sizeOf(i);
+  let paddingBottom = 0;
+  for (let i = end; i < count; i++) paddingBottom += sizeOf(i);
+
+  return {
+    containerRef: setContainer,
+    start, // First rendered row
+    end, // One past the last rendered row
+    paddingTop,
+    paddingBottom,
+    measureRow,
+    scrollToTop,
+  };
+};
+
+export default useVirtualList;
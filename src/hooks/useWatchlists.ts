@@ -0,0 +1,55 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useAppSelector } from './redux';
+import { usePerUserStorage } from './usePerUserStorage';
+import {
+  loadWatchlists,
+  selectActiveWatchlistId,
+  selectWatchedSymbols,
+  selectWatchlists,
+  selectWatchlistsOwner,
+  setWatchlists,
+  watchlistsStorageKey,
+} from '../store/slices/marketSlice';
+
+interface UseWatchlistsOptions {
+  subscribe: (channel: string) => void;
+  unsubscribe: (channel: string) => void;
+}
+
+// Loads the signed-in user's watchlists, saves changes to them and keeps the
+// feed subscribed to market data for every symbol on any of them
+export const useWatchlists = ({ subscribe, unsubscribe }: UseWatchlistsOptions) => {
+  const watchlists = useAppSelector(selectWatchlists);
+  const activeWatchlistId = useAppSelector(selectActiveWatchlistId);
+  const owner = useAppSelector(selectWatchlistsOwner);
+  const symbols = useAppSelector(selectWatchedSymbols);
+  const subscribed = useRef(new Set<string>());
+
+  const saved = useMemo(() => ({ watchlists, activeWatchlistId }), [watchlists, activeWatchlistId]);
+
+  usePerUserStorage({
+    value: saved,
+    owner,
+    storageKey: watchlistsStorageKey,
+    hydrate: id => setWatchlists({ userId: id, ...loadWatchlists(id) }),
+    description: 'watchlists',
+  });
+
+  // The socket resubscribes its channels on reconnect, so only changes to
+  // the watched symbols need sending
+  useEffect(() => {
+    const wanted = new Set(symbols);
+    symbols.forEach(symbol => {
+      if (subscribed.current.has(symbol)) return;
+      subscribed.current.add(symbol);
+      subscribe(`market_data:${symbol}`);
+    });
+    Array.from(subscribed.current).forEach(symbol => {
+      if (wanted.has(symbol)) return;
+      subscribed.current.delete(symbol);
+      unsubscribe(`market_data:${symbol}`);
+    });
+  }, [symbols, subscribe, unsubscribe]);
+};
+
+export default useWatchlists;
@@ -1,6 +1,11 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useAppDispatch, useAppSelector } from './redux';
 import { addSignal, updateSignal } from '../store/slices/signalSlice';
+import { addReplayEvent, addReplaySignal, updateReplayMarketData, updateReplaySignal } from '../store/slices/replaySlice';
+import { ingestSignal } from '../services/signalIngestion';
+import feedReplayService from '../services/feedReplayService';
+import autoTradeService from '../services/autoTradeService';
+import { TradingSignal } from '../types';
 
 export interface WebSocketMessage {
   type: string;
@@ -19,54 +24,6 @@ export interface MarketData {
   timestamp: number;
 }
 
-export interface TradingSignal {
-  id: string;
-  symbol: string;
-  type: 'BUY' | 'SELL' | 'HOLD';
-  confidence: number;
-  entryPrice: number;
-  targetPrice: number;
-  stopLoss: number;
-  timeframe: string;
-  market: string;
-  description: string;
-  reasoning: string;
-  technicalIndicators: {
-    rsi?: number;
-    macd?: number;
-    sma?: number;
-    ema?: number;
-    bollinger?: {
-      upper: number;
-      middle: number;
-      lower: number;
-    };
-    mlPredictions?: any;
-    source?: string;
-    modelUsed?: string;
-  };
-  status: 'active' | 'executed' | 'expired' | 'cancelled';
-  createdAt: string;
-  expiresAt: string;
-  executedAt?: string;
-  executedPrice?: number;
-  currentPrice?: number;
-  pnl?: number;
-  pnlPercentage?: number;
-  tags: string[];
-  source: 'ai' | 'manual' | 'copy_trading' | 'enterprise_ml';
-  accuracy?: number;
-  risk: 'low' | 'medium' | 'high';
-  positionSize?: number;
-  counterfactuals?: Record<string, any>;
-  featureImportance?: Record<string, number>;
-  metadata?: {
-    processingTime?: number;
-    modelsUsed?: string[];
-    latency?: number;
-  };
-}
-
 interface UseWebSocketOptions {
   url?: string;
   reconnectAttempts?: number;
@@ -77,6 +34,8 @@ interface UseWebSocketOptions {
   onMessage?: (message: WebSocketMessage) => void;
   onSignalReceived?: (signal: TradingSignal) => void;
   onPortfolioUpdate?: (data: any) => void;
+  // Record this connection's feed and play recordings back through it
+  replay?: boolean;
 }
 
 interface UseWebSocketReturn {
@@ -98,6 +57,19 @@ interface UseWebSocketReturn {
   };
 }
 
+// Replayed messages of these types are kept in the replay's event log
+const REPLAY_EVENT_TYPES = [
+  'portfolio_update',
+  'position_closed',
+  'take_profit_hit',
+  'stop_loss_hit',
+  'trailing_stop_hit',
+  'breakeven_stop_hit',
+  'partial_take_profit',
+  'notification',
+  'error',
+];
+
 const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn => {
   const {
     url = process.env.REACT_APP_WS_URL || 'ws://localhost:5000',
@@ -109,6 +81,7 @@ const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn =>
     onMessage,
     onSignalReceived,
     onPortfolioUpdate,
+    replay = false,
   } = options;
 
   const dispatch = useAppDispatch();
@@ -164,12 +137,21 @@ const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn =>
     }
   }, []);
 
-  const handleMessage = useCallback((event: MessageEvent) => {
+  // Replayed messages take the same path but land in the replay's own state,
+  // and the custom handlers, which are for the live feed, aren't called
+  const handleMessage = useCallback((event: MessageEvent, replayed: boolean = false) => {
     try {
       const message: WebSocketMessage = JSON.parse(event.data);
       setLastMessage(message);
       setConnectionStats(prev => ({ ...prev, messagesReceived: prev.messagesReceived + 1 }));
       
+      // Portfolio events and notifications of a recording are about the live
+      // accounts, so a replay keeps them for review rather than applying them
+      if (replayed && REPLAY_EVENT_TYPES.includes(message.type)) {
+        dispatch(addReplayEvent({ type: message.type, data: message.data }));
+        return;
+      }
+
       // Handle different message types
       switch (message.type) {
         case 'pong':
@@ -180,47 +162,50 @@ const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn =>
           console.log('🤝 WebSocket welcome message:', message.data);
           break;
           
-        case 'new_signal':
-          // Handle enterprise ML signals
-          const signal = (message as any).signal || message.data;
+        case 'new_signal': {
+          const signal = ingestSignal((message as any).signal || message.data, 'websocket');
           if (signal) {
             console.log('🎯 New signal received:', signal);
+            if (signal.source === 'enterprise_ml') {
+              console.log('🤖 Enterprise ML Signal:', {
+                symbol: signal.symbol,
+                type: signal.type,
+                confidence: signal.confidence,
+                source: signal.source,
+                metadata: signal.metadata,
+              });
+            }
 
-            // Validate signal structure
-            if (signal.symbol && signal.type && signal.confidence) {
-              // Add enterprise ML specific validation
-              if (signal.source === 'enterprise_ml') {
-                console.log('🤖 Enterprise ML Signal:', {
-                  symbol: signal.symbol,
-                  type: signal.type,
-                  confidence: signal.confidence,
-                  source: signal.source,
-                  metadata: signal.metadata,
-                });
-              }
-              
-              dispatch(addSignal(signal));
-              
-              // Call custom signal handler
-              if (onSignalReceived) {
-                onSignalReceived(signal);
+            if (replayed) {
+              dispatch(addReplaySignal(signal));
+              // Live signals reach auto-trade through useSignalNotifications
+              if (signal.source === 'enterprise_ml' && autoTradeService.isRunning()) {
+                autoTradeService.processSignal(signal);
               }
-            } else {
-              console.warn('⚠️ Invalid signal structure:', signal);
+              break;
+            }
+
+            dispatch(addSignal(signal));
+
+            // Call custom signal handler
+            if (onSignalReceived) {
+              onSignalReceived(signal);
             }
           }
           break;
+        }
           
-        case 'update_signal':
-          const updatedSignal = (message as any).signal || message.data;
+        case 'update_signal': {
+          const updatedSignal = ingestSignal((message as any).signal || message.data, 'websocket');
           if (updatedSignal) {
-            dispatch(updateSignal(updatedSignal));
+            dispatch(replayed ? updateReplaySignal(updatedSignal) : updateSignal(updatedSignal));
           }
           break;
+        }
           
         case 'market_data':
           // Update market data in Redux store
-          dispatch({ type: 'market/updateData', payload: message.data });
+          dispatch(replayed ? updateReplayMarketData(message.data) : { type: 'market/updateMarketData', payload: message.data });
           break;
           
         case 'portfolio_update':
@@ -241,6 +226,8 @@ const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn =>
           
         case 'take_profit_hit':
         case 'stop_loss_hit':
+        case 'trailing_stop_hit':
+        case 'breakeven_stop_hit':
           // Handle automatic position closures
           console.log(`🎯 ${message.type}:`, message.data);
           dispatch({ type: 'portfolio/autoPositionClosed', payload: {
@@ -249,6 +236,12 @@ const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn =>
           }});
           break;
           
+        case 'partial_take_profit':
+          // A take-profit level scaled out part of the position
+          console.log('🎯 Partial take profit:', message.data);
+          dispatch({ type: 'portfolio/positionPartiallyClosed', payload: message.data });
+          break;
+          
         case 'notification':
           // Show notification
           dispatch({ type: 'notifications/add', payload: message.data });
@@ -264,7 +257,7 @@ const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn =>
       }
       
       // Call custom message handler if provided
-      if (onMessage) {
+      if (onMessage && !replayed) {
         onMessage(message);
       }
     } catch (err) {
@@ -273,6 +266,18 @@ const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn =>
     }
   }, [dispatch, onMessage, onSignalReceived, onPortfolioUpdate]);
 
+  // Live messages are recorded, and dropped while a recording is replayed
+  const handleLiveMessage = useCallback((event: MessageEvent) => {
+    if (feedReplayService.isReplaying()) return;
+    if (replay) feedReplayService.record(event.data);
+    handleMessage(event);
+  }, [handleMessage, replay]);
+
+  useEffect(() => {
+    if (!replay) return;
+    return feedReplayService.setSink(data => handleMessage({ data } as MessageEvent, true));
+  }, [replay, handleMessage]);
+
   const connect = useCallback(() => {
     if (socket?.readyState === WebSocket.OPEN || isConnecting) {
       return;
@@ -342,7 +347,7 @@ const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn =>
         }
       };
 
-      newSocket.onmessage = handleMessage;
+      newSocket.onmessage = handleLiveMessage;
 
       setSocket(newSocket);
     } catch (err) {
@@ -350,7 +355,7 @@ const useWebSocket = (options: UseWebSocketOptions = {}): UseWebSocketReturn =>
       setError('Failed to create connection');
       setIsConnecting(false);
     }
-  }, [url, token, socket, isConnecting, reconnectAttempts, reconnectInterval, startHeartbeat, stopHeartbeat, handleMessage, onOpen, onClose, onError]);
+  }, [url, token, socket, isConnecting, reconnectAttempts, reconnectInterval, startHeartbeat, stopHeartbeat, handleLiveMessage, onOpen, onClose, onError]);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
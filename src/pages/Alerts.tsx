@@ -0,0 +1,313 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  Container,
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  TextField,
+  MenuItem,
+  Autocomplete,
+  ToggleButton,
+  ToggleButtonGroup,
+  Button,
+  Switch,
+  FormControlLabel,
+  IconButton,
+  Chip,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { NotificationsActive, Delete as DeleteIcon, AddAlert } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { selectMarketData } from '../store/slices/marketSlice';
+import { selectAllDemoAccounts } from '../store/slices/portfolioSlice';
+import { selectNotificationSettings, updateSettings } from '../store/slices/notificationsSlice';
+import {
+  NewPriceAlert,
+  addPriceAlert,
+  deletePriceAlert,
+  selectPriceAlerts,
+  updatePriceAlert,
+} from '../store/slices/priceAlertsSlice';
+import type { PriceAlert, PriceAlertCondition } from '../types';
+import { PRICE_ALERT_CONDITIONS, alertLevel, describePriceAlert, findAlertPosition } from '../utils/priceAlerts';
+import { MARKET_LABELS, buildSymbolCatalog } from '../utils/symbolCatalog';
+import { desktopNotificationsSupported, requestDesktopPermission } from '../utils/notificationChannels';
+
+const isPositionCondition = (condition: PriceAlertCondition) => condition === 'near_stop' || condition === 'near_target';
+
+const AlertsPage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const [searchParams] = useSearchParams();
+  const alerts = useAppSelector(selectPriceAlerts);
+  const marketData = useAppSelector(selectMarketData);
+  const settings = useAppSelector(selectNotificationSettings);
+  const signals = useAppSelector((state) => state.signals.signals);
+  const accounts = useAppSelector(selectAllDemoAccounts);
+  // Open positions of every account, so alerts can watch any of them
+  const positions = useMemo(
+    () => accounts.flatMap(account => account.openPositions.map(position => ({ account, position }))),
+    [accounts]
+  );
+  const catalog = useMemo(() => buildSymbolCatalog(signals), [signals]);
+
+  const [condition, setCondition] = useState<PriceAlertCondition>('crosses_above');
+  const [symbol, setSymbol] = useState(searchParams.get('symbol')?.toUpperCase() || '');
+  const [positionId, setPositionId] = useState('');
+  const [price, setPrice] = useState('');
+  const [percent, setPercent] = useState('1');
+  const [windowMinutes, setWindowMinutes] = useState('60');
+  const [mode, setMode] = useState<PriceAlert['mode']>('once');
+  const [note, setNote] = useState('');
+  const [permission, setPermission] = useState(() => (desktopNotificationsSupported() ? Notification.permission : 'unsupported'));
+
+  const selected = positions.find(({ position }) => (position.id ?? position._id) === positionId);
+  const alertSymbol = isPositionCondition(condition) ? selected?.position.symbol || '' : symbol;
+  const currentPrice = marketData[alertSymbol]?.price;
+
+  const valid = (() => {
+    if (!alertSymbol) return false;
+    if (condition === 'crosses_above' || condition === 'crosses_below') return parseFloat(price) > 0;
+    if (condition === 'percent_move') return parseFloat(percent) > 0 && parseFloat(windowMinutes) > 0;
+    return parseFloat(percent) > 0;
+  })();
+
+  const handleCreate = () => {
+    if (!valid) return;
+    const alert: NewPriceAlert = { symbol: alertSymbol, condition, mode, note: note.trim() || undefined };
+    if (condition === 'crosses_above' || condition === 'crosses_below') {
+      alert.price = parseFloat(price);
+    } else {
+      alert.percent = parseFloat(percent);
+      if (condition === 'percent_move') alert.windowMinutes = parseFloat(windowMinutes);
+      else {
+        alert.positionId = positionId;
+        alert.accountId = selected?.account._id;
+      }
+    }
+    dispatch(addPriceAlert(alert));
+    setPrice('');
+    setNote('');
+  };
+
+  const enableDesktop = async (enabled: boolean) => {
+    if (enabled) setPermission(await requestDesktopPermission());
+    dispatch(updateSettings({ desktop: enabled }));
+  };
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 3 }}>
+      <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2} mb={3}>
+        <Box display="flex" alignItems="center" gap={1}>
+          <NotificationsActive color="primary" sx={{ fontSize: 32 }} />
+          <Typography variant="h4" fontWeight="bold">Price Alerts</Typography>
+        </Box>
+        <Box display="flex" alignItems="center" gap={1}>
+          <FormControlLabel
+            control={<Switch checked={settings.sound} onChange={(e) => dispatch(updateSettings({ sound: e.target.checked }))} />}
+            label="Sound"
+          />
+          <FormControlLabel
+            control={<Switch checked={settings.desktop} onChange={(e) => enableDesktop(e.target.checked)} />}
+            label="Desktop"
+          />
+        </Box>
+      </Box>
+
+      {!settings.enabled && (
+        <Alert severity="info" sx={{ mb: 2 }}>Notifications are turned off, so alerts are recorded without notifying you.</Alert>
+      )}
+      {settings.desktop && permission === 'default' && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={<Button color="inherit" size="small" onClick={() => enableDesktop(true)}>Allow</Button>}
+        >
+          Allow desktop notifications to see alerts while the app is in the background.
+        </Alert>
+      )}
+      {settings.desktop && permission === 'denied' && (
+        <Alert severity="warning" sx={{ mb: 2 }}>Desktop notifications are blocked in this browser's site settings.</Alert>
+      )}
+
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, md: 4 }}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>New Alert</Typography>
+            <Box display="flex" flexDirection="column" gap={2}>
+              <TextField
+                select
+                size="small"
+                label="Condition"
+                value={condition}
+                onChange={(e) => setCondition(e.target.value as PriceAlertCondition)}
+              >
+                {(Object.keys(PRICE_ALERT_CONDITIONS) as PriceAlertCondition[]).map(key => (
+                  <MenuItem key={key} value={key}>{PRICE_ALERT_CONDITIONS[key]}</MenuItem>
+                ))}
+              </TextField>
+
+              {isPositionCondition(condition) ? (
+                <TextField
+                  select
+                  size="small"
+                  label="Position"
+                  value={positionId}
+                  onChange={(e) => setPositionId(e.target.value)}
+                  helperText={positions.length === 0 ? 'No open positions in your demo accounts' : undefined}
+                >
+                  {positions.map(({ account, position }) => {
+                    const id = position.id ?? position._id;
+                    const level = alertLevel({ condition } as PriceAlert, position);
+                    return (
+                      <MenuItem key={id} value={id} disabled={!level}>
+                        {accounts.length > 1 && `${account.name}: `}
+                        {position.type} {position.symbol} @ {position.entryPrice}
+                        {level ? ` (${condition === 'near_stop' ? 'stop' : 'target'} ${level})` : ' (none set)'}
+                      </MenuItem>
+                    );
+                  })}
+                </TextField>
+              ) : (
+                <Autocomplete
+                  size="small"
+                  options={catalog}
+                  value={catalog.find(option => option.symbol === symbol) ?? null}
+                  groupBy={option => MARKET_LABELS[option.market]}
+                  getOptionLabel={option => `${option.symbol} — ${option.name}`}
+                  isOptionEqualToValue={(option, value) => option.symbol === value.symbol}
+                  onChange={(_, option) => setSymbol(option?.symbol ?? '')}
+                  renderInput={(params) => <TextField {...params} label="Symbol" />}
+                />
+              )}
+
+              {(condition === 'crosses_above' || condition === 'crosses_below') && (
+                <TextField
+                  size="small"
+                  label="Price"
+                  type="number"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  helperText={currentPrice !== undefined ? `Now ${currentPrice}` : undefined}
+                />
+              )}
+              {condition !== 'crosses_above' && condition !== 'crosses_below' && (
+                <Box display="flex" gap={1}>
+                  <TextField
+                    size="small"
+                    label={condition === 'percent_move' ? 'Move %' : 'Distance %'}
+                    type="number"
+                    value={percent}
+                    onChange={(e) => setPercent(e.target.value)}
+                    sx={{ flex: 1 }}
+                  />
+                  {condition === 'percent_move' && (
+                    <TextField
+                      size="small"
+                      label="Within (min)"
+                      type="number"
+                      value={windowMinutes}
+                      onChange={(e) => setWindowMinutes(e.target.value)}
+                      sx={{ flex: 1 }}
+                    />
+                  )}
+                </Box>
+              )}
+
+              <ToggleButtonGroup
+                exclusive
+                size="small"
+                value={mode}
+                onChange={(_, value: PriceAlert['mode'] | null) => value && setMode(value)}
+              >
+                <ToggleButton value="once">One-shot</ToggleButton>
+                <ToggleButton value="recurring">Recurring</ToggleButton>
+              </ToggleButtonGroup>
+
+              <TextField size="small" label="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+
+              <Button variant="contained" startIcon={<AddAlert />} disabled={!valid} onClick={handleCreate}>
+                Create Alert
+              </Button>
+            </Box>
+          </Paper>
+        </Grid>
+
+        <Grid size={{ xs: 12, md: 8 }}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>Your Alerts</Typography>
+            {alerts.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+                No alerts yet. Create one to be told when a price does something you care about.
+              </Typography>
+            ) : (
+              <Box sx={{ overflowX: 'auto' }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Symbol</TableCell>
+                      <TableCell>Condition</TableCell>
+                      <TableCell align="right">Price</TableCell>
+                      <TableCell>Mode</TableCell>
+                      <TableCell>Fired</TableCell>
+                      <TableCell align="center">Armed</TableCell>
+                      <TableCell padding="none" />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {alerts.map(alert => {
+                      const closed = isPositionCondition(alert.condition) && !findAlertPosition(alert, accounts);
+                      return (
+                        <TableRow key={alert.id} hover sx={{ opacity: alert.enabled ? 1 : 0.6 }}>
+                          <TableCell>
+                            <Link to={`/markets/${alert.symbol}`} style={{ color: 'inherit', fontWeight: 500, textDecoration: 'none' }}>
+                              {alert.symbol}
+                            </Link>
+                          </TableCell>
+                          <TableCell>
+                            {describePriceAlert(alert)}
+                            {closed && <Chip size="small" label="Position closed" sx={{ ml: 1 }} />}
+                            {alert.note && (
+                              <Typography variant="caption" color="text.secondary" display="block">{alert.note}</Typography>
+                            )}
+                          </TableCell>
+                          <TableCell align="right">{marketData[alert.symbol]?.price ?? '—'}</TableCell>
+                          <TableCell>{alert.mode === 'once' ? 'One-shot' : 'Recurring'}</TableCell>
+                          <TableCell>
+                            {alert.triggerCount > 0 && alert.lastTriggeredAt
+                              ? `${alert.triggerCount}× · ${new Date(alert.lastTriggeredAt).toLocaleString()}`
+                              : 'Never'}
+                          </TableCell>
+                          <TableCell align="center">
+                            <Switch
+                              size="small"
+                              checked={alert.enabled}
+                              onChange={(e) => dispatch(updatePriceAlert({ id: alert.id, changes: { enabled: e.target.checked } }))}
+                            />
+                          </TableCell>
+                          <TableCell padding="none">
+                            <IconButton size="small" onClick={() => dispatch(deletePriceAlert(alert.id))}>
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </Box>
+            )}
+          </Paper>
+        </Grid>
+      </Grid>
+    </Container>
+  );
+};
+
+export default AlertsPage;
@@ -16,7 +16,9 @@ import { fetchPortfolio } from '../store/slices/portfolioSlice';
 import PerformanceChart from '../components/charts/PerformanceChart';
 import RecentActivity from '../components/dashboard/RecentActivity';
 import AutoTradeStats from '../components/dashboard/AutoTradeStats';
+import AutoTradeJournal from '../components/dashboard/AutoTradeJournal';
 import EnterpriseMLInsights from '../components/dashboard/EnterpriseMLInsights';
+import SignalConsensusPanel from '../components/dashboard/SignalConsensusPanel';
 import { useAppSelector } from '../hooks/redux';
 
 const Dashboard: React.FC = () => {
@@ -136,6 +138,16 @@ const Dashboard: React.FC = () => {
           <AutoTradeStats />
         </Grid>
 
+        {/* Auto-Trade Journal */}
+        <Grid size={{ xs: 12 }}>
+          <AutoTradeJournal />
+        </Grid>
+
+        {/* Signal Consensus */}
+        <Grid size={{ xs: 12 }}>
+          <SignalConsensusPanel />
+        </Grid>
+
         {/* Enterprise ML Insights */}
         <Grid size={{ xs: 12, lg: 6 }}>
           <EnterpriseMLInsights />
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
+import {
+  Container, Box, Typography, Paper, Chip, Alert, LinearProgress, Autocomplete, TextField,
+  ToggleButton, ToggleButtonGroup, Grid, IconButton, Tooltip,
+} from '@mui/material';
+import { AddAlert, ShowChart } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import {
+  ChartData,
+  Timeframe,
+  chartKey,
+  fetchChartData,
+  selectChartData,
+  selectMarketData,
+  selectSelectedTimeframe,
+  selectWatchlist,
+  setTimeframe,
+} from '../store/slices/marketSlice';
+import MarketChart, { EMA_PERIOD, MarketOverlay, MarketPane, SMA_PERIOD } from '../components/market/MarketChart';
+import WatchlistPanel from '../components/market/WatchlistPanel';
+import { endsAfterGap } from '../utils/candles';
+
+const TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d', '1w'];
+const CANDLE_LIMIT = 300;
+const NO_CANDLES: ChartData[] = [];
+
+const OVERLAY_LABELS: Record<MarketOverlay, string> = {
+  sma: `SMA ${SMA_PERIOD}`,
+  ema: `EMA ${EMA_PERIOD}`,
+  bollinger: 'Bollinger',
+  vwap: 'VWAP',
+};
+
+const PANE_LABELS: Record<MarketPane, string> = {
+  rsi: 'RSI',
+  macd: 'MACD',
+};
+
+const MarketPage: React.FC = () => {
+  const { symbol: routeSymbol } = useParams<{ symbol: string }>();
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const watchlist = useAppSelector(selectWatchlist);
+  const timeframe = useAppSelector(selectSelectedTimeframe);
+  const chartData = useAppSelector(selectChartData);
+  const chartLoading = useAppSelector((state) => state.market.loading.chartData);
+  const chartError = useAppSelector((state) => state.market.error.chartData);
+  const symbol = routeSymbol?.toUpperCase();
+  const tick = useAppSelector(selectMarketData)[symbol || ''];
+  // Kept current by live ticks between fetches
+  const candles = (symbol && chartData[chartKey(symbol, timeframe)]) || NO_CANDLES;
+  const [overlays, setOverlays] = useState<MarketOverlay[]>(['sma', 'bollinger']);
+  const [panes, setPanes] = useState<MarketPane[]>(['rsi', 'macd']);
+
+  useEffect(() => {
+    if (symbol) dispatch(fetchChartData({ symbol, timeframe, limit: CANDLE_LIMIT }));
+  }, [symbol, timeframe, dispatch]);
+
+  // Live candles don't bridge long quiet spells; fetch the history once per gap
+  const gapEndsAt = endsAfterGap(candles, timeframe) ? candles[candles.length - 1].timestamp : null;
+  useEffect(() => {
+    if (symbol && gapEndsAt !== null) dispatch(fetchChartData({ symbol, timeframe, limit: CANDLE_LIMIT }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gapEndsAt, dispatch]);
+
+  if (!symbol) {
+    return watchlist.length > 0 ? <Navigate to={`/markets/${watchlist[0]}`} replace /> : <Navigate to="/dashboard" replace />;
+  }
+
+  const change = tick?.changePercent ?? 0;
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 3 }}>
+      <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2} mb={2}>
+        <Box display="flex" alignItems="center" gap={2}>
+          <ShowChart color="primary" sx={{ fontSize: 32 }} />
+          <Autocomplete
+            freeSolo
+            size="small"
+            options={watchlist}
+            value={symbol}
+            onChange={(_, value) => {
+              if (value) navigate(`/markets/${String(value).toUpperCase()}`);
+            }}
+            renderInput={(params) => <TextField {...params} label="Symbol" />}
+            sx={{ width: 180 }}
+          />
+          {tick && (
+            <Box>
+              <Typography variant="h5" fontWeight="bold">{tick.price}</Typography>
+              <Chip
+                size="small"
+                color={change > 0 ? 'success' : change < 0 ? 'error' : 'default'}
+                label={`${change > 0 ? '+' : ''}${change.toFixed(2)}%`}
+              />
+            </Box>
+          )}
+          <Tooltip title={`New price alert on ${symbol}`}>
+            <IconButton component={Link} to={`/alerts?symbol=${symbol}`}>
+              <AddAlert />
+            </IconButton>
+          </Tooltip>
+        </Box>
+
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={timeframe}
+          onChange={(_, value: Timeframe | null) => value && dispatch(setTimeframe(value))}
+        >
+          {TIMEFRAMES.map(tf => <ToggleButton key={tf} value={tf}>{tf}</ToggleButton>)}
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box display="flex" gap={2} flexWrap="wrap" mb={2}>
+        <ToggleButtonGroup size="small" value={overlays} onChange={(_, value: MarketOverlay[]) => setOverlays(value)}>
+          {(Object.keys(OVERLAY_LABELS) as MarketOverlay[]).map(overlay => (
+            <ToggleButton key={overlay} value={overlay}>{OVERLAY_LABELS[overlay]}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <ToggleButtonGroup size="small" value={panes} onChange={(_, value: MarketPane[]) => setPanes(value)}>
+          {(Object.keys(PANE_LABELS) as MarketPane[]).map(pane => (
+            <ToggleButton key={pane} value={pane}>{PANE_LABELS[pane]}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      {chartError && candles.length === 0 && <Alert severity="error" sx={{ mb: 2 }}>{chartError}</Alert>}
+
+      <Grid container spacing={2}>
+        <Grid size={{ xs: 12, lg: 8 }}>
+          <Paper sx={{ p: 2 }}>
+            {chartLoading && <LinearProgress sx={{ mb: 1 }} />}
+            <MarketChart candles={candles} overlays={overlays} panes={panes} />
+          </Paper>
+        </Grid>
+        <Grid size={{ xs: 12, lg: 4 }}>
+          <WatchlistPanel selectedSymbol={symbol} />
+        </Grid>
+      </Grid>
+    </Container>
+  );
+};
+
+export default MarketPage;
@@ -1,5 +1,4 @@
 import React, { useEffect, useState } from 'react';
-import axios from 'axios';
 import { useAppSelector, useAppDispatch } from '../hooks/redux';
 import {
   Container,
@@ -61,8 +60,26 @@ import {
   selectPositionsNearStopLoss,
   selectPortfolioNotifications,
   clearNotifications,
+  updatePositionExitPlan,
+  placePendingOrder,
+  openDemoPosition,
+  getPositionCosts,
+  fetchDemoAccounts,
+  setActiveAccount,
+  selectActiveAccountId,
+  ACTIVE_ACCOUNT_STORAGE_KEY,
 } from '../store/slices/portfolioSlice';
+import { selectChartData, selectMarketData } from '../store/slices/marketSlice';
+import { selectUserId } from '../store/slices/authSlice';
 import useWebSocket from '../hooks/useWebSocket';
+import { fetchMultiMarketPrices } from '../utils/priceService';
+import AccountSwitcher from '../components/portfolio/AccountSwitcher';
+import AccountComparisonPanel from '../components/portfolio/AccountComparisonPanel';
+import { calculateATR } from '../utils/indicators';
+import { advanceStop, STOP_REASON_LABELS } from '../utils/exitManagement';
+import { validatePendingOrder } from '../utils/pendingOrders';
+import WorkingOrdersPanel from '../components/portfolio/WorkingOrdersPanel';
+import type { ClosureType, ExitPlan, MarketType, PendingOrderType, StopReason } from '../types';
 
 const safeCurrency = (value: number | string | undefined | null): string => {
   const numValue = Number(value);
@@ -92,57 +109,40 @@ const safePercentage = (value: number | string | undefined | null): string => {
 
 const ORIGINAL_BALANCE = 100000;
 
-// Enhanced price fetching with better error handling
-const fetchMultiMarketPrices = async (positions: any[]) => {
-  const prices: Record<string, number> = {};
-  console.log('🔄 Starting price fetch for', positions.length, 'positions');
+const ATR_PERIOD = 14;
 
-  // Group symbols by market - with fallback for missing market field
-  const cryptoSymbols = positions
-    .filter(p => !p.market || p.market === 'crypto' || p.symbol?.includes('USDT'))
-    .map(p => p.symbol);
-  
-  console.log('💰 Crypto symbols to fetch:', cryptoSymbols);
+const EMPTY_POSITION_FORM = {
+  symbol: '',
+  type: 'BUY' as 'BUY' | 'SELL',
+  quantity: '',
+  entryPrice: '',
+  market: 'crypto',
+  orderType: 'market' as 'market' | PendingOrderType,
+  expiresAt: '',
+  stopLoss: '',
+  targetPrice: '',
+  trailingMode: 'off' as 'off' | 'percent' | 'atr',
+  trailingValue: '',
+  breakevenTrigger: '',
+  tp1Price: '',
+  tp1Percent: '50',
+};
 
-  // Fetch crypto prices
-  for (const symbol of cryptoSymbols) {
-    if (!symbol) continue;
-    
-    try {
-      console.log(`📈 Fetching ${symbol} from backend...`);
-      
-      const response = await fetch(`http://localhost:5000/api/price/${symbol}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      console.log(`📊 Response status for ${symbol}:`, response.status);
-      
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`📊 Response data for ${symbol}:`, data);
-        
-        if (data.price && !isNaN(data.price)) {
-          prices[symbol] = Number(data.price);
-          console.log(`✅ ${symbol}: $${prices[symbol]}`);
-        } else {
-          console.error(`❌ Invalid price data for ${symbol}:`, data);
-        }
-      } else {
-        const errorText = await response.text();
-        console.error(`❌ HTTP Error ${response.status} for ${symbol}:`, errorText);
-      }
-    } catch (error) {
-      console.error(`❌ Network error fetching ${symbol}:`, error);
-    }
-  }
+type PositionForm = typeof EMPTY_POSITION_FORM;
 
-  console.log('📊 Final prices object:', prices);
-  return prices;
+// Server closure types have no '_hit' suffix; WebSocket updates do
+const CLOSURE_LABELS: Record<string, { label: string; color: 'success' | 'error' | 'warning' | 'info' | 'default' }> = {
+  take_profit: { label: 'Take Profit', color: 'success' },
+  stop_loss: { label: 'Stop Loss', color: 'error' },
+  trailing_stop: { label: 'Trailing Stop', color: 'warning' },
+  breakeven_stop: { label: 'Breakeven', color: 'info' },
+  partial_take_profit: { label: 'Partial TP', color: 'success' },
+  manual: { label: 'Manual', color: 'default' },
 };
 
+const getClosureLabel = (closureType?: ClosureType | string) =>
+  CLOSURE_LABELS[(closureType || 'manual').replace(/_hit$/, '')] || CLOSURE_LABELS.manual;
+
 const Portfolio: React.FC = () => {
   const theme = useTheme();
   const dispatch = useAppDispatch();
@@ -151,16 +151,13 @@ const Portfolio: React.FC = () => {
   const positionsNearTakeProfit = useAppSelector(selectPositionsNearTakeProfit);
   const positionsNearStopLoss = useAppSelector(selectPositionsNearStopLoss);
   const notifications = useAppSelector(selectPortfolioNotifications);
+  const chartData = useAppSelector(selectChartData);
+  const marketData = useAppSelector(selectMarketData);
+  const activeAccountId = useAppSelector(selectActiveAccountId);
   
   const [openDialog, setOpenDialog] = useState(false);
   const [selectedPosition, setSelectedPosition] = useState<any>(null);
-  const [newPosition, setNewPosition] = useState({
-    symbol: '',
-    type: 'BUY' as 'BUY' | 'SELL',
-    quantity: '',
-    entryPrice: '',
-    market: 'crypto',
-  });
+  const [newPosition, setNewPosition] = useState<PositionForm>(EMPTY_POSITION_FORM);
   const [demoAccount, setDemoAccount] = useState<any>(null);
   const [showPrompt, setShowPrompt] = useState(false);
   const [accountActionLoading, setAccountActionLoading] = useState(false);
@@ -178,9 +175,9 @@ const Portfolio: React.FC = () => {
   });
 
   // User ID from auth state
-  const userId = useAppSelector((state: any) => state.auth.user?._id || state.auth.user?.id);
+  const userId = useAppSelector(selectUserId);
 
-  // Fetch account on mount
+  // Fetch the selected account on mount and whenever another one is picked
   useEffect(() => {
     if (userId) {
       dispatch(fetchPortfolio(userId))
@@ -188,12 +185,28 @@ const Portfolio: React.FC = () => {
         .then((data) => {
           setDemoAccount(data);
           setShowPrompt(false);
+          dispatch(fetchDemoAccounts(userId));
         })
         .catch(() => {
-          setShowPrompt(true);
+          if (activeAccountId) {
+            // The remembered account is gone; fall back to the default one
+            handleSwitchAccount(null);
+          } else {
+            setShowPrompt(true);
+          }
         });
     }
-  }, [userId, dispatch]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, activeAccountId, dispatch]);
+
+  const handleSwitchAccount = (accountId: string | null) => {
+    if (accountId) {
+      localStorage.setItem(ACTIVE_ACCOUNT_STORAGE_KEY, accountId);
+    } else {
+      localStorage.removeItem(ACTIVE_ACCOUNT_STORAGE_KEY);
+    }
+    dispatch(setActiveAccount(accountId));
+  };
 
   // Enhanced price update effect with better error handling
   useEffect(() => {
@@ -203,10 +216,16 @@ const Portfolio: React.FC = () => {
       const latestPrices = await fetchMultiMarketPrices(demoAccount.openPositions);
       
       setDemoAccount((prev: any) => {
-        const updatedPositions = prev.openPositions.map((pos: any) => ({
-          ...pos,
-          currentPrice: latestPrices[pos.symbol] ?? pos.currentPrice,
-        }));
+        const updatedPositions = prev.openPositions.map((pos: any) => {
+          const currentPrice = latestPrices[pos.symbol] ?? pos.currentPrice;
+          // Track the stop locally until the server monitor reports it
+          const stop = currentPrice ? advanceStop(pos, currentPrice) : null;
+          return {
+            ...pos,
+            currentPrice,
+            ...(stop && stop.activeStop !== null && stop),
+          };
+        });
         
         return {
           ...prev,
@@ -251,9 +270,12 @@ const Portfolio: React.FC = () => {
     const invested = entry * qty;
     const pnlPercentage = invested !== 0 ? (pnl / invested) * 100 : 0;
     
+    const liveStop = pos.activeStop ?? pos.stopLoss;
+    const ladder = pos.exitPlan?.takeProfitLevels || [];
+    
     // Check if position is near take profit or stop loss
     const nearTakeProfit = pos.targetPrice && Math.abs(current - pos.targetPrice) / entry <= 0.02;
-    const nearStopLoss = pos.stopLoss && Math.abs(current - pos.stopLoss) / entry <= 0.02;
+    const nearStopLoss = liveStop && Math.abs(current - liveStop) / entry <= 0.02;
     
     console.log(`Calculating P&L for ${pos.symbol}:`, {
       entry,
@@ -275,6 +297,10 @@ const Portfolio: React.FC = () => {
       currentPrice: current,
       pnl: Number(pnl.toFixed(2)),
       pnlPercentage: Number(pnlPercentage.toFixed(2)),
+      fees: getPositionCosts(pos).total,
+      liveStop,
+      ladderFilled: ladder.filter((level: any) => level.filled).length,
+      ladderSize: ladder.length,
       nearTakeProfit,
       nearStopLoss,
     };
@@ -285,36 +311,76 @@ const Portfolio: React.FC = () => {
   const validClosedPositions = closedPositions.filter(
     (pos: any) => pos && typeof pos === 'object' && (pos._id || pos.id)
   );
-  const gridClosedPositions = validClosedPositions.map((row: any) => ({
-    ...row,
-    id: row.id || row._id,
-  }));
+  const gridClosedPositions = validClosedPositions.map((row: any) => {
+    const costs = getPositionCosts(row);
+    return {
+      ...row,
+      id: row.id || row._id,
+      fees: costs.total,
+      netPnl: (Number(row.pnl) || 0) - costs.commissions,
+    };
+  });
 
   // Handlers
   const handleAddPosition = () => {
     setSelectedPosition(null);
-    setNewPosition({
-      symbol: '',
-      type: 'BUY',
-      quantity: '',
-      entryPrice: '',
-      market: 'crypto',
-    });
+    setNewPosition(EMPTY_POSITION_FORM);
     setOpenDialog(true);
   };
 
   const handleEditPosition = (position: any) => {
+    const plan: ExitPlan = position.exitPlan || {};
+    const [tp1] = (plan.takeProfitLevels || []).length > 1 ? plan.takeProfitLevels! : [];
     setSelectedPosition(position);
     setNewPosition({
+      ...EMPTY_POSITION_FORM,
       symbol: position.symbol,
       type: position.type,
       quantity: position.quantity.toString(),
       entryPrice: position.entryPrice.toString(),
       market: position.market,
+      stopLoss: position.stopLoss?.toString() ?? '',
+      targetPrice: position.targetPrice?.toString() ?? '',
+      trailingMode: plan.trailing?.mode ?? 'off',
+      trailingValue: plan.trailing?.value?.toString() ?? '',
+      breakevenTrigger: plan.breakevenTriggerPercent?.toString() ?? '',
+      tp1Price: tp1?.price.toString() ?? '',
+      tp1Percent: tp1?.closePercent.toString() ?? EMPTY_POSITION_FORM.tp1Percent,
     });
     setOpenDialog(true);
   };
 
+  // Exit plan from the dialog fields. TP1 scales out part of the position and
+  // the target closes the rest.
+  const buildExitPlan = (form: PositionForm): ExitPlan | undefined => {
+    const plan: ExitPlan = {};
+    const trailingValue = Number(form.trailingValue);
+    if (form.trailingMode === 'percent' && trailingValue > 0) {
+      plan.trailing = { mode: 'percent', value: trailingValue };
+    } else if (form.trailingMode === 'atr' && trailingValue > 0) {
+      const atr = calculateATR(chartData[form.symbol] || [], ATR_PERIOD);
+      if (!atr) {
+        throw new globalThis.Error(`Not enough price history for ${form.symbol} to trail by ATR`);
+      }
+      plan.trailing = { mode: 'atr', value: trailingValue, atr };
+    }
+
+    if (Number(form.breakevenTrigger) > 0) {
+      plan.breakevenTriggerPercent = Number(form.breakevenTrigger);
+    }
+
+    const tp1Price = Number(form.tp1Price);
+    const tp1Percent = Number(form.tp1Percent);
+    if (tp1Price > 0 && tp1Percent > 0) {
+      plan.takeProfitLevels = [{ price: tp1Price, closePercent: Math.min(tp1Percent, 100) }];
+      if (Number(form.targetPrice) > 0 && tp1Percent < 100) {
+        plan.takeProfitLevels.push({ price: Number(form.targetPrice), closePercent: 100 - tp1Percent });
+      }
+    }
+
+    return Object.keys(plan).length > 0 ? plan : undefined;
+  };
+
   const handleSavePosition = async () => {
     if (!userId) return;
     
@@ -322,27 +388,69 @@ const Portfolio: React.FC = () => {
     setAccountError('');
     
     try {
+      const exitPlan = buildExitPlan(newPosition);
+      const stopLoss = newPosition.stopLoss ? Number(newPosition.stopLoss) : undefined;
+      const targetPrice = newPosition.targetPrice ? Number(newPosition.targetPrice) : undefined;
+      
       if (selectedPosition) {
-        // Edit existing position logic here
-        console.log('Editing position:', selectedPosition);
-      } else {
-        // Add new position
-        const positionData = {
+        // Stops, targets and the exit plan are editable on an open position
+        const account = await dispatch(updatePositionExitPlan({
+          userId,
+          positionId: selectedPosition.id,
+          exitPlan,
+          stopLoss,
+          targetPrice,
+        })).unwrap();
+        setDemoAccount(account);
+        setAccountSuccess('Position updated successfully!');
+      } else if (newPosition.orderType !== 'market') {
+        // Pending entry: the bracket and exit plan apply once it fills
+        const order = {
           symbol: newPosition.symbol,
-          direction: newPosition.type,
+          market: newPosition.market as MarketType,
+          side: newPosition.type,
+          orderType: newPosition.orderType,
+          price: Number(newPosition.entryPrice),
           quantity: Number(newPosition.quantity),
-          entryPrice: Number(newPosition.entryPrice),
-          market: newPosition.market,
+          takeProfit: targetPrice,
+          stopLoss,
+          exitPlan,
+          expiresAt: newPosition.expiresAt ? new Date(newPosition.expiresAt).toISOString() : undefined,
         };
-        
-        await axios.post(`/api/demo-account/${userId}/positions`, positionData);
+        const errors = validatePendingOrder(
+          { ...order, id: '', createdAt: new Date().toISOString() },
+          marketData[order.symbol]?.price
+        );
+        if (errors.length > 0) {
+          throw new globalThis.Error(errors.join('. '));
+        }
+        dispatch(placePendingOrder(order));
+        setAccountSuccess('Order placed successfully!');
+      } else {
+        // Add new position, filled at the live bid/ask with the market's costs
+        await dispatch(openDemoPosition({
+          userId,
+          signal: {
+            symbol: newPosition.symbol,
+            type: newPosition.type,
+            quantity: Number(newPosition.quantity),
+            entryPrice: Number(newPosition.entryPrice),
+            market: newPosition.market,
+            stopLoss,
+            targetPrice,
+            exitPlan,
+          },
+        })).unwrap();
         setAccountSuccess('Position added successfully!');
       }
       
       setOpenDialog(false);
       dispatch(fetchPortfolio(userId));
     } catch (err: any) {
-      setAccountError(err.response?.data?.message || 'Failed to save position');
+      setAccountError(
+        err.response?.data?.msg || err.response?.data?.message ||
+        (typeof err === 'string' ? err : err.message) || 'Failed to save position'
+      );
     }
     
     setAccountActionLoading(false);
@@ -352,7 +460,7 @@ const Portfolio: React.FC = () => {
     if (!userId) return;
     
     try {
-      await dispatch(closeDemoPosition({ userId, positionId })).unwrap();
+      setDemoAccount(await dispatch(closeDemoPosition({ userId, positionId })).unwrap());
       setAccountSuccess('Position closed successfully!');
     } catch (err: any) {
       setAccountError(err.message || 'Failed to close position');
@@ -363,7 +471,7 @@ const Portfolio: React.FC = () => {
     if (!userId) return;
     
     try {
-      await dispatch(closeAllDemoPositions(userId)).unwrap();
+      setDemoAccount(await dispatch(closeAllDemoPositions(userId)).unwrap());
       setAccountSuccess('All positions closed successfully!');
     } catch (err: any) {
       setAccountError(err.message || 'Failed to close all positions');
@@ -511,6 +619,37 @@ const Portfolio: React.FC = () => {
       type: 'number',
       valueFormatter: (params: any) => safeCurrency(params.value),
     },
+    {
+      field: 'liveStop',
+      headerName: 'Live Stop',
+      width: 170,
+      type: 'number',
+      renderCell: (params) => {
+        if (params.value === undefined || params.value === null) return '-';
+        const reason: StopReason = params.row.stopReason || 'initial';
+        return (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2">{safeCurrency(params.value)}</Typography>
+            {reason !== 'initial' && (
+              <Chip
+                label={STOP_REASON_LABELS[reason]}
+                size="small"
+                variant="outlined"
+                color={reason === 'trailing' ? 'warning' : 'info'}
+              />
+            )}
+          </Box>
+        );
+      },
+    },
+    {
+      field: 'ladderFilled',
+      headerName: 'Scale-Out',
+      width: 100,
+      renderCell: (params) => params.row.ladderSize
+        ? `${params.value}/${params.row.ladderSize} TP`
+        : '-',
+    },
     {
       field: 'pnl',
       headerName: 'P&L',
@@ -542,6 +681,13 @@ const Portfolio: React.FC = () => {
         </Typography>
       ),
     },
+    {
+      field: 'fees',
+      headerName: 'Fees',
+      width: 100,
+      type: 'number',
+      valueFormatter: (params: any) => safeCurrency(params.value),
+    },
     {
       field: 'market',
       headerName: 'Market',
@@ -634,6 +780,28 @@ const Portfolio: React.FC = () => {
         </Typography>
       ),
     },
+    {
+      field: 'fees',
+      headerName: 'Fees',
+      width: 100,
+      type: 'number',
+      valueFormatter: (params: any) => safeCurrency(params.value),
+    },
+    {
+      field: 'netPnl',
+      headerName: 'Net P&L',
+      width: 120,
+      type: 'number',
+      renderCell: (params) => (
+        <Typography
+          variant="body2"
+          color={params.value >= 0 ? 'success.main' : 'error.main'}
+          fontWeight="bold"
+        >
+          {safeCurrency(params.value)}
+        </Typography>
+      ),
+    },
     {
       field: 'closureType',
       headerName: 'Closure',
@@ -641,13 +809,13 @@ const Portfolio: React.FC = () => {
       renderCell: (params) => {
         if (!params.value) return <Chip label="Manual" size="small" />;
         
-        const isTakeProfit = params.value === 'take_profit_hit';
+        const { label, color } = getClosureLabel(params.value);
         return (
           <Chip
-            label={isTakeProfit ? 'Take Profit' : 'Stop Loss'}
+            label={label}
             size="small"
-            color={isTakeProfit ? 'success' : 'error'}
-            icon={isTakeProfit ? <CheckCircle /> : <Warning />}
+            color={color}
+            icon={color === 'success' ? <CheckCircle /> : color === 'default' ? undefined : <Warning />}
           />
         );
       },
@@ -672,9 +840,10 @@ const Portfolio: React.FC = () => {
     value: string;
     change?: string;
     changeType?: 'positive' | 'negative';
+    caption?: string;
     icon: React.ReactNode;
     color?: string;
-  }> = ({ title, value, change, changeType, icon, color = 'primary' }) => (
+  }> = ({ title, value, change, changeType, caption, icon, color = 'primary' }) => (
     <Card sx={{ height: '100%', position: 'relative', overflow: 'visible' }}>
       <CardContent>
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
@@ -694,6 +863,11 @@ const Portfolio: React.FC = () => {
                 {changeType === 'positive' ? '↗' : '↘'} {change}
               </Typography>
             )}
+            {caption && (
+              <Typography variant="caption" color="text.secondary">
+                {caption}
+              </Typography>
+            )}
           </Box>
           <Box
             sx={{
@@ -836,9 +1010,23 @@ const Portfolio: React.FC = () => {
     <Container maxWidth="xl" sx={{ py: 3 }}>
       {/* Header */}
       <Box sx={{ mb: 3 }}>
-        <Typography variant="h4" component="h1" gutterBottom>
-          Portfolio Dashboard
-        </Typography>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 1 }}>
+          <Typography variant="h4" component="h1">
+            Portfolio Dashboard
+          </Typography>
+          {userId && (
+            <AccountSwitcher
+              userId={userId}
+              activeAccountId={activeAccountId ?? demoAccount?._id ?? null}
+              onSwitch={handleSwitchAccount}
+            />
+          )}
+        </Box>
+        {demoAccount?.description && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {demoAccount.description}
+          </Typography>
+        )}
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
           <Chip 
             label={`WebSocket: ${wsConnected ? 'Connected' : 'Disconnected'}`} 
@@ -904,12 +1092,13 @@ const Portfolio: React.FC = () => {
         </Grid>
         <Grid size={{ xs: 12, sm: 6, md: 3 }}>
           <StatCard
-            title="Total P&L"
-            value={safeCurrency(portfolioStats.totalPnL)}
+            title="Net P&L"
+            value={safeCurrency(portfolioStats.netPnL)}
             change={safePercentage(portfolioStats.totalReturnPercentage)}
             changeType={portfolioStats.totalReturnPercentage >= 0 ? 'positive' : 'negative'}
+            caption={`Gross ${safeCurrency(portfolioStats.grossPnL)} · Fees ${safeCurrency(portfolioStats.totalFees)}`}
             icon={<ShowChart />}
-            color={portfolioStats.totalPnL >= 0 ? 'success' : 'error'}
+            color={portfolioStats.netPnL >= 0 ? 'success' : 'error'}
           />
         </Grid>
         <Grid size={{ xs: 12, sm: 6, md: 3 }}>
@@ -1017,6 +1206,11 @@ const Portfolio: React.FC = () => {
 />
         </Grid>
 
+        {/* Working Orders */}
+        <Grid size={{ xs: 12 }}>
+          <WorkingOrdersPanel />
+        </Grid>
+
         {/* Trade History */}
         <Grid size={{ xs: 12 }}>
           <Paper sx={{ p: 2 }}>
@@ -1050,6 +1244,11 @@ const Portfolio: React.FC = () => {
             )}
           </Paper>
         </Grid>
+
+        {/* Account Comparison */}
+        <Grid size={{ xs: 12 }}>
+          <AccountComparisonPanel activeAccountId={activeAccountId ?? demoAccount?._id ?? null} />
+        </Grid>
       </Grid>
 
       {/* Add/Edit Position Dialog */}
@@ -1064,6 +1263,7 @@ const Portfolio: React.FC = () => {
                 fullWidth
                 label="Symbol"
                 value={newPosition.symbol}
+                disabled={!!selectedPosition}
                 onChange={(e) => setNewPosition({ ...newPosition, symbol: e.target.value })}
               />
             </Grid>
@@ -1072,6 +1272,7 @@ const Portfolio: React.FC = () => {
                 <InputLabel>Type</InputLabel>
                 <Select
                   value={newPosition.type}
+                  disabled={!!selectedPosition}
                   onChange={(e) => setNewPosition({ ...newPosition, type: e.target.value as 'BUY' | 'SELL' })}
                   label="Type"
                 >
@@ -1086,15 +1287,17 @@ const Portfolio: React.FC = () => {
                 label="Quantity"
                 type="number"
                 value={newPosition.quantity}
+                disabled={!!selectedPosition}
                 onChange={(e) => setNewPosition({ ...newPosition, quantity: e.target.value })}
               />
             </Grid>
             <Grid size={{ xs: 12, sm: 6 }}>
               <TextField
                 fullWidth
-                label="Entry Price"
+                label={newPosition.orderType === 'market' ? 'Entry Price' : 'Order Price'}
                 type="number"
                 value={newPosition.entryPrice}
+                disabled={!!selectedPosition}
                 onChange={(e) => setNewPosition({ ...newPosition, entryPrice: e.target.value })}
               />
             </Grid>
@@ -1103,6 +1306,7 @@ const Portfolio: React.FC = () => {
                 <InputLabel>Market</InputLabel>
                 <Select
                   value={newPosition.market}
+                  disabled={!!selectedPosition}
                   onChange={(e) => setNewPosition({ ...newPosition, market: e.target.value })}
                   label="Market"
                 >
@@ -1113,6 +1317,114 @@ const Portfolio: React.FC = () => {
                 </Select>
               </FormControl>
             </Grid>
+            {!selectedPosition && (
+              <>
+                <Grid size={{ xs: 12, sm: 6 }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Order Type</InputLabel>
+                    <Select
+                      value={newPosition.orderType}
+                      onChange={(e) => setNewPosition({ ...newPosition, orderType: e.target.value as PositionForm['orderType'] })}
+                      label="Order Type"
+                    >
+                      <MenuItem value="market">Market</MenuItem>
+                      <MenuItem value="limit">Limit</MenuItem>
+                      <MenuItem value="stop">Stop Entry</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6 }}>
+                  <TextField
+                    fullWidth
+                    label="Expires"
+                    type="datetime-local"
+                    value={newPosition.expiresAt}
+                    disabled={newPosition.orderType === 'market'}
+                    onChange={(e) => setNewPosition({ ...newPosition, expiresAt: e.target.value })}
+                    InputLabelProps={{ shrink: true }}
+                    helperText="Empty for good till cancelled"
+                  />
+                </Grid>
+              </>
+            )}
+          </Grid>
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle2" gutterBottom>
+            Exit Management
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="Stop Loss"
+                type="number"
+                value={newPosition.stopLoss}
+                onChange={(e) => setNewPosition({ ...newPosition, stopLoss: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="Target"
+                type="number"
+                value={newPosition.targetPrice}
+                onChange={(e) => setNewPosition({ ...newPosition, targetPrice: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 4 }}>
+              <FormControl fullWidth>
+                <InputLabel>Trailing Stop</InputLabel>
+                <Select
+                  value={newPosition.trailingMode}
+                  onChange={(e) => setNewPosition({ ...newPosition, trailingMode: e.target.value as PositionForm['trailingMode'] })}
+                  label="Trailing Stop"
+                >
+                  <MenuItem value="off">Off</MenuItem>
+                  <MenuItem value="percent">Percent</MenuItem>
+                  <MenuItem value="atr">ATR ({ATR_PERIOD})</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 4 }}>
+              <TextField
+                fullWidth
+                label={newPosition.trailingMode === 'atr' ? 'Trail (ATRs)' : 'Trail (%)'}
+                type="number"
+                value={newPosition.trailingValue}
+                disabled={newPosition.trailingMode === 'off'}
+                onChange={(e) => setNewPosition({ ...newPosition, trailingValue: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 4 }}>
+              <TextField
+                fullWidth
+                label="Breakeven After (%)"
+                type="number"
+                value={newPosition.breakevenTrigger}
+                onChange={(e) => setNewPosition({ ...newPosition, breakevenTrigger: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="TP1 Price"
+                type="number"
+                value={newPosition.tp1Price}
+                onChange={(e) => setNewPosition({ ...newPosition, tp1Price: e.target.value })}
+                helperText="Leave empty for a single target"
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="Close at TP1 (%)"
+                type="number"
+                value={newPosition.tp1Percent}
+                onChange={(e) => setNewPosition({ ...newPosition, tp1Percent: e.target.value })}
+                helperText="The rest closes at the target"
+              />
+            </Grid>
           </Grid>
           
           {accountError && (
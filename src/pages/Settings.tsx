@@ -3,6 +3,14 @@ import { useSelector, useDispatch } from 'react-redux';
 import debounce from 'lodash/debounce';
 import { useThemeSwitcher } from '../theme/ThemeContext';
 import autoTradeService, { AutoTradeCriteria } from '../services/autoTradeService';
+import BacktestPanel from '../components/settings/BacktestPanel';
+import FeedReplayPanel from '../components/settings/FeedReplayPanel';
+import PositionSizingPanel from '../components/settings/PositionSizingPanel';
+import ExposureLimitsPanel from '../components/settings/ExposureLimitsPanel';
+import IndicatorFiltersPanel from '../components/settings/IndicatorFiltersPanel';
+import ExitManagementPanel from '../components/settings/ExitManagementPanel';
+import FillModelPanel from '../components/settings/FillModelPanel';
+import AutoTradeAccountSelect from '../components/settings/AutoTradeAccountSelect';
 import {
   Container,
   Paper,
@@ -1038,11 +1046,27 @@ const Settings: React.FC = () => {
                             type="number"
                             value={autoTradeService.getCriteria().maxDailyTrades}
                             onChange={(e) => autoTradeService.updateCriteria({ 
-                              maxDailyTrades: parseInt(e.target.value) || 10 
+                              maxDailyTrades: parseInt(e.target.value) || 10
                             })}
                             size="small"
                           />
                         </Grid>
+                        <Grid size={{ xs: 12, md: 6 }}>
+                          <TextField
+                            fullWidth
+                            label="Min Agreeing Sources"
+                            type="number"
+                            value={autoTradeService.getCriteria().minConsensusSources ?? 0}
+                            onChange={(e) => autoTradeService.updateCriteria({
+                              minConsensusSources: Math.max(0, parseInt(e.target.value) || 0)
+                            })}
+                            helperText="Sources that must call the same direction, 0 = off"
+                            size="small"
+                          />
+                        </Grid>
+                        <Grid size={{ xs: 12 }}>
+                          <AutoTradeAccountSelect />
+                        </Grid>
                       </Grid>
                     </Box>
                   )}
@@ -1212,6 +1236,41 @@ const Settings: React.FC = () => {
                 </CardContent>
               </Card>
             </Grid>
+
+            {/* Position Sizing */}
+            <Grid size={{ xs: 12 }}>
+              <PositionSizingPanel />
+            </Grid>
+
+            {/* Exposure Limits */}
+            <Grid size={{ xs: 12 }}>
+              <ExposureLimitsPanel />
+            </Grid>
+
+            {/* Indicator Filters */}
+            <Grid size={{ xs: 12 }}>
+              <IndicatorFiltersPanel />
+            </Grid>
+
+            {/* Exit Management */}
+            <Grid size={{ xs: 12 }}>
+              <ExitManagementPanel />
+            </Grid>
+
+            {/* Trading Costs */}
+            <Grid size={{ xs: 12 }}>
+              <FillModelPanel />
+            </Grid>
+
+            {/* Backtest */}
+            <Grid size={{ xs: 12 }}>
+              <BacktestPanel />
+            </Grid>
+
+            {/* Feed Replay */}
+            <Grid size={{ xs: 12 }}>
+              <FeedReplayPanel />
+            </Grid>
           </Grid>
         </TabPanel>
 
@@ -0,0 +1,394 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Container, Box, Typography, Paper, Button, Chip, LinearProgress, Alert, Table, TableBody,
+  TableCell, TableHead, TableRow, Snackbar, useTheme,
+} from '@mui/material';
+import { ArrowBack, Link as LinkIcon, TrendingUp, TrendingDown, Star, StarBorder, EditNote } from '@mui/icons-material';
+import { Bar } from 'react-chartjs-2';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { fetchSignalById, selectSignalOutcomes } from '../store/slices/signalSlice';
+import { fetchChartData, selectChartData } from '../store/slices/marketSlice';
+import { saveSignalAnnotation, selectSignalAnnotations } from '../store/slices/signalAnnotationsSlice';
+import SignalPriceChart, { SignalChartMarker } from '../components/signals/SignalPriceChart';
+import SignalAnnotationDialog from '../components/signals/SignalAnnotationDialog';
+import { TradingSignal } from '../types';
+import { isResolved, OUTCOME_LABELS } from '../utils/signalOutcomes';
+import { calculateIndicatorSnapshot, INDICATOR_LABELS, IndicatorKey } from '../utils/indicators';
+
+const CANDLE_TIMEFRAME = '1h';
+const CANDLE_LIMIT = 500;
+const CANDLE_MS = 60 * 60 * 1000;
+const LOOKBACK_CANDLES = 48; // Context shown before the signal was created
+const TOP_FEATURES = 10;
+
+const SNAPSHOT_ROWS: IndicatorKey[] = [
+  'rsi', 'macd', 'macdHistogram', 'stochK', 'stochD', 'adx', 'atr', 'sma', 'ema',
+  'bollingerUpper', 'bollingerMiddle', 'bollingerLower', 'vwap', 'pivot',
+];
+
+const formatIndicator = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : Number(value.toPrecision(6)).toString();
+
+const humanize = (key: string) =>
+  key.replace(/[_-]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+
+// Reads a counterfactual scenario as "if X happens, Y", noting whether it
+// would help or hurt the signal's direction
+const describeCounterfactual = (signal: TradingSignal, name: string, scenario: any) => {
+  if (scenario && typeof scenario === 'object' && 'impact' in scenario) {
+    const impact = String(scenario.impact).toLowerCase();
+    const probability = typeof scenario.probability === 'number' ? Math.round(scenario.probability * 100) : null;
+    const favourable = (impact === 'positive' && signal.type === 'BUY') || (impact === 'negative' && signal.type === 'SELL');
+    const adverse = (impact === 'negative' && signal.type === 'BUY') || (impact === 'positive' && signal.type === 'SELL');
+    return {
+      text: `If ${humanize(name).toLowerCase()} happens, ${signal.symbol} would see a ${impact} impact` +
+        (favourable ? `, supporting the ${signal.type}` : adverse ? `, working against the ${signal.type}` : ''),
+      probability,
+      tone: favourable ? 'success' as const : adverse ? 'error' as const : 'default' as const,
+    };
+  }
+  return {
+    text: `${humanize(name)}: ${typeof scenario === 'object' ? JSON.stringify(scenario) : String(scenario)}`,
+    probability: null,
+    tone: 'default' as const,
+  };
+};
+
+const SignalDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const theme = useTheme();
+  const signal = useAppSelector((state) => state.signals.signals.find(s => s.id === id));
+  const outcome = useAppSelector(selectSignalOutcomes)[id || ''];
+  const chartData = useAppSelector(selectChartData);
+  const chartLoading = useAppSelector((state) => state.market.loading.chartData);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [annotating, setAnnotating] = useState(false);
+  const annotation = useAppSelector(selectSignalAnnotations)[id || ''];
+
+  // Deep links can point at signals that are no longer in the loaded list
+  useEffect(() => {
+    if (!id || signal) return;
+    setLoading(true);
+    setError(null);
+    dispatch(fetchSignalById(id))
+      .unwrap()
+      .catch((err: Error) => setError(err.message || 'Failed to load signal'))
+      .finally(() => setLoading(false));
+  }, [id, signal, dispatch]);
+
+  const symbol = signal?.symbol;
+  const allCandles = symbol ? chartData[symbol] : undefined;
+  const requestedSymbol = useRef<string | null>(null);
+  useEffect(() => {
+    if (symbol && !allCandles?.length && requestedSymbol.current !== symbol) {
+      requestedSymbol.current = symbol;
+      dispatch(fetchChartData({ symbol, timeframe: CANDLE_TIMEFRAME, limit: CANDLE_LIMIT }));
+    }
+  }, [symbol, allCandles, dispatch]);
+
+  // Candles from shortly before the signal until it was resolved or expired
+  const candles = useMemo(() => {
+    if (!signal || !allCandles) return [];
+    const from = Date.parse(signal.createdAt) - LOOKBACK_CANDLES * CANDLE_MS;
+    const endedAt = isResolved(outcome) && outcome.resolvedAt
+      ? Date.parse(outcome.resolvedAt)
+      : Math.min(Date.parse(signal.expiresAt) || Date.now(), Date.now());
+    const to = endedAt + LOOKBACK_CANDLES * CANDLE_MS / 4;
+    return allCandles.filter(candle => candle.timestamp >= from && candle.timestamp <= to);
+  }, [signal, allCandles, outcome]);
+
+  // Computed from all loaded candles so long lookbacks are warmed up
+  const snapshots = useMemo(() => {
+    if (!signal || !allCandles?.length) return null;
+    const sorted = [...allCandles].sort((a, b) => a.timestamp - b.timestamp);
+    const createdAt = Date.parse(signal.createdAt);
+    return {
+      atSignal: calculateIndicatorSnapshot(sorted.filter(candle => candle.timestamp <= createdAt)),
+      latest: calculateIndicatorSnapshot(sorted),
+    };
+  }, [signal, allCandles]);
+
+  const lifecycle = useMemo(() => {
+    if (!signal) return [];
+    const events: (SignalChartMarker & { detail: string })[] = [{
+      label: 'Created',
+      timestamp: Date.parse(signal.createdAt),
+      price: signal.entryPrice,
+      color: theme.palette.info.main,
+      detail: `${signal.type} at ${signal.entryPrice}`,
+    }];
+    if (signal.executedAt) {
+      events.push({
+        label: 'Executed',
+        timestamp: Date.parse(signal.executedAt),
+        price: signal.executedPrice ?? signal.entryPrice,
+        color: theme.palette.primary.main,
+        detail: `Filled at ${signal.executedPrice ?? signal.entryPrice}`,
+      });
+    }
+    if (isResolved(outcome) && outcome.resolvedAt) {
+      events.push({
+        label: OUTCOME_LABELS[outcome.status],
+        timestamp: Date.parse(outcome.resolvedAt),
+        price: outcome.exitPrice,
+        color: outcome.returnPercentage > 0 ? theme.palette.success.main : theme.palette.error.main,
+        detail: `${outcome.returnPercentage >= 0 ? '+' : ''}${outcome.returnPercentage.toFixed(2)}% at ${outcome.exitPrice}`,
+      });
+    }
+    const expiresAt = Date.parse(signal.expiresAt);
+    if (signal.status === 'expired' || expiresAt <= Date.now()) {
+      const lastCandle = [...candles].reverse().find(candle => candle.timestamp <= expiresAt);
+      events.push({
+        label: 'Expired',
+        timestamp: expiresAt,
+        price: lastCandle?.close ?? signal.currentPrice ?? signal.entryPrice,
+        color: theme.palette.text.disabled,
+        detail: new Date(expiresAt).toLocaleString(),
+      });
+    }
+    return events.sort((a, b) => a.timestamp - b.timestamp);
+  }, [signal, outcome, candles, theme]);
+
+  const featureChart = useMemo(() => {
+    const entries = Object.entries(signal?.featureImportance || {})
+      .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+      .slice(0, TOP_FEATURES);
+    return {
+      labels: entries.map(([feature]) => humanize(feature)),
+      datasets: [{
+        label: 'Importance',
+        data: entries.map(([, importance]) => importance),
+        backgroundColor: theme.palette.primary.main,
+      }],
+    };
+  }, [signal, theme]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  if (!signal) {
+    return (
+      <Container maxWidth="xl" sx={{ py: 3 }}>
+        <Button startIcon={<ArrowBack />} onClick={() => navigate('/signals')} sx={{ mb: 2 }}>
+          Back to Signals
+        </Button>
+        {loading && <LinearProgress />}
+        {error && <Alert severity="error">{error}</Alert>}
+      </Container>
+    );
+  }
+
+  const counterfactuals = Object.entries(signal.counterfactuals || {});
+  const indicators = signal.technicalIndicators || {};
+  const reported: Partial<Record<IndicatorKey, number>> = {
+    rsi: indicators.rsi,
+    macd: indicators.macd,
+    sma: indicators.sma,
+    ema: indicators.ema,
+    bollingerUpper: indicators.bollinger?.upper,
+    bollingerMiddle: indicators.bollinger?.middle,
+    bollingerLower: indicators.bollinger?.lower,
+  };
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Button startIcon={<ArrowBack />} onClick={() => navigate('/signals')}>
+          Back to Signals
+        </Button>
+        <Box display="flex" gap={1}>
+          <Button
+            variant="outlined"
+            startIcon={annotation?.starred ? <Star color="warning" /> : <StarBorder />}
+            onClick={() => dispatch(saveSignalAnnotation({ signalId: signal.id, changes: { starred: !annotation?.starred } }))}
+          >
+            {annotation?.starred ? 'Starred' : 'Star'}
+          </Button>
+          <Button variant="outlined" startIcon={<EditNote />} onClick={() => setAnnotating(true)}>
+            Notes & Tags
+          </Button>
+          <Button variant="outlined" startIcon={<LinkIcon />} onClick={handleCopyLink}>
+            Copy Link
+          </Button>
+        </Box>
+      </Box>
+
+      <Box display="flex" alignItems="center" gap={1.5} flexWrap="wrap" mb={3}>
+        <Typography variant="h4">{signal.symbol}</Typography>
+        <Chip
+          label={signal.type}
+          color={signal.type === 'BUY' ? 'success' : signal.type === 'SELL' ? 'error' : 'default'}
+          icon={signal.type === 'BUY' ? <TrendingUp /> : <TrendingDown />}
+        />
+        <Chip label={`${signal.confidence}% confidence`} variant="outlined" />
+        <Chip label={signal.status.toUpperCase()} variant="outlined" />
+        <Chip label={`${signal.market.toUpperCase()} • ${signal.timeframe}`} variant="outlined" />
+        <Chip label={`${signal.risk.toUpperCase()} risk`} variant="outlined" />
+        {outcome && <Chip label={OUTCOME_LABELS[outcome.status]} color={outcome.returnPercentage > 0 ? 'success' : 'default'} />}
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        {chartLoading && !candles.length && <LinearProgress sx={{ mb: 2 }} />}
+        {candles.length > 0 ? (
+          <SignalPriceChart signal={signal} candles={candles} markers={lifecycle} />
+        ) : !chartLoading && (
+          <Typography color="text.secondary" textAlign="center" py={6}>
+            No price history available for {signal.symbol}
+          </Typography>
+        )}
+      </Paper>
+
+      <Box display="flex" flexDirection={{ xs: 'column', md: 'row' }} gap={3} mb={3}>
+        <Paper sx={{ p: 2, flex: 1 }}>
+          <Typography variant="h6" gutterBottom>Levels</Typography>
+          <Table size="small">
+            <TableBody>
+              <TableRow><TableCell>Entry</TableCell><TableCell align="right">{signal.entryPrice}</TableCell></TableRow>
+              <TableRow><TableCell>Target</TableCell><TableCell align="right">{signal.targetPrice || '—'}</TableCell></TableRow>
+              <TableRow><TableCell>Stop</TableCell><TableCell align="right">{signal.stopLoss || '—'}</TableCell></TableRow>
+            </TableBody>
+          </Table>
+        </Paper>
+
+        <Paper sx={{ p: 2, flex: 1 }}>
+          <Typography variant="h6" gutterBottom>Indicators</Typography>
+          {snapshots ? (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell align="right">Reported</TableCell>
+                  <TableCell align="right">At Signal</TableCell>
+                  <TableCell align="right">Latest</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {SNAPSHOT_ROWS.map(key => (
+                  <TableRow key={key}>
+                    <TableCell>{INDICATOR_LABELS[key]}</TableCell>
+                    <TableCell align="right">{formatIndicator(reported[key])}</TableCell>
+                    <TableCell align="right">{formatIndicator(snapshots.atSignal[key])}</TableCell>
+                    <TableCell align="right">{formatIndicator(snapshots.latest[key])}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <Typography color="text.secondary">Indicators are computed once price history has loaded</Typography>
+          )}
+        </Paper>
+
+        <Paper sx={{ p: 2, flex: 1 }}>
+          <Typography variant="h6" gutterBottom>Lifecycle</Typography>
+          <Table size="small">
+            <TableBody>
+              {lifecycle.map(event => (
+                <TableRow key={event.label}>
+                  <TableCell>
+                    <Box component="span" sx={{ color: event.color, mr: 1 }}>▲</Box>
+                    {event.label}
+                  </TableCell>
+                  <TableCell>{new Date(event.timestamp).toLocaleString()}</TableCell>
+                  <TableCell align="right">{event.detail}</TableCell>
+                </TableRow>
+              ))}
+              {signal.status === 'active' && Date.parse(signal.expiresAt) > Date.now() && (
+                <TableRow>
+                  <TableCell>Expires</TableCell>
+                  <TableCell>{new Date(signal.expiresAt).toLocaleString()}</TableCell>
+                  <TableCell />
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Paper>
+      </Box>
+
+      <Box display="flex" flexDirection={{ xs: 'column', md: 'row' }} gap={3} mb={3}>
+        <Paper sx={{ p: 2, flex: 1 }}>
+          <Typography variant="h6" gutterBottom>Feature Importance</Typography>
+          {featureChart.labels.length > 0 ? (
+            <Box sx={{ height: 40 + featureChart.labels.length * 28 }}>
+              <Bar
+                data={featureChart}
+                options={{
+                  indexAxis: 'y' as const,
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  plugins: { legend: { display: false } },
+                }}
+              />
+            </Box>
+          ) : (
+            <Typography color="text.secondary">No feature importance reported for this signal</Typography>
+          )}
+        </Paper>
+
+        <Paper sx={{ p: 2, flex: 1 }}>
+          <Typography variant="h6" gutterBottom>What If</Typography>
+          {counterfactuals.length > 0 ? (
+            <Table size="small">
+              <TableBody>
+                {counterfactuals.map(([name, scenario]) => {
+                  const row = describeCounterfactual(signal, name, scenario);
+                  return (
+                    <TableRow key={name}>
+                      <TableCell>{row.text}</TableCell>
+                      <TableCell align="right">
+                        {row.probability !== null && (
+                          <Chip size="small" label={`${row.probability}% likely`} color={row.tone} variant="outlined" />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <Typography color="text.secondary">No scenarios reported for this signal</Typography>
+          )}
+        </Paper>
+      </Box>
+
+      {annotation && (annotation.note || annotation.tags.length > 0) && (
+        <Paper sx={{ p: 2, mb: 3 }}>
+          <Typography variant="h6" gutterBottom>My Notes</Typography>
+          {annotation.note && <Typography paragraph sx={{ whiteSpace: 'pre-wrap' }}>{annotation.note}</Typography>}
+          <Box display="flex" flexWrap="wrap" gap={0.5}>
+            {annotation.tags.map(tag => <Chip key={tag} label={`#${tag}`} size="small" color="primary" variant="outlined" />)}
+          </Box>
+        </Paper>
+      )}
+
+      {(signal.description || signal.reasoning) && (
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" gutterBottom>Reasoning</Typography>
+          {signal.description && <Typography paragraph>{signal.description}</Typography>}
+          {signal.reasoning && <Typography color="text.secondary">{signal.reasoning}</Typography>}
+        </Paper>
+      )}
+
+      <SignalAnnotationDialog signal={signal} open={annotating} onClose={() => setAnnotating(false)} />
+
+      <Snackbar
+        open={linkCopied}
+        autoHideDuration={2000}
+        onClose={() => setLinkCopied(false)}
+        message="Link copied"
+      />
+    </Container>
+  );
+};
+
+export default SignalDetailPage;
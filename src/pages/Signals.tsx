@@ -1,265 +1,369 @@
 import React, { useEffect, useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Container, Box, Typography, Paper, TextField, FormControl, InputLabel, Select, MenuItem,
   Button, Chip, ToggleButton, ToggleButtonGroup, LinearProgress, Alert, Table, TableBody, TableCell,
   TableContainer, TableHead, TableRow, IconButton, Dialog, DialogTitle, DialogContent, DialogActions,
-  Stack // Import Stack
+  Link, Stack, // Import Stack
+  useMediaQuery, useTheme,
 } from '@mui/material';
-// No need to import Grid if you're replacing it
-import { Refresh, ViewModule, ViewList, Star, StarBorder, AutoAwesome, TrendingUp, TrendingDown } from '@mui/icons-material';
+import {
+  Refresh, ViewModule, ViewList, Star, StarBorder, AutoAwesome, TrendingUp, TrendingDown, ArrowUpward, ArrowDownward,
+  EditNote, Add,
+} from '@mui/icons-material';
 import { useAppSelector, useAppDispatch } from '../hooks/redux';
-import { fetchSignals } from '../store/slices/signalSlice';
+import {
+  clearFilters,
+  executeSignal,
+  fetchSignals,
+  selectAllSignals,
+  selectFilteredSignals,
+  selectSignalFilters,
+  selectSignalPagination,
+  selectSignalSearchQuery,
+  selectSignalSorting,
+  selectSignalTags,
+  setFilters,
+  setSearchQuery,
+  setSortBy,
+  setSortOrder,
+} from '../store/slices/signalSlice';
+import { setActiveScreener } from '../store/slices/screenersSlice';
+import { saveSignalAnnotation, selectSignalAnnotations } from '../store/slices/signalAnnotationsSlice';
 import SignalCard from '../components/signals/SignalCard';
-import { TradingSignal } from '../types';
+import SignalFiltersPanel from '../components/signals/SignalFiltersPanel';
+import ScreenerSidebar from '../components/signals/ScreenerSidebar';
+import SignalAnnotationDialog from '../components/signals/SignalAnnotationDialog';
+import SignalComposerDialog from '../components/signals/SignalComposerDialog';
+import { PendingOrderType, SignalFilter, TradingSignal } from '../types';
+import { validatePendingOrder } from '../utils/pendingOrders';
+import useVirtualList from '../hooks/useVirtualList';
+
+const PAGE_SIZE = 50;
+const CARD_ROW_HEIGHT = 300;
+const TABLE_ROW_HEIGHT = 57;
 
 const SignalsPage: React.FC = () => {
   const dispatch = useAppDispatch();
-  const signals = useAppSelector((state: any) => state.signals.signals);
+  const navigate = useNavigate();
+  const theme = useTheme();
+  const signals = useAppSelector(selectAllSignals);
+  const filteredSignals = useAppSelector(selectFilteredSignals);
+  const search = useAppSelector(selectSignalSearchQuery);
+  const { sortBy, sortOrder } = useAppSelector(selectSignalSorting);
+  const pagination = useAppSelector(selectSignalPagination);
   const loading = useAppSelector((state: any) => state.signals.loading.signals);
+  const loadingMore = useAppSelector((state: any) => state.signals.loading.moreSignals);
   const error = useAppSelector((state: any) => state.signals.error.signals);
   const user = useAppSelector((state: any) => state.auth.user);
 
   // UI State
   const [viewMode, setViewMode] = useState<'cards' | 'table'>('cards');
-  const [search, setSearch] = useState('');
-  const [filters, setFilters] = useState({
-    market: 'all',
-    type: 'all',
-    confidence: 'all',
-    source: 'all',
-    risk: 'all',
-    timeframe: 'all',
-  });
-  const [favoriteIds, setFavoriteIds] = useState<string[]>([]);
+  const filters = useAppSelector(selectSignalFilters);
+  const annotations = useAppSelector(selectSignalAnnotations);
+  const signalTags = useAppSelector(selectSignalTags);
+  const [annotatingSignal, setAnnotatingSignal] = useState<TradingSignal | null>(null);
+  const [composerOpen, setComposerOpen] = useState(false);
   const [selectedSignal, setSelectedSignal] = useState<TradingSignal | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [orderType, setOrderType] = useState<PendingOrderType>('limit');
+  const [orderPrice, setOrderPrice] = useState('');
+  const [orderQuantity, setOrderQuantity] = useState('1');
+  const [orderError, setOrderError] = useState('');
+  const marketData = useAppSelector((state: any) => state.market.marketData);
 
   // Fetch signals on mount and optionally on interval
   useEffect(() => {
-    dispatch(fetchSignals());
-    const interval = setInterval(() => dispatch(fetchSignals()), 5 * 60 * 1000);
+    dispatch(fetchSignals({ limit: PAGE_SIZE }));
+    const interval = setInterval(() => dispatch(fetchSignals({ limit: PAGE_SIZE })), 5 * 60 * 1000);
     return () => clearInterval(interval);
   }, [dispatch]);
 
-  // Filtering logic
-  const filteredSignals = useMemo(() => {
-    return signals
-      .filter((signal: TradingSignal) => {
-        // Search
-        if (
-          search &&
-          !signal.symbol.toLowerCase().includes(search.toLowerCase()) &&
-          !signal.description?.toLowerCase().includes(search.toLowerCase())
-        ) return false;
-        // Filters
-        if (filters.market !== 'all' && signal.market !== filters.market) return false;
-        if (filters.type !== 'all' && signal.type.toLowerCase() !== filters.type) return false;
-        if (filters.confidence === 'high' && signal.confidence < 80) return false;
-        if (filters.confidence === 'medium' && (signal.confidence < 60 || signal.confidence >= 80)) return false;
-        if (filters.confidence === 'low' && signal.confidence >= 60) return false;
-        if (filters.source !== 'all' && signal.source !== filters.source) return false;
-        if (filters.risk !== 'all' && signal.risk !== filters.risk) return false;
-        if (filters.timeframe !== 'all' && signal.timeframe !== filters.timeframe) return false;
-        // Only show signals from last 24h
-        const hoursAgo = (Date.now() - new Date(signal.createdAt).getTime()) / (1000 * 60 * 60);
-        if (hoursAgo > 24) return false;
-        return true;
-      });
-  }, [signals, search, filters]);
+  // Cards are laid out in rows, which are the unit of windowing
+  const isLarge = useMediaQuery(theme.breakpoints.up('lg'));
+  const isMedium = useMediaQuery(theme.breakpoints.up('md'));
+  const isSmall = useMediaQuery(theme.breakpoints.up('sm'));
+  const columns = isLarge ? 4 : isMedium ? 3 : isSmall ? 2 : 1;
+  const cardRows = useMemo(() => {
+    const rows: TradingSignal[][] = [];
+    for (let i = 0; i < filteredSignals.length; i += columns) {
+      rows.push(filteredSignals.slice(i, i + columns));
+    }
+    return rows;
+  }, [filteredSignals, columns]);
+
+  const rowCount = viewMode === 'cards' ? cardRows.length : filteredSignals.length;
+  const virtualList = useVirtualList({
+    count: rowCount,
+    estimateSize: viewMode === 'cards' ? CARD_ROW_HEIGHT : TABLE_ROW_HEIGHT,
+  });
+
+  // Older pages load as the end of the list scrolls into view, so search,
+  // sorting and filters reach past the first page
+  const { nextCursor, hasMore } = pagination;
+  const nearEnd = virtualList.end >= rowCount - 1;
+  useEffect(() => {
+    if (nearEnd && hasMore && nextCursor && !loading && !loadingMore) {
+      dispatch(fetchSignals({ limit: PAGE_SIZE, cursor: nextCursor }));
+    }
+  }, [nearEnd, hasMore, nextCursor, loading, loadingMore, dispatch]);
+
+  const availableSymbols = useMemo(
+    () => Array.from(new Set<string>(signals.map((signal: TradingSignal) => signal.symbol))).sort(),
+    [signals]
+  );
+  const availableTags = useMemo(() => signalTags.map(({ tag }) => tag).sort(), [signalTags]);
+  const starredCount = useMemo(() => Object.values(annotations).filter(a => a.starred).length, [annotations]);
 
   // Handlers
-  const handleFilter = (key: string, value: string) => setFilters(f => ({ ...f, [key]: value }));
+  const handleFiltersChange = (next: SignalFilter) => {
+    dispatch(setFilters(next));
+    virtualList.scrollToTop();
+  };
+  const handleResetFilters = () => {
+    dispatch(clearFilters());
+    dispatch(setActiveScreener(null));
+  };
   const handleFavorite = (id: string) =>
-    setFavoriteIds(ids => ids.includes(id) ? ids.filter(fid => fid !== id) : [...ids, id]);
-  const handleDialogOpen = (signal: TradingSignal) => { setSelectedSignal(signal); setDialogOpen(true); };
+    dispatch(saveSignalAnnotation({ signalId: id, changes: { starred: !annotations[id]?.starred } }));
+  const handleView = (signal: TradingSignal) => navigate(`/signals/${signal.id}`);
+  const handleDialogOpen = (signal: TradingSignal) => {
+    setSelectedSignal(signal);
+    setOrderPrice(signal.entryPrice?.toString() ?? '');
+    setOrderQuantity((signal.positionSize ?? 1).toString());
+    setOrderError('');
+    setDialogOpen(true);
+  };
   const handleDialogClose = () => { setDialogOpen(false); setSelectedSignal(null); };
+  const handlePlaceOrder = async () => {
+    if (!selectedSignal || selectedSignal.type === 'HOLD') return;
+    const price = Number(orderPrice);
+    const quantity = Number(orderQuantity);
+    const errors = validatePendingOrder({
+      id: '',
+      symbol: selectedSignal.symbol,
+      market: selectedSignal.market,
+      side: selectedSignal.type,
+      orderType,
+      price,
+      quantity,
+      takeProfit: selectedSignal.targetPrice || undefined,
+      stopLoss: selectedSignal.stopLoss || undefined,
+      createdAt: new Date().toISOString(),
+      expiresAt: selectedSignal.expiresAt,
+    }, marketData[selectedSignal.symbol]?.price);
+    if (errors.length > 0) {
+      setOrderError(errors.join('. '));
+      return;
+    }
+    try {
+      await dispatch(executeSignal({ signalId: selectedSignal.id, quantity, customPrice: price, orderType })).unwrap();
+      handleDialogClose();
+    } catch (err: any) {
+      setOrderError(err.message || 'Failed to place order');
+    }
+  };
+
+  const listFooter = (
+    <Box textAlign="center" py={2}>
+      {loadingMore ? (
+        <LinearProgress />
+      ) : hasMore ? (
+        <Button size="small" onClick={() => nextCursor && dispatch(fetchSignals({ limit: PAGE_SIZE, cursor: nextCursor }))}>
+          Load older signals
+        </Button>
+      ) : (
+        <Typography variant="caption" color="text.secondary">
+          All {signals.length} signals loaded
+        </Typography>
+      )}
+    </Box>
+  );
 
   // UI
   return (
     <Container maxWidth="xl" sx={{ py: 3 }}>
       <Box mb={3}>
-        <Typography variant="h4" gutterBottom>Trading Signals</Typography>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h4" gutterBottom>Trading Signals</Typography>
+          <Button variant="contained" startIcon={<Add />} onClick={() => setComposerOpen(true)}>
+            New Signal
+          </Button>
+        </Box>
         <Box display="flex" gap={2} mb={2}>
           <Chip label={`Total: ${filteredSignals.length}`} color="primary" />
-          <Chip label={`Favorites: ${favoriteIds.length}`} color="warning" />
+          <Chip label={`Favorites: ${starredCount}`} color="warning" />
         </Box>
       </Box>
 
-      {/* Filters - Replaced Grid with Stack for a cleaner linear layout */}
-      <Paper sx={{ p: 2, mb: 3 }}>
-        <Stack
-          direction={{ xs: 'column', md: 'row' }} // Stack items vertically on small screens, horizontally on medium+
-          spacing={2} // Spacing between items
-          useFlexGap // Enables gap property for better responsiveness
-          flexWrap="wrap" // Allows items to wrap to the next line
-        >
-          <Box sx={{ flexGrow: 1, flexBasis: { xs: '100%', md: '25%' } }}> {/* Adjust flexBasis for TextField */}
-            <TextField fullWidth label="Search" value={search} onChange={e => setSearch(e.target.value)} size="small" />
-          </Box>
-          <Box sx={{ flexGrow: 1, flexBasis: { xs: '48%', md: '12%' } }}> {/* Adjust flexBasis for select inputs */}
-            <FormControl fullWidth size="small">
-              <InputLabel>Market</InputLabel>
-              <Select value={filters.market} onChange={e => handleFilter('market', e.target.value)} label="Market">
-                <MenuItem value="all">All</MenuItem>
-                <MenuItem value="crypto">Crypto</MenuItem>
-                <MenuItem value="forex">Forex</MenuItem>
-                <MenuItem value="stocks">Stocks</MenuItem>
-                <MenuItem value="commodities">Commodities</MenuItem>
-              </Select>
-            </FormControl>
-          </Box>
-          <Box sx={{ flexGrow: 1, flexBasis: { xs: '48%', md: '12%' } }}>
-            <FormControl fullWidth size="small">
-              <InputLabel>Type</InputLabel>
-              <Select value={filters.type} onChange={e => handleFilter('type', e.target.value)} label="Type">
-                <MenuItem value="all">All</MenuItem>
-                <MenuItem value="buy">Buy</MenuItem>
-                <MenuItem value="sell">Sell</MenuItem>
-                <MenuItem value="hold">Hold</MenuItem>
-              </Select>
-            </FormControl>
-          </Box>
-          <Box sx={{ flexGrow: 1, flexBasis: { xs: '48%', md: '12%' } }}>
-            <FormControl fullWidth size="small">
-              <InputLabel>Confidence</InputLabel>
-              <Select value={filters.confidence} onChange={e => handleFilter('confidence', e.target.value)} label="Confidence">
-                <MenuItem value="all">All</MenuItem>
-                <MenuItem value="high">High (80%+)</MenuItem>
-                <MenuItem value="medium">Medium (60-79%)</MenuItem>
-                <MenuItem value="low">Low (&lt;60%)</MenuItem>
-              </Select>
-            </FormControl>
-          </Box>
-          <Box sx={{ flexGrow: 1, flexBasis: { xs: '48%', md: '12%' } }}>
-            <FormControl fullWidth size="small">
-              <InputLabel>Source</InputLabel>
-              <Select value={filters.source} onChange={e => handleFilter('source', e.target.value)} label="Source">
-                <MenuItem value="all">All</MenuItem>
-                <MenuItem value="enterprise_ml">Enterprise ML</MenuItem>
-                <MenuItem value="ai">AI</MenuItem>
-                <MenuItem value="manual">Manual</MenuItem>
-              </Select>
-            </FormControl>
-          </Box>
-          <Box sx={{ flexGrow: 1, flexBasis: { xs: '48%', md: '12%' } }}>
-            <FormControl fullWidth size="small">
-              <InputLabel>Risk</InputLabel>
-              <Select value={filters.risk} onChange={e => handleFilter('risk', e.target.value)} label="Risk">
-                <MenuItem value="all">All</MenuItem>
-                <MenuItem value="low">Low</MenuItem>
-                <MenuItem value="medium">Medium</MenuItem>
-                <MenuItem value="high">High</MenuItem>
-              </Select>
-            </FormControl>
-          </Box>
-          <Box sx={{ flexGrow: 1, flexBasis: { xs: '48%', md: '12%' } }}>
-            <FormControl fullWidth size="small">
-              <InputLabel>Timeframe</InputLabel>
-              <Select value={filters.timeframe} onChange={e => handleFilter('timeframe', e.target.value)} label="Timeframe">
-                <MenuItem value="all">All</MenuItem>
-                <MenuItem value="1M">1 Minute</MenuItem>
-                <MenuItem value="5M">5 Minutes</MenuItem>
-                <MenuItem value="15M">15 Minutes</MenuItem>
-                <MenuItem value="1H">1 Hour</MenuItem>
-                <MenuItem value="4H">4 Hours</MenuItem>
-                <MenuItem value="1D">1 Day</MenuItem>
-              </Select>
-            </FormControl>
-          </Box>
-        </Stack>
-      </Paper>
+      <Box display="flex" flexDirection={{ xs: 'column', md: 'row' }} gap={3} alignItems="flex-start">
+        <Box sx={{ width: { xs: '100%', md: 280 }, flexShrink: 0 }}>
+          <ScreenerSidebar />
+        </Box>
 
-      {/* View Controls */}
-      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
-        <ToggleButtonGroup value={viewMode} exclusive onChange={(_, v) => v && setViewMode(v)} size="small">
-          <ToggleButton value="cards"><ViewModule /></ToggleButton>
-          <ToggleButton value="table"><ViewList /></ToggleButton>
-        </ToggleButtonGroup>
-        <Button variant="outlined" startIcon={<Refresh />} onClick={() => dispatch(fetchSignals())} disabled={loading}>
-          Refresh
-        </Button>
-      </Box>
+        <Box sx={{ flexGrow: 1, minWidth: 0, width: '100%' }}>
+          <TextField
+            fullWidth
+            label="Search"
+            value={search}
+            onChange={e => dispatch(setSearchQuery(e.target.value))}
+            size="small"
+            sx={{ mb: 2 }}
+          />
+          <SignalFiltersPanel
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+            onReset={handleResetFilters}
+            availableSymbols={availableSymbols}
+            availableTags={availableTags}
+          />
 
-      {/* Loading/Error */}
-      {loading && <LinearProgress sx={{ mb: 2 }} />}
-      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          {/* View Controls */}
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+            <Box display="flex" alignItems="center" gap={1}>
+              <ToggleButtonGroup value={viewMode} exclusive onChange={(_, v) => v && setViewMode(v)} size="small">
+                <ToggleButton value="cards"><ViewModule /></ToggleButton>
+                <ToggleButton value="table"><ViewList /></ToggleButton>
+              </ToggleButtonGroup>
+              <FormControl size="small" sx={{ minWidth: 140 }}>
+                <InputLabel>Sort by</InputLabel>
+                <Select value={sortBy} label="Sort by" onChange={e => dispatch(setSortBy(e.target.value as typeof sortBy))}>
+                  <MenuItem value="createdAt">Time</MenuItem>
+                  <MenuItem value="confidence">Confidence</MenuItem>
+                  <MenuItem value="pnl">P&amp;L</MenuItem>
+                  <MenuItem value="symbol">Symbol</MenuItem>
+                </Select>
+              </FormControl>
+              <IconButton size="small" onClick={() => dispatch(setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc'))}>
+                {sortOrder === 'asc' ? <ArrowUpward fontSize="small" /> : <ArrowDownward fontSize="small" />}
+              </IconButton>
+            </Box>
+            <Button variant="outlined" startIcon={<Refresh />} onClick={() => dispatch(fetchSignals({ limit: PAGE_SIZE }))} disabled={loading}>
+              Refresh
+            </Button>
+          </Box>
 
-      {/* Signals Display */}
-      {filteredSignals.length === 0 && !loading ? (
-        <Box textAlign="center" py={4}>
-          <Typography variant="h6" color="text.secondary">No signals found</Typography>
-        </Box>
-      ) : viewMode === 'cards' ? (
-        <Box display="flex" flexWrap="wrap" gap={2}>
-          {filteredSignals.map((signal: TradingSignal) => (
-            <Box key={signal.id} sx={{ flexBasis: { xs: '100%', sm: '48%', md: '31%', lg: '23%' }, flexGrow: 1 }}>
-              <SignalCard
-                signal={signal}
-                onExecute={handleDialogOpen}
-                onFavorite={handleFavorite}
-                isFavorite={favoriteIds.includes(signal.id)}
-                showDetails={false}
-              />
+          {/* Loading/Error */}
+          {loading && <LinearProgress sx={{ mb: 2 }} />}
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+          {/* Signals Display */}
+          {filteredSignals.length === 0 && !loading ? (
+            <Box textAlign="center" py={4}>
+              <Typography variant="h6" color="text.secondary">No signals found</Typography>
             </Box>
-          ))}
-        </Box>
-      ) : (
-        <TableContainer component={Paper}>
-          <Table>
-            <TableHead>
-              <TableRow>
-                <TableCell>Symbol</TableCell>
-                <TableCell>Type</TableCell>
-                <TableCell>Confidence</TableCell>
-                <TableCell>Source</TableCell>
-                <TableCell>Market</TableCell>
-                <TableCell>Entry</TableCell>
-                <TableCell>Target</TableCell>
-                <TableCell>Stop</TableCell>
-                <TableCell>Time</TableCell>
-                <TableCell>Actions</TableCell>
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {filteredSignals.map((signal: TradingSignal) => (
-                <TableRow key={signal.id}>
-                  <TableCell>{signal.symbol}</TableCell>
-                  <TableCell>
-                    <Chip
-                      label={signal.type}
-                      size="small"
-                      color={signal.type === 'BUY' ? 'success' : 'error'}
-                      icon={signal.type === 'BUY' ? <TrendingUp /> : <TrendingDown />}
-                    />
-                  </TableCell>
-                  <TableCell>{signal.confidence}%</TableCell>
-                  <TableCell>
-                    <Chip
-                      label={signal.source.replace('_', ' ')}
-                      size="small"
-                      icon={signal.source === 'enterprise_ml' ? <AutoAwesome /> : undefined}
-                      color={signal.source === 'enterprise_ml' ? 'primary' : 'default'}
+          ) : viewMode === 'cards' ? (
+            <Box ref={virtualList.containerRef} sx={{ height: 'calc(100vh - 260px)', minHeight: 400, overflowY: 'auto', pr: 1 }}>
+              <Box sx={{ height: virtualList.paddingTop }} />
+              {cardRows.slice(virtualList.start, virtualList.end).map((row, offset) => (
+                <Box
+                  key={row[0].id}
+                  ref={virtualList.measureRow(virtualList.start + offset)}
+                  sx={{ display: 'grid', gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gap: 2, pb: 2 }}
+                >
+                  {row.map(signal => (
+                    <SignalCard
+                      key={signal.id}
+                      signal={signal}
+                      onExecute={handleDialogOpen}
+                      onFavorite={handleFavorite}
+                      onView={handleView}
+                      onAnnotate={setAnnotatingSignal}
+                      annotation={annotations[signal.id]}
+                      isFavorite={!!annotations[signal.id]?.starred}
+                      showDetails={false}
                     />
-                  </TableCell>
-                  <TableCell>{signal.market}</TableCell>
-                  <TableCell>${signal.entryPrice?.toFixed(2)}</TableCell>
-                  <TableCell>${signal.targetPrice?.toFixed(2)}</TableCell>
-                  <TableCell>${signal.stopLoss?.toFixed(2)}</TableCell>
-                  <TableCell>{new Date(signal.createdAt).toLocaleString()}</TableCell>
-                  <TableCell>
-                    <IconButton size="small" onClick={() => handleFavorite(signal.id)}>
-                      {favoriteIds.includes(signal.id) ? <Star color="warning" /> : <StarBorder />}
-                    </IconButton>
-                    <Button size="small" variant="contained" onClick={() => handleDialogOpen(signal)}>
-                      Execute
-                    </Button>
-                  </TableCell>
-                </TableRow>
+                  ))}
+                </Box>
               ))}
-            </TableBody>
-          </Table>
-        </TableContainer>
-      )}
+              <Box sx={{ height: virtualList.paddingBottom }} />
+              {listFooter}
+            </Box>
+          ) : (
+            <TableContainer
+              component={Paper}
+              ref={virtualList.containerRef}
+              sx={{ height: 'calc(100vh - 260px)', minHeight: 400 }}
+            >
+              <Table stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Symbol</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell>Confidence</TableCell>
+                    <TableCell>Source</TableCell>
+                    <TableCell>Market</TableCell>
+                    <TableCell>Entry</TableCell>
+                    <TableCell>Target</TableCell>
+                    <TableCell>Stop</TableCell>
+                    <TableCell>Time</TableCell>
+                    <TableCell>Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {virtualList.paddingTop > 0 && <TableRow sx={{ height: virtualList.paddingTop }} />}
+                  {filteredSignals.slice(virtualList.start, virtualList.end).map((signal: TradingSignal, offset: number) => (
+                    <TableRow key={signal.id} ref={virtualList.measureRow(virtualList.start + offset)}>
+                      <TableCell>
+                        <Link component="button" variant="body2" onClick={() => handleView(signal)}>
+                          {signal.symbol}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          label={signal.type}
+                          size="small"
+                          color={signal.type === 'BUY' ? 'success' : 'error'}
+                          icon={signal.type === 'BUY' ? <TrendingUp /> : <TrendingDown />}
+                        />
+                      </TableCell>
+                      <TableCell>{signal.confidence}%</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={signal.source.replace('_', ' ')}
+                          size="small"
+                          icon={signal.source === 'enterprise_ml' ? <AutoAwesome /> : undefined}
+                          color={signal.source === 'enterprise_ml' ? 'primary' : 'default'}
+                        />
+                      </TableCell>
+                      <TableCell>{signal.market}</TableCell>
+                      <TableCell>${signal.entryPrice?.toFixed(2)}</TableCell>
+                      <TableCell>${signal.targetPrice?.toFixed(2)}</TableCell>
+                      <TableCell>${signal.stopLoss?.toFixed(2)}</TableCell>
+                      <TableCell>{new Date(signal.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <IconButton size="small" onClick={() => handleFavorite(signal.id)}>
+                          {annotations[signal.id]?.starred ? <Star color="warning" /> : <StarBorder />}
+                        </IconButton>
+                        <IconButton size="small" onClick={() => setAnnotatingSignal(signal)}>
+                          <EditNote color={annotations[signal.id]?.note ? 'primary' : 'inherit'} />
+                        </IconButton>
+                        <Button size="small" variant="contained" onClick={() => handleDialogOpen(signal)}>
+                          Execute
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {virtualList.paddingBottom > 0 && <TableRow sx={{ height: virtualList.paddingBottom }} />}
+                </TableBody>
+              </Table>
+              {listFooter}
+            </TableContainer>
+          )}
+        </Box>
+      </Box>
+
+      <SignalAnnotationDialog
+        signal={annotatingSignal}
+        open={!!annotatingSignal}
+        onClose={() => setAnnotatingSignal(null)}
+      />
+
+      <SignalComposerDialog
+        open={composerOpen}
+        onClose={() => setComposerOpen(false)}
+        onPublished={(signal) => navigate(`/signals/${signal.id}`)}
+      />
 
       {/* Signal Dialog */}
       <Dialog open={dialogOpen} onClose={handleDialogClose} maxWidth="sm" fullWidth>
@@ -279,11 +383,29 @@ const SignalsPage: React.FC = () => {
                   <b>Reasoning:</b> {selectedSignal.reasoning}
                 </Typography>
               )}
+              <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+                Pending Order (expires with the signal, bracketed by its target and stop)
+              </Typography>
+              <Stack direction="row" spacing={2}>
+                <FormControl size="small" sx={{ minWidth: 140 }}>
+                  <InputLabel>Order Type</InputLabel>
+                  <Select value={orderType} onChange={e => setOrderType(e.target.value as PendingOrderType)} label="Order Type">
+                    <MenuItem value="limit">Limit</MenuItem>
+                    <MenuItem value="stop">Stop Entry</MenuItem>
+                  </Select>
+                </FormControl>
+                <TextField size="small" label="Price" type="number" value={orderPrice} onChange={e => setOrderPrice(e.target.value)} />
+                <TextField size="small" label="Quantity" type="number" value={orderQuantity} onChange={e => setOrderQuantity(e.target.value)} />
+              </Stack>
+              {orderError && <Alert severity="error" sx={{ mt: 2 }}>{orderError}</Alert>}
             </Box>
           )}
         </DialogContent>
         <DialogActions>
           <Button onClick={handleDialogClose}>Cancel</Button>
+          <Button variant="outlined" onClick={handlePlaceOrder} disabled={selectedSignal?.type === 'HOLD'}>
+            Place Order
+          </Button>
           <Button variant="contained" disabled>
             Open Demo Position
           </Button>
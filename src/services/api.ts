@@ -1,6 +1,8 @@
 // API service layer
 import axios from 'axios';
 import { API_CONFIG } from '../config/api';
+import { getRateLimiter } from '../utils/rateLimiter';
+import { ingestSignal, ingestSignals } from './signalIngestion';
 import { TradingSignal, MarketData, Portfolio, User, Position, Trade } from '../types';
 
 // Create axios instance with default config
@@ -65,19 +67,25 @@ export const authAPI = {
 
 // Other API methods remain unchanged...
 export const signalsAPI = {
+  // First page only; the list endpoint returns { signals, nextCursor, hasMore }
   getSignals: async (): Promise<TradingSignal[]> => {
     const response = await apiClient.get(API_CONFIG.ENDPOINTS.SIGNALS);
-    return response.data;
+    const data = response.data;
+    return ingestSignals(Array.isArray(data) ? data : data?.signals, 'rest');
   },
   
   getSignalById: async (id: string): Promise<TradingSignal> => {
     const response = await apiClient.get(`${API_CONFIG.ENDPOINTS.SIGNALS}/${id}`);
-    return response.data;
+    const signal = ingestSignal(response.data, 'rest');
+    if (!signal) {
+      throw new Error(`Signal ${id} failed validation`);
+    }
+    return signal;
   },
   
   getSignalsBySymbol: async (symbol: string): Promise<TradingSignal[]> => {
     const response = await apiClient.get(`${API_CONFIG.ENDPOINTS.SIGNALS}/symbol/${symbol}`);
-    return response.data;
+    return ingestSignals(response.data, 'rest');
   },
 };
 
@@ -158,6 +166,7 @@ export const externalAPI = {
   // Alpha Vantage for forex and stock data
   getForexData: async (fromSymbol: string, toSymbol: string) => {
     try {
+      await getRateLimiter('ALPHA_VANTAGE').acquire();
       const response = await axios.get(API_CONFIG.EXTERNAL_APIS.ALPHA_VANTAGE, {
         params: {
           function: 'FX_INTRADAY',
@@ -177,6 +186,7 @@ export const externalAPI = {
   // CoinGecko for crypto data
   getCryptoData: async (ids: string[]) => {
     try {
+      await getRateLimiter('COINGECKO').acquire();
       const response = await axios.get(`${API_CONFIG.EXTERNAL_APIS.COINGECKO}/simple/price`, {
         params: {
           ids: ids.join(','),
@@ -195,6 +205,7 @@ export const externalAPI = {
   // News API for market news
   getFinancialNews: async (query: string = 'trading forex stocks') => {
     try {
+      await getRateLimiter('NEWS_API').acquire();
       const response = await axios.get(`${API_CONFIG.EXTERNAL_APIS.NEWS_API}/everything`, {
         params: {
           q: query,
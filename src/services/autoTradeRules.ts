@@ -0,0 +1,523 @@
+import { ExitPlan, TradingSignal } from '../types';
+import type { ChartData } from '../store/slices/marketSlice';
+import type { AutoTradeCriteria, PositionSizingMode } from './autoTradeService';
+import { countSourceAgreement } from '../utils/signalConsensus';
+import { calculateIndicatorSnapshot, INDICATOR_LABELS } from '../utils/indicators';
+
+// Minimal view of an open position for exposure and correlation checks
+export interface ExposurePosition {
+  symbol: string;
+  market: string;
+  type: 'BUY' | 'SELL';
+  quantity: number;
+  entryPrice: number;
+  currentPrice?: number;
+}
+
+// Snapshot of account state the rules are evaluated against. The live service
+// builds it from the store; the backtester builds it from its simulated account.
+export interface AutoTradeContext {
+  timestamp: Date;
+  balance: number;
+  positions: ExposurePosition[];
+  tradesToday: number;
+  dailyPnL: number;
+  chartData?: Record<string, ChartData[]>;
+  signals?: TradingSignal[]; // Other signals, for the source consensus check
+}
+
+export type AutoTradeRejectionCode =
+  | 'outside_trading_hours'
+  | 'daily_loss_limit'
+  | 'low_confidence'
+  | 'risk_too_high'
+  | 'market_not_allowed'
+  | 'symbol_not_allowed'
+  | 'max_positions'
+  | 'max_daily_trades'
+  | 'max_symbol_positions'
+  | 'market_exposure'
+  | 'currency_exposure'
+  | 'correlation'
+  | 'no_consensus'
+  | 'indicator_filter'
+  | 'zero_size';
+
+// Display names for the rule behind each code
+export const AUTO_TRADE_RULE_LABELS: Record<AutoTradeRejectionCode, string> = {
+  outside_trading_hours: 'Trading hours',
+  daily_loss_limit: 'Daily loss limit',
+  low_confidence: 'Confidence',
+  risk_too_high: 'Risk level',
+  market_not_allowed: 'Allowed markets',
+  symbol_not_allowed: 'Allowed symbols',
+  max_positions: 'Max positions',
+  max_daily_trades: 'Daily trade limit',
+  max_symbol_positions: 'Per-symbol limit',
+  market_exposure: 'Market exposure',
+  currency_exposure: 'Currency exposure',
+  correlation: 'Correlation',
+  no_consensus: 'Source consensus',
+  indicator_filter: 'Indicator filters',
+  zero_size: 'Position size',
+};
+
+export interface AutoTradeRejection {
+  code: AutoTradeRejectionCode;
+  message: string;
+}
+
+const RISK_LEVELS = { low: 1, medium: 2, high: 3 };
+
+export const isWithinTradingHours = (criteria: AutoTradeCriteria, at: Date): boolean => {
+  const currentTime = at.toLocaleTimeString('en-US', {
+    hour12: false,
+    timeZone: criteria.tradingHours.timezone
+  });
+
+  // Check if within trading hours
+  if (currentTime < criteria.tradingHours.start ||
+      currentTime > criteria.tradingHours.end) {
+    return false;
+  }
+
+  // Check if weekend trading is allowed
+  if (criteria.excludeWeekends && (at.getDay() === 0 || at.getDay() === 6)) {
+    return false;
+  }
+
+  return true;
+};
+
+export const isDailyLossLimitReached = (
+  criteria: AutoTradeCriteria,
+  dailyPnL: number,
+  balance: number
+): boolean => {
+  if (dailyPnL >= 0 || balance <= 0) return false;
+  return (Math.abs(dailyPnL) / balance) * 100 >= criteria.maxDrawdown;
+};
+
+// Outcome of one rule for a signal; `code` is the rejection the rule raises
+export interface CriterionCheck extends AutoTradeRejection {
+  passed: boolean;
+}
+
+const check = (code: AutoTradeRejectionCode, passed: boolean, message: string): CriterionCheck => ({
+  code,
+  passed,
+  message,
+});
+
+export const firstFailure = (checks: CriterionCheck[]): AutoTradeRejection | null => {
+  const failed = checks.find(c => !c.passed);
+  return failed ? { code: failed.code, message: failed.message } : null;
+};
+
+// Evaluates every basic criterion, so the journal can show what passed as well as what failed
+export const checkCriteria = (
+  signal: TradingSignal,
+  criteria: AutoTradeCriteria,
+  context: AutoTradeContext
+): CriterionCheck[] => {
+  const signalRiskLevel = RISK_LEVELS[signal.risk] || 1;
+  const maxRiskLevel = RISK_LEVELS[criteria.maxRisk];
+  const symbolPositions = context.positions.filter(p => p.symbol === signal.symbol).length;
+  const symbolAllowed = criteria.allowedSymbols.length === 0 || criteria.allowedSymbols.includes(signal.symbol);
+
+  return [
+    check('low_confidence', signal.confidence >= criteria.minConfidence,
+      `Confidence ${signal.confidence}% vs min ${criteria.minConfidence}%`),
+    check('risk_too_high', signalRiskLevel <= maxRiskLevel,
+      `${signal.risk} risk vs max ${criteria.maxRisk}`),
+    check('market_not_allowed', criteria.allowedMarkets.includes(signal.market),
+      `${signal.market} ${criteria.allowedMarkets.includes(signal.market) ? 'is' : 'is not'} an allowed market`),
+    check('symbol_not_allowed', symbolAllowed,
+      `${signal.symbol} ${symbolAllowed ? 'is' : 'is not'} an allowed symbol`),
+    check('max_positions', context.positions.length < criteria.maxPositions,
+      `${context.positions.length} of ${criteria.maxPositions} positions open`),
+    check('max_symbol_positions', !(criteria.maxPositionsPerSymbol > 0) || symbolPositions < criteria.maxPositionsPerSymbol,
+      `${symbolPositions} ${signal.symbol} position(s) open${criteria.maxPositionsPerSymbol > 0 ? ` (max ${criteria.maxPositionsPerSymbol})` : ''}`),
+    check('max_daily_trades', context.tradesToday < criteria.maxDailyTrades,
+      `${context.tradesToday} of ${criteria.maxDailyTrades} trades today`),
+    checkIndicatorFilters(signal, criteria, context),
+  ];
+};
+
+// Applies the filters for the signal's direction to the indicators as of the
+// last candle at evaluation time. Without candles the filters can't be
+// confirmed, so the signal is skipped.
+export const checkIndicatorFilters = (
+  signal: TradingSignal,
+  criteria: AutoTradeCriteria,
+  context: AutoTradeContext
+): CriterionCheck => {
+  const filters = (criteria.indicatorFilters || []).filter(filter => filter.side === 'ANY' || filter.side === signal.type);
+  if (filters.length === 0) {
+    return check('indicator_filter', true, 'No indicator filters');
+  }
+
+  const at = context.timestamp.getTime();
+  const candles = (context.chartData?.[signal.symbol] || [])
+    .filter(candle => candle.timestamp <= at)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (candles.length === 0) {
+    return check('indicator_filter', false, `No candles for ${signal.symbol} to evaluate indicator filters`);
+  }
+
+  const snapshot = calculateIndicatorSnapshot(candles);
+  const results = filters.map(filter => {
+    const value = snapshot[filter.indicator];
+    const passed = value !== null && (filter.operator === 'below' ? value < filter.value : value > filter.value);
+    return {
+      passed,
+      message: `${INDICATOR_LABELS[filter.indicator]} ${value === null ? 'n/a' : value.toFixed(2)} (${filter.operator} ${filter.value})`,
+    };
+  });
+  const failed = results.find(result => !result.passed);
+  return check('indicator_filter', !failed, failed ? failed.message : results.map(result => result.message).join(', '));
+};
+
+// Returns why the signal fails the basic criteria, or null when it passes
+export const getCriteriaRejection = (
+  signal: TradingSignal,
+  criteria: AutoTradeCriteria,
+  context: AutoTradeContext
+): AutoTradeRejection | null => firstFailure(checkCriteria(signal, criteria, context));
+
+const positionValue = (position: ExposurePosition) =>
+  position.quantity * (position.currentPrice || position.entryPrice);
+
+// Splits a forex position into signed per-currency exposures, valued in the
+// quote currency (USD for the majors). USD-based pairs are valued in USD directly.
+const currencyExposures = (position: ExposurePosition): [string, number][] => {
+  if (position.market !== 'forex' || position.symbol.length < 6) return [];
+  const base = position.symbol.slice(0, 3);
+  const quote = position.symbol.slice(3, 6);
+  const direction = position.type === 'BUY' ? 1 : -1;
+  const value = base === 'USD' ? position.quantity : positionValue(position);
+  return [[base, direction * value], [quote, -direction * value]];
+};
+
+// Checks market and currency caps as if the proposed trade were already open
+export const checkExposure = (
+  signal: TradingSignal,
+  quantity: number,
+  criteria: AutoTradeCriteria,
+  context: AutoTradeContext
+): CriterionCheck[] => {
+  const proposed: ExposurePosition = {
+    symbol: signal.symbol,
+    market: signal.market,
+    type: signal.type === 'SELL' ? 'SELL' : 'BUY',
+    quantity,
+    entryPrice: signal.entryPrice,
+  };
+  const equity = context.balance > 0 ? context.balance : Infinity;
+  const checks: CriterionCheck[] = [];
+
+  const marketCap = criteria.maxMarketExposure[signal.market];
+  if (marketCap > 0) {
+    const marketValue = [...context.positions, proposed]
+      .filter(p => p.market === signal.market)
+      .reduce((sum, p) => sum + positionValue(p), 0);
+    const marketPercent = (marketValue / equity) * 100;
+    checks.push(check('market_exposure', marketPercent <= marketCap,
+      `${signal.market} exposure would be ${marketPercent.toFixed(1)}% of equity (max ${marketCap}%)`));
+  } else {
+    checks.push(check('market_exposure', true, `No ${signal.market} exposure cap`));
+  }
+
+  const proposedExposures = currencyExposures(proposed);
+  if (criteria.maxCurrencyExposure > 0 && proposedExposures.length > 0) {
+    const netBefore: Record<string, number> = {};
+    context.positions.forEach(p => currencyExposures(p).forEach(([currency, value]) => {
+      netBefore[currency] = (netBefore[currency] || 0) + value;
+    }));
+
+    proposedExposures.forEach(([currency, value]) => {
+      const before = netBefore[currency] || 0;
+      const after = before + value;
+      const afterPercent = (Math.abs(after) / equity) * 100;
+      // Trades that reduce an existing imbalance are always allowed
+      const passed = afterPercent <= criteria.maxCurrencyExposure || Math.abs(after) <= Math.abs(before);
+      checks.push(check('currency_exposure', passed,
+        `Net ${currency} exposure would be ${afterPercent.toFixed(1)}% of equity (max ${criteria.maxCurrencyExposure}%)`));
+    });
+  }
+
+  return checks;
+};
+
+export const getExposureRejection = (
+  signal: TradingSignal,
+  quantity: number,
+  criteria: AutoTradeCriteria,
+  context: AutoTradeContext
+): AutoTradeRejection | null => firstFailure(checkExposure(signal, quantity, criteria, context));
+
+// Close-to-close returns keyed by candle timestamp, up to `until`
+const returnsByTimestamp = (candles: ChartData[], lookback: number, until: number) => {
+  const history = candles.filter(candle => candle.timestamp <= until).slice(-(lookback + 1));
+  const returns = new Map<number, number>();
+  for (let i = 1; i < history.length; i++) {
+    if (history[i - 1].close > 0) {
+      returns.set(history[i].timestamp, history[i].close / history[i - 1].close - 1);
+    }
+  }
+  return returns;
+};
+
+const MIN_CORRELATION_SAMPLES = 10;
+
+// Pearson correlation of returns on timestamps both series share
+export const calculateReturnsCorrelation = (
+  a: ChartData[],
+  b: ChartData[],
+  lookback: number,
+  until: number = Infinity
+): number | undefined => {
+  const returnsA = returnsByTimestamp(a, lookback, until);
+  const returnsB = returnsByTimestamp(b, lookback, until);
+  const pairs: [number, number][] = [];
+  returnsA.forEach((value, timestamp) => {
+    const other = returnsB.get(timestamp);
+    if (other !== undefined) pairs.push([value, other]);
+  });
+  if (pairs.length < MIN_CORRELATION_SAMPLES) return undefined;
+
+  const meanA = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanB = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  pairs.forEach(([x, y]) => {
+    covariance += (x - meanA) * (y - meanB);
+    varianceA += (x - meanA) ** 2;
+    varianceB += (y - meanB) ** 2;
+  });
+  if (varianceA === 0 || varianceB === 0) return undefined;
+  return covariance / Math.sqrt(varianceA * varianceB);
+};
+
+// Fails a trade that is effectively the same bet as an open position: long
+// two positively correlated symbols, or long one and short a negatively
+// correlated one. Symbols without enough shared history are not compared.
+export const checkCorrelation = (
+  signal: TradingSignal,
+  criteria: AutoTradeCriteria,
+  context: AutoTradeContext
+): CriterionCheck => {
+  const chartData = context.chartData;
+  if (!(criteria.maxCorrelation > 0)) {
+    return check('correlation', true, 'Correlation guard disabled');
+  }
+  if (!chartData?.[signal.symbol]) {
+    return check('correlation', true, `No price history for ${signal.symbol}`);
+  }
+
+  const direction = signal.type === 'SELL' ? -1 : 1;
+  const until = context.timestamp.getTime();
+  let highest: { symbol: string; value: number } | null = null;
+
+  for (const position of context.positions) {
+    if (position.symbol === signal.symbol || !chartData[position.symbol]) continue;
+    const correlation = calculateReturnsCorrelation(
+      chartData[signal.symbol],
+      chartData[position.symbol],
+      criteria.correlationLookback,
+      until
+    );
+    if (correlation === undefined) continue;
+
+    const positionDirection = position.type === 'SELL' ? -1 : 1;
+    if (correlation * direction * positionDirection > criteria.maxCorrelation) {
+      return check('correlation', false,
+        `${signal.symbol} ${signal.type} is ${correlation.toFixed(2)} correlated with open ${position.symbol} ${position.type}`);
+    }
+    if (!highest || Math.abs(correlation) > Math.abs(highest.value)) {
+      highest = { symbol: position.symbol, value: correlation };
+    }
+  }
+
+  return check('correlation', true, highest
+    ? `Highest correlation ${highest.value.toFixed(2)} with ${highest.symbol} (max ${criteria.maxCorrelation})`
+    : 'No comparable open positions');
+};
+
+export const getCorrelationRejection = (
+  signal: TradingSignal,
+  criteria: AutoTradeCriteria,
+  context: AutoTradeContext
+): AutoTradeRejection | null => firstFailure([checkCorrelation(signal, criteria, context)]);
+
+// Requires enough distinct sources to call the same direction for the
+// signal's symbol and timeframe, and more of them to agree than disagree
+export const checkConsensus = (
+  signal: TradingSignal,
+  criteria: AutoTradeCriteria,
+  context: AutoTradeContext
+): CriterionCheck => {
+  if (!(criteria.minConsensusSources > 1)) {
+    return check('no_consensus', true, 'Source consensus not required');
+  }
+  if (!context.signals) {
+    return check('no_consensus', true, 'No other signals to compare');
+  }
+
+  const { agreeing, opposing } = countSourceAgreement(signal, context.signals, context.timestamp.getTime());
+  return check('no_consensus', agreeing >= criteria.minConsensusSources && agreeing > opposing,
+    `${agreeing} source(s) agree and ${opposing} disagree on ${signal.symbol} ${signal.type} (need ${criteria.minConsensusSources})`);
+};
+
+// Falls back to the criteria's default stop/target distances when a signal
+// arrives without its own levels.
+export const resolveExitLevels = (signal: TradingSignal, criteria: AutoTradeCriteria) => {
+  const direction = signal.type === 'SELL' ? -1 : 1;
+  const stopLoss = signal.stopLoss > 0
+    ? signal.stopLoss
+    : signal.entryPrice * (1 - direction * criteria.stopLossPercentage / 100);
+  const targetPrice = signal.targetPrice > 0
+    ? signal.targetPrice
+    : signal.entryPrice * (1 + direction * criteria.takeProfitPercentage / 100);
+
+  return { stopLoss, targetPrice };
+};
+
+/**
+ * Exit plan for an auto-traded position from the trailing, breakeven and
+ * scale-out criteria. Returns undefined when none of them are enabled.
+ */
+export const buildExitPlan = (
+  signal: TradingSignal,
+  criteria: AutoTradeCriteria,
+  atr?: number
+): ExitPlan | undefined => {
+  const plan: ExitPlan = {};
+
+  if (criteria.trailingStopMode === 'percent' && criteria.trailingStopValue > 0) {
+    plan.trailing = { mode: 'percent', value: criteria.trailingStopValue };
+  } else if (criteria.trailingStopMode === 'atr' && criteria.trailingStopValue > 0 && atr && atr > 0) {
+    plan.trailing = { mode: 'atr', value: criteria.trailingStopValue, atr };
+  }
+
+  if (criteria.breakevenTriggerPercent > 0) {
+    plan.breakevenTriggerPercent = criteria.breakevenTriggerPercent;
+  }
+
+  if (criteria.scaleOutPercent > 0 && criteria.scaleOutPercent < 100 &&
+      criteria.scaleOutAt > 0 && criteria.scaleOutAt < 1) {
+    const { targetPrice } = resolveExitLevels(signal, criteria);
+    plan.takeProfitLevels = [
+      {
+        price: signal.entryPrice + (targetPrice - signal.entryPrice) * criteria.scaleOutAt,
+        closePercent: criteria.scaleOutPercent,
+      },
+      { price: targetPrice, closePercent: 100 - criteria.scaleOutPercent },
+    ];
+  }
+
+  return Object.keys(plan).length > 0 ? plan : undefined;
+};
+
+// Market data and history the sizing modes draw on. Anything missing makes the
+// mode fall back to a simpler one.
+export interface SizingInputs {
+  balance: number;
+  atr?: number;
+  winRate?: number; // Historical win rate in percent
+  sampleSize?: number; // Resolved signals behind winRate
+}
+
+export interface PositionSizeResult {
+  quantity: number;
+  mode: PositionSizingMode; // Mode actually applied after fallbacks
+  positionValue: number;
+  riskAmount: number; // Loss if the stop is hit
+  note?: string;
+}
+
+// Fewer resolved signals than this and the win rate is too noisy for Kelly
+export const MIN_KELLY_SAMPLES = 10;
+
+export const calculatePositionSize = (
+  signal: TradingSignal,
+  criteria: AutoTradeCriteria,
+  inputs: SizingInputs
+): PositionSizeResult => {
+  const { balance } = inputs;
+  const entryPrice = signal.entryPrice;
+  if (!entryPrice || entryPrice <= 0 || balance <= 0) {
+    return { quantity: 0, mode: criteria.sizingMode, positionValue: 0, riskAmount: 0, note: 'No entry price or balance' };
+  }
+
+  const { stopLoss, targetPrice } = resolveExitLevels(signal, criteria);
+  const stopDistance = Math.abs(entryPrice - stopLoss);
+  const maxPositionValue = (balance * criteria.positionSize) / 100;
+  const riskBudget = (balance * criteria.riskPerTrade) / 100;
+
+  const result = (mode: PositionSizingMode, quantity: number, note?: string): PositionSizeResult => ({
+    quantity,
+    mode,
+    positionValue: quantity * entryPrice,
+    riskAmount: quantity * stopDistance,
+    note,
+  });
+
+  const fixedPercent = (note?: string) => result('fixed_percent', maxPositionValue / entryPrice, note);
+
+  // Risk-based modes never exceed the fixed position size, so a very tight
+  // stop can't blow up the notional.
+  const riskBased = (mode: PositionSizingMode, riskAmount: number, distance: number, note?: string) => {
+    if (distance <= 0) return fixedPercent('No stop distance, sized as fixed percent');
+    const quantity = riskAmount / distance;
+    if (quantity * entryPrice > maxPositionValue) {
+      return result(mode, maxPositionValue / entryPrice, note || 'Capped at max position size');
+    }
+    return result(mode, quantity, note);
+  };
+
+  switch (criteria.sizingMode) {
+    case 'fixed_fractional':
+      return riskBased('fixed_fractional', riskBudget, stopDistance);
+
+    case 'atr':
+      if (!inputs.atr) {
+        return riskBased('fixed_fractional', riskBudget, stopDistance, 'ATR unavailable, sized from stop distance');
+      }
+      // The position keeps the signal's stop, so a stop wider than the ATR
+      // distance is what bounds the loss
+      return stopDistance > inputs.atr * criteria.atrMultiplier
+        ? riskBased('atr', riskBudget, stopDistance, 'Stop wider than the ATR distance, sized from the stop')
+        : riskBased('atr', riskBudget, inputs.atr * criteria.atrMultiplier);
+
+    case 'kelly': {
+      if (inputs.winRate === undefined || (inputs.sampleSize || 0) < MIN_KELLY_SAMPLES) {
+        return riskBased('fixed_fractional', riskBudget, stopDistance, 'Not enough history for Kelly, sized from stop distance');
+      }
+      const reward = Math.abs(targetPrice - entryPrice);
+      if (stopDistance <= 0 || reward <= 0) {
+        return fixedPercent('No reward/risk ratio, sized as fixed percent');
+      }
+      const winProbability = inputs.winRate / 100;
+      const kelly = winProbability - (1 - winProbability) / (reward / stopDistance);
+      if (kelly <= 0) {
+        return result('kelly', 0, 'No edge at this win rate and reward/risk');
+      }
+      return riskBased('kelly', balance * kelly * criteria.kellyFraction, stopDistance,
+        `Kelly ${(kelly * 100).toFixed(1)}% × ${criteria.kellyFraction}`);
+    }
+
+    case 'ml': {
+      // Models send a fraction of equity (0.1 = 10%); larger values are percentages
+      const size = signal.positionSize;
+      if (!size || size <= 0) return fixedPercent('Signal has no ML position size');
+      const fraction = Math.min(size <= 1 ? size : size / 100, 1);
+      return result('ml', (balance * fraction) / entryPrice);
+    }
+
+    case 'fixed_percent':
+    default:
+      return fixedPercent();
+  }
+};
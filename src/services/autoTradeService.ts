@@ -1,17 +1,60 @@
+import { nanoid } from '@reduxjs/toolkit';
 import { TradingSignal } from '../types';
 import { store } from '../store';
-import { openDemoPosition } from '../store/slices/portfolioSlice';
+import { fetchDemoAccounts, openDemoPosition } from '../store/slices/portfolioSlice';
 import { add } from '../store/slices/notificationsSlice';
+import { selectSignalPerformanceByMarket, selectSignalPerformanceBySymbol } from '../store/slices/signalSlice';
+import type { ChartData } from '../store/slices/marketSlice';
+import { calculateATR, IndicatorKey } from '../utils/indicators';
+import {
+  AutoTradeContext,
+  AutoTradeRejection,
+  AutoTradeRejectionCode,
+  CriterionCheck,
+  ExposurePosition,
+  MIN_KELLY_SAMPLES,
+  PositionSizeResult,
+  SizingInputs,
+  calculatePositionSize,
+  checkConsensus,
+  checkCorrelation,
+  checkCriteria,
+  checkExposure,
+  firstFailure,
+  isDailyLossLimitReached,
+  isWithinTradingHours,
+  buildExitPlan,
+  resolveExitLevels,
+} from './autoTradeRules';
+
+export type PositionSizingMode = 'fixed_percent' | 'fixed_fractional' | 'atr' | 'kelly' | 'ml';
+
+export type TrailingStopMode = 'off' | 'percent' | 'atr';
+
+// Only take signals on the given side while an indicator is above or below
+// a value, e.g. BUY only while RSI 14 is below 70
+export interface IndicatorFilter {
+  side: 'BUY' | 'SELL' | 'ANY';
+  indicator: IndicatorKey;
+  operator: 'above' | 'below';
+  value: number;
+}
 
 export interface AutoTradeCriteria {
   enabled: boolean;
+  accountId: string; // Demo account to trade in, '' = the account being viewed
   minConfidence: number;
   maxRisk: 'low' | 'medium' | 'high';
   maxPositions: number;
   maxDailyTrades: number;
   allowedMarkets: string[];
   allowedSymbols: string[];
-  positionSize: number; // Percentage of balance
+  positionSize: number; // Percentage of balance, also the cap for risk-based modes
+  sizingMode: PositionSizingMode;
+  riskPerTrade: number; // Percentage of balance lost if the stop is hit
+  atrPeriod: number;
+  atrMultiplier: number; // Stop distance in ATRs for volatility sizing
+  kellyFraction: number; // Share of the full Kelly stake, e.g. 0.5 for half-Kelly
   stopLossPercentage: number;
   takeProfitPercentage: number;
   tradingHours: {
@@ -21,6 +64,18 @@ export interface AutoTradeCriteria {
   };
   excludeWeekends: boolean;
   maxDrawdown: number; // Maximum daily loss percentage
+  maxMarketExposure: Record<string, number>; // Percentage of equity per market, 0 = no cap
+  maxCurrencyExposure: number; // Net exposure per currency across forex pairs, % of equity
+  maxPositionsPerSymbol: number;
+  maxCorrelation: number; // Reject same-direction bets correlated above this, 0 = off
+  correlationLookback: number; // Candles of returns used for correlation
+  minConsensusSources: number; // Distinct sources that must call the same direction, 0 = off
+  indicatorFilters: IndicatorFilter[];
+  trailingStopMode: TrailingStopMode;
+  trailingStopValue: number; // Percent of price, or ATR multiple
+  breakevenTriggerPercent: number; // Favorable move that pulls the stop to entry, 0 = off
+  scaleOutPercent: number; // Share of the position closed at TP1, 0 = single target
+  scaleOutAt: number; // TP1 as a fraction of the distance from entry to target
 }
 
 export interface AutoTradeStats {
@@ -32,8 +87,58 @@ export interface AutoTradeStats {
   tradesToday: number;
   currentDrawdown: number;
   lastTradeTime: string | null;
+  skippedSignals: number;
+  rejectionsByReason: Partial<Record<AutoTradeRejectionCode, number>>;
+}
+
+export type AutoTradeAction = 'opened' | 'skipped' | 'failed';
+
+// One journal entry per signal evaluated while auto-trade is running
+export interface AutoTradeDecision {
+  id: string;
+  signalId: string;
+  symbol: string;
+  type: TradingSignal['type'];
+  market: string;
+  confidence: number;
+  timestamp: string;
+  checks: CriterionCheck[];
+  action: AutoTradeAction;
+  reason?: AutoTradeRejection; // First failed check of a skipped signal
+  error?: string;
+  quantity?: number;
+  sizingMode?: PositionSizingMode;
+  positionId?: string;
+  replay?: boolean; // Made during a feed replay; kept in memory only
 }
 
+export interface AutoTradeDecisionQuery {
+  action?: AutoTradeAction;
+  symbol?: string;
+  reason?: AutoTradeRejectionCode;
+  from?: Date;
+  to?: Date;
+}
+
+const MAX_STORED_DECISIONS = 1000;
+// Decisions arrive in bursts, e.g. during a replay; the journal is written once they settle
+const SAVE_DELAY_MS = 1000;
+
+export const filterDecisions = (
+  decisions: AutoTradeDecision[],
+  query: AutoTradeDecisionQuery = {}
+): AutoTradeDecision[] => {
+  const symbol = query.symbol?.trim().toUpperCase();
+  return decisions.filter(decision => {
+    const time = new Date(decision.timestamp).getTime();
+    return (!query.action || decision.action === query.action) &&
+      (!symbol || decision.symbol.includes(symbol)) &&
+      (!query.reason || decision.reason?.code === query.reason) &&
+      (!query.from || time >= query.from.getTime()) &&
+      (!query.to || time <= query.to.getTime());
+  });
+};
+
 class AutoTradeService {
   private criteria: AutoTradeCriteria;
   private stats: AutoTradeStats;
@@ -41,12 +146,23 @@ class AutoTradeService {
   private dailyTrades: number = 0;
   private dailyPnL: number = 0;
   private lastResetDate: string;
+  private decisions: AutoTradeDecision[] = [];
+  private listeners = new Set<() => void>();
+  // Throwaway account a feed replay trades in; never persisted
+  private replayAccountId: string | null = null;
+  // Live counters set aside while a replay trades, restored when it ends
+  private liveCounters: { stats: AutoTradeStats; dailyTrades: number; dailyPnL: number } | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     this.criteria = this.getDefaultCriteria();
     this.stats = this.getDefaultStats();
     this.lastResetDate = new Date().toDateString();
     this.loadSettings();
+    // Don't lose a pending journal write when the page goes away
+    window.addEventListener('pagehide', () => {
+      if (this.saveTimer) this.saveSettings();
+    });
   }
 
   public isEnabled(): boolean {
@@ -57,6 +173,7 @@ class AutoTradeService {
   private getDefaultCriteria(): AutoTradeCriteria {
     return {
       enabled: false,
+      accountId: '',
       minConfidence: 75,
       maxRisk: 'medium',
       maxPositions: 5,
@@ -64,6 +181,11 @@ class AutoTradeService {
       allowedMarkets: ['crypto', 'forex', 'stocks'],
       allowedSymbols: [],
       positionSize: 5, // 5% of balance
+      sizingMode: 'fixed_percent',
+      riskPerTrade: 1,
+      atrPeriod: 14,
+      atrMultiplier: 2,
+      kellyFraction: 0.5,
       stopLossPercentage: 5,
       takeProfitPercentage: 10,
       tradingHours: {
@@ -73,6 +195,18 @@ class AutoTradeService {
       },
       excludeWeekends: true,
       maxDrawdown: 10, // 10% max daily loss
+      maxMarketExposure: { crypto: 40, forex: 100, stocks: 60, commodities: 30 },
+      maxCurrencyExposure: 50,
+      maxPositionsPerSymbol: 1,
+      maxCorrelation: 0.8,
+      correlationLookback: 100,
+      minConsensusSources: 0,
+      indicatorFilters: [],
+      trailingStopMode: 'off',
+      trailingStopValue: 2,
+      breakevenTriggerPercent: 0,
+      scaleOutPercent: 0,
+      scaleOutAt: 0.5,
     };
   }
 
@@ -86,6 +220,8 @@ class AutoTradeService {
       tradesToday: 0,
       currentDrawdown: 0,
       lastTradeTime: null,
+      skippedSignals: 0,
+      rejectionsByReason: {},
     };
   }
 
@@ -100,23 +236,41 @@ class AutoTradeService {
       if (savedStats) {
         this.stats = { ...this.stats, ...JSON.parse(savedStats) };
       }
+
+      const savedDecisions = localStorage.getItem('autoTradeDecisions');
+      if (savedDecisions) {
+        this.decisions = JSON.parse(savedDecisions);
+      }
     } catch (error) {
       console.error('Failed to load auto-trade settings:', error);
     }
   }
 
+  // During a replay the stats are the replay's own, so only criteria are saved
   private saveSettings() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
     try {
       localStorage.setItem('autoTradeCriteria', JSON.stringify(this.criteria));
+      if (this.replayAccountId) return;
       localStorage.setItem('autoTradeStats', JSON.stringify(this.stats));
+      localStorage.setItem('autoTradeDecisions', JSON.stringify(this.decisions.filter(decision => !decision.replay)));
     } catch (error) {
       console.error('Failed to save auto-trade settings:', error);
     }
   }
 
+  private scheduleSave() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => this.saveSettings(), SAVE_DELAY_MS);
+  }
+
   public updateCriteria(newCriteria: Partial<AutoTradeCriteria>) {
     this.criteria = { ...this.criteria, ...newCriteria };
     this.saveSettings();
+    this.notifyListeners();
     
     // Notify user of changes
     store.dispatch(add({
@@ -134,6 +288,64 @@ class AutoTradeService {
     return { ...this.stats };
   }
 
+  // Most recent first. The array is replaced on change, so it can back useSyncExternalStore.
+  public getDecisions = (): AutoTradeDecision[] => this.decisions;
+
+  public queryDecisions(query: AutoTradeDecisionQuery = {}): AutoTradeDecision[] {
+    return filterDecisions(this.decisions, query);
+  }
+
+  public clearDecisions() {
+    this.decisions = [];
+    this.saveSettings();
+    this.notifyListeners();
+  }
+
+  public subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private recordDecision(
+    signal: TradingSignal,
+    checks: CriterionCheck[],
+    outcome: Pick<AutoTradeDecision, 'action' | 'error' | 'quantity' | 'sizingMode' | 'positionId'>
+  ) {
+    const reason = outcome.action === 'skipped' ? firstFailure(checks) || undefined : undefined;
+    const decision: AutoTradeDecision = {
+      id: nanoid(),
+      signalId: signal.id,
+      symbol: signal.symbol,
+      type: signal.type,
+      market: signal.market,
+      confidence: signal.confidence,
+      timestamp: new Date().toISOString(),
+      checks,
+      reason,
+      ...outcome,
+      ...(this.replayAccountId ? { replay: true } : {}),
+    };
+    this.decisions = [decision, ...this.decisions].slice(0, MAX_STORED_DECISIONS);
+
+    if (reason) {
+      this.stats.skippedSignals++;
+      this.stats.rejectionsByReason = {
+        ...this.stats.rejectionsByReason,
+        [reason.code]: (this.stats.rejectionsByReason[reason.code] || 0) + 1,
+      };
+      console.log(`⏭️ Skipped ${signal.symbol} ${signal.type}: ${reason.message}`);
+    }
+
+    this.scheduleSave();
+    this.notifyListeners();
+  }
+
   public start() {
     if (!this.criteria.enabled) {
       console.log('Auto-trade is disabled');
@@ -142,6 +354,12 @@ class AutoTradeService {
 
     this.isActive = true;
     this.resetDailyStats();
+
+    // A bound account may not be the one on screen, so load them all
+    const userId = store.getState().auth.user?.id;
+    if (this.criteria.accountId && userId) {
+      store.dispatch(fetchDemoAccounts(userId));
+    }
     
     store.dispatch(add({
       type: 'success',
@@ -166,6 +384,30 @@ class AutoTradeService {
     console.log('🛑 Auto-trade service stopped');
   }
 
+  // Sends trades to the given account instead of the bound one, or back
+  // to the bound one when null. A replay counts its trades and P&L from
+  // zero, so it neither uses up nor adds to the live daily limits; its
+  // journal entries stay in memory until reload.
+  public setReplayAccount(accountId: string | null) {
+    if (accountId && !this.liveCounters) {
+      // Write pending live decisions before saving pauses for the replay
+      if (this.saveTimer) this.saveSettings();
+      this.liveCounters = { stats: this.stats, dailyTrades: this.dailyTrades, dailyPnL: this.dailyPnL };
+      this.stats = this.getDefaultStats();
+      this.dailyTrades = 0;
+      this.dailyPnL = 0;
+    } else if (!accountId && this.liveCounters) {
+      ({ stats: this.stats, dailyTrades: this.dailyTrades, dailyPnL: this.dailyPnL } = this.liveCounters);
+      this.liveCounters = null;
+    }
+    this.replayAccountId = accountId;
+    this.notifyListeners();
+  }
+
+  private getTradingAccountId(): string {
+    return this.replayAccountId ?? this.criteria.accountId;
+  }
+
   public isRunning(): boolean {
     return this.isActive && this.criteria.enabled;
   }
@@ -180,32 +422,11 @@ class AutoTradeService {
     }
   }
 
-  private isWithinTradingHours(): boolean {
-    const now = new Date();
-    const currentTime = now.toLocaleTimeString('en-US', { 
-      hour12: false, 
-      timeZone: this.criteria.tradingHours.timezone 
-    });
-
-    // Check if within trading hours
-    if (currentTime < this.criteria.tradingHours.start || 
-        currentTime > this.criteria.tradingHours.end) {
-      return false;
-    }
-
-    // Check if weekend trading is allowed
-    if (this.criteria.excludeWeekends && (now.getDay() === 0 || now.getDay() === 6)) {
-      return false;
-    }
-
-    return true;
-  }
-
   private checkDrawdownLimit(): boolean {
-    const currentDrawdown = Math.abs(this.dailyPnL);
+    const balance = this.getBalance();
     const maxDrawdown = this.criteria.maxDrawdown;
     
-    if (currentDrawdown >= maxDrawdown) {
+    if (isDailyLossLimitReached(this.criteria, this.dailyPnL, balance)) {
       store.dispatch(add({
         type: 'error',
         title: 'Daily Loss Limit Reached',
@@ -218,46 +439,66 @@ class AutoTradeService {
     return true;
   }
 
-  private validateSignal(signal: TradingSignal): boolean {
-    // Check confidence threshold
-    if (signal.confidence < this.criteria.minConfidence) {
-      return false;
-    }
+  // The account auto-trade is bound to, or the one being viewed when unbound
+  private getAccount() {
+    const { portfolio } = store.getState();
+    const accountId = this.getTradingAccountId();
+    if (!accountId) return portfolio.demoAccount;
+    return portfolio.accounts.find(account => account._id === accountId) ?? null;
+  }
 
-    // Check risk level
-    const riskLevels = { low: 1, medium: 2, high: 3 };
-    const signalRiskLevel = riskLevels[signal.risk] || 1;
-    const maxRiskLevel = riskLevels[this.criteria.maxRisk];
-    
-    if (signalRiskLevel > maxRiskLevel) {
-      return false;
-    }
+  // The demo account, once loaded, is the source of truth for balance and positions
+  private getBalance(): number {
+    return this.getAccount()?.balance ?? store.getState().portfolio.balance;
+  }
 
-    // Check allowed markets
-    if (!this.criteria.allowedMarkets.includes(signal.market)) {
-      return false;
-    }
+  private getOpenPositions(): ExposurePosition[] {
+    return this.getAccount()?.openPositions ?? store.getState().portfolio.openPositions ?? [];
+  }
 
-    // Check allowed symbols (if specified)
-    if (this.criteria.allowedSymbols.length > 0 && 
-        !this.criteria.allowedSymbols.includes(signal.symbol)) {
-      return false;
-    }
+  private getContext(): AutoTradeContext {
+    const state = store.getState();
+    return {
+      timestamp: new Date(),
+      balance: this.getBalance(),
+      positions: this.getOpenPositions(),
+      tradesToday: this.dailyTrades,
+      dailyPnL: this.dailyPnL,
+      chartData: state.market.chartData,
+      // A replayed signal is weighed against the other replayed ones
+      signals: this.replayAccountId ? state.replay.signals : state.signals.signals,
+    };
+  }
 
-    // Check if we already have max positions
+  private getSizingInputs(signal: TradingSignal, criteria: AutoTradeCriteria, candles?: ChartData[]): SizingInputs {
     const state = store.getState();
-    const openPositions = state.portfolio.openPositions.length;
-    
-    if (openPositions >= this.criteria.maxPositions) {
-      return false;
-    }
+    const history = candles ?? state.market.chartData[signal.symbol] ?? [];
 
-    // Check daily trade limit
-    if (this.dailyTrades >= this.criteria.maxDailyTrades) {
-      return false;
-    }
+    // Prefer the symbol's own track record, falling back to its market
+    const symbolPerformance = selectSignalPerformanceBySymbol(state).find(p => p.symbol === signal.symbol);
+    const marketPerformance = selectSignalPerformanceByMarket(state).find(p => p.market === signal.market);
+    const performance = symbolPerformance && symbolPerformance.resolved >= MIN_KELLY_SAMPLES
+      ? symbolPerformance
+      : marketPerformance;
 
-    return true;
+    return {
+      balance: this.getBalance(),
+      atr: calculateATR(history, criteria.atrPeriod),
+      winRate: performance && performance.resolved > 0
+        ? (performance.profitable / performance.resolved) * 100
+        : undefined,
+      sampleSize: performance?.resolved || 0,
+    };
+  }
+
+  // Sizes a trade for the signal with the given (or current) criteria, and the
+  // given candles or else the symbol's candles in the store
+  public calculatePositionSize(
+    signal: TradingSignal,
+    criteria: AutoTradeCriteria = this.criteria,
+    candles?: ChartData[]
+  ): PositionSizeResult {
+    return calculatePositionSize(signal, criteria, this.getSizingInputs(signal, criteria, candles));
   }
 
   public async processSignal(signal: TradingSignal): Promise<boolean> {
@@ -267,44 +508,76 @@ class AutoTradeService {
 
     this.resetDailyStats();
 
-    // Check trading hours
-    if (!this.isWithinTradingHours()) {
-      console.log('⏰ Outside trading hours, skipping signal');
+    // Rules run in stages and every check is recorded; later stages are skipped after a failure
+    const checks: CriterionCheck[] = [];
+    const skip = () => {
+      this.recordDecision(signal, checks, { action: 'skipped' });
       return false;
-    }
+    };
+
+    // Check trading hours
+    const withinHours = isWithinTradingHours(this.criteria, new Date());
+    checks.push({
+      code: 'outside_trading_hours',
+      passed: withinHours,
+      message: `Trading hours ${this.criteria.tradingHours.start}-${this.criteria.tradingHours.end} ${this.criteria.tradingHours.timezone}`,
+    });
+    if (!withinHours) return skip();
 
     // Check drawdown limit
-    if (!this.checkDrawdownLimit()) {
+    const withinLossLimit = this.checkDrawdownLimit();
+    checks.push({
+      code: 'daily_loss_limit',
+      passed: withinLossLimit,
+      message: `Daily P&L ${this.dailyPnL.toFixed(2)} vs max loss ${this.criteria.maxDrawdown}%`,
+    });
+    if (!withinLossLimit) {
+      skip();
       this.stop();
       return false;
     }
 
     // Validate signal against criteria
-    if (!this.validateSignal(signal)) {
-      console.log('❌ Signal does not meet auto-trade criteria');
-      return false;
-    }
+    const context = this.getContext();
+    checks.push(...checkCriteria(signal, this.criteria, context));
+    checks.push(checkConsensus(signal, this.criteria, context));
+    if (firstFailure(checks)) return skip();
+
+    // Calculate position size using the configured sizing mode
+    const { quantity, mode, note } = this.calculatePositionSize(signal);
+    checks.push({
+      code: 'zero_size',
+      passed: quantity > 0,
+      message: `${mode} sizing: ${quantity.toFixed(6)} units${note ? ` (${note})` : ''}`,
+    });
+    if (quantity <= 0) return skip();
+
+    // Check exposure caps and correlation with open positions
+    checks.push(...checkExposure(signal, quantity, this.criteria, context));
+    checks.push(checkCorrelation(signal, this.criteria, context));
+    if (firstFailure(checks)) return skip();
 
     try {
-      // Calculate position size based on balance
       const state = store.getState();
-      const balance = state.portfolio.balance;
-      const positionSize = (balance * this.criteria.positionSize) / 100;
+      const { stopLoss, targetPrice } = resolveExitLevels(signal, this.criteria);
+      const exitPlan = buildExitPlan(signal, this.criteria, this.getSizingInputs(signal, this.criteria).atr);
 
       // Open position
       if (!state.auth.user?.id) throw new Error('User ID is required');
       const result = await store.dispatch(openDemoPosition({
         userId: state.auth.user.id,
+        accountId: this.getTradingAccountId() || undefined,
         signal: {
           symbol: signal.symbol,
           type: signal.type,
-          quantity: positionSize / signal.entryPrice,
+          quantity,
           entryPrice: signal.entryPrice,
-          targetPrice: signal.targetPrice,
-          stopLoss: signal.stopLoss,
+          targetPrice,
+          stopLoss,
           signalId: signal.id,
           market: signal.market,
-          timeframe: signal.timeframe
+          timeframe: signal.timeframe,
+          exitPlan
         }
       }));
 
@@ -314,7 +587,17 @@ class AutoTradeService {
         this.stats.totalTrades++;
         this.stats.tradesToday = this.dailyTrades;
         this.stats.lastTradeTime = new Date().toISOString();
-        this.saveSettings();
+
+        // The endpoint returns the updated account; find the position it opened
+        const openedPosition = [...(result.payload?.openPositions || [])]
+          .reverse()
+          .find((position: any) => position.signalId === signal.id);
+        this.recordDecision(signal, checks, {
+          action: 'opened',
+          quantity,
+          sizingMode: mode,
+          positionId: openedPosition ? String(openedPosition._id ?? openedPosition.id) : undefined,
+        });
 
         // Notify user
         store.dispatch(add({
@@ -327,15 +610,17 @@ class AutoTradeService {
         console.log(`🤖 Auto-trade opened ${signal.symbol} ${signal.type} position`);
         return true;
       } else {
-        throw new Error('Failed to open position');
+        throw new Error(typeof result.payload === 'string' ? result.payload : 'Failed to open position');
       }
     } catch (error: unknown) {
       console.error('❌ Auto-trade error:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      this.recordDecision(signal, checks, { action: 'failed', error: message, quantity, sizingMode: mode });
       
       store.dispatch(add({
         type: 'error',
         title: 'Auto-Trade Error',
-        message: `Failed to open position for ${signal.symbol}: ${error instanceof Error ? error.message : String(error)}`,
+        message: `Failed to open position for ${signal.symbol}: ${message}`,
         persistent: false,
       }));
       
@@ -359,9 +644,11 @@ class AutoTradeService {
 
   public resetStats() {
     this.stats = this.getDefaultStats();
+    this.decisions = [];
     this.dailyTrades = 0;
     this.dailyPnL = 0;
     this.saveSettings();
+    this.notifyListeners();
     
     store.dispatch(add({
       type: 'info',
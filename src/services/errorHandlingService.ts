@@ -25,6 +25,7 @@ export interface FallbackConfig {
 class ErrorHandlingService {
   private errors: Map<string, ErrorInfo> = new Map();
   private fallbackMode: boolean = false;
+  private listeners = new Set<() => void>();
   private config: FallbackConfig = {
     enabled: true,
     maxRetries: 3,
@@ -154,6 +155,7 @@ class ErrorHandlingService {
     if (this.fallbackMode) return;
 
     this.fallbackMode = true;
+    this.notifyListeners();
     
     store.dispatch(add({
       type: 'warning',
@@ -169,6 +171,7 @@ class ErrorHandlingService {
     if (!this.fallbackMode) return;
 
     this.fallbackMode = false;
+    this.notifyListeners();
     
     store.dispatch(add({
       type: 'success',
@@ -180,8 +183,18 @@ class ErrorHandlingService {
     console.log('✅ Exiting fallback mode');
   }
 
-  public isInFallbackMode(): boolean {
-    return this.fallbackMode;
+  // An arrow so it can back useSyncExternalStore
+  public isInFallbackMode = (): boolean => this.fallbackMode;
+
+  public subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener());
   }
 
   public retryOperation(errorId: string, operation: () => Promise<any>): Promise<any> {
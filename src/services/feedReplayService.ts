@@ -0,0 +1,297 @@
+import { store } from '../store';
+import { addDemoAccount, deleteDemoAccount } from '../store/slices/portfolioSlice';
+import { clearReplay } from '../store/slices/replaySlice';
+import autoTradeService from './autoTradeService';
+import { downloadFile } from '../utils/exportData';
+
+const RECORDING_VERSION = 1;
+
+// Quiet stretches in a recording are shortened to this at any speed
+const MAX_REPLAY_GAP_MS = 10000;
+
+// Signal fields moved forward on replay so expiry, freshness checks and
+// notifications behave as they did when the message was recorded
+const SHIFTED_DATE_FIELDS = ['createdAt', 'created_at', 'updatedAt', 'updated_at', 'expiresAt', 'expires_at', 'executedAt', 'timestamp'];
+
+export interface RecordedMessage {
+  at: number;
+  message: any;
+}
+
+export interface FeedRecording {
+  version: number;
+  startedAt: string;
+  messages: RecordedMessage[];
+}
+
+export type FeedReplayStatus = 'idle' | 'starting' | 'playing' | 'paused' | 'finished';
+
+export interface FeedReplayState {
+  recording: boolean;
+  recordedCount: number;
+  loadedName: string | null;
+  status: FeedReplayStatus;
+  position: number;
+  total: number;
+  speed: number;
+  accountId: string | null;
+  error: string | null;
+}
+
+const SIGNAL_MESSAGE_TYPES = ['new_signal', 'update_signal'];
+
+type FeedSink = (data: string) => void;
+
+const shiftDates = (payload: any, offsetMs: number) => {
+  if (!payload || typeof payload !== 'object') return payload;
+  const shifted = { ...payload };
+  SHIFTED_DATE_FIELDS.forEach(field => {
+    const value = shifted[field];
+    if (typeof value === 'number') {
+      shifted[field] = value + offsetMs;
+    } else if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+      shifted[field] = new Date(Date.parse(value) + offsetMs).toISOString();
+    }
+  });
+  return shifted;
+};
+
+// Signals get ids of their own per replay, so auto-trade's journal never
+// mixes a replay's decisions up with the live ones for the same signal
+const scopeSignalId = (signal: any, run: number) => {
+  const id = signal?.id ?? signal?._id;
+  return id === undefined ? signal : { ...signal, id: `replay:${run}:${id}` };
+};
+
+// Recorded message as if it had just arrived
+const retime = (recorded: RecordedMessage, now: number, run: number) => {
+  const offset = now - recorded.at;
+  const message = shiftDates(recorded.message, offset);
+  const scope = (payload: any) => SIGNAL_MESSAGE_TYPES.includes(message.type) ? scopeSignalId(payload, run) : payload;
+  if (message.data) message.data = scope(shiftDates(message.data, offset));
+  if (message.signal) message.signal = scope(shiftDates(message.signal, offset));
+  return message;
+};
+
+const parseRecording = (text: string): FeedRecording => {
+  const parsed = JSON.parse(text);
+  const valid = parsed && Array.isArray(parsed.messages) && parsed.messages.every(
+    (entry: any) => typeof entry?.at === 'number' && typeof entry?.message?.type === 'string'
+  );
+  if (!valid) throw new Error('Not a feed recording');
+  return { version: parsed.version ?? RECORDING_VERSION, startedAt: parsed.startedAt ?? '', messages: parsed.messages };
+};
+
+// Records the live WebSocket feed to a file and plays it back through the
+// app's message handler into the replay's own state. While a recording plays,
+// live messages are dropped and auto-trade trades in a throwaway demo account.
+class FeedReplayService {
+  private recorded: RecordedMessage[] = [];
+  private recordingStartedAt: string | null = null;
+  private loaded: FeedRecording | null = null;
+  private sink: FeedSink | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private run = 0; // Counts replays, to scope their signal ids
+  private listeners = new Set<() => void>();
+  private state: FeedReplayState = {
+    recording: false,
+    recordedCount: 0,
+    loadedName: null,
+    status: 'idle',
+    position: 0,
+    total: 0,
+    speed: 1,
+    accountId: null,
+    error: null,
+  };
+
+  public getState = (): FeedReplayState => this.state;
+
+  public subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private setState(update: Partial<FeedReplayState>) {
+    this.state = { ...this.state, ...update };
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Live messages are dropped while a replay is under way
+  public isReplaying(): boolean {
+    return this.state.status === 'starting' || this.state.status === 'playing' || this.state.status === 'paused';
+  }
+
+  // Registers the handler replayed messages are fed to
+  public setSink(sink: FeedSink) {
+    this.sink = sink;
+    return () => {
+      if (this.sink === sink) this.sink = null;
+    };
+  }
+
+  public startRecording() {
+    this.recorded = [];
+    this.recordingStartedAt = new Date().toISOString();
+    this.setState({ recording: true, recordedCount: 0 });
+  }
+
+  public stopRecording() {
+    this.setState({ recording: false });
+  }
+
+  // Captures a raw live message; heartbeats aren't worth replaying
+  public record(data: string) {
+    if (!this.state.recording) return;
+    try {
+      const message = JSON.parse(data);
+      if (!message?.type || message.type === 'pong') return;
+      this.recorded.push({ at: Date.now(), message });
+      this.setState({ recordedCount: this.recorded.length });
+    } catch {
+      // Unparseable messages are skipped, as handleMessage does
+    }
+  }
+
+  public downloadRecording() {
+    if (this.recorded.length === 0) return;
+    const recording: FeedRecording = {
+      version: RECORDING_VERSION,
+      startedAt: this.recordingStartedAt ?? new Date(this.recorded[0].at).toISOString(),
+      messages: this.recorded,
+    };
+    const stamp = (recording.startedAt || new Date().toISOString()).replace(/[:.]/g, '-');
+    downloadFile(JSON.stringify(recording, null, 2), `feed-recording-${stamp}.json`, 'application/json');
+  }
+
+  public async load(file: File) {
+    await this.reset();
+    try {
+      this.loaded = parseRecording(await file.text());
+      this.setState({ loadedName: file.name, total: this.loaded.messages.length, position: 0, error: null });
+    } catch (error) {
+      this.loaded = null;
+      this.setState({ loadedName: null, total: 0, position: 0, error: error instanceof Error ? error.message : 'Failed to read recording' });
+    }
+  }
+
+  // Starts the loaded recording from the top, or resumes a paused one.
+  // Speed 0 plays messages back to back.
+  public async play(speed: number = this.state.speed) {
+    if (!this.loaded || this.loaded.messages.length === 0) return;
+    if (this.state.status === 'paused') {
+      this.setState({ status: 'playing', speed });
+      this.scheduleNext();
+      return;
+    }
+    if (this.isReplaying()) return;
+
+    await this.discardAccount();
+    store.dispatch(clearReplay());
+    this.run++;
+    this.setState({ status: 'starting', speed, position: 0, error: null });
+    try {
+      const accountId = await this.createAccount();
+      autoTradeService.setReplayAccount(accountId);
+      this.setState({ status: 'playing', accountId });
+      this.deliver();
+    } catch (error) {
+      this.setState({ status: 'idle', error: `Replay aborted: ${error instanceof Error ? error.message : error}` });
+    }
+  }
+
+  public pause() {
+    if (this.state.status !== 'playing') return;
+    this.clearTimer();
+    this.setState({ status: 'paused' });
+  }
+
+  public setSpeed(speed: number) {
+    this.setState({ speed });
+    if (this.state.status === 'playing') {
+      this.clearTimer();
+      this.scheduleNext();
+    }
+  }
+
+  // Ends the replay, if any, and throws away its demo account and what it delivered
+  public async reset() {
+    this.clearTimer();
+    autoTradeService.setReplayAccount(null);
+    store.dispatch(clearReplay());
+    this.setState({ status: 'idle', position: 0 });
+    await this.discardAccount();
+  }
+
+  private deliver() {
+    const messages = this.loaded?.messages ?? [];
+    const recorded = messages[this.state.position];
+    if (!recorded || this.state.status !== 'playing') return;
+
+    if (this.sink) {
+      this.sink(JSON.stringify(retime(recorded, Date.now(), this.run)));
+    } else {
+      console.warn('⚠️ No feed handler registered, replayed message dropped:', recorded.message.type);
+    }
+
+    const position = this.state.position + 1;
+    if (position >= messages.length) {
+      // The account and replayed state stay around for a look at what happened
+      autoTradeService.setReplayAccount(null);
+      this.setState({ status: 'finished', position });
+      return;
+    }
+    this.setState({ position });
+    this.scheduleNext();
+  }
+
+  private scheduleNext() {
+    const messages = this.loaded?.messages ?? [];
+    const previous = messages[this.state.position - 1];
+    const next = messages[this.state.position];
+    if (!next) return;
+    const gap = previous ? Math.max(next.at - previous.at, 0) : 0;
+    const delay = this.state.speed > 0 ? Math.min(gap / this.state.speed, MAX_REPLAY_GAP_MS) : 0;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.deliver();
+    }, delay);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async createAccount(): Promise<string> {
+    const userId = store.getState().auth.user?.id;
+    if (!userId) throw new Error('User ID is required');
+    const account = await store.dispatch(addDemoAccount({
+      userId,
+      name: `Replay ${new Date().toLocaleString()}`,
+      description: `Throwaway account for replaying ${this.state.loadedName ?? 'a feed recording'}`,
+    })).unwrap();
+    return account._id;
+  }
+
+  private async discardAccount() {
+    const accountId = this.state.accountId;
+    const userId = store.getState().auth.user?.id;
+    if (!accountId) return;
+    this.setState({ accountId: null });
+    if (!userId) return;
+    try {
+      await store.dispatch(deleteDemoAccount({ userId, accountId })).unwrap();
+    } catch (error) {
+      console.error(`Failed to delete replay account ${accountId}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const feedReplayService = new FeedReplayService();
+export default feedReplayService;
@@ -0,0 +1,167 @@
+import { TradingSignal } from '../types';
+import type { ChartData } from '../store/slices/marketSlice';
+import type { DemoAccount } from '../store/slices/portfolioSlice';
+
+const DB_NAME = 'apterra-offline';
+const DB_VERSION = 1;
+const SIGNALS_STORE = 'signals';
+const CHART_STORE = 'chartData';
+const PORTFOLIO_STORE = 'portfolio';
+
+// Newest signals kept across reloads; older ones are refetched on demand
+const MAX_CACHED_SIGNALS = 1000;
+
+interface CachedCandles {
+  symbol: string; // The chartKey, which carries the timeframe when it isn't the default
+  candles: ChartData[];
+  savedAt: number;
+}
+
+// The user's demo accounts as last seen, for showing while offline
+export interface PortfolioSnapshot {
+  userId: string;
+  demoAccount: DemoAccount | null;
+  accounts: DemoAccount[];
+  savedAt: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Persists signals, candles and portfolio snapshots in IndexedDB so a reload
+// has something to show before the API answers, or when it can't. Every
+// method resolves to an empty result where IndexedDB is unavailable.
+class OfflineStoreService {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SIGNALS_STORE)) db.createObjectStore(SIGNALS_STORE, { keyPath: 'id' });
+          if (!db.objectStoreNames.contains(CHART_STORE)) db.createObjectStore(CHART_STORE, { keyPath: 'symbol' });
+          if (!db.objectStoreNames.contains(PORTFOLIO_STORE)) db.createObjectStore(PORTFOLIO_STORE, { keyPath: 'userId' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.error('Failed to open offline store:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  public async loadSignals(): Promise<TradingSignal[]> {
+    try {
+      const db = await this.open();
+      if (!db) return [];
+      return await requestToPromise(db.transaction(SIGNALS_STORE).objectStore(SIGNALS_STORE).getAll());
+    } catch (error) {
+      console.error('Failed to load cached signals:', error);
+      return [];
+    }
+  }
+
+  // Replaces the cached signals with the newest of the given ones
+  public async saveSignals(signals: TradingSignal[]): Promise<void> {
+    try {
+      const db = await this.open();
+      if (!db) return;
+      const newest = [...signals]
+        .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+        .slice(0, MAX_CACHED_SIGNALS);
+      const transaction = db.transaction(SIGNALS_STORE, 'readwrite');
+      const store = transaction.objectStore(SIGNALS_STORE);
+      store.clear();
+      newest.forEach(signal => store.put(signal));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('Failed to cache signals:', error);
+    }
+  }
+
+  public async loadChartData(): Promise<Record<string, ChartData[]>> {
+    try {
+      const db = await this.open();
+      if (!db) return {};
+      const rows: CachedCandles[] = await requestToPromise(db.transaction(CHART_STORE).objectStore(CHART_STORE).getAll());
+      return Object.fromEntries(rows.map(row => [row.symbol, row.candles]));
+    } catch (error) {
+      console.error('Failed to load cached chart data:', error);
+      return {};
+    }
+  }
+
+  public async saveChartData(chartData: Record<string, ChartData[]>): Promise<void> {
+    try {
+      const db = await this.open();
+      if (!db) return;
+      const transaction = db.transaction(CHART_STORE, 'readwrite');
+      const store = transaction.objectStore(CHART_STORE);
+      const savedAt = Date.now();
+      Object.entries(chartData).forEach(([symbol, candles]) => {
+        store.put({ symbol, candles, savedAt } as CachedCandles);
+      });
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('Failed to cache chart data:', error);
+    }
+  }
+
+  public async loadPortfolioSnapshot(userId: string): Promise<PortfolioSnapshot | null> {
+    try {
+      const db = await this.open();
+      if (!db) return null;
+      const snapshot = await requestToPromise(db.transaction(PORTFOLIO_STORE).objectStore(PORTFOLIO_STORE).get(userId));
+      return (snapshot as PortfolioSnapshot | undefined) ?? null;
+    } catch (error) {
+      console.error('Failed to load cached portfolio:', error);
+      return null;
+    }
+  }
+
+  public async savePortfolioSnapshot(snapshot: PortfolioSnapshot): Promise<void> {
+    try {
+      const db = await this.open();
+      if (!db) return;
+      const transaction = db.transaction(PORTFOLIO_STORE, 'readwrite');
+      transaction.objectStore(PORTFOLIO_STORE).put(snapshot);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('Failed to cache portfolio:', error);
+    }
+  }
+
+  public async clear(): Promise<void> {
+    try {
+      const db = await this.open();
+      if (!db) return;
+      const transaction = db.transaction([SIGNALS_STORE, CHART_STORE, PORTFOLIO_STORE], 'readwrite');
+      [SIGNALS_STORE, CHART_STORE, PORTFOLIO_STORE].forEach(name => transaction.objectStore(name).clear());
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('Failed to clear offline store:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const offlineStoreService = new OfflineStoreService();
+export default offlineStoreService;
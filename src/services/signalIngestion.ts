@@ -0,0 +1,39 @@
+import { TradingSignal } from '../types';
+import { normalizeSignal, partitionSignals } from '../utils/signalValidation';
+import errorHandlingService from './errorHandlingService';
+
+export type SignalOrigin = 'rest' | 'websocket' | 'supabase';
+
+// Normalizes a batch of signal payloads, reporting rejected ones as a single
+// 'signal' error so a bad page doesn't flood the user with notifications.
+export const ingestSignals = (payloads: unknown, origin: SignalOrigin): TradingSignal[] => {
+  if (!Array.isArray(payloads)) {
+    errorHandlingService.handleError('signal', `Expected a list of signals from ${origin}`, { payload: payloads }, 'medium');
+    return [];
+  }
+
+  const { signals, rejected } = partitionSignals(payloads);
+  if (rejected.length > 0) {
+    errorHandlingService.handleError(
+      'signal',
+      `Rejected ${rejected.length} of ${payloads.length} signals from ${origin}`,
+      { origin, rejected },
+      'low'
+    );
+  }
+  return signals;
+};
+
+export const ingestSignal = (payload: unknown, origin: SignalOrigin): TradingSignal | null => {
+  const result = normalizeSignal(payload);
+  if (!result.valid) {
+    errorHandlingService.handleError(
+      'signal',
+      `Rejected signal from ${origin}: ${result.errors.join(', ')}`,
+      { origin, payload, errors: result.errors },
+      'low'
+    );
+    return null;
+  }
+  return result.signal;
+};
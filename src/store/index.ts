@@ -4,6 +4,10 @@ import signalsReducer from './slices/signalSlice';
 import portfolioReducer from './slices/portfolioSlice';
 import marketReducer from './slices/marketSlice';
 import notificationsReducer from './slices/notificationsSlice';
+import screenersReducer from './slices/screenersSlice';
+import signalAnnotationsReducer from './slices/signalAnnotationsSlice';
+import priceAlertsReducer from './slices/priceAlertsSlice';
+import replayReducer from './slices/replaySlice';
 import uiReducer from './slices/uiSlice'; // <-- Add this import
 
 export const store = configureStore({
@@ -13,6 +17,10 @@ export const store = configureStore({
     portfolio: portfolioReducer,
     market: marketReducer,
     notifications: notificationsReducer,
+    screeners: screenersReducer,
+    signalAnnotations: signalAnnotationsReducer,
+    priceAlerts: priceAlertsReducer,
+    replay: replayReducer,
     ui: uiReducer, // <-- Add this line
   },
   middleware: (getDefaultMiddleware) =>
@@ -114,5 +114,11 @@ const authSlice = createSlice({
 });
 
 export const { logout, clearError, setAuthenticated } = authSlice.actions;
+
+// Id of the signed-in user; the backend sends Mongo's _id, older payloads id
+export const selectUserId = (state: { auth: AuthState }): string | null => {
+  const user = state.auth.user as (User & { _id?: string }) | null;
+  return user?._id || user?.id || null;
+};
 export default authSlice.reducer;
 export {};
\ No newline at end of file
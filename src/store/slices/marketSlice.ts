@@ -1,4 +1,5 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, createSelector, nanoid, PayloadAction } from '@reduxjs/toolkit';
+import { AGGREGATED_TIMEFRAMES, MAX_CANDLES_PER_SERIES, aggregateTick, mergeCandles } from '../../utils/candles';
 
 export interface MarketData {
   symbol: string;
@@ -25,6 +26,46 @@ export interface ChartData {
   volume: number;
 }
 
+export type Timeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w';
+
+// Candles of the default timeframe are keyed by bare symbol, which is what
+// signal outcomes, auto-trade and the backtester read; other timeframes get
+// their own series
+export const DEFAULT_TIMEFRAME: Timeframe = '1h';
+
+export const chartKey = (symbol: string, timeframe: Timeframe) =>
+  timeframe === DEFAULT_TIMEFRAME ? symbol : `${symbol}:${timeframe}`;
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[];
+}
+
+export const DEFAULT_WATCHLIST_ID = 'default';
+
+const defaultWatchlists = (): Watchlist[] => [{
+  id: DEFAULT_WATCHLIST_ID,
+  name: 'Main',
+  symbols: ['EURUSD', 'GBPUSD', 'USDJPY', 'BTCUSD', 'ETHUSD', 'AAPL', 'GOOGL', 'TSLA'],
+}];
+
+// Watchlists are kept per user in local storage; signed out, or before the
+// first save, the user gets the default list
+export const watchlistsStorageKey = (userId: string) => `watchlists:${userId}`;
+
+export const loadWatchlists = (userId: string | null): { watchlists: Watchlist[]; activeWatchlistId: string } => {
+  try {
+    const saved = userId ? JSON.parse(localStorage.getItem(watchlistsStorageKey(userId)) || 'null') : null;
+    if (saved?.watchlists?.length) {
+      return { watchlists: saved.watchlists, activeWatchlistId: saved.activeWatchlistId || saved.watchlists[0].id };
+    }
+  } catch {
+    // Fall back to the defaults
+  }
+  return { watchlists: defaultWatchlists(), activeWatchlistId: DEFAULT_WATCHLIST_ID };
+};
+
 export interface MarketNews {
   id: string;
   title: string;
@@ -54,11 +95,13 @@ export interface EconomicEvent {
 interface MarketState {
   // Market data
   marketData: Record<string, MarketData>;
-  watchlist: string[];
+  watchlists: Watchlist[];
+  activeWatchlistId: string;
+  watchlistsOwner: string | null; // Owner of the loaded watchlists
   
-  // Charts
+  // Charts, keyed by chartKey
   chartData: Record<string, ChartData[]>;
-  selectedTimeframe: '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w';
+  selectedTimeframe: Timeframe;
   
   // News and events
   news: MarketNews[];
@@ -87,7 +130,9 @@ interface MarketState {
 
 const initialState: MarketState = {
   marketData: {},
-  watchlist: ['EURUSD', 'GBPUSD', 'USDJPY', 'BTCUSD', 'ETHUSD', 'AAPL', 'GOOGL', 'TSLA'],
+  watchlists: defaultWatchlists(),
+  activeWatchlistId: DEFAULT_WATCHLIST_ID,
+  watchlistsOwner: null,
   chartData: {},
   selectedTimeframe: '1h',
   news: [],
@@ -130,7 +175,7 @@ export const fetchMarketData = createAsyncThunk(
 
 export const fetchChartData = createAsyncThunk(
   'market/fetchChartData',
-  async ({ symbol, timeframe, limit = 100 }: { symbol: string; timeframe: string; limit?: number }) => {
+  async ({ symbol, timeframe, limit = 100 }: { symbol: string; timeframe: Timeframe; limit?: number }) => {
     const response = await fetch(`/api/market/chart/${symbol}?timeframe=${timeframe}&limit=${limit}`);
     
     if (!response.ok) {
@@ -138,7 +183,7 @@ export const fetchChartData = createAsyncThunk(
     }
     
     const data = await response.json();
-    return { symbol, data: data.data };
+    return { symbol, timeframe, data: data.data as ChartData[] };
   }
 );
 
@@ -168,6 +213,23 @@ export const fetchEconomicEvents = createAsyncThunk(
   }
 );
 
+// Folds a tick into every live-built timeframe of its symbol. market_data
+// volume is the running session volume, so candles get the increase since
+// the previous tick.
+export const aggregateMarketData = (state: Pick<MarketState, 'chartData'>, data: MarketData, previous?: MarketData) => {
+  if (!Number.isFinite(data.price)) return;
+  const timestamp = data.timestamp || Date.now();
+  const volume = previous && data.volume >= previous.volume ? data.volume - previous.volume : 0;
+  AGGREGATED_TIMEFRAMES.forEach(timeframe => {
+    const key = chartKey(data.symbol, timeframe);
+    if (!state.chartData[key]) state.chartData[key] = [];
+    aggregateTick(state.chartData[key], { price: data.price, timestamp, volume }, timeframe);
+  });
+};
+
+const activeWatchlist = (state: MarketState) =>
+  state.watchlists.find(w => w.id === state.activeWatchlistId) || state.watchlists[0];
+
 const marketSlice = createSlice({
   name: 'market',
   initialState,
@@ -175,6 +237,7 @@ const marketSlice = createSlice({
     // Real-time market data updates
     updateMarketData: (state, action: PayloadAction<MarketData>) => {
       const data = action.payload;
+      aggregateMarketData(state, data, state.marketData[data.symbol]);
       state.marketData[data.symbol] = data;
       state.lastUpdate = Date.now();
       state.isConnected = true;
@@ -182,6 +245,7 @@ const marketSlice = createSlice({
     
     updateMultipleMarketData: (state, action: PayloadAction<MarketData[]>) => {
       action.payload.forEach(data => {
+        aggregateMarketData(state, data, state.marketData[data.symbol]);
         state.marketData[data.symbol] = data;
       });
       state.lastUpdate = Date.now();
@@ -195,32 +259,77 @@ const marketSlice = createSlice({
         state.chartData[symbol] = [];
       }
       
-      // Add new data point and keep only last 1000 points
+      // Add new data point and keep only the last MAX_CANDLES_PER_SERIES points
       state.chartData[symbol].push(data);
-      if (state.chartData[symbol].length > 1000) {
-        state.chartData[symbol] = state.chartData[symbol].slice(-1000);
+      if (state.chartData[symbol].length > MAX_CANDLES_PER_SERIES) {
+        state.chartData[symbol] = state.chartData[symbol].slice(-MAX_CANDLES_PER_SERIES);
       }
     },
     
-    // Watchlist management
+    // Candles cached from a previous session, for symbols not loaded yet
+    hydrateChartData: (state, action: PayloadAction<Record<string, ChartData[]>>) => {
+      Object.entries(action.payload).forEach(([symbol, candles]) => {
+        if (!state.chartData[symbol]?.length) {
+          state.chartData[symbol] = candles;
+        }
+      });
+    },
+    
+    // Watchlist management; symbol changes apply to the active watchlist
+    setWatchlists: (
+      state,
+      action: PayloadAction<{ userId: string | null; watchlists: Watchlist[]; activeWatchlistId: string }>
+    ) => {
+      state.watchlistsOwner = action.payload.userId;
+      state.watchlists = action.payload.watchlists;
+      state.activeWatchlistId = action.payload.activeWatchlistId;
+    },
+    
+    createWatchlist: {
+      reducer: (state, action: PayloadAction<Watchlist>) => {
+        state.watchlists.push(action.payload);
+        state.activeWatchlistId = action.payload.id;
+      },
+      prepare: (name: string) => ({ payload: { id: nanoid(), name, symbols: [] as string[] } }),
+    },
+    
+    renameWatchlist: (state, action: PayloadAction<{ id: string; name: string }>) => {
+      const watchlist = state.watchlists.find(w => w.id === action.payload.id);
+      if (watchlist) watchlist.name = action.payload.name;
+    },
+    
+    // The last watchlist cannot be deleted
+    deleteWatchlist: (state, action: PayloadAction<string>) => {
+      if (state.watchlists.length <= 1) return;
+      state.watchlists = state.watchlists.filter(w => w.id !== action.payload);
+      if (state.activeWatchlistId === action.payload) state.activeWatchlistId = state.watchlists[0].id;
+    },
+    
+    setActiveWatchlist: (state, action: PayloadAction<string>) => {
+      if (state.watchlists.some(w => w.id === action.payload)) state.activeWatchlistId = action.payload;
+    },
+    
     addToWatchlist: (state, action: PayloadAction<string>) => {
       const symbol = action.payload;
-      if (!state.watchlist.includes(symbol)) {
-        state.watchlist.push(symbol);
+      const watchlist = activeWatchlist(state);
+      if (watchlist && !watchlist.symbols.includes(symbol)) {
+        watchlist.symbols.push(symbol);
       }
     },
     
     removeFromWatchlist: (state, action: PayloadAction<string>) => {
       const symbol = action.payload;
-      state.watchlist = state.watchlist.filter(s => s !== symbol);
+      const watchlist = activeWatchlist(state);
+      if (watchlist) watchlist.symbols = watchlist.symbols.filter(s => s !== symbol);
     },
     
     reorderWatchlist: (state, action: PayloadAction<string[]>) => {
-      state.watchlist = action.payload;
+      const watchlist = activeWatchlist(state);
+      if (watchlist) watchlist.symbols = action.payload;
     },
     
     // Timeframe selection
-    setTimeframe: (state, action: PayloadAction<'1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w'>) => {
+    setTimeframe: (state, action: PayloadAction<Timeframe>) => {
       state.selectedTimeframe = action.payload;
     },
     
@@ -273,8 +382,9 @@ const marketSlice = createSlice({
       })
       .addCase(fetchChartData.fulfilled, (state, action) => {
         state.loading.chartData = false;
-        const { symbol, data } = action.payload;
-        state.chartData[symbol] = data;
+        const { symbol, timeframe, data } = action.payload;
+        const key = chartKey(symbol, timeframe);
+        state.chartData[key] = mergeCandles(state.chartData[key] || [], data || [], timeframe);
       })
       .addCase(fetchChartData.rejected, (state, action) => {
         state.loading.chartData = false;
@@ -317,6 +427,12 @@ export const {
   updateMarketData,
   updateMultipleMarketData,
   updateChartData,
+  hydrateChartData,
+  setWatchlists,
+  createWatchlist,
+  renameWatchlist,
+  deleteWatchlist,
+  setActiveWatchlist,
   addToWatchlist,
   removeFromWatchlist,
   reorderWatchlist,
@@ -330,8 +446,14 @@ export const {
 export default marketSlice.reducer;
 
 // Selectors
+const NO_SYMBOLS: string[] = [];
+
 export const selectMarketData = (state: { market: MarketState }) => state.market.marketData;
-export const selectWatchlist = (state: { market: MarketState }) => state.market.watchlist;
+export const selectWatchlists = (state: { market: MarketState }) => state.market.watchlists;
+export const selectWatchlistsOwner = (state: { market: MarketState }) => state.market.watchlistsOwner;
+export const selectActiveWatchlistId = (state: { market: MarketState }) => state.market.activeWatchlistId;
+export const selectActiveWatchlist = (state: { market: MarketState }) => activeWatchlist(state.market);
+export const selectWatchlist = (state: { market: MarketState }) => selectActiveWatchlist(state)?.symbols ?? NO_SYMBOLS;
 export const selectChartData = (state: { market: MarketState }) => state.market.chartData;
 export const selectMarketNews = (state: { market: MarketState }) => state.market.news;
 export const selectEconomicEvents = (state: { market: MarketState }) => state.market.economicEvents;
@@ -341,16 +463,22 @@ export const selectConnectionStatus = (state: { market: MarketState }) => state.
 export const selectSelectedTimeframe = (state: { market: MarketState }) => state.market.selectedTimeframe;
 
 // Complex selectors
-export const selectWatchlistData = (state: { market: MarketState }) => {
-  const { watchlist, marketData } = state.market;
-  return watchlist.map(symbol => marketData[symbol]).filter(Boolean);
-};
+export const selectWatchlistData = createSelector(
+  [selectWatchlist, selectMarketData],
+  (watchlist, marketData) => watchlist.map(symbol => marketData[symbol]).filter(Boolean)
+);
+
+// Every symbol on any of the user's watchlists, which the feed keeps subscribed
+export const selectWatchedSymbols = createSelector(
+  [selectWatchlists],
+  (watchlists) => Array.from(new Set(watchlists.flatMap(w => w.symbols)))
+);
 
 export const selectSymbolData = (symbol: string) => (state: { market: MarketState }) => {
   return state.market.marketData[symbol];
 };
 
-export const selectSymbolChartData = (symbol: string) => (state: { market: MarketState }) => {
-  return state.market.chartData[symbol] || [];
+export const selectSymbolChartData = (symbol: string, timeframe: Timeframe = DEFAULT_TIMEFRAME) => (state: { market: MarketState }) => {
+  return state.market.chartData[chartKey(symbol, timeframe)] || [];
 };
 export {};
\ No newline at end of file
@@ -1,8 +1,12 @@
-import { createSlice, createAsyncThunk, createSelector } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, createSelector, nanoid, PayloadAction } from '@reduxjs/toolkit';
 import axios from 'axios';
+import type { ClosureType, ExitPlan, MarketType, PendingOrder, StopReason } from '../../types';
+import type { MarketData } from './marketSlice';
+import { FillModelSettings, loadFillModel, simulateFill } from '../../utils/fillModel';
 
 interface Position {
   id: string;
+  _id?: string;
   symbol: string;
   type: 'BUY' | 'SELL';
   quantity: number;
@@ -17,13 +21,33 @@ interface Position {
   closedAt?: string;
   status: 'open' | 'closed';
   signalId?: string;
-  closureType?: 'manual' | 'take_profit_hit' | 'stop_loss_hit';
+  closureType?: ClosureType;
+  quotedEntryPrice?: number;
+  fees?: PositionFees;
+  exitPlan?: ExitPlan;
+  activeStop?: number;
+  stopReason?: StopReason;
+  bestPrice?: number;
+  initialQuantity?: number;
+  realizedPnl?: number;
 }
 
-interface DemoAccount {
+// Trading costs of a position. Spread and slippage are already in the fill
+// prices; commissions are charged to the balance on each fill.
+export interface PositionFees {
+  entryCommission: number;
+  exitCommission: number;
+  spreadCost: number;
+  slippageCost: number;
+}
+
+export interface DemoAccount {
   _id: string;
   user: string;
+  name: string;
+  description?: string;
   balance: number;
+  startingBalance?: number;
   openPositions: Position[];
   tradeHistory: Position[];
   createdAt: string;
@@ -35,6 +59,11 @@ interface PortfolioState {
   openPositions: any;
   portfolio: any;
   demoAccount: DemoAccount | null;
+  accounts: DemoAccount[];
+  activeAccountId: string | null;
+  workingOrders: PendingOrder[];
+  workingOrdersOwner: string | null; // User the loaded working orders belong to
+  fillModel: FillModelSettings;
   loading: boolean;
   error: string | null;
   lastUpdate: string | null;
@@ -56,8 +85,34 @@ interface PortfolioState {
   maxDrawdown: number;
 }
 
+// Working orders are kept per user in local storage
+export const workingOrdersStorageKey = (userId: string) => `workingOrders:${userId}`;
+
+// Orders used to be kept under one key for every user of the browser; the
+// first user to load without orders of their own takes them over
+const LEGACY_WORKING_ORDERS_STORAGE_KEY = 'workingOrders';
+
+export const loadWorkingOrders = (userId: string): PendingOrder[] => {
+  try {
+    const saved = localStorage.getItem(workingOrdersStorageKey(userId));
+    if (saved !== null) return JSON.parse(saved);
+    const legacy = localStorage.getItem(LEGACY_WORKING_ORDERS_STORAGE_KEY);
+    localStorage.removeItem(LEGACY_WORKING_ORDERS_STORAGE_KEY);
+    return JSON.parse(legacy || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const ACTIVE_ACCOUNT_STORAGE_KEY = 'activeDemoAccountId';
+
 const initialState: PortfolioState = {
   demoAccount: null,
+  accounts: [],
+  activeAccountId: localStorage.getItem(ACTIVE_ACCOUNT_STORAGE_KEY),
+  workingOrders: [],
+  workingOrdersOwner: null,
+  fillModel: loadFillModel(),
   loading: false,
   error: null,
   lastUpdate: null,
@@ -82,11 +137,18 @@ const initialState: PortfolioState = {
   maxDrawdown: 0,
 };
 
+// Request config that targets the given account, or the active one. Without
+// either the backend falls back to the user's oldest account.
+const accountConfig = (getState: () => unknown, accountId?: string) => {
+  const id = accountId ?? (getState() as { portfolio: PortfolioState }).portfolio.activeAccountId;
+  return id ? { params: { accountId: id } } : undefined;
+};
+
 export const fetchPortfolio = createAsyncThunk(
   'portfolio/fetchPortfolio',
-  async (userId: string, { rejectWithValue }) => {
+  async (userId: string, { getState, rejectWithValue }) => {
     try {
-      const response = await axios.get(`/api/demo-account/${userId}`);
+      const response = await axios.get(`/api/demo-account/${userId}`, accountConfig(getState));
       return response.data;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to fetch portfolio');
@@ -96,20 +158,52 @@ export const fetchPortfolio = createAsyncThunk(
 
 export const openDemoPosition = createAsyncThunk(
   'portfolio/openDemoPosition',
-  async ({ userId, signal }: { userId: string; signal: any }, { rejectWithValue }) => {
+  async (
+    { userId, signal, accountId }: { userId: string; signal: any; accountId?: string },
+    { getState, rejectWithValue }
+  ) => {
     try {
+      const { portfolio, market } = getState() as {
+        portfolio: PortfolioState;
+        market: { marketData: Record<string, MarketData> };
+      };
+      const direction = signal.type.toUpperCase();
+      const quantity = signal.quantity ?? signal.positionSize ?? 1;
+
+      // Market entry at the live bid/ask when there is a quote, with the market's costs
+      const quote = market.marketData[signal.symbol];
+      const schedule = portfolio.fillModel[signal.market as MarketType] ?? portfolio.fillModel.crypto;
+      const fill = simulateFill(direction, quantity, quote?.price || signal.entryPrice, schedule, quote);
+
       const positionData = {
         symbol:    signal.symbol,
-        direction: signal.type.toUpperCase(),
-        quantity:  signal.positionSize || 1,
-        entryPrice:  signal.entryPrice,
+        direction,
+        quantity,
+        entryPrice:  fill.price,
+        quotedEntryPrice: fill.quotedPrice,
         targetPrice: signal.targetPrice,
         stopLoss:    signal.stopLoss,
         signalId:    signal.id,
         market:      signal.market,
         timeframe:   signal.timeframe,
+        exitPlan:    signal.exitPlan,
+        fillModel: {
+          slippageBps: schedule.slippageBps,
+          commissionPercent: schedule.commissionPercent,
+          minCommission: schedule.minCommission,
+          spread: fill.spread,
+        },
+        fees: {
+          entryCommission: fill.commission,
+          spreadCost: fill.spreadCost,
+          slippageCost: fill.slippageCost,
+        },
       };
-      const response = await axios.post(`/api/demo-account/${userId}/positions`, positionData);
+      const response = await axios.post(
+        `/api/demo-account/${userId}/positions`,
+        positionData,
+        accountConfig(getState, accountId)
+      );
       return response.data;
     } catch (err: any) {
       return rejectWithValue(err.response?.data?.message || 'Failed to open demo position');
@@ -117,6 +211,58 @@ export const openDemoPosition = createAsyncThunk(
   }
 );
 
+// Opens the demo position for a triggered pending order at the fill price
+export const fillPendingOrder = createAsyncThunk(
+  'portfolio/fillPendingOrder',
+  async ({ userId, order, price }: { userId: string; order: PendingOrder; price: number }, { dispatch, rejectWithValue }) => {
+    const result = await dispatch(openDemoPosition({
+      userId,
+      accountId: order.accountId,
+      signal: {
+        id: order.signalId,
+        symbol: order.symbol,
+        type: order.side,
+        quantity: order.quantity,
+        entryPrice: price,
+        targetPrice: order.takeProfit,
+        stopLoss: order.stopLoss,
+        market: order.market,
+        timeframe: order.timeframe,
+        exitPlan: order.exitPlan,
+      },
+    }));
+    if (openDemoPosition.rejected.match(result)) {
+      return rejectWithValue(result.payload || 'Failed to fill pending order');
+    }
+    return result.payload;
+  }
+);
+
+export const updatePositionExitPlan = createAsyncThunk(
+  'portfolio/updatePositionExitPlan',
+  async (
+    { userId, positionId, exitPlan, stopLoss, targetPrice }: {
+      userId: string;
+      positionId: string;
+      exitPlan?: ExitPlan;
+      stopLoss?: number;
+      targetPrice?: number;
+    },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const response = await axios.patch(
+        `/api/demo-account/${userId}/positions/${positionId}/exit-plan`,
+        { exitPlan, stopLoss, targetPrice },
+        accountConfig(getState)
+      );
+      return response.data;
+    } catch (err: any) {
+      return rejectWithValue(err.response?.data?.msg || 'Failed to update exit plan');
+    }
+  }
+);
+
 export const createDemoAccount = createAsyncThunk(
   'portfolio/createDemoAccount',
   async (userId: string, { rejectWithValue }) => {
@@ -133,11 +279,11 @@ export const resetDemoAccount = createAsyncThunk(
   'portfolio/resetDemoAccount',
   async (
     payload: { userId: string; balance: number },
-    { rejectWithValue }
+    { getState, rejectWithValue }
   ) => {
     const { userId, balance } = payload;
     try {
-      const response = await axios.patch(`/api/demo-account/${userId}/reset`, { balance });
+      const response = await axios.patch(`/api/demo-account/${userId}/reset`, { balance }, accountConfig(getState));
       return response.data;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to reset demo account');
@@ -148,9 +294,13 @@ export const resetDemoAccount = createAsyncThunk(
 
 export const closeDemoPosition = createAsyncThunk(
   'portfolio/closeDemoPosition',
-  async ({ userId, positionId }: { userId: string; positionId: string }, { rejectWithValue }) => {
+  async ({ userId, positionId }: { userId: string; positionId: string }, { getState, rejectWithValue }) => {
     try {
-      const response = await axios.patch(`/api/demo-account/${userId}/positions/${positionId}/close`);
+      const response = await axios.patch(
+        `/api/demo-account/${userId}/positions/${positionId}/close`,
+        undefined,
+        accountConfig(getState)
+      );
       return response.data;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to close demo position');
@@ -160,9 +310,9 @@ export const closeDemoPosition = createAsyncThunk(
 
 export const closeAllDemoPositions = createAsyncThunk(
   'portfolio/closeAllDemoPositions',
-  async (userId: string, { rejectWithValue }) => {
+  async (userId: string, { getState, rejectWithValue }) => {
     try {
-      const response = await axios.patch(`/api/demo-account/${userId}/positions/close-all`);
+      const response = await axios.patch(`/api/demo-account/${userId}/positions/close-all`, undefined, accountConfig(getState));
       return response.data;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to close all demo positions');
@@ -170,6 +320,64 @@ export const closeAllDemoPositions = createAsyncThunk(
   }
 );
 
+export const fetchDemoAccounts = createAsyncThunk(
+  'portfolio/fetchDemoAccounts',
+  async (userId: string, { rejectWithValue }) => {
+    try {
+      const response = await axios.get(`/api/demo-account/${userId}/accounts`);
+      return response.data as DemoAccount[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.msg || 'Failed to fetch demo accounts');
+    }
+  }
+);
+
+export const addDemoAccount = createAsyncThunk(
+  'portfolio/addDemoAccount',
+  async (
+    { userId, name, description, balance }: { userId: string; name: string; description?: string; balance?: number },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await axios.post(`/api/demo-account/${userId}/accounts`, { name, description, balance });
+      return response.data as DemoAccount;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.msg || 'Failed to create demo account');
+    }
+  }
+);
+
+export const deleteDemoAccount = createAsyncThunk(
+  'portfolio/deleteDemoAccount',
+  async ({ userId, accountId }: { userId: string; accountId: string }, { rejectWithValue }) => {
+    try {
+      await axios.delete(`/api/demo-account/${userId}/accounts/${accountId}`);
+      return accountId;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.msg || 'Failed to delete demo account');
+    }
+  }
+);
+
+// Stores a fetched or updated account: in the account list, and as the
+// portfolio when it is the account being viewed
+const applyAccount = (state: PortfolioState, account: DemoAccount) => {
+  const index = state.accounts.findIndex(a => a._id === account._id);
+  if (index >= 0) state.accounts[index] = account;
+  const isViewed = state.activeAccountId
+    ? state.activeAccountId === account._id
+    : !state.demoAccount || state.demoAccount._id === account._id;
+  if (isViewed) {
+    state.demoAccount = account;
+    state.lastUpdate = new Date().toISOString();
+  }
+};
+
+// Balance after a closure pushed by the server. The P&L it sends is gross, so
+// without the resulting balance the exit commission is taken off here.
+const balanceAfterClosure = (balance: number, closure: { pnl: number; commission?: number; balance?: number }) =>
+  typeof closure.balance === 'number' ? closure.balance : balance + closure.pnl - (closure.commission || 0);
+
 const portfolioSlice = createSlice({
   name: 'portfolio',
   initialState,
@@ -178,9 +386,22 @@ const portfolioSlice = createSlice({
       state.demoAccount = action.payload;
       state.lastUpdate = new Date().toISOString();
     },
+    // Accounts cached from a previous session; anything fetched since wins
+    hydratePortfolio: (
+      state,
+      action: PayloadAction<{ demoAccount: DemoAccount | null; accounts: DemoAccount[] }>
+    ) => {
+      const { demoAccount, accounts } = action.payload;
+      if (!state.demoAccount && demoAccount) state.demoAccount = demoAccount;
+      if (state.accounts.length === 0) state.accounts = accounts;
+    },
     clearPortfolio: (state) => {
       state.demoAccount = null;
     },
+    setActiveAccount: (state, action: PayloadAction<string | null>) => {
+      state.activeAccountId = action.payload;
+      state.demoAccount = state.accounts.find(a => a._id === action.payload) ?? null;
+    },
     updatePosition: (state, action) => {
       if (state.demoAccount) {
         const { positionId, updates } = action.payload;
@@ -192,12 +413,18 @@ const portfolioSlice = createSlice({
       state.notifications.positionClosed = true;
     },
     autoPositionClosed: (state, action) => {
-      const { closureType, positionData } = action.payload;
+      const { closureType } = action.payload;
+      // WebSocket closures carry the position fields directly
+      const positionData = action.payload.positionData ?? action.payload;
       if (closureType === 'take_profit_hit') state.notifications.takeProfitHit = true;
-      if (closureType === 'stop_loss_hit') state.notifications.stopLossHit = true;
-      if (state.demoAccount) {
+      if (closureType === 'stop_loss_hit' || closureType === 'trailing_stop_hit' || closureType === 'breakeven_stop_hit') {
+        state.notifications.stopLossHit = true;
+      }
+      // Closures of other accounts' positions are picked up when they are viewed
+      const isViewed = state.demoAccount?.openPositions.some(p => (p.id ?? p._id) === positionData.positionId);
+      if (state.demoAccount && isViewed) {
         state.demoAccount.openPositions = state.demoAccount.openPositions.filter(
-          p => p.id !== positionData.positionId
+          p => (p.id ?? p._id) !== positionData.positionId
         );
         state.demoAccount.tradeHistory.push({
           ...positionData,
@@ -205,9 +432,45 @@ const portfolioSlice = createSlice({
           closedAt: new Date().toISOString(),
           closureType
         });
-        state.demoAccount.balance += positionData.pnl;
+        state.demoAccount.balance = balanceAfterClosure(state.demoAccount.balance, positionData);
       }
     },
+    positionPartiallyClosed: (state, action) => {
+      const { positionId, quantity, pnl } = action.payload;
+      state.notifications.takeProfitHit = true;
+      if (state.demoAccount) {
+        const position = state.demoAccount.openPositions.find(p => (p.id ?? p._id) === positionId);
+        if (position) {
+          position.initialQuantity = position.initialQuantity ?? position.quantity;
+          position.quantity -= quantity;
+          position.realizedPnl = (position.realizedPnl || 0) + pnl;
+          state.demoAccount.balance = balanceAfterClosure(state.demoAccount.balance, action.payload);
+        }
+      }
+    },
+    setWorkingOrders: (state, action: PayloadAction<{ userId: string | null; orders: PendingOrder[] }>) => {
+      state.workingOrdersOwner = action.payload.userId;
+      state.workingOrders = action.payload.orders;
+    },
+    placePendingOrder: {
+      reducer: (state, action: PayloadAction<PendingOrder>) => {
+        // Fills into the account being viewed when it was placed
+        state.workingOrders.push({ accountId: state.activeAccountId ?? state.demoAccount?._id, ...action.payload });
+      },
+      prepare: (order: Omit<PendingOrder, 'id' | 'createdAt'>) => ({
+        payload: { ...order, id: nanoid(), createdAt: new Date().toISOString() },
+      }),
+    },
+    modifyPendingOrder: (state, action: PayloadAction<{ id: string; changes: Partial<Omit<PendingOrder, 'id'>> }>) => {
+      const order = state.workingOrders.find(o => o.id === action.payload.id);
+      if (order) Object.assign(order, action.payload.changes);
+    },
+    updateFillModel: (state, action: PayloadAction<FillModelSettings>) => {
+      state.fillModel = action.payload;
+    },
+    cancelPendingOrder: (state, action: PayloadAction<string>) => {
+      state.workingOrders = state.workingOrders.filter(o => o.id !== action.payload);
+    },
     startPositionMonitoring: (state) => { state.positionMonitoring.active = true; state.positionMonitoring.lastCheck = new Date().toISOString(); },
     stopPositionMonitoring: (state) => { state.positionMonitoring.active = false; },
     updatePositionMonitoring: (state, action) => {
@@ -221,36 +484,178 @@ const portfolioSlice = createSlice({
   extraReducers: (builder) => {
     builder
       .addCase(fetchPortfolio.pending, (state) => { state.loading = true; state.error = null; })
-      .addCase(fetchPortfolio.fulfilled, (state, action) => { state.loading = false; state.demoAccount = action.payload; state.lastUpdate = new Date().toISOString(); })
-      .addCase(fetchPortfolio.rejected, (state, action) => { state.loading = false; state.error = action.payload as string; });
+      .addCase(fetchPortfolio.fulfilled, (state, action) => {
+        state.loading = false;
+        state.demoAccount = null;
+        applyAccount(state, action.payload);
+      })
+      .addCase(fetchPortfolio.rejected, (state, action) => { state.loading = false; state.error = action.payload as string; })
+      .addCase(fillPendingOrder.pending, (state, action) => {
+        // Out of the book as soon as it triggers so it cannot fill twice
+        state.workingOrders = state.workingOrders.filter(o => o.id !== action.meta.arg.order.id);
+      })
+      .addCase(fillPendingOrder.rejected, (state, action) => {
+        // Back on the book, held until the user retries, modifies or cancels it
+        const { order } = action.meta.arg;
+        if (state.workingOrders.some(o => o.id === order.id)) return;
+        const error = typeof action.payload === 'string' ? action.payload : action.error.message;
+        state.workingOrders.push({ ...order, fillError: error || 'Could not open the position' });
+      })
+      .addCase(openDemoPosition.fulfilled, (state, action) => applyAccount(state, action.payload))
+      .addCase(updatePositionExitPlan.fulfilled, (state, action) => applyAccount(state, action.payload))
+      .addCase(closeDemoPosition.fulfilled, (state, action) => applyAccount(state, action.payload))
+      .addCase(closeAllDemoPositions.fulfilled, (state, action) => applyAccount(state, action.payload))
+      .addCase(fetchDemoAccounts.fulfilled, (state, action) => { state.accounts = action.payload; })
+      .addCase(addDemoAccount.fulfilled, (state, action) => { state.accounts.push(action.payload); })
+      .addCase(deleteDemoAccount.fulfilled, (state, action) => {
+        state.accounts = state.accounts.filter(a => a._id !== action.payload);
+        if (state.activeAccountId === action.payload) {
+          state.activeAccountId = null;
+          state.demoAccount = null;
+        }
+      });
     // ... other extraReducers unchanged ...
   },
 });
 
+// Commissions paid and total trading costs of a position
+export const getPositionCosts = (position: { fees?: Partial<PositionFees> }) => {
+  const fees = position.fees || {};
+  const commissions = (fees.entryCommission || 0) + (fees.exitCommission || 0);
+  return {
+    commissions,
+    total: commissions + (fees.spreadCost || 0) + (fees.slippageCost || 0),
+  };
+};
+
+// Performance of one demo account. Returns are measured against the balance
+// the account started (or was last reset) with.
+export const summarizeAccount = (demoAccount: Pick<DemoAccount, 'balance' | 'startingBalance' | 'openPositions' | 'tradeHistory'>) => {
+  const openPositions = demoAccount.openPositions || [];
+  const closedPositions = demoAccount.tradeHistory || [];
+  const totalWins = closedPositions.filter((p: { pnl: number }) => p.pnl > 0).length;
+  const totalLosses = closedPositions.filter((p: { pnl: number }) => p.pnl < 0).length;
+  const successRate = closedPositions.length ? (totalWins / closedPositions.length) * 100 : 0;
+  const totalTrades = openPositions.length + closedPositions.length;
+  const totalPnL = [...openPositions, ...closedPositions].reduce((sum: number, p: { pnl: number }) => sum + (p.pnl || 0), 0);
+  // pnl is at fill prices: gross adds back spread and slippage, net takes off commissions
+  const costs = [...openPositions, ...closedPositions].map(getPositionCosts);
+  const totalCommissions = costs.reduce((sum, c) => sum + c.commissions, 0);
+  const totalFees = costs.reduce((sum, c) => sum + c.total, 0);
+  const netPnL = totalPnL - totalCommissions;
+  const grossPnL = netPnL + totalFees;
+  const balance = demoAccount.balance ?? 100000;
+  const startingBalance = demoAccount.startingBalance || 100000;
+  const totalReturnPercentage = ((balance - startingBalance) / startingBalance) * 100;
+  const profitFactor = totalLosses > 0
+    ? closedPositions.filter((p: { pnl: number }) => p.pnl > 0).reduce((sum: number, p: { pnl: number }) => sum + p.pnl, 0) /
+      Math.abs(closedPositions.filter((p: { pnl: number }) => p.pnl < 0).reduce((sum: number, p: { pnl: number }) => sum + p.pnl, 0))
+    : 0;
+  const takeProfitHits = closedPositions.filter((p: { closureType?: string }) => p.closureType === 'take_profit_hit').length;
+  const stopLossHits = closedPositions.filter((p: { closureType?: string }) =>
+    p.closureType === 'stop_loss_hit' || p.closureType === 'trailing_stop_hit' || p.closureType === 'breakeven_stop_hit'
+  ).length;
+  const avgHoldingTime = closedPositions.length
+    ? closedPositions.reduce((sum: number, p: { openedAt: string, closedAt?: string }) => {
+        if (p.openedAt && p.closedAt) {
+          return sum + (new Date(p.closedAt).getTime() - new Date(p.openedAt).getTime());
+        }
+        return sum;
+      }, 0) / closedPositions.length / (1000 * 60 * 60) // in hours
+    : 0;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const tradesToday = closedPositions.filter((p: { openedAt: string }) => new Date(p.openedAt) >= today).length;
+
+  return {
+    winRate: successRate,
+    totalTrades,
+    totalProfitLoss: totalPnL,
+    tradesToday,
+    activePositions: openPositions.length,
+    openPositions: openPositions.length,
+    closedPositions: closedPositions.length,
+    balance,
+    startingBalance,
+    totalPnL,
+    grossPnL,
+    netPnL,
+    totalFees,
+    totalReturnPercentage,
+    successRate,
+    profitFactor,
+    takeProfitHits,
+    stopLossHits,
+    avgHoldingTime,
+  };
+};
+
 // Selectors
 export const selectPortfolio = (state: any) => state.portfolio.demoAccount;
+export const selectDemoAccounts = (state: { portfolio: PortfolioState }) => state.portfolio.accounts;
+export const selectActiveAccountId = (state: { portfolio: PortfolioState }) => state.portfolio.activeAccountId;
+// Ids of signals with an open position in any of the user's demo accounts
+export const selectOpenPositionSignalIds = createSelector(
+  [
+    (state: { portfolio: PortfolioState }) => state.portfolio.demoAccount,
+    (state: { portfolio: PortfolioState }) => state.portfolio.accounts,
+  ],
+  (demoAccount, accounts) => {
+    const ids = new Set<string>();
+    [demoAccount, ...accounts].forEach(account => {
+      account?.openPositions.forEach(position => {
+        if (position.signalId) ids.add(position.signalId);
+      });
+    });
+    return ids;
+  }
+);
+// Every demo account of the user, taking the viewed one from the portfolio
+// since closures pushed by the server only update that copy
+export const selectAllDemoAccounts = createSelector(
+  [
+    (state: { portfolio: PortfolioState }) => state.portfolio.demoAccount,
+    (state: { portfolio: PortfolioState }) => state.portfolio.accounts,
+  ],
+  (demoAccount, accounts) => {
+    if (!demoAccount) return accounts;
+    const viewed = accounts.some(account => account._id === demoAccount._id);
+    return viewed
+      ? accounts.map(account => (account._id === demoAccount._id ? demoAccount : account))
+      : [...accounts, demoAccount];
+  }
+);
 export const selectPortfolioStats = createSelector(
   [
     (state: any) => state.portfolio.demoAccount,
     (state: any) => state.portfolio
   ],
   (demoAccount, slice) => {
+    const limits = {
+      maxDailyTrades: slice.maxDailyTrades,
+      maxPositions: slice.maxPositions,
+      minConfidence: slice.minConfidence,
+      maxRisk: slice.maxRisk,
+      maxDrawdown: slice.maxDrawdown,
+    };
+
     if (!demoAccount) {
       return {
+        ...limits,
         winRate: 0,
         totalTrades: 0,
         totalProfitLoss: 0,
         tradesToday: 0,
-        maxDailyTrades: slice.maxDailyTrades,
         activePositions: 0,
-        maxPositions: slice.maxPositions,
-        minConfidence: slice.minConfidence,
-        maxRisk: slice.maxRisk,
-        maxDrawdown: slice.maxDrawdown,
         openPositions: 0,
         closedPositions: 0,
         balance: slice.balance ?? 100000,
+        startingBalance: 100000,
         totalPnL: 0,
+        grossPnL: 0,
+        netPnL: 0,
+        totalFees: 0,
         totalReturnPercentage: 0,
         successRate: 0,
         profitFactor: 0,
@@ -260,56 +665,7 @@ export const selectPortfolioStats = createSelector(
       };
     }
 
-    const openPositions = demoAccount.openPositions || [];
-    const closedPositions = demoAccount.tradeHistory || [];
-    const totalWins = closedPositions.filter((p: { pnl: number }) => p.pnl > 0).length;
-    const totalLosses = closedPositions.filter((p: { pnl: number }) => p.pnl < 0).length;
-    const successRate = closedPositions.length ? (totalWins / closedPositions.length) * 100 : 0;
-    const totalTrades = openPositions.length + closedPositions.length;
-    const totalPnL = [...openPositions, ...closedPositions].reduce((sum: number, p: { pnl: number }) => sum + (p.pnl || 0), 0);
-    const balance = demoAccount.balance ?? 100000;
-    const totalReturnPercentage = ((balance - 100000) / 100000) * 100;
-    const profitFactor = totalLosses > 0
-      ? closedPositions.filter((p: { pnl: number }) => p.pnl > 0).reduce((sum: number, p: { pnl: number }) => sum + p.pnl, 0) /
-        Math.abs(closedPositions.filter((p: { pnl: number }) => p.pnl < 0).reduce((sum: number, p: { pnl: number }) => sum + p.pnl, 0))
-      : 0;
-    const takeProfitHits = closedPositions.filter((p: { closureType?: string }) => p.closureType === 'take_profit_hit').length;
-    const stopLossHits = closedPositions.filter((p: { closureType?: string }) => p.closureType === 'stop_loss_hit').length;
-    const avgHoldingTime = closedPositions.length
-      ? closedPositions.reduce((sum: number, p: { openedAt: string, closedAt?: string }) => {
-          if (p.openedAt && p.closedAt) {
-            return sum + (new Date(p.closedAt).getTime() - new Date(p.openedAt).getTime());
-          }
-          return sum;
-        }, 0) / closedPositions.length / (1000 * 60 * 60) // in hours
-      : 0;
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tradesToday = closedPositions.filter((p: { openedAt: string }) => new Date(p.openedAt) >= today).length;
-
-    return {
-      winRate: successRate,
-      totalTrades,
-      totalProfitLoss: totalPnL,
-      tradesToday,
-      maxDailyTrades: slice.maxDailyTrades,
-      activePositions: openPositions.length,
-      maxPositions: slice.maxPositions,
-      minConfidence: slice.minConfidence,
-      maxRisk: slice.maxRisk,
-      maxDrawdown: slice.maxDrawdown,
-      openPositions: openPositions.length,
-      closedPositions: closedPositions.length,
-      balance,
-      totalPnL,
-      totalReturnPercentage,
-      successRate,
-      profitFactor,
-      takeProfitHits,
-      stopLossHits,
-      avgHoldingTime,
-    };
+    return { ...limits, ...summarizeAccount(demoAccount) };
   }
 );
 
@@ -332,6 +688,8 @@ export const selectPositionsNearStopLoss = (state: any) => {
 };
 
 export const selectPortfolioNotifications = (state: any) => state.portfolio.notifications;
+export const selectWorkingOrders = (state: { portfolio: PortfolioState }) => state.portfolio.workingOrders;
+export const selectWorkingOrdersOwner = (state: { portfolio: PortfolioState }) => state.portfolio.workingOrdersOwner;
 
-export const { updatePortfolio, clearPortfolio, updatePosition, positionClosed, autoPositionClosed, startPositionMonitoring, stopPositionMonitoring, updatePositionMonitoring, clearNotifications } = portfolioSlice.actions;
+export const { updatePortfolio, hydratePortfolio, clearPortfolio, setActiveAccount, updatePosition, positionClosed, autoPositionClosed, positionPartiallyClosed, setWorkingOrders, placePendingOrder, modifyPendingOrder, cancelPendingOrder, updateFillModel, startPositionMonitoring, stopPositionMonitoring, updatePositionMonitoring, clearNotifications } = portfolioSlice.actions;
 export default portfolioSlice.reducer;
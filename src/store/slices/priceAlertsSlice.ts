@@ -0,0 +1,78 @@
+import { createSlice, nanoid, PayloadAction } from '@reduxjs/toolkit';
+import type { PriceAlert } from '../../types';
+
+interface PriceAlertsState {
+  alerts: PriceAlert[];
+  userId: string | null; // Owner of the loaded alerts
+}
+
+export type NewPriceAlert = Omit<PriceAlert, 'id' | 'enabled' | 'createdAt' | 'lastTriggeredAt' | 'triggerCount'>;
+
+// Price alerts are kept per user in local storage
+export const priceAlertsStorageKey = (userId: string) => `priceAlerts:${userId}`;
+
+export const loadPriceAlerts = (userId: string): PriceAlert[] => {
+  try {
+    return JSON.parse(localStorage.getItem(priceAlertsStorageKey(userId)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const initialState: PriceAlertsState = {
+  alerts: [],
+  userId: null,
+};
+
+const priceAlertsSlice = createSlice({
+  name: 'priceAlerts',
+  initialState,
+  reducers: {
+    setPriceAlerts: (state, action: PayloadAction<{ userId: string | null; alerts: PriceAlert[] }>) => {
+      state.userId = action.payload.userId;
+      state.alerts = action.payload.alerts;
+    },
+    addPriceAlert: {
+      reducer: (state, action: PayloadAction<PriceAlert>) => {
+        state.alerts.unshift(action.payload);
+      },
+      prepare: (alert: NewPriceAlert) => ({
+        payload: {
+          ...alert,
+          symbol: alert.symbol.toUpperCase(),
+          id: nanoid(),
+          enabled: true,
+          createdAt: new Date().toISOString(),
+          triggerCount: 0,
+        },
+      }),
+    },
+    updatePriceAlert: (state, action: PayloadAction<{ id: string; changes: Partial<Omit<PriceAlert, 'id'>> }>) => {
+      const alert = state.alerts.find(a => a.id === action.payload.id);
+      if (alert) Object.assign(alert, action.payload.changes);
+    },
+    deletePriceAlert: (state, action: PayloadAction<string>) => {
+      state.alerts = state.alerts.filter(a => a.id !== action.payload);
+    },
+    // One-shot alerts disarm once they fire
+    recordPriceAlertTrigger: (state, action: PayloadAction<{ id: string; at: string }>) => {
+      const alert = state.alerts.find(a => a.id === action.payload.id);
+      if (!alert) return;
+      alert.lastTriggeredAt = action.payload.at;
+      alert.triggerCount += 1;
+      if (alert.mode === 'once') alert.enabled = false;
+    },
+  },
+});
+
+export const selectPriceAlerts = (state: { priceAlerts: PriceAlertsState }) => state.priceAlerts.alerts;
+export const selectPriceAlertsOwner = (state: { priceAlerts: PriceAlertsState }) => state.priceAlerts.userId;
+
+export const {
+  setPriceAlerts,
+  addPriceAlert,
+  updatePriceAlert,
+  deletePriceAlert,
+  recordPriceAlertTrigger,
+} = priceAlertsSlice.actions;
+export default priceAlertsSlice.reducer;
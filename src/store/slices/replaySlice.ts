@@ -0,0 +1,63 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { TradingSignal } from '../../types';
+import { aggregateMarketData, ChartData, MarketData } from './marketSlice';
+
+// A replayed portfolio, notification or error message
+export interface ReplayEvent {
+  type: string;
+  data: any;
+  receivedAt: string;
+}
+
+// What a feed replay delivered. It is kept apart from the live signals,
+// prices and accounts, so nothing a replay does is cached, scored, alerted
+// on or sent to the backend, and it all goes when the replay is discarded.
+interface ReplayState {
+  signals: TradingSignal[];
+  marketData: Record<string, MarketData>;
+  chartData: Record<string, ChartData[]>;
+  events: ReplayEvent[];
+}
+
+const initialState: ReplayState = {
+  signals: [],
+  marketData: {},
+  chartData: {},
+  events: [],
+};
+
+const replaySlice = createSlice({
+  name: 'replay',
+  initialState,
+  reducers: {
+    clearReplay: () => initialState,
+    addReplaySignal: (state, action: PayloadAction<TradingSignal>) => {
+      if (state.signals.some(s => s.id === action.payload.id)) return;
+      state.signals.unshift(action.payload);
+    },
+    updateReplaySignal: (state, action: PayloadAction<TradingSignal>) => {
+      const index = state.signals.findIndex(s => s.id === action.payload.id);
+      if (index !== -1) state.signals[index] = action.payload;
+    },
+    updateReplayMarketData: (state, action: PayloadAction<MarketData>) => {
+      const data = action.payload;
+      aggregateMarketData(state, data, state.marketData[data.symbol]);
+      state.marketData[data.symbol] = data;
+    },
+    addReplayEvent: {
+      reducer: (state, action: PayloadAction<ReplayEvent>) => {
+        state.events.unshift(action.payload);
+      },
+      prepare: ({ type, data }: { type: string; data: any }) => ({
+        payload: { type, data, receivedAt: new Date().toISOString() },
+      }),
+    },
+  },
+});
+
+export const selectReplaySignals = (state: { replay: ReplayState }) => state.replay.signals;
+export const selectReplayMarketData = (state: { replay: ReplayState }) => state.replay.marketData;
+export const selectReplayEvents = (state: { replay: ReplayState }) => state.replay.events;
+
+export const { clearReplay, addReplaySignal, updateReplaySignal, updateReplayMarketData, addReplayEvent } = replaySlice.actions;
+export default replaySlice.reducer;
@@ -0,0 +1,66 @@
+import { createSlice, nanoid, PayloadAction } from '@reduxjs/toolkit';
+import type { SignalFilter, SignalScreener } from '../../types';
+import { normalizeSignalFilter } from '../../utils/signalFilters';
+
+interface ScreenersState {
+  screeners: SignalScreener[];
+  activeScreenerId: string | null;
+  userId: string | null; // Owner of the loaded screeners
+}
+
+// Screeners are kept per user in local storage
+export const screenersStorageKey = (userId: string) => `signalScreeners:${userId}`;
+
+export const loadScreeners = (userId: string): SignalScreener[] => {
+  try {
+    const saved: SignalScreener[] = JSON.parse(localStorage.getItem(screenersStorageKey(userId)) || '[]');
+    return saved.map(screener => ({ ...screener, filter: normalizeSignalFilter(screener.filter) }));
+  } catch {
+    return [];
+  }
+};
+
+const initialState: ScreenersState = {
+  screeners: [],
+  activeScreenerId: null,
+  userId: null,
+};
+
+const screenersSlice = createSlice({
+  name: 'screeners',
+  initialState,
+  reducers: {
+    setScreeners: (state, action: PayloadAction<{ userId: string | null; screeners: SignalScreener[] }>) => {
+      state.userId = action.payload.userId;
+      state.screeners = action.payload.screeners;
+      state.activeScreenerId = null;
+    },
+    saveScreener: {
+      reducer: (state, action: PayloadAction<SignalScreener>) => {
+        state.screeners.push(action.payload);
+        state.activeScreenerId = action.payload.id;
+      },
+      prepare: ({ name, filter, alert = false }: { name: string; filter: SignalFilter; alert?: boolean }) => ({
+        payload: { id: nanoid(), name, filter, alert, createdAt: new Date().toISOString() },
+      }),
+    },
+    updateScreener: (state, action: PayloadAction<{ id: string; changes: Partial<Omit<SignalScreener, 'id'>> }>) => {
+      const screener = state.screeners.find(s => s.id === action.payload.id);
+      if (screener) Object.assign(screener, action.payload.changes);
+    },
+    deleteScreener: (state, action: PayloadAction<string>) => {
+      state.screeners = state.screeners.filter(s => s.id !== action.payload);
+      if (state.activeScreenerId === action.payload) state.activeScreenerId = null;
+    },
+    setActiveScreener: (state, action: PayloadAction<string | null>) => {
+      state.activeScreenerId = action.payload;
+    },
+  },
+});
+
+export const selectScreeners = (state: { screeners: ScreenersState }) => state.screeners.screeners;
+export const selectActiveScreenerId = (state: { screeners: ScreenersState }) => state.screeners.activeScreenerId;
+export const selectScreenersOwner = (state: { screeners: ScreenersState }) => state.screeners.userId;
+
+export const { setScreeners, saveScreener, updateScreener, deleteScreener, setActiveScreener } = screenersSlice.actions;
+export default screenersSlice.reducer;
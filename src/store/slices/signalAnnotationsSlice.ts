@@ -0,0 +1,158 @@
+import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { SignalAnnotation } from '../../types';
+
+interface SignalAnnotationsState {
+  annotations: Record<string, SignalAnnotation>; // By signal id
+  userId: string | null; // Owner of the loaded annotations
+  rollback: Record<string, SignalAnnotation | null>; // Pre-save annotation by save request id
+  error: string | null;
+}
+
+// Annotations are cached per user in local storage, which also carries
+// changes to other open tabs
+export const signalAnnotationsStorageKey = (userId: string) => `signalAnnotations:${userId}`;
+
+export const loadSignalAnnotations = (userId: string): Record<string, SignalAnnotation> => {
+  try {
+    return JSON.parse(localStorage.getItem(signalAnnotationsStorageKey(userId)) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const isEmptyAnnotation = (annotation: Pick<SignalAnnotation, 'starred' | 'note' | 'tags'>) =>
+  !annotation.starred && !annotation.note.trim() && annotation.tags.length === 0;
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+});
+
+const toAnnotation = (raw: any): SignalAnnotation => ({
+  signalId: String(raw.signalId),
+  starred: !!raw.starred,
+  note: raw.note || '',
+  tags: Array.isArray(raw.tags) ? raw.tags : [],
+  updatedAt: raw.updatedAt || new Date().toISOString(),
+});
+
+export const fetchSignalAnnotations = createAsyncThunk(
+  'signalAnnotations/fetch',
+  async (userId: string) => {
+    const response = await fetch(`/api/signals/annotations/${userId}`, { headers: authHeaders() });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch signal annotations');
+    }
+
+    const data = await response.json();
+    return { userId, annotations: (Array.isArray(data) ? data : []).map(toAnnotation) };
+  }
+);
+
+// Applied locally straight away; a failed save restores the previous state
+export const saveSignalAnnotation = createAsyncThunk(
+  'signalAnnotations/save',
+  async (
+    { signalId, changes }: { signalId: string; changes: Partial<Pick<SignalAnnotation, 'starred' | 'note' | 'tags'>> },
+    { getState }
+  ) => {
+    const state = getState() as { signalAnnotations: SignalAnnotationsState };
+    const { userId, annotations } = state.signalAnnotations;
+    if (!userId) {
+      throw new Error('Sign in to annotate signals');
+    }
+
+    // The pending reducer has already merged the changes
+    const annotation = annotations[signalId] ?? { starred: false, note: '', tags: [] };
+    const response = await fetch(`/api/signals/annotations/${userId}/${encodeURIComponent(signalId)}`, {
+      method: 'PUT',
+      headers: authHeaders(),
+      body: JSON.stringify({ starred: annotation.starred, note: annotation.note, tags: annotation.tags }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to save signal annotation');
+    }
+
+    return toAnnotation({ ...(await response.json()), signalId });
+  }
+);
+
+const initialState: SignalAnnotationsState = {
+  annotations: {},
+  userId: null,
+  rollback: {},
+  error: null,
+};
+
+const signalAnnotationsSlice = createSlice({
+  name: 'signalAnnotations',
+  initialState,
+  reducers: {
+    setSignalAnnotations: (
+      state,
+      action: PayloadAction<{ userId: string | null; annotations: Record<string, SignalAnnotation> }>
+    ) => {
+      state.userId = action.payload.userId;
+      state.annotations = action.payload.annotations;
+      state.rollback = {};
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchSignalAnnotations.fulfilled, (state, action) => {
+        // Ignore a response for a user who has since signed out
+        if (action.payload.userId !== state.userId) return;
+        state.annotations = Object.fromEntries(action.payload.annotations.map(a => [a.signalId, a]));
+      })
+      .addCase(fetchSignalAnnotations.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch signal annotations';
+      })
+      .addCase(saveSignalAnnotation.pending, (state, action) => {
+        const { signalId, changes } = action.meta.arg;
+        state.rollback[action.meta.requestId] = state.annotations[signalId] ?? null;
+        const next: SignalAnnotation = {
+          ...(state.annotations[signalId] ?? { signalId, starred: false, note: '', tags: [] }),
+          ...changes,
+          updatedAt: new Date().toISOString(),
+        };
+        if (isEmptyAnnotation(next)) {
+          delete state.annotations[signalId];
+        } else {
+          state.annotations[signalId] = next;
+        }
+        state.error = null;
+      })
+      .addCase(saveSignalAnnotation.fulfilled, (state, action) => {
+        delete state.rollback[action.meta.requestId];
+        const annotation = action.payload;
+        if (isEmptyAnnotation(annotation)) {
+          delete state.annotations[annotation.signalId];
+        } else {
+          state.annotations[annotation.signalId] = annotation;
+        }
+      })
+      .addCase(saveSignalAnnotation.rejected, (state, action) => {
+        const previous = state.rollback[action.meta.requestId];
+        delete state.rollback[action.meta.requestId];
+        if (previous) {
+          state.annotations[action.meta.arg.signalId] = previous;
+        } else if (previous === null) {
+          delete state.annotations[action.meta.arg.signalId];
+        }
+        state.error = action.error.message || 'Failed to save signal annotation';
+      });
+  },
+});
+
+export const selectSignalAnnotations = (state: { signalAnnotations: SignalAnnotationsState }) =>
+  state.signalAnnotations.annotations;
+export const selectSignalAnnotationsOwner = (state: { signalAnnotations: SignalAnnotationsState }) =>
+  state.signalAnnotations.userId;
+export const selectSignalAnnotationsError = (state: { signalAnnotations: SignalAnnotationsState }) =>
+  state.signalAnnotations.error;
+
+export const { setSignalAnnotations } = signalAnnotationsSlice.actions;
+export default signalAnnotationsSlice.reducer;
@@ -1,63 +1,19 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-
-export interface TradingSignal {
-  id: string;
-  symbol: string;
-  type: 'BUY' | 'SELL' | 'HOLD';
-  confidence: number;
-  entryPrice: number;
-  targetPrice: number;
-  stopLoss: number;
-  timeframe: string;
-  market: 'forex' | 'crypto' | 'stocks' | 'commodities';
-  description: string;
-  reasoning: string;
-  technicalIndicators: {
-    rsi?: number;
-    macd?: number;
-    sma?: number;
-    ema?: number;
-    bollinger?: {
-      upper: number;
-      middle: number;
-      lower: number;
-    };
-    // Enterprise ML specific indicators
-    mlPredictions?: any;
-    source?: string;
-    modelUsed?: string;
-  };
-  status: 'active' | 'executed' | 'expired' | 'cancelled';
-  createdAt: string;
-  expiresAt: string;
-  executedAt?: string;
-  executedPrice?: number;
-  currentPrice?: number;
-  pnl?: number;
-  pnlPercentage?: number;
-  tags: string[];
-  source: 'ai' | 'manual' | 'copy_trading' | 'enterprise_ml';
-  accuracy?: number;
-  risk: 'low' | 'medium' | 'high';
-  positionSize?: number;
-  counterfactuals?: Record<string, any>;
-  featureImportance?: Record<string, number>;
-  metadata?: {
-    processingTime?: number;
-    modelsUsed?: string[];
-    latency?: number;
-  };
-}
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import { PendingOrderType, SignalFilter, TradingSignal } from '../../types';
+import { ingestSignal, ingestSignals } from '../../services/signalIngestion';
+import { fillPendingOrder, placePendingOrder } from './portfolioSlice';
+import { selectSignalAnnotations } from './signalAnnotationsSlice';
+import {
+  aggregateOutcomes,
+  getSignalModels,
+  isResolved,
+  OutcomeGroupStats,
+  SignalOutcome,
+} from '../../utils/signalOutcomes';
+import { EMPTY_SIGNAL_FILTER, matchesSignalFilter } from '../../utils/signalFilters';
+import { buildSignalConsensus } from '../../utils/signalConsensus';
 
-export interface SignalFilter {
-  markets: string[];
-  types: string[];
-  confidence: [number, number];
-  risk: string[];
-  status: string[];
-  timeframes: string[];
-  symbols: string[];
-}
+export type { TradingSignal, SignalFilter };
 
 export interface SignalStats {
   total: number;
@@ -66,19 +22,28 @@ export interface SignalStats {
   expired: number;
   winRate: number;
   avgConfidence: number;
-  totalPnl: number;
+  totalPnl: number; // Sum of resolved outcome returns, %
   bestSignal: TradingSignal | null;
   worstSignal: TradingSignal | null;
   byMarket: Record<string, number>;
   byTimeframe: Record<string, number>;
+  // One entry per day signals resolved on; pnl is the day's summed return, %
   recentPerformance: {
     date: string;
     signals: number;
     winRate: number;
     pnl: number;
   }[];
+  accuracy: {
+    byModel: OutcomeGroupStats[];
+    bySource: OutcomeGroupStats[];
+    byMarket: OutcomeGroupStats[];
+    byTimeframe: OutcomeGroupStats[];
+  };
 }
 
+export type SignalStatsTimeframe = '7d' | '30d' | '90d' | '1y';
+
 interface SignalsState {
   // Signals data
   signals: TradingSignal[];
@@ -93,14 +58,24 @@ interface SignalsState {
   
   // Statistics
   stats: SignalStats;
+  statsTimeframe: SignalStatsTimeframe;
+  outcomes: Record<string, SignalOutcome>; // By signal id
   
   // UI state
   selectedSignal: TradingSignal | null;
   viewMode: 'list' | 'grid' | 'chart';
   
+  // Cursor for the next (older) page of signals
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+    pagedOlder: boolean; // An older page was fetched this session, so the cursor is past the loaded signals
+  };
+
   // Loading states
   loading: {
     signals: boolean;
+    moreSignals: boolean;
     stats: boolean;
     executing: boolean;
   };
@@ -117,19 +92,23 @@ interface SignalsState {
   isConnected: boolean;
 }
 
+export const SIGNAL_OUTCOMES_STORAGE_KEY = 'signalOutcomes';
+
+const loadSignalOutcomes = (): Record<string, SignalOutcome> => {
+  try {
+    return JSON.parse(localStorage.getItem(SIGNAL_OUTCOMES_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const EMPTY_ACCURACY: SignalStats['accuracy'] = { byModel: [], bySource: [], byMarket: [], byTimeframe: [] };
+
 const initialState: SignalsState = {
   signals: [],
   activeSignals: [],
   signalHistory: [],
-  filters: {
-    markets: [],
-    types: [],
-    confidence: [0, 100],
-    risk: [],
-    status: [],
-    timeframes: [],
-    symbols: [],
-  },
+  filters: EMPTY_SIGNAL_FILTER,
   sortBy: 'createdAt',
   sortOrder: 'desc',
   searchQuery: '',
@@ -146,11 +125,20 @@ const initialState: SignalsState = {
     byMarket: {},
     byTimeframe: {},
     recentPerformance: [],
+    accuracy: EMPTY_ACCURACY,
   },
+  statsTimeframe: '30d',
+  outcomes: loadSignalOutcomes(),
   selectedSignal: null,
   viewMode: 'list',
+  pagination: {
+    nextCursor: null,
+    hasMore: false,
+    pagedOlder: false,
+  },
   loading: {
     signals: false,
+    moreSignals: false,
     stats: false,
     executing: false,
   },
@@ -166,11 +154,12 @@ const initialState: SignalsState = {
 // Async thunks
 export const fetchSignals = createAsyncThunk(
   'signals/fetchSignals',
-  async (params?: { limit?: number; status?: string; market?: string }) => {
+  async (params?: { limit?: number; status?: string; market?: string; cursor?: string }) => {
     const queryParams = new URLSearchParams();
     if (params?.limit) queryParams.append('limit', params.limit.toString());
     if (params?.status) queryParams.append('status', params.status);
     if (params?.market) queryParams.append('market', params.market);
+    if (params?.cursor) queryParams.append('cursor', params.cursor);
     
     const response = await fetch(`/api/signals?${queryParams.toString()}`, {
       headers: {
@@ -182,34 +171,137 @@ export const fetchSignals = createAsyncThunk(
       throw new Error('Failed to fetch signals');
     }
     
-    return response.json();
+    const data = await response.json();
+    return {
+      signals: ingestSignals(Array.isArray(data) ? data : data?.signals, 'rest'),
+      nextCursor: (Array.isArray(data) ? null : data?.nextCursor) ?? null,
+      hasMore: !Array.isArray(data) && !!data?.hasMore,
+    };
   }
 );
 
-export const fetchSignalStats = createAsyncThunk(
-  'signals/fetchStats',
-  async (timeframe: '7d' | '30d' | '90d' | '1y' = '30d') => {
-    const response = await fetch(`/api/signals/stats?timeframe=${timeframe}`, {
+// Loads one signal regardless of status, e.g. when opening a shared link
+export const fetchSignalById = createAsyncThunk(
+  'signals/fetchSignalById',
+  async (signalId: string) => {
+    const response = await fetch(`/api/signals/${signalId}`, {
       headers: {
         'Authorization': `Bearer ${localStorage.getItem('token')}`,
       },
     });
-    
+
     if (!response.ok) {
-      throw new Error('Failed to fetch signal statistics');
+      throw new Error(response.status === 404 ? 'Signal not found' : 'Failed to fetch signal');
     }
-    
-    return response.json();
+
+    const signal = ingestSignal(await response.json(), 'rest');
+    if (!signal) {
+      throw new Error('Signal data is invalid');
+    }
+    return signal;
+  }
+);
+
+const STATS_TIMEFRAME_DAYS: Record<SignalStatsTimeframe, number> = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
+
+// Statistics of the signals created in the period, scored by their outcomes
+export const computeSignalStats = (
+  allSignals: TradingSignal[],
+  outcomes: Record<string, SignalOutcome>,
+  timeframe: SignalStatsTimeframe,
+  now: number = Date.now()
+): SignalStats => {
+  const since = now - STATS_TIMEFRAME_DAYS[timeframe] * 24 * 60 * 60 * 1000;
+  const signals = allSignals.filter(signal => new Date(signal.createdAt).getTime() >= since);
+  const resolved = signals.filter(signal => isResolved(outcomes[signal.id]));
+  const returnOf = (signal: TradingSignal) => outcomes[signal.id].returnPercentage;
+  const countBy = (getKey: (signal: TradingSignal) => string) => signals.reduce<Record<string, number>>((counts, signal) => {
+    const key = getKey(signal);
+    counts[key] = (counts[key] || 0) + 1;
+    return counts;
+  }, {});
+
+  const byDay: Record<string, number[]> = {};
+  resolved.forEach(signal => {
+    const date = (outcomes[signal.id].resolvedAt || outcomes[signal.id].evaluatedAt).slice(0, 10);
+    (byDay[date] = byDay[date] || []).push(returnOf(signal));
+  });
+
+  const ranked = [...resolved].sort((a, b) => returnOf(b) - returnOf(a));
+
+  return {
+    total: signals.length,
+    active: signals.filter(signal => signal.status === 'active').length,
+    executed: signals.filter(signal => signal.status === 'executed').length,
+    expired: signals.filter(signal => signal.status === 'expired').length,
+    winRate: resolved.length ? (resolved.filter(signal => returnOf(signal) > 0).length / resolved.length) * 100 : 0,
+    avgConfidence: signals.length ? signals.reduce((sum, signal) => sum + signal.confidence, 0) / signals.length : 0,
+    totalPnl: resolved.reduce((sum, signal) => sum + returnOf(signal), 0),
+    bestSignal: ranked[0] ?? null,
+    worstSignal: ranked[ranked.length - 1] ?? null,
+    byMarket: countBy(signal => signal.market),
+    byTimeframe: countBy(signal => signal.timeframe),
+    recentPerformance: Object.entries(byDay)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, returns]) => ({
+        date,
+        signals: returns.length,
+        winRate: (returns.filter(r => r > 0).length / returns.length) * 100,
+        pnl: returns.reduce((sum, r) => sum + r, 0),
+      })),
+    accuracy: {
+      byModel: aggregateOutcomes(signals, outcomes, getSignalModels),
+      bySource: aggregateOutcomes(signals, outcomes, signal => [signal.source]),
+      byMarket: aggregateOutcomes(signals, outcomes, signal => [signal.market]),
+      byTimeframe: aggregateOutcomes(signals, outcomes, signal => [signal.timeframe]),
+    },
+  };
+};
+
+// Computed from the loaded signals and their tracked outcomes rather than
+// server-reported numbers
+export const fetchSignalStats = createAsyncThunk(
+  'signals/fetchStats',
+  async (timeframe: SignalStatsTimeframe = '30d', { getState }) => {
+    const { signals, outcomes } = (getState() as { signals: SignalsState }).signals;
+    return computeSignalStats(signals, outcomes, timeframe);
   }
 );
 
 export const executeSignal = createAsyncThunk(
   'signals/executeSignal',
-  async ({ signalId, quantity, customPrice }: { 
+  async ({ signalId, quantity, customPrice, orderType = 'market' }: { 
     signalId: string; 
     quantity: number; 
     customPrice?: number; 
-  }) => {
+    orderType?: 'market' | PendingOrderType;
+  }, { getState, dispatch }) => {
+    // Pending orders wait in the demo account's working orders until price reaches them
+    if (orderType !== 'market') {
+      const { signals } = (getState() as { signals: SignalsState }).signals;
+      const signal = signals.find(s => s.id === signalId);
+      if (!signal) {
+        throw new Error('Signal not found');
+      }
+      if (signal.type === 'HOLD') {
+        throw new Error('HOLD signals cannot be executed');
+      }
+      const { payload: order } = dispatch(placePendingOrder({
+        symbol: signal.symbol,
+        market: signal.market,
+        side: signal.type,
+        orderType,
+        price: customPrice ?? signal.entryPrice,
+        quantity,
+        takeProfit: signal.targetPrice || undefined,
+        stopLoss: signal.stopLoss || undefined,
+        signalId: signal.id,
+        timeframe: signal.timeframe,
+        expiresAt: signal.expiresAt,
+      }));
+      return { signalId, pendingOrder: order };
+    }
+
     const response = await fetch(`/api/signals/${signalId}/execute`, {
       method: 'POST',
       headers: {
@@ -227,6 +319,7 @@ export const executeSignal = createAsyncThunk(
   }
 );
 
+// Publishes an analyst's own call; the backend validates the levels again
 export const createCustomSignal = createAsyncThunk(
   'signals/createCustomSignal',
   async (signalData: Omit<TradingSignal, 'id' | 'createdAt' | 'status' | 'source'>) => {
@@ -236,14 +329,19 @@ export const createCustomSignal = createAsyncThunk(
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${localStorage.getItem('token')}`,
       },
-      body: JSON.stringify(signalData),
+      body: JSON.stringify({ ...signalData, source: 'manual' }),
     });
     
     if (!response.ok) {
-      throw new Error('Failed to create custom signal');
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || 'Failed to create custom signal');
     }
     
-    return response.json();
+    const signal = ingestSignal(await response.json(), 'rest');
+    if (!signal) {
+      throw new Error('Signal data is invalid');
+    }
+    return signal;
   }
 );
 
@@ -263,10 +361,27 @@ export const updateSignalStatus = createAsyncThunk(
       throw new Error('Failed to update signal status');
     }
     
-    return response.json();
+    const signal = ingestSignal(await response.json(), 'rest');
+    if (!signal) {
+      throw new Error('Signal data is invalid');
+    }
+    return signal;
   }
 );
 
+// Active and history lists are views of `signals` split by status
+const splitByStatus = (state: SignalsState) => {
+  state.activeSignals = state.signals.filter(s => s.status === 'active');
+  state.signalHistory = state.signals.filter(s => s.status !== 'active');
+};
+
+// Of two copies of a signal, the one changed last wins; the incoming copy on a tie
+const reconcileSignal = (local: TradingSignal | undefined, incoming: TradingSignal): TradingSignal => {
+  if (!local) return incoming;
+  const changedAt = (signal: TradingSignal) => Date.parse(signal.updatedAt ?? signal.createdAt) || 0;
+  return changedAt(local) > changedAt(incoming) ? local : incoming;
+};
+
 const signalsSlice = createSlice({
   name: 'signals',
   initialState,
@@ -274,6 +389,8 @@ const signalsSlice = createSlice({
     // Real-time signal updates
     addSignal: (state, action: PayloadAction<TradingSignal>) => {
       const signal = action.payload;
+      // Reconnects replay active signals, and our own publishes echo back
+      if (state.signals.some(s => s.id === signal.id)) return;
       state.signals.unshift(signal);
       
       if (signal.status === 'active') {
@@ -311,6 +428,34 @@ const signalsSlice = createSlice({
       state.lastUpdate = Date.now();
     },
     
+    // Marks signals past their expiry as expired ahead of the backend
+    expireSignals: (state, action: PayloadAction<string[]>) => {
+      const ids = new Set(action.payload);
+      const now = new Date().toISOString();
+      state.signals.forEach(signal => {
+        if (ids.has(signal.id) && signal.status === 'active') {
+          signal.status = 'expired';
+          signal.updatedAt = now;
+        }
+      });
+      if (state.selectedSignal && ids.has(state.selectedSignal.id) && state.selectedSignal.status === 'active') {
+        state.selectedSignal.status = 'expired';
+      }
+      splitByStatus(state);
+    },
+
+    // Signals cached from a previous session, merged with any already loaded
+    hydrateSignals: (state, action: PayloadAction<TradingSignal[]>) => {
+      const byId = new Map(state.signals.map(s => [s.id, s]));
+      action.payload.forEach(cached => {
+        const loaded = byId.get(cached.id);
+        byId.set(cached.id, loaded ? reconcileSignal(cached, loaded) : cached);
+      });
+      state.signals = Array.from(byId.values())
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      splitByStatus(state);
+    },
+
     removeSignal: (state, action: PayloadAction<string>) => {
       const signalId = action.payload;
       state.signals = state.signals.filter(s => s.id !== signalId);
@@ -379,31 +524,78 @@ const signalsSlice = createSlice({
       });
     },
     
+    // Outcomes from the evaluator; resolved outcomes are final
+    recordSignalOutcomes: (state, action: PayloadAction<SignalOutcome[]>) => {
+      action.payload.forEach(outcome => {
+        state.outcomes[outcome.signalId] = outcome;
+        const signal = state.signals.find(s => s.id === outcome.signalId);
+        if (signal) signal.pnlPercentage = outcome.returnPercentage;
+      });
+    },
+    
     // Reset state
     resetSignalsState: () => initialState,
   },
   extraReducers: (builder) => {
     // Fetch signals
     builder
-      .addCase(fetchSignals.pending, (state) => {
-        state.loading.signals = true;
+      .addCase(fetchSignals.pending, (state, action) => {
+        if (action.meta.arg?.cursor) {
+          state.loading.moreSignals = true;
+        } else {
+          state.loading.signals = true;
+        }
         state.error.signals = null;
       })
       .addCase(fetchSignals.fulfilled, (state, action) => {
-        state.loading.signals = false;
-        state.signals = action.payload.signals || action.payload;
-        state.activeSignals = state.signals.filter(s => s.status === 'active');
-        state.signalHistory = state.signals.filter(s => s.status !== 'active');
+        const { nextCursor, hasMore } = action.payload;
+        // Local changes the server hasn't seen yet, e.g. an offline expiry, survive
+        const local = new Map(state.signals.map(s => [s.id, s]));
+        const signals = action.payload.signals.map(signal => reconcileSignal(local.get(signal.id), signal));
+        if (action.meta.arg?.cursor) {
+          // Older page: append what isn't loaded yet
+          state.loading.moreSignals = false;
+          const loaded = new Set(state.signals.map(s => s.id));
+          state.signals.push(...signals.filter(s => !loaded.has(s.id)));
+          state.pagination = { nextCursor, hasMore, pagedOlder: true };
+        } else {
+          // First page refreshed: it replaces everything in its time range,
+          // while older signals already loaded are kept. Their cursor is kept
+          // too if they were paged in; cached ones from a previous session
+          // page on from the first page, and duplicates are skipped.
+          state.loading.signals = false;
+          const oldest = signals.length ? Math.min(...signals.map(s => new Date(s.createdAt).getTime())) : Infinity;
+          const olderLoaded = hasMore
+            ? state.signals.filter(s => new Date(s.createdAt).getTime() < oldest)
+            : [];
+          state.signals = [...signals, ...olderLoaded];
+          if (olderLoaded.length === 0 || !state.pagination.pagedOlder) {
+            state.pagination = { nextCursor, hasMore, pagedOlder: false };
+          }
+        }
+        splitByStatus(state);
         state.lastUpdate = Date.now();
       })
       .addCase(fetchSignals.rejected, (state, action) => {
         state.loading.signals = false;
+        state.loading.moreSignals = false;
         state.error.signals = action.error.message || 'Failed to fetch signals';
+      })
+      .addCase(fetchSignalById.fulfilled, (state, action) => {
+        const signal = action.payload;
+        const index = state.signals.findIndex(s => s.id === signal.id);
+        if (index === -1) {
+          state.signals.push(signal);
+        } else {
+          state.signals[index] = signal;
+        }
+        state.selectedSignal = signal;
       });
     
     // Fetch signal stats
     builder
-      .addCase(fetchSignalStats.pending, (state) => {
+      .addCase(fetchSignalStats.pending, (state, action) => {
+        state.statsTimeframe = action.meta.arg;
         state.loading.stats = true;
         state.error.stats = null;
       })
@@ -424,6 +616,8 @@ const signalsSlice = createSlice({
       })
       .addCase(executeSignal.fulfilled, (state, action) => {
         state.loading.executing = false;
+        // The signal stays active until its pending order fills
+        if (action.payload.pendingOrder) return;
         const { signalId, executionData } = action.payload;
         
         // Update the executed signal
@@ -443,6 +637,16 @@ const signalsSlice = createSlice({
       .addCase(executeSignal.rejected, (state, action) => {
         state.loading.executing = false;
         state.error.executing = action.error.message || 'Failed to execute signal';
+      })
+      .addCase(fillPendingOrder.fulfilled, (state, action) => {
+        const { order, price } = action.meta.arg;
+        const signal = state.signals.find(s => s.id === order.signalId);
+        if (signal) {
+          signal.status = 'executed';
+          signal.executedAt = new Date().toISOString();
+          signal.executedPrice = price;
+          state.activeSignals = state.activeSignals.filter(s => s.id !== signal.id);
+        }
       });
     
     // Create custom signal
@@ -454,6 +658,7 @@ const signalsSlice = createSlice({
       .addCase(createCustomSignal.fulfilled, (state, action) => {
         state.loading.signals = false;
         const newSignal = action.payload;
+        if (state.signals.some(s => s.id === newSignal.id)) return;
         state.signals.unshift(newSignal);
         if (newSignal.status === 'active') {
           state.activeSignals.unshift(newSignal);
@@ -464,36 +669,20 @@ const signalsSlice = createSlice({
         state.error.signals = action.error.message || 'Failed to create custom signal';
       });
     
-    // Update signal status
+    // Update signal status. Runs in the background, e.g. on expiry, so it
+    // leaves the list's loading and error state alone.
     builder
-      .addCase(updateSignalStatus.pending, (state) => {
-        state.loading.signals = true;
-        state.error.signals = null;
-      })
       .addCase(updateSignalStatus.fulfilled, (state, action) => {
-        state.loading.signals = false;
         const updatedSignal = action.payload;
         const signalIndex = state.signals.findIndex(s => s.id === updatedSignal.id);
         
         if (signalIndex !== -1) {
           state.signals[signalIndex] = updatedSignal;
-          
-          // Update active signals array
-          const activeIndex = state.activeSignals.findIndex(s => s.id === updatedSignal.id);
-          if (updatedSignal.status === 'active') {
-            if (activeIndex === -1) {
-              state.activeSignals.push(updatedSignal);
-            } else {
-              state.activeSignals[activeIndex] = updatedSignal;
-            }
-          } else if (activeIndex !== -1) {
-            state.activeSignals.splice(activeIndex, 1);
-          }
+          splitByStatus(state);
+        }
+        if (state.selectedSignal?.id === updatedSignal.id) {
+          state.selectedSignal = updatedSignal;
         }
-      })
-      .addCase(updateSignalStatus.rejected, (state, action) => {
-        state.loading.signals = false;
-        state.error.signals = action.error.message || 'Failed to update signal status';
       });
   },
 });
@@ -501,6 +690,8 @@ const signalsSlice = createSlice({
 export const {
   addSignal,
   updateSignal,
+  expireSignals,
+  hydrateSignals,
   removeSignal,
   setFilters,
   clearFilters,
@@ -513,6 +704,7 @@ export const {
   clearError,
   clearAllErrors,
   markSignalsAsRead,
+  recordSignalOutcomes,
   resetSignalsState,
 } = signalsSlice.actions;
 
@@ -522,6 +714,8 @@ export const selectAllSignals = (state: { signals: SignalsState }) => state.sign
 export const selectActiveSignals = (state: { signals: SignalsState }) => state.signals.activeSignals;
 export const selectSignalHistory = (state: { signals: SignalsState }) => state.signals.signalHistory;
 export const selectSignalStats = (state: { signals: SignalsState }) => state.signals.stats;
+export const selectSignalStatsTimeframe = (state: { signals: SignalsState }) => state.signals.statsTimeframe;
+export const selectSignalOutcomes = (state: { signals: SignalsState }) => state.signals.outcomes;
 export const selectSelectedSignal = (state: { signals: SignalsState }) => state.signals.selectedSignal;
 export const selectSignalFilters = (state: { signals: SignalsState }) => state.signals.filters;
 export const selectSignalLoading = (state: { signals: SignalsState }) => state.signals.loading;
@@ -532,95 +726,40 @@ export const selectSignalSorting = (state: { signals: SignalsState }) => ({
   sortOrder: state.signals.sortOrder,
 });
 
-// Complex selectors
-export const selectFilteredSignals = (state: { signals: SignalsState }) => {
-  const { signals, filters, searchQuery, sortBy, sortOrder } = state.signals;
-  
-  let filteredSignals = signals.filter(signal => {
-    // Market filter
-    if (filters.markets.length > 0 && !filters.markets.includes(signal.market)) {
-      return false;
-    }
-    
-    // Type filter
-    if (filters.types.length > 0 && !filters.types.includes(signal.type)) {
-      return false;
-    }
-    
-    // Confidence filter
-    if (signal.confidence < filters.confidence[0] || signal.confidence > filters.confidence[1]) {
-      return false;
-    }
-    
-    // Risk filter
-    if (filters.risk.length > 0 && !filters.risk.includes(signal.risk)) {
-      return false;
-    }
-    
-    // Status filter
-    if (filters.status.length > 0 && !filters.status.includes(signal.status)) {
-      return false;
-    }
-    
-    // Timeframe filter
-    if (filters.timeframes.length > 0 && !filters.timeframes.includes(signal.timeframe)) {
-      return false;
-    }
-    
-    // Symbol filter
-    if (filters.symbols.length > 0 && !filters.symbols.includes(signal.symbol)) {
-      return false;
-    }
-    
-    // Search query
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      return (
-        signal.symbol.toLowerCase().includes(query) ||
-        signal.description.toLowerCase().includes(query) ||
-        signal.reasoning.toLowerCase().includes(query) ||
-        signal.tags.some(tag => tag.toLowerCase().includes(query))
-      );
-    }
-    
-    return true;
-  });
-  
-  // Sort signals
-  filteredSignals.sort((a, b) => {
-    let aValue: any, bValue: any;
-    
-    switch (sortBy) {
-      case 'createdAt':
-        aValue = new Date(a.createdAt).getTime();
-        bValue = new Date(b.createdAt).getTime();
-        break;
-      case 'confidence':
-        aValue = a.confidence;
-        bValue = b.confidence;
-        break;
-      case 'pnl':
-        aValue = a.pnl || 0;
-        bValue = b.pnl || 0;
-        break;
-      case 'symbol':
-        aValue = a.symbol;
-        bValue = b.symbol;
-        break;
-      default:
-        return 0;
-    }
-    
-    if (sortOrder === 'asc') {
-      return aValue > bValue ? 1 : -1;
-    } else {
-      return aValue < bValue ? 1 : -1;
-    }
-  });
-  
-  return filteredSignals;
+export const selectSignalSearchQuery = (state: { signals: SignalsState }) => state.signals.searchQuery;
+export const selectSignalPagination = (state: { signals: SignalsState }) => state.signals.pagination;
+const selectSortBy = (state: { signals: SignalsState }) => state.signals.sortBy;
+const selectSortOrder = (state: { signals: SignalsState }) => state.signals.sortOrder;
+
+const SORT_VALUES: Record<SignalsState['sortBy'], (signal: TradingSignal) => number | string> = {
+  createdAt: signal => new Date(signal.createdAt).getTime(),
+  confidence: signal => signal.confidence,
+  pnl: signal => signal.pnl || 0,
+  symbol: signal => signal.symbol,
 };
 
+// Complex selectors. Filtering and sorting are separate steps so changing the
+// sort order does not re-run the filter over every loaded signal.
+const selectMatchingSignals = createSelector(
+  [selectAllSignals, selectSignalFilters, selectSignalSearchQuery, selectSignalAnnotations],
+  (signals, filters, searchQuery, annotations) =>
+    signals.filter(signal => matchesSignalFilter(signal, filters, searchQuery, annotations[signal.id]))
+);
+
+export const selectFilteredSignals = createSelector(
+  [selectMatchingSignals, selectSortBy, selectSortOrder],
+  (signals, sortBy, sortOrder) => {
+    const valueOf = SORT_VALUES[sortBy];
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    return [...signals].sort((a, b) => {
+      const aValue = valueOf(a);
+      const bValue = valueOf(b);
+      if (aValue === bValue) return 0;
+      return aValue > bValue ? direction : -direction;
+    });
+  }
+);
+
 export const selectSignalsByMarket = (market: string) => (state: { signals: SignalsState }) => {
   return state.signals.signals.filter(signal => signal.market === market);
 };
@@ -650,27 +789,43 @@ export const selectProfitableSignals = (state: { signals: SignalsState }) => {
   );
 };
 
-export const selectSignalPerformanceByMarket = (state: { signals: SignalsState }) => {
-  const { signals } = state.signals;
-  const performance: Record<string, { total: number; profitable: number; totalPnl: number }> = {};
+// Groups signal outcomes by a key. `resolved` counts signals with a tracked
+// outcome or a known P&L, so callers needing a true hit rate can use
+// profitable / resolved.
+const summarizePerformance = (
+  signals: TradingSignal[],
+  outcomes: Record<string, SignalOutcome>,
+  getKey: (signal: TradingSignal) => string
+) => {
+  const performance: Record<string, { total: number; resolved: number; profitable: number; totalPnl: number }> = {};
   
   signals.forEach(signal => {
-    if (!performance[signal.market]) {
-      performance[signal.market] = { total: 0, profitable: 0, totalPnl: 0 };
+    const key = getKey(signal);
+    if (!performance[key]) {
+      performance[key] = { total: 0, resolved: 0, profitable: 0, totalPnl: 0 };
     }
     
-    performance[signal.market].total++;
-    if (signal.pnl !== undefined) {
-      performance[signal.market].totalPnl += signal.pnl;
+    performance[key].total++;
+    const outcome = outcomes[signal.id];
+    if (isResolved(outcome)) {
+      performance[key].resolved++;
+      performance[key].totalPnl += signal.pnl || 0;
+      if (outcome.returnPercentage > 0) {
+        performance[key].profitable++;
+      }
+    } else if (signal.pnl !== undefined) {
+      performance[key].resolved++;
+      performance[key].totalPnl += signal.pnl;
       if (signal.pnl > 0) {
-        performance[signal.market].profitable++;
+        performance[key].profitable++;
       }
     }
   });
   
-  return Object.entries(performance).map(([market, data]) => ({
-    market,
+  return Object.entries(performance).map(([key, data]) => ({
+    key,
     total: data.total,
+    resolved: data.resolved,
     profitable: data.profitable,
     winRate: data.total > 0 ? (data.profitable / data.total) * 100 : 0,
     totalPnl: data.totalPnl,
@@ -678,6 +833,14 @@ export const selectSignalPerformanceByMarket = (state: { signals: SignalsState }
   }));
 };
 
+export const selectSignalPerformanceByMarket = (state: { signals: SignalsState }) =>
+  summarizePerformance(state.signals.signals, state.signals.outcomes, signal => signal.market)
+    .map(({ key, ...data }) => ({ market: key, ...data }));
+
+export const selectSignalPerformanceBySymbol = (state: { signals: SignalsState }) =>
+  summarizePerformance(state.signals.signals, state.signals.outcomes, signal => signal.symbol)
+    .map(({ key, ...data }) => ({ symbol: key, ...data }));
+
 export const selectTodaysSignals = (state: { signals: SignalsState }) => {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -688,17 +851,27 @@ export const selectTodaysSignals = (state: { signals: SignalsState }) => {
   );
 };
 
-export const selectSignalTags = (state: { signals: SignalsState }) => {
-  const allTags = state.signals.signals.flatMap(signal => signal.tags);
-  const tagCounts = allTags.reduce((acc, tag) => {
-    acc[tag] = (acc[tag] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-  
-  return Object.entries(tagCounts)
-    .sort(([, a], [, b]) => b - a)
-    .map(([tag, count]) => ({ tag, count }));
-};
+// Live signals grouped by symbol and timeframe with each source's latest vote
+export const selectSignalConsensus = createSelector([selectAllSignals], signals => buildSignalConsensus(signals));
+
+// Tags from the signals plus the user's own tags on them
+export const selectSignalTags = createSelector(
+  [selectAllSignals, selectSignalAnnotations],
+  (signals, annotations) => {
+    const allTags = [
+      ...signals.flatMap(signal => signal.tags),
+      ...Object.values(annotations).flatMap(annotation => annotation.tags),
+    ];
+    const tagCounts = allTags.reduce((acc, tag) => {
+      acc[tag] = (acc[tag] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    return Object.entries(tagCounts)
+      .sort(([, a], [, b]) => b - a)
+      .map(([tag, count]) => ({ tag, count }));
+  }
+);
 
 // Utility functions for signal analysis
 export const calculateSignalAccuracy = (signals: TradingSignal[]): number => {
@@ -8,7 +8,11 @@ export type TradeType = 'buy' | 'sell';
 export type PositionStatus = 'open' | 'closed';
 export type SignalSource = 'ai' | 'manual' | 'copy_trading' | 'enterprise_ml';
 export type SignalStatus = 'active' | 'executed' | 'expired' | 'cancelled';
+export type MarketType = 'forex' | 'crypto' | 'stocks' | 'commodities';
+export type SignalRisk = 'low' | 'medium' | 'high';
 
+// Canonical signal shape. Payloads from REST, WebSocket and Supabase are
+// normalized into this by utils/signalValidation before reaching the store.
 export interface TradingSignal {
   id: string;
   symbol: string;
@@ -18,7 +22,7 @@ export interface TradingSignal {
   targetPrice: number; // Renamed from takeProfit for consistency
   stopLoss: number;
   timeframe: string;
-  market: 'forex' | 'crypto' | 'stocks' | 'commodities';
+  market: MarketType;
   description: string;
   reasoning: string;
   technicalIndicators?: {
@@ -38,6 +42,7 @@ export interface TradingSignal {
   };
   status: SignalStatus;
   createdAt: string;
+  updatedAt?: string; // Last change, on the server or locally; decides which copy wins
   expiresAt: string;
   executedAt?: string;
   executedPrice?: number;
@@ -47,7 +52,7 @@ export interface TradingSignal {
   tags: string[];
   source: SignalSource;
   accuracy?: number;
-  risk: 'low' | 'medium' | 'high';
+  risk: SignalRisk;
   
   // Enterprise ML specific fields
   positionSize?: number;
@@ -60,6 +65,72 @@ export interface TradingSignal {
   };
 }
 
+// Criteria a signal must meet. Empty lists and the full 0-100 confidence
+// range match everything. Shared by the Signals page and saved screeners.
+export interface SignalFilter {
+  markets: string[];
+  types: string[];
+  confidence: [number, number];
+  risk: string[];
+  status: string[];
+  timeframes: string[];
+  symbols: string[];
+  tags: string[];
+  sources: string[];
+  starred: boolean; // Only signals the user starred
+  hasNotes: boolean; // Only signals the user wrote a note on
+}
+
+// A named, saved signal filter. Armed screeners notify on matching new signals.
+export interface SignalScreener {
+  id: string;
+  name: string;
+  filter: SignalFilter;
+  alert: boolean;
+  createdAt: string;
+}
+
+// A user's own star, note and tags on a signal, kept apart from the signal
+// itself and synced to the backend per user
+export interface SignalAnnotation {
+  signalId: string;
+  starred: boolean;
+  note: string;
+  tags: string[];
+  updatedAt: string;
+}
+
+export type PriceAlertCondition = 'crosses_above' | 'crosses_below' | 'percent_move' | 'near_stop' | 'near_target';
+
+// A user's alert on a symbol's live price. One-shot alerts disarm after they
+// fire; recurring ones fire again each time the condition is met anew.
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  condition: PriceAlertCondition;
+  price?: number; // Level to cross
+  percent?: number; // Size of the move, or distance from the stop or target, in percent
+  windowMinutes?: number; // Period the move must happen within
+  positionId?: string; // Position whose stop or target is watched
+  accountId?: string; // Demo account holding that position
+  mode: 'once' | 'recurring';
+  enabled: boolean;
+  note?: string;
+  createdAt: string;
+  lastTriggeredAt?: string;
+  triggerCount: number;
+}
+
+// Source of last-traded prices for one or more markets. Providers should resolve
+// the symbols they can price and omit the rest rather than returning NaN.
+export interface PriceProvider {
+  id: string;
+  markets: MarketType[];
+  maxBatchSize: number;
+  batchKey?: (symbol: string) => string; // Symbols one request can price together share a key
+  fetchPrices: (symbols: string[], market: MarketType) => Promise<Record<string, number>>;
+}
+
 export interface MarketData {
   symbol: string;
   price: number;
@@ -118,6 +189,62 @@ export interface Position {
   closedAt?: Date;
 }
 
+export type ClosureType =
+  | 'manual'
+  | 'take_profit_hit'
+  | 'stop_loss_hit'
+  | 'trailing_stop_hit'
+  | 'breakeven_stop_hit'
+  | 'partial_take_profit';
+
+// Where the active stop of a demo position currently comes from
+export type StopReason = 'initial' | 'breakeven' | 'trailing';
+
+export interface TrailingStopConfig {
+  mode: 'percent' | 'atr';
+  value: number; // percent of price, or ATR multiple
+  atr?: number;  // ATR at entry for 'atr' mode
+}
+
+export interface TakeProfitLevel {
+  price: number;
+  closePercent: number; // share of the initial quantity
+  filled?: boolean;
+}
+
+// Exit management for a demo position; the server monitor applies it
+export interface ExitPlan {
+  trailing?: TrailingStopConfig;
+  breakevenTriggerPercent?: number;
+  takeProfitLevels?: TakeProfitLevel[];
+}
+
+// Limit orders fill at the level or better; stop-entry orders fill once price
+// breaks through the level
+export type PendingOrderType = 'limit' | 'stop';
+
+// Working entry order for the demo account. The take-profit and stop-loss form
+// an OCO bracket on the position opened by the fill: whichever hits first
+// closes it and the other is dropped.
+export interface PendingOrder {
+  id: string;
+  symbol: string;
+  market: MarketType;
+  side: 'BUY' | 'SELL';
+  orderType: PendingOrderType;
+  price: number;
+  quantity: number;
+  takeProfit?: number;
+  stopLoss?: number;
+  exitPlan?: ExitPlan;
+  signalId?: string;
+  timeframe?: string;
+  accountId?: string; // Demo account it fills into
+  fillError?: string; // Why the last fill failed; the order waits for a retry
+  createdAt: string;
+  expiresAt?: string; // Good till cancelled when missing
+}
+
 export interface PerformanceMetrics {
   totalReturn: number;
   totalReturnPercent: number;
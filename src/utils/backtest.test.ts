@@ -0,0 +1,129 @@
+import type { ChartData } from '../store/slices/marketSlice';
+import type { AutoTradeCriteria } from '../services/autoTradeService';
+import type { TradingSignal } from '../types';
+import { runBacktest } from './backtest';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 2, 12);
+
+// Lets every signal through so each test only exercises the rule it sets
+const criteria: AutoTradeCriteria = {
+  enabled: true,
+  accountId: '',
+  minConfidence: 0,
+  maxRisk: 'high',
+  maxPositions: 10,
+  maxDailyTrades: 100,
+  allowedMarkets: ['crypto'],
+  allowedSymbols: [],
+  positionSize: 10,
+  sizingMode: 'fixed_percent',
+  riskPerTrade: 1,
+  atrPeriod: 14,
+  atrMultiplier: 2,
+  kellyFraction: 0.5,
+  stopLossPercentage: 5,
+  takeProfitPercentage: 10,
+  tradingHours: { start: '00:00', end: '23:59:59', timezone: 'UTC' },
+  excludeWeekends: false,
+  maxDrawdown: 100,
+  maxMarketExposure: {},
+  maxCurrencyExposure: 0,
+  maxPositionsPerSymbol: 0,
+  maxCorrelation: 0,
+  correlationLookback: 100,
+  minConsensusSources: 0,
+  indicatorFilters: [],
+  trailingStopMode: 'off',
+  trailingStopValue: 2,
+  breakevenTriggerPercent: 0,
+  scaleOutPercent: 0,
+  scaleOutAt: 0.5,
+};
+
+const makeSignal = (changes: Partial<TradingSignal>): TradingSignal => ({
+  id: 'signal',
+  symbol: 'BTCUSD',
+  type: 'BUY',
+  confidence: 80,
+  entryPrice: 100,
+  targetPrice: 110,
+  stopLoss: 95,
+  timeframe: '1h',
+  market: 'crypto',
+  description: '',
+  reasoning: '',
+  status: 'executed',
+  createdAt: new Date(START).toISOString(),
+  expiresAt: new Date(START + 24 * HOUR).toISOString(),
+  tags: [],
+  source: 'ai',
+  risk: 'low',
+  ...changes,
+});
+
+const candle = (hour: number, low: number, high: number): ChartData => ({
+  timestamp: START + hour * HOUR,
+  open: low,
+  high,
+  low,
+  close: high,
+  volume: 10,
+});
+
+test('trades compound the balance into the equity curve, win rate and drawdown', () => {
+  const signals = [
+    makeSignal({ id: 'btc' }),
+    makeSignal({
+      id: 'eth',
+      symbol: 'ETHUSD',
+      entryPrice: 50,
+      targetPrice: 60,
+      stopLoss: 45,
+      createdAt: new Date(START + 2 * HOUR).toISOString(),
+    }),
+  ];
+  const chartData = {
+    // Target hit an hour in: 100 units of 10% of 100000 gain 10 each
+    BTCUSD: [candle(0, 99, 101), candle(1, 100, 111)],
+    // Stop hit an hour in: 202 units of 10% of 101000 lose 5 each
+    ETHUSD: [candle(2, 49, 51), candle(3, 44, 50)],
+  };
+
+  const result = runBacktest(signals, chartData, criteria);
+
+  expect(result.trades.map(trade => [trade.signalId, trade.quantity, trade.pnl, trade.exitReason])).toEqual([
+    ['btc', 100, 1000, 'take_profit_hit'],
+    ['eth', 202, -1010, 'stop_loss_hit'],
+  ]);
+  expect(result.equityCurve).toEqual([
+    { timestamp: START, equity: 100000 },
+    { timestamp: START + HOUR, equity: 101000 },
+    { timestamp: START + 3 * HOUR, equity: 99990 },
+  ]);
+  expect(result.finalBalance).toBe(99990);
+  expect(result.winRate).toBe(50);
+  expect(result.maxDrawdown).toBeCloseTo(1);
+});
+
+test('consensus counts the signals that were live when a signal arrived', () => {
+  const chartData = { BTCUSD: [candle(0, 99, 101), candle(1, 100, 111)] };
+  const consensus = { ...criteria, minConsensusSources: 2 };
+  const ai = makeSignal({ id: 'ai' });
+  // Expired by now, but still live an hour later when the AI signal arrived
+  const manual = makeSignal({
+    id: 'manual',
+    source: 'manual',
+    status: 'expired',
+    createdAt: new Date(START - HOUR).toISOString(),
+    expiresAt: new Date(START + 2 * HOUR).toISOString(),
+  });
+
+  const agreed = runBacktest([ai, manual], chartData, consensus);
+  expect(agreed.trades.map(trade => trade.signalId)).toEqual(['ai']);
+  expect(agreed.signalsSkipped).toBe(1);
+
+  const alone = runBacktest([ai], chartData, consensus);
+  expect(alone.trades).toEqual([]);
+  expect(alone.signalsSkipped).toBe(1);
+});
@@ -0,0 +1,279 @@
+// Client-side backtester: replays historical signals against OHLC candles using
+// the same rules auto-trade applies to live signals.
+import { TradingSignal } from '../types';
+import { ChartData } from '../store/slices/marketSlice';
+import { calculateATR } from './indicators';
+import type { AutoTradeCriteria } from '../services/autoTradeService';
+import {
+  calculatePositionSize,
+  checkConsensus,
+  isDailyLossLimitReached,
+  getCorrelationRejection,
+  getCriteriaRejection,
+  getExposureRejection,
+  isWithinTradingHours,
+  resolveExitLevels,
+} from '../services/autoTradeRules';
+
+export type BacktestExitReason = 'take_profit_hit' | 'stop_loss_hit' | 'expired' | 'end_of_data';
+
+export interface BacktestTrade {
+  signalId: string;
+  symbol: string;
+  type: 'BUY' | 'SELL';
+  market: string;
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number;
+  entryTime: number;
+  exitTime: number;
+  pnl: number;
+  pnlPercentage: number;
+  exitReason: BacktestExitReason;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+export interface BacktestResult {
+  initialBalance: number;
+  finalBalance: number;
+  totalPnL: number;
+  totalReturnPercentage: number;
+  winRate: number;
+  maxDrawdown: number; // Percentage from peak
+  sharpeRatio: number; // Annualised from daily equity returns
+  signalsEvaluated: number;
+  signalsSkipped: number;
+  signalsWithoutData: number;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+}
+
+export interface BacktestOptions {
+  initialBalance?: number;
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+const simulateExit = (
+  signal: TradingSignal,
+  entryTime: number,
+  candles: ChartData[],
+  stopLoss: number,
+  targetPrice: number
+): { exitPrice: number; exitTime: number; exitReason: BacktestExitReason } | null => {
+  const expiry = signal.expiresAt ? new Date(signal.expiresAt).getTime() : Infinity;
+  const isBuy = signal.type === 'BUY';
+  let lastCandle: ChartData | null = null;
+
+  for (const candle of candles) {
+    if (candle.timestamp < entryTime) continue;
+    if (candle.timestamp > expiry) {
+      return lastCandle
+        ? { exitPrice: lastCandle.close, exitTime: expiry, exitReason: 'expired' }
+        : null;
+    }
+
+    // When a single candle spans both levels, assume the stop was hit first
+    const stopHit = isBuy ? candle.low <= stopLoss : candle.high >= stopLoss;
+    if (stopHit) {
+      return { exitPrice: stopLoss, exitTime: candle.timestamp, exitReason: 'stop_loss_hit' };
+    }
+
+    const targetHit = isBuy ? candle.high >= targetPrice : candle.low <= targetPrice;
+    if (targetHit) {
+      return { exitPrice: targetPrice, exitTime: candle.timestamp, exitReason: 'take_profit_hit' };
+    }
+
+    lastCandle = candle;
+  }
+
+  if (!lastCandle) return null;
+  return { exitPrice: lastCandle.close, exitTime: lastCandle.timestamp, exitReason: 'end_of_data' };
+};
+
+// Signals that were live when a signal arrived, as the consensus check saw
+// them then; they have since expired or executed, so their status is not
+// what it was at the time
+const signalsLiveAt = (signals: TradingSignal[], at: number): TradingSignal[] =>
+  signals
+    .filter(signal => new Date(signal.createdAt).getTime() <= at && !(new Date(signal.expiresAt).getTime() <= at))
+    .map(signal => (signal.status === 'active' ? signal : { ...signal, status: 'active' }));
+
+const calculateMaxDrawdown = (equityCurve: EquityPoint[]): number => {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+
+  equityCurve.forEach(({ equity }) => {
+    peak = Math.max(peak, equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+    }
+  });
+
+  return maxDrawdown;
+};
+
+const calculateSharpeRatio = (equityCurve: EquityPoint[]): number => {
+  // Use the closing equity of each calendar day
+  const dailyEquity = new Map<string, number>();
+  equityCurve.forEach(({ timestamp, equity }) => {
+    dailyEquity.set(new Date(timestamp).toDateString(), equity);
+  });
+
+  const values = Array.from(dailyEquity.values());
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    if (values[i - 1] !== 0) {
+      returns.push(values[i] / values[i - 1] - 1);
+    }
+  }
+
+  if (returns.length < 2) return 0;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+
+  return stdDev === 0 ? 0 : (mean / stdDev) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+};
+
+export const runBacktest = (
+  signals: TradingSignal[],
+  chartData: Record<string, ChartData[]>,
+  criteria: AutoTradeCriteria,
+  options: BacktestOptions = {}
+): BacktestResult => {
+  const initialBalance = options.initialBalance ?? 100000;
+  const candlesBySymbol: Record<string, ChartData[]> = {};
+  Object.entries(chartData).forEach(([symbol, candles]) => {
+    candlesBySymbol[symbol] = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+  });
+
+  const orderedSignals = signals
+    .filter(signal => signal.type !== 'HOLD')
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  let balance = initialBalance;
+  const openTrades: BacktestTrade[] = [];
+  const closedTrades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  const tradesByDay: Record<string, number> = {};
+  const pnlByDay: Record<string, number> = {};
+  let signalsSkipped = 0;
+  let signalsWithoutData = 0;
+
+  if (orderedSignals.length > 0) {
+    equityCurve.push({ timestamp: new Date(orderedSignals[0].createdAt).getTime(), equity: balance });
+  }
+
+  const realizeTradesUntil = (timestamp: number) => {
+    openTrades
+      .filter(trade => trade.exitTime <= timestamp)
+      .sort((a, b) => a.exitTime - b.exitTime)
+      .forEach(trade => {
+        openTrades.splice(openTrades.indexOf(trade), 1);
+        closedTrades.push(trade);
+        balance += trade.pnl;
+
+        const day = new Date(trade.exitTime).toDateString();
+        pnlByDay[day] = (pnlByDay[day] || 0) + trade.pnl;
+        equityCurve.push({ timestamp: trade.exitTime, equity: balance });
+      });
+  };
+
+  orderedSignals.forEach(signal => {
+    const createdAt = new Date(signal.createdAt);
+    const entryTime = createdAt.getTime();
+    realizeTradesUntil(entryTime);
+
+    const day = createdAt.toDateString();
+    const dailyPnL = pnlByDay[day] || 0;
+    const context = {
+      timestamp: createdAt,
+      balance,
+      positions: openTrades,
+      tradesToday: tradesByDay[day] || 0,
+      dailyPnL,
+      chartData: candlesBySymbol,
+      signals: criteria.minConsensusSources > 1 ? signalsLiveAt(signals, entryTime) : undefined,
+    };
+
+    if (
+      !isWithinTradingHours(criteria, createdAt) ||
+      isDailyLossLimitReached(criteria, dailyPnL, balance) ||
+      getCriteriaRejection(signal, criteria, context) ||
+      !checkConsensus(signal, criteria, context).passed
+    ) {
+      signalsSkipped++;
+      return;
+    }
+
+    const candles = candlesBySymbol[signal.symbol];
+    const { stopLoss, targetPrice } = resolveExitLevels(signal, criteria);
+    const exit = candles ? simulateExit(signal, entryTime, candles, stopLoss, targetPrice) : null;
+    if (!exit) {
+      signalsWithoutData++;
+      return;
+    }
+
+    // Size from what was known at entry: candles so far and trades already closed
+    const winningTrades = closedTrades.filter(trade => trade.pnl > 0).length;
+    const { quantity } = calculatePositionSize(signal, criteria, {
+      balance,
+      atr: calculateATR(candles.filter(candle => candle.timestamp <= entryTime), criteria.atrPeriod),
+      winRate: closedTrades.length > 0 ? (winningTrades / closedTrades.length) * 100 : undefined,
+      sampleSize: closedTrades.length,
+    });
+    if (
+      quantity <= 0 ||
+      getExposureRejection(signal, quantity, criteria, context) ||
+      getCorrelationRejection(signal, criteria, context)
+    ) {
+      signalsSkipped++;
+      return;
+    }
+    const direction = signal.type === 'BUY' ? 1 : -1;
+    const pnl = (exit.exitPrice - signal.entryPrice) * quantity * direction;
+    const invested = signal.entryPrice * quantity;
+
+    openTrades.push({
+      signalId: signal.id,
+      symbol: signal.symbol,
+      type: signal.type as 'BUY' | 'SELL',
+      market: signal.market,
+      quantity,
+      entryPrice: signal.entryPrice,
+      exitPrice: exit.exitPrice,
+      entryTime,
+      exitTime: exit.exitTime,
+      pnl,
+      pnlPercentage: invested !== 0 ? (pnl / invested) * 100 : 0,
+      exitReason: exit.exitReason,
+    });
+    tradesByDay[day] = (tradesByDay[day] || 0) + 1;
+  });
+
+  realizeTradesUntil(Infinity);
+
+  const wins = closedTrades.filter(trade => trade.pnl > 0).length;
+  const totalPnL = balance - initialBalance;
+
+  return {
+    initialBalance,
+    finalBalance: balance,
+    totalPnL,
+    totalReturnPercentage: (totalPnL / initialBalance) * 100,
+    winRate: closedTrades.length > 0 ? (wins / closedTrades.length) * 100 : 0,
+    maxDrawdown: calculateMaxDrawdown(equityCurve),
+    sharpeRatio: calculateSharpeRatio(equityCurve),
+    signalsEvaluated: orderedSignals.length,
+    signalsSkipped,
+    signalsWithoutData,
+    trades: closedTrades,
+    equityCurve,
+  };
+};
@@ -0,0 +1,78 @@
+import type { ChartData } from '../store/slices/marketSlice';
+import { MAX_BRIDGED_PERIODS, aggregateTick, endsAfterGap, mergeCandles } from './candles';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const candle = (minute: number, close: number, volume: number = 10): ChartData => ({
+  timestamp: START + minute * MINUTE,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume,
+});
+
+test('ticks within a period move its candle', () => {
+  const candles: ChartData[] = [];
+  aggregateTick(candles, { price: 10, timestamp: START + 5000, volume: 1 }, '1m');
+  aggregateTick(candles, { price: 12, timestamp: START + 20000, volume: 2 }, '1m');
+  aggregateTick(candles, { price: 9, timestamp: START + 40000, volume: 3 }, '1m');
+  expect(candles).toEqual([{ timestamp: START, open: 10, high: 12, low: 9, close: 9, volume: 6 }]);
+});
+
+test('a tick after a quiet spell bridges the gap with flat candles', () => {
+  const candles = [candle(0, 10)];
+  aggregateTick(candles, { price: 11, timestamp: START + 3 * MINUTE + 1000 }, '1m');
+  expect(candles.map(c => [c.timestamp - START, c.close, c.volume])).toEqual([
+    [0, 10, 10],
+    [MINUTE, 10, 0],
+    [2 * MINUTE, 10, 0],
+    [3 * MINUTE, 11, 0],
+  ]);
+});
+
+test('a tick after a long gap starts a candle of its own', () => {
+  const candles = [candle(0, 10)];
+  const minute = MAX_BRIDGED_PERIODS + 2;
+  expect(endsAfterGap(candles, '1m')).toBe(false);
+  aggregateTick(candles, { price: 11, timestamp: START + minute * MINUTE }, '1m');
+  expect(candles.map(c => [(c.timestamp - START) / MINUTE, c.close])).toEqual([[0, 10], [minute, 11]]);
+  expect(endsAfterGap(candles, '1m')).toBe(true);
+});
+
+test('ticks older than the last candle are dropped and the series is capped', () => {
+  const candles = [candle(0, 10), candle(1, 11)];
+  aggregateTick(candles, { price: 50, timestamp: START }, '1m');
+  expect(candles[1].close).toBe(11);
+
+  aggregateTick(candles, { price: 12, timestamp: START + 2 * MINUTE }, '1m', 2);
+  expect(candles.map(c => c.close)).toEqual([11, 12]);
+});
+
+test('fetched history replaces held candles it covers and joins newer ones without gaps', () => {
+  const held = [candle(-1, 1), candle(3, 30), candle(6, 60)];
+  const fetched = [candle(2, 20), candle(0, 0), candle(2, 20), candle(3, 33), candle(1, 10)];
+  const merged = mergeCandles(held, fetched, '1m');
+  expect(merged.map(c => [(c.timestamp - START) / MINUTE, c.close])).toEqual([
+    [-1, 1],
+    [0, 0],
+    [1, 10],
+    [2, 20],
+    [3, 33],
+    [4, 33],
+    [5, 33],
+    [6, 60],
+  ]);
+});
+
+test('fetched history is not bridged to held candles after a long gap', () => {
+  const held = [candle(20, 200)];
+  const merged = mergeCandles(held, [candle(0, 0), candle(1, 10)], '1m');
+  expect(merged.map(c => (c.timestamp - START) / MINUTE)).toEqual([0, 1, 20]);
+});
+
+test('an empty fetch keeps what is held', () => {
+  const held = [candle(0, 10)];
+  expect(mergeCandles(held, [], '1m')).toEqual(held);
+});
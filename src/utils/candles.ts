@@ -0,0 +1,132 @@
+import type { ChartData, Timeframe } from '../store/slices/marketSlice';
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+// Timeframes built live from market_data ticks; weekly candles only come from REST
+export const AGGREGATED_TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
+
+// Candles kept per symbol and timeframe, so at most 6000 per symbol
+export const MAX_CANDLES_PER_SERIES = 1000;
+
+// Quiet spells up to this many periods are bridged with flat candles. Longer
+// gaps, e.g. after the tab slept or the feed dropped, are left open for a
+// history fetch to fill rather than drawn as a flat line.
+export const MAX_BRIDGED_PERIODS = 5;
+
+export interface PriceTick {
+  price: number;
+  timestamp: number;
+  volume?: number; // Traded since the previous tick
+}
+
+// Start of the candle a timestamp falls in, aligned to UTC
+export const candleStart = (timestamp: number, timeframe: Timeframe) =>
+  Math.floor(timestamp / TIMEFRAME_MS[timeframe]) * TIMEFRAME_MS[timeframe];
+
+const flatCandle = (timestamp: number, price: number): ChartData => ({
+  timestamp,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume: 0,
+});
+
+const missingPeriods = (from: number, to: number, timeframe: Timeframe) =>
+  Math.max(Math.round((to - from) / TIMEFRAME_MS[timeframe]) - 1, 0);
+
+// Flat candles at the previous close for the periods between two candles, or
+// none when the gap is too long to bridge
+const bridge = (from: ChartData, to: number, timeframe: Timeframe): ChartData[] => {
+  const period = TIMEFRAME_MS[timeframe];
+  const missing = missingPeriods(from.timestamp, to, timeframe);
+  if (missing > MAX_BRIDGED_PERIODS) return [];
+  const first = to - missing * period;
+  return Array.from({ length: missing }, (_, i) => flatCandle(first + i * period, from.close));
+};
+
+const trim = (candles: ChartData[], maxCandles: number) => {
+  if (candles.length > maxCandles) candles.splice(0, candles.length - maxCandles);
+};
+
+// Whether the newest candle follows a gap too long to have been bridged
+export const endsAfterGap = (candles: ChartData[], timeframe: Timeframe) =>
+  candles.length > 1 &&
+  missingPeriods(candles[candles.length - 2].timestamp, candles[candles.length - 1].timestamp, timeframe) > MAX_BRIDGED_PERIODS;
+
+/**
+ * Folds a tick into a candle series in place, so it works on immer drafts.
+ * The tick moves the candle whose period it falls in, or opens the next one,
+ * with flat candles filling a few periods without ticks. After a longer gap
+ * the new candle starts on its own and the gap waits for fetched history.
+ * New candles follow the alignment of the existing ones, which may come from
+ * REST. Ticks older than the last candle are dropped.
+ */
+export const aggregateTick = (
+  candles: ChartData[],
+  tick: PriceTick,
+  timeframe: Timeframe,
+  maxCandles: number = MAX_CANDLES_PER_SERIES
+): void => {
+  const { price, timestamp } = tick;
+  const volume = tick.volume ?? 0;
+  const period = TIMEFRAME_MS[timeframe];
+  const last = candles[candles.length - 1];
+
+  if (last && timestamp < last.timestamp) return;
+  if (last && timestamp < last.timestamp + period) {
+    last.high = Math.max(last.high, price);
+    last.low = Math.min(last.low, price);
+    last.close = price;
+    last.volume += volume;
+    return;
+  }
+
+  const start = last
+    ? last.timestamp + Math.floor((timestamp - last.timestamp) / period) * period
+    : candleStart(timestamp, timeframe);
+  if (last) candles.push(...bridge(last, start, timeframe));
+  candles.push({ ...flatCandle(start, price), volume });
+  trim(candles, maxCandles);
+};
+
+/**
+ * Combines fetched history with the candles already held, e.g. built from
+ * ticks. Fetched candles win over held ones in the range they cover, held
+ * candles before or after it are kept, and a short gap between the fetched
+ * range and newer held candles is bridged with flat candles.
+ */
+export const mergeCandles = (
+  held: ChartData[],
+  fetched: ChartData[],
+  timeframe: Timeframe,
+  maxCandles: number = MAX_CANDLES_PER_SERIES
+): ChartData[] => {
+  const history = [...fetched].sort((a, b) => a.timestamp - b.timestamp);
+  if (history.length === 0) return held.slice(-maxCandles);
+
+  const first = history[0];
+  const last = history[history.length - 1];
+  const period = TIMEFRAME_MS[timeframe];
+  const before = held.filter(candle => candle.timestamp < first.timestamp);
+  const after = held.filter(candle => candle.timestamp >= last.timestamp + period);
+
+  // Drop duplicates the API may return at the same time
+  const unique = history.filter((candle, i) => i === 0 || candle.timestamp !== history[i - 1].timestamp);
+  const merged = [
+    ...before,
+    ...unique,
+    ...(after.length > 0 ? bridge(last, after[0].timestamp, timeframe) : []),
+    ...after,
+  ];
+  trim(merged, maxCandles);
+  return merged;
+};
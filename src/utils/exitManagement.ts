@@ -0,0 +1,74 @@
+import type { ExitPlan, StopReason } from '../types';
+
+// Mirrors backend/utils/exitManagement so the Portfolio grid can show where the
+// stop sits between position monitor runs. The server stays authoritative.
+
+export interface ManagedPosition {
+  type?: 'BUY' | 'SELL';
+  direction?: 'BUY' | 'SELL';
+  entryPrice: number;
+  stopLoss?: number;
+  activeStop?: number;
+  stopReason?: StopReason;
+  bestPrice?: number;
+  exitPlan?: ExitPlan;
+}
+
+export interface StopState {
+  bestPrice: number;
+  activeStop: number | null;
+  stopReason: StopReason;
+}
+
+export const STOP_REASON_LABELS: Record<StopReason, string> = {
+  initial: 'Stop Loss',
+  breakeven: 'Breakeven',
+  trailing: 'Trailing',
+};
+
+const tighterStop = (long: boolean, current: number | null, candidate: number) => {
+  if (current === null) return candidate;
+  return long ? Math.max(current, candidate) : Math.min(current, candidate);
+};
+
+/**
+ * Move the stop of a position for a new price: breakeven once the favorable
+ * move reaches the trigger, then trail from the best price seen. Stops only
+ * ever tighten.
+ */
+export function advanceStop(position: ManagedPosition, price: number): StopState {
+  const long = (position.type || position.direction || 'BUY') === 'BUY';
+  const plan = position.exitPlan || {};
+  const entryPrice = Number(position.entryPrice);
+  const previousBest = position.bestPrice ?? entryPrice;
+  const bestPrice = long ? Math.max(previousBest, price) : Math.min(previousBest, price);
+
+  let activeStop = position.activeStop ?? position.stopLoss ?? null;
+  let stopReason: StopReason = position.stopReason || 'initial';
+
+  if (plan.breakevenTriggerPercent && plan.breakevenTriggerPercent > 0 && entryPrice > 0) {
+    const favorableMove = ((long ? bestPrice - entryPrice : entryPrice - bestPrice) / entryPrice) * 100;
+    if (favorableMove >= plan.breakevenTriggerPercent) {
+      const next = tighterStop(long, activeStop, entryPrice);
+      if (next !== activeStop) {
+        activeStop = next;
+        stopReason = 'breakeven';
+      }
+    }
+  }
+
+  if (plan.trailing && plan.trailing.value > 0) {
+    const distance = plan.trailing.mode === 'atr'
+      ? (plan.trailing.atr || 0) * plan.trailing.value
+      : bestPrice * (plan.trailing.value / 100);
+    if (distance > 0) {
+      const next = tighterStop(long, activeStop, long ? bestPrice - distance : bestPrice + distance);
+      if (next !== activeStop) {
+        activeStop = next;
+        stopReason = 'trailing';
+      }
+    }
+  }
+
+  return { bestPrice, activeStop, stopReason };
+}
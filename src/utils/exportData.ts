@@ -0,0 +1,28 @@
+// Helpers for exporting tables as downloadable files
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+const escapeCsv = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string => {
+  const header = columns.map(column => escapeCsv(column.header)).join(',');
+  const lines = rows.map(row => columns.map(column => escapeCsv(column.value(row))).join(','));
+  return [header, ...lines].join('\n');
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,84 @@
+import type { MarketType } from '../types';
+import type { MarketData } from '../store/slices/marketSlice';
+
+// Trading costs applied to demo fills in one market
+export interface MarketCostSchedule {
+  slippageBps: number; // Adverse move from the quote, in basis points
+  commissionPercent: number; // Of the filled notional
+  minCommission: number; // Per fill, in account currency
+  defaultSpreadBps: number; // Assumed bid/ask spread when the quote has none
+}
+
+export type FillModelSettings = Record<MarketType, MarketCostSchedule>;
+
+export const DEFAULT_FILL_MODEL: FillModelSettings = {
+  crypto: { slippageBps: 5, commissionPercent: 0.1, minCommission: 0, defaultSpreadBps: 5 },
+  forex: { slippageBps: 0.5, commissionPercent: 0.002, minCommission: 0, defaultSpreadBps: 1 },
+  stocks: { slippageBps: 2, commissionPercent: 0, minCommission: 1, defaultSpreadBps: 2 },
+  commodities: { slippageBps: 3, commissionPercent: 0.01, minCommission: 2, defaultSpreadBps: 4 },
+};
+
+export const FILL_MODEL_STORAGE_KEY = 'fillModel';
+
+export const loadFillModel = (): FillModelSettings => {
+  try {
+    const saved = localStorage.getItem(FILL_MODEL_STORAGE_KEY);
+    return saved ? { ...DEFAULT_FILL_MODEL, ...JSON.parse(saved) } : DEFAULT_FILL_MODEL;
+  } catch {
+    return DEFAULT_FILL_MODEL;
+  }
+};
+
+export const saveFillModel = (settings: FillModelSettings) => {
+  try {
+    localStorage.setItem(FILL_MODEL_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save fill model:', error);
+  }
+};
+
+export interface SimulatedFill {
+  price: number;
+  quotedPrice: number;
+  spread: number;
+  spreadCost: number;
+  slippageCost: number;
+  commission: number;
+}
+
+/**
+ * Fill for a market order. Buys take the ask and sells the bid: from the
+ * quote when it has them, otherwise half the quoted or assumed spread either
+ * side of the reference price. Slippage then moves the price against the
+ * order and commission is charged on the filled notional.
+ */
+export function simulateFill(
+  side: 'BUY' | 'SELL',
+  quantity: number,
+  referencePrice: number,
+  schedule: MarketCostSchedule,
+  quote?: Pick<MarketData, 'bid' | 'ask' | 'spread'>
+): SimulatedFill {
+  const direction = side === 'BUY' ? 1 : -1;
+  const spread = quote?.bid && quote?.ask && quote.ask > quote.bid
+    ? quote.ask - quote.bid
+    : quote?.spread ?? referencePrice * (schedule.defaultSpreadBps / 10000);
+
+  const touch = side === 'BUY'
+    ? quote?.ask ?? referencePrice + spread / 2
+    : quote?.bid ?? referencePrice - spread / 2;
+  const slippage = touch * (schedule.slippageBps / 10000);
+  const price = touch + direction * slippage;
+  const notional = price * quantity;
+
+  return {
+    price,
+    quotedPrice: referencePrice,
+    spread,
+    spreadCost: Math.abs(touch - referencePrice) * quantity,
+    slippageCost: slippage * quantity,
+    commission: notional > 0
+      ? Math.max(notional * (schedule.commissionPercent / 100), schedule.minCommission)
+      : 0,
+  };
+}
@@ -0,0 +1,151 @@
+import type { ChartData } from '../store/slices/marketSlice';
+import {
+  bollingerSeries,
+  calculateATR,
+  calculateIndicatorSnapshot,
+  calculatePivotPoints,
+  createADX,
+  createRSI,
+  createSMA,
+  createStochastic,
+  emaSeries,
+  indicatorSeries,
+  macdSeries,
+  rsiSeries,
+  smaSeries,
+  vwapSeries,
+} from './indicators';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const candlesFromCloses = (closes: number[]): ChartData[] =>
+  closes.map((close, i) => ({
+    timestamp: START + i * HOUR,
+    open: i === 0 ? close : closes[i - 1],
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100,
+  }));
+
+const expectSeries = (actual: (number | null)[], expected: (number | null)[]) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (value === null) {
+      expect(actual[i]).toBeNull();
+    } else {
+      expect(actual[i]).toBeCloseTo(value, 6);
+    }
+  });
+};
+
+test('SMA and EMA warm up over their period', () => {
+  const candles = candlesFromCloses([1, 2, 3, 4, 5]);
+  expectSeries(smaSeries(candles, 3), [null, null, 2, 3, 4]);
+  // Seeded with the SMA, then k = 0.5
+  expectSeries(emaSeries(candles, 3), [null, null, 2, 3, 4]);
+  expectSeries(emaSeries(candlesFromCloses([1, 2, 3, 10]), 3), [null, null, 2, 6]);
+});
+
+test('RSI is 100 on a straight rally and 0 on a straight decline', () => {
+  const rally = candlesFromCloses(Array.from({ length: 20 }, (_, i) => 100 + i));
+  const decline = candlesFromCloses(Array.from({ length: 20 }, (_, i) => 100 - i));
+  expect(rsiSeries(rally, 14)[13]).toBeNull();
+  expect(rsiSeries(rally, 14)[14]).toBe(100);
+  expect(rsiSeries(decline, 14)[19]).toBe(0);
+});
+
+test('RSI balances equal gains and losses at 50', () => {
+  const candles = candlesFromCloses([10, 11, 10, 11, 10]);
+  expect(rsiSeries(candles, 4)[4]).toBeCloseTo(50, 6);
+});
+
+test('MACD histogram is the MACD less its signal line', () => {
+  const candles = candlesFromCloses(Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 4) * 5 + i * 0.2));
+  const { macd, signal, histogram } = macdSeries(candles);
+  expect(macd[24]).toBeNull();
+  expect(macd[25]).not.toBeNull();
+  expect(signal[32]).toBeNull();
+  expect(signal[33]).not.toBeNull();
+  expectSeries(histogram, signal.map((line, i) => (line === null ? null : (macd[i] as number) - line)));
+});
+
+test('Bollinger bands sit the given deviations around the SMA', () => {
+  const { upper, middle, lower } = bollingerSeries(candlesFromCloses([2, 4, 4, 4, 5, 5, 7, 9]), 8, 2);
+  // Population standard deviation of the classic example is 2
+  expect(middle[7]).toBeCloseTo(5, 6);
+  expect(upper[7]).toBeCloseTo(9, 6);
+  expect(lower[7]).toBeCloseTo(1, 6);
+});
+
+test('ATR averages the true range, including gaps', () => {
+  const candles: ChartData[] = [
+    { timestamp: START, open: 10, high: 11, low: 9, close: 10, volume: 1 },
+    { timestamp: START + HOUR, open: 10, high: 12, low: 10, close: 11, volume: 1 },
+    { timestamp: START + 2 * HOUR, open: 14, high: 15, low: 14, close: 15, volume: 1 },
+  ];
+  // True ranges 2 and 4 (the gap up from 11)
+  expect(calculateATR(candles, 2)).toBeCloseTo(3, 6);
+  expect(calculateATR(candles, 3)).toBeUndefined();
+});
+
+test('Stochastic %K is 100 at the top of the range', () => {
+  const candles = candlesFromCloses([1, 2, 3, 4, 5, 6]).map(candle => ({ ...candle, high: candle.close, low: candle.close }));
+  const values = indicatorSeries(createStochastic(3, 2), candles);
+  expect(values[1]).toBeNull();
+  expect(values[2]).toEqual({ k: 100, d: null });
+  expect(values[3]).toEqual({ k: 100, d: 100 });
+});
+
+test('ADX favours +DI in an uptrend', () => {
+  const candles = candlesFromCloses(Array.from({ length: 40 }, (_, i) => 100 + i * 2));
+  const value = indicatorSeries(createADX(14), candles)[39];
+  expect(value).not.toBeNull();
+  expect(value!.plusDI).toBeGreaterThan(value!.minusDI);
+  expect(value!.adx).toBeGreaterThan(50);
+});
+
+test('VWAP restarts each UTC day', () => {
+  const candles: ChartData[] = [
+    { timestamp: START + 22 * HOUR, open: 10, high: 10, low: 10, close: 10, volume: 1 },
+    { timestamp: START + 23 * HOUR, open: 20, high: 20, low: 20, close: 20, volume: 3 },
+    { timestamp: START + 24 * HOUR, open: 30, high: 30, low: 30, close: 30, volume: 2 },
+  ];
+  expectSeries(vwapSeries(candles), [10, 17.5, 30]);
+});
+
+test('pivot points follow the floor formulas', () => {
+  const pivots = calculatePivotPoints({ high: 110, low: 90, close: 100 });
+  expect(pivots).toEqual({ pivot: 100, r1: 110, r2: 120, r3: 130, s1: 90, s2: 80, s3: 70 });
+});
+
+test('a revised last candle replaces it instead of adding another', () => {
+  const candles = candlesFromCloses([1, 2, 3, 4]);
+  const sma = createSMA(2);
+  candles.forEach(candle => sma.next(candle));
+  expect(sma.value()).toBeCloseTo(3.5, 6);
+  expect(sma.next({ ...candles[3], close: 8 })).toBeCloseTo(5.5, 6);
+  expect(sma.next({ ...candles[3], close: 6, timestamp: candles[3].timestamp + HOUR })).toBeCloseTo(7, 6);
+});
+
+test('feeding candles one at a time matches the series over the same candles', () => {
+  const closes = Array.from({ length: 40 }, (_, i) => 50 + Math.cos(i / 3) * 4);
+  const candles = candlesFromCloses(closes);
+  const rsi = createRSI();
+  const streamed = candles.map(candle => {
+    // Each candle first arrives half-formed, then closes
+    rsi.next({ ...candle, close: candle.open });
+    return rsi.next(candle);
+  });
+  expectSeries(streamed, rsiSeries(candles));
+});
+
+test('the snapshot reports the last value of each indicator', () => {
+  const candles = candlesFromCloses(Array.from({ length: 80 }, (_, i) => 100 + i));
+  const snapshot = calculateIndicatorSnapshot(candles);
+  expect(snapshot.rsi).toBe(100);
+  expect(snapshot.sma).toBeCloseTo(169.5, 6);
+  expect(snapshot.atr).toBeCloseTo(2, 6);
+  expect(calculateIndicatorSnapshot([]).rsi).toBeNull();
+});
@@ -0,0 +1,409 @@
+// Technical indicators computed from OHLC candles.
+//
+// Each indicator is a step over an immutable state, so it can be fed one
+// candle at a time as candles stream in: a candle with a new timestamp moves
+// the indicator forward, and one with the timestamp of the last candle revises
+// it, which is how the still-forming live candle is handled. The series
+// helpers run the same steps over a whole candle array, so charts, the signal
+// detail view and auto-trade all share one implementation.
+import type { ChartData } from '../store/slices/marketSlice';
+
+// Indicator series are aligned with their input: one value per candle, null
+// while there isn't enough history yet, so they plot directly against the
+// candles they came from.
+export type IndicatorSeries = (number | null)[];
+
+export interface IncrementalIndicator<T> {
+  // Feeds the next candle, or a revision of the last one, in time order
+  next(candle: ChartData): T | null;
+  value(): T | null;
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface MACDValue {
+  macd: number;
+  signal: number | null;
+  histogram: number | null;
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number | null;
+}
+
+export interface ADXValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface PivotPoints {
+  pivot: number;
+  r1: number;
+  r2: number;
+  r3: number;
+  s1: number;
+  s2: number;
+  s3: number;
+}
+
+export interface BollingerSeries {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+export interface MACDSeries {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+type Step<S, T> = (state: S, candle: ChartData) => [S, T | null];
+
+const createIndicator = <S, T>(initial: S, step: Step<S, T>): IncrementalIndicator<T> => {
+  let before = initial;
+  let state = initial;
+  let lastTimestamp: number | null = null;
+  let current: T | null = null;
+  return {
+    next(candle) {
+      if (candle.timestamp !== lastTimestamp) {
+        before = state;
+        lastTimestamp = candle.timestamp;
+      }
+      [state, current] = step(before, candle);
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// The last `size` values once `value` is added
+const pushWindow = <T>(window: T[], value: T, size: number): T[] =>
+  [...window.slice(Math.max(window.length - size + 1, 0)), value];
+
+// A moving average seeded with the mean of its first `period` inputs, then
+// moved towards each new input by `alpha`: 2/(n+1) for an EMA, 1/n for
+// Wilder's smoothing
+interface SmoothedState {
+  seed: number[];
+  value: number | null;
+}
+
+const SMOOTHED_START: SmoothedState = { seed: [], value: null };
+
+const smooth = (state: SmoothedState, input: number, period: number, alpha: number): SmoothedState => {
+  if (state.value !== null) return { seed: [], value: state.value + alpha * (input - state.value) };
+  const seed = [...state.seed, input];
+  return seed.length >= period ? { seed: [], value: mean(seed) } : { seed, value: null };
+};
+
+const trueRange = (candle: ChartData, previousClose: number) =>
+  Math.max(candle.high - candle.low, Math.abs(candle.high - previousClose), Math.abs(candle.low - previousClose));
+
+const utcDay = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+export const createSMA = (period: number): IncrementalIndicator<number> =>
+  createIndicator<number[], number>([], (window, candle) => {
+    const next = pushWindow(window, candle.close, period);
+    return [next, period > 0 && next.length === period ? mean(next) : null];
+  });
+
+export const createEMA = (period: number): IncrementalIndicator<number> =>
+  createIndicator<SmoothedState, number>(SMOOTHED_START, (state, candle) => {
+    if (period <= 0) return [state, null];
+    const next = smooth(state, candle.close, period, 2 / (period + 1));
+    return [next, next.value];
+  });
+
+// Relative Strength Index using Wilder's smoothing
+export const createRSI = (period: number = 14): IncrementalIndicator<number> => {
+  interface RSIState { previousClose: number | null; gain: SmoothedState; loss: SmoothedState }
+  return createIndicator<RSIState, number>(
+    { previousClose: null, gain: SMOOTHED_START, loss: SMOOTHED_START },
+    (state, candle) => {
+      if (state.previousClose === null || period <= 0) {
+        return [{ ...state, previousClose: candle.close }, null];
+      }
+      const change = candle.close - state.previousClose;
+      const gain = smooth(state.gain, Math.max(change, 0), period, 1 / period);
+      const loss = smooth(state.loss, Math.max(-change, 0), period, 1 / period);
+      const next = { previousClose: candle.close, gain, loss };
+      if (gain.value === null || loss.value === null) return [next, null];
+      if (loss.value === 0) return [next, gain.value === 0 ? 50 : 100];
+      return [next, 100 - 100 / (1 + gain.value / loss.value)];
+    }
+  );
+};
+
+export const createMACD = (fast: number = 12, slow: number = 26, signalPeriod: number = 9): IncrementalIndicator<MACDValue> => {
+  interface MACDState { fast: SmoothedState; slow: SmoothedState; signal: SmoothedState }
+  return createIndicator<MACDState, MACDValue>(
+    { fast: SMOOTHED_START, slow: SMOOTHED_START, signal: SMOOTHED_START },
+    (state, candle) => {
+      const fastEma = smooth(state.fast, candle.close, fast, 2 / (fast + 1));
+      const slowEma = smooth(state.slow, candle.close, slow, 2 / (slow + 1));
+      if (fastEma.value === null || slowEma.value === null) {
+        return [{ ...state, fast: fastEma, slow: slowEma }, null];
+      }
+      // The signal line averages the MACD from its first value on
+      const macd = fastEma.value - slowEma.value;
+      const signal = smooth(state.signal, macd, signalPeriod, 2 / (signalPeriod + 1));
+      return [
+        { fast: fastEma, slow: slowEma, signal },
+        { macd, signal: signal.value, histogram: signal.value === null ? null : macd - signal.value },
+      ];
+    }
+  );
+};
+
+export const createBollinger = (period: number = 20, deviations: number = 2): IncrementalIndicator<BollingerValue> =>
+  createIndicator<number[], BollingerValue>([], (window, candle) => {
+    const next = pushWindow(window, candle.close, period);
+    if (period <= 0 || next.length < period) return [next, null];
+    const middle = mean(next);
+    const sd = Math.sqrt(next.reduce((sum, value) => sum + (value - middle) ** 2, 0) / period);
+    return [next, { upper: middle + deviations * sd, middle, lower: middle - deviations * sd }];
+  });
+
+// Average True Range using Wilder's smoothing
+export const createATR = (period: number = 14): IncrementalIndicator<number> => {
+  interface ATRState { previousClose: number | null; atr: SmoothedState }
+  return createIndicator<ATRState, number>({ previousClose: null, atr: SMOOTHED_START }, (state, candle) => {
+    if (state.previousClose === null || period <= 0) {
+      return [{ ...state, previousClose: candle.close }, null];
+    }
+    const atr = smooth(state.atr, trueRange(candle, state.previousClose), period, 1 / period);
+    return [{ previousClose: candle.close, atr }, atr.value];
+  });
+};
+
+// %K is where the close sits in the recent high-low range, %D its moving average
+export const createStochastic = (kPeriod: number = 14, dPeriod: number = 3): IncrementalIndicator<StochasticValue> => {
+  interface StochasticState { window: ChartData[]; ks: number[] }
+  return createIndicator<StochasticState, StochasticValue>({ window: [], ks: [] }, (state, candle) => {
+    const window = pushWindow(state.window, candle, kPeriod);
+    if (kPeriod <= 0 || window.length < kPeriod) return [{ ...state, window }, null];
+    const high = Math.max(...window.map(c => c.high));
+    const low = Math.min(...window.map(c => c.low));
+    const k = high === low ? 50 : ((candle.close - low) / (high - low)) * 100;
+    const ks = pushWindow(state.ks, k, dPeriod);
+    return [{ window, ks }, { k, d: dPeriod > 0 && ks.length === dPeriod ? mean(ks) : null }];
+  });
+};
+
+// Average Directional Index with its +DI/-DI lines, all Wilder-smoothed
+export const createADX = (period: number = 14): IncrementalIndicator<ADXValue> => {
+  interface ADXState {
+    previous: ChartData | null;
+    tr: SmoothedState;
+    plusDM: SmoothedState;
+    minusDM: SmoothedState;
+    adx: SmoothedState;
+  }
+  const alpha = 1 / period;
+  return createIndicator<ADXState, ADXValue>(
+    { previous: null, tr: SMOOTHED_START, plusDM: SMOOTHED_START, minusDM: SMOOTHED_START, adx: SMOOTHED_START },
+    (state, candle) => {
+      const { previous } = state;
+      if (!previous || period <= 0) return [{ ...state, previous: candle }, null];
+
+      const upMove = candle.high - previous.high;
+      const downMove = previous.low - candle.low;
+      const tr = smooth(state.tr, trueRange(candle, previous.close), period, alpha);
+      const plusDM = smooth(state.plusDM, upMove > downMove && upMove > 0 ? upMove : 0, period, alpha);
+      const minusDM = smooth(state.minusDM, downMove > upMove && downMove > 0 ? downMove : 0, period, alpha);
+      const next = { ...state, previous: candle, tr, plusDM, minusDM };
+      if (tr.value === null || plusDM.value === null || minusDM.value === null) return [next, null];
+
+      const plusDI = tr.value === 0 ? 0 : (100 * plusDM.value) / tr.value;
+      const minusDI = tr.value === 0 ? 0 : (100 * minusDM.value) / tr.value;
+      const dx = plusDI + minusDI === 0 ? 0 : (100 * Math.abs(plusDI - minusDI)) / (plusDI + minusDI);
+      const adx = smooth(state.adx, dx, period, alpha);
+      return [{ ...next, adx }, adx.value === null ? null : { adx: adx.value, plusDI, minusDI }];
+    }
+  );
+};
+
+// Volume-weighted average of the typical price, restarting each UTC day
+export const createVWAP = (): IncrementalIndicator<number> => {
+  interface VWAPState { day: string; priceVolume: number; volume: number }
+  return createIndicator<VWAPState, number>({ day: '', priceVolume: 0, volume: 0 }, (state, candle) => {
+    const day = utcDay(candle.timestamp);
+    const base = day === state.day ? state : { day, priceVolume: 0, volume: 0 };
+    const next = {
+      day,
+      priceVolume: base.priceVolume + ((candle.high + candle.low + candle.close) / 3) * candle.volume,
+      volume: base.volume + candle.volume,
+    };
+    return [next, next.volume > 0 ? next.priceVolume / next.volume : null];
+  });
+};
+
+// Classic floor pivots from a period's high, low and close
+export const calculatePivotPoints = ({ high, low, close }: Pick<ChartData, 'high' | 'low' | 'close'>): PivotPoints => {
+  const pivot = (high + low + close) / 3;
+  return {
+    pivot,
+    r1: 2 * pivot - low,
+    r2: pivot + (high - low),
+    r3: high + 2 * (pivot - low),
+    s1: 2 * pivot - high,
+    s2: pivot - (high - low),
+    s3: low - 2 * (high - pivot),
+  };
+};
+
+// Pivots for each candle from the previous UTC day's range
+export const createPivotPoints = (): IncrementalIndicator<PivotPoints> => {
+  interface PivotState { day: string; high: number; low: number; close: number; pivots: PivotPoints | null }
+  return createIndicator<PivotState, PivotPoints>(
+    { day: '', high: -Infinity, low: Infinity, close: 0, pivots: null },
+    (state, candle) => {
+      const day = utcDay(candle.timestamp);
+      const next = day === state.day
+        ? { ...state, high: Math.max(state.high, candle.high), low: Math.min(state.low, candle.low), close: candle.close }
+        : {
+          day,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          pivots: state.day ? calculatePivotPoints(state) : null,
+        };
+      return [next, next.pivots];
+    }
+  );
+};
+
+// Runs a fresh indicator over the candles, one value per candle
+export const indicatorSeries = <T>(indicator: IncrementalIndicator<T>, candles: ChartData[]): (T | null)[] =>
+  candles.map(candle => indicator.next(candle));
+
+const pluck = <T>(values: (T | null)[], pick: (value: T) => number | null): IndicatorSeries =>
+  values.map(value => (value === null ? null : pick(value)));
+
+export const smaSeries = (candles: ChartData[], period: number): IndicatorSeries =>
+  indicatorSeries(createSMA(period), candles);
+
+export const emaSeries = (candles: ChartData[], period: number): IndicatorSeries =>
+  indicatorSeries(createEMA(period), candles);
+
+export const rsiSeries = (candles: ChartData[], period: number = 14): IndicatorSeries =>
+  indicatorSeries(createRSI(period), candles);
+
+export const vwapSeries = (candles: ChartData[]): IndicatorSeries =>
+  indicatorSeries(createVWAP(), candles);
+
+export const bollingerSeries = (candles: ChartData[], period: number = 20, deviations: number = 2): BollingerSeries => {
+  const values = indicatorSeries(createBollinger(period, deviations), candles);
+  return {
+    upper: pluck(values, value => value.upper),
+    middle: pluck(values, value => value.middle),
+    lower: pluck(values, value => value.lower),
+  };
+};
+
+export const macdSeries = (candles: ChartData[], fast: number = 12, slow: number = 26, signalPeriod: number = 9): MACDSeries => {
+  const values = indicatorSeries(createMACD(fast, slow, signalPeriod), candles);
+  return {
+    macd: pluck(values, value => value.macd),
+    signal: pluck(values, value => value.signal),
+    histogram: pluck(values, value => value.histogram),
+  };
+};
+
+// Latest ATR, or undefined until there are enough candles to cover the period
+export const calculateATR = (candles: ChartData[], period: number = 14): number | undefined => {
+  const atr = createATR(period);
+  candles.forEach(candle => atr.next(candle));
+  return atr.value() ?? undefined;
+};
+
+// Indicators with default settings as of the last candle, for showing
+// alongside a signal and for auto-trade filters
+export type IndicatorKey =
+  | 'rsi'
+  | 'macd'
+  | 'macdSignal'
+  | 'macdHistogram'
+  | 'stochK'
+  | 'stochD'
+  | 'adx'
+  | 'plusDI'
+  | 'minusDI'
+  | 'atr'
+  | 'sma'
+  | 'ema'
+  | 'bollingerUpper'
+  | 'bollingerMiddle'
+  | 'bollingerLower'
+  | 'vwap'
+  | 'pivot';
+
+export type IndicatorSnapshot = Record<IndicatorKey, number | null>;
+
+export const SNAPSHOT_SMA_PERIOD = 20;
+export const SNAPSHOT_EMA_PERIOD = 50;
+
+export const INDICATOR_LABELS: Record<IndicatorKey, string> = {
+  rsi: 'RSI 14',
+  macd: 'MACD',
+  macdSignal: 'MACD Signal',
+  macdHistogram: 'MACD Histogram',
+  stochK: 'Stochastic %K',
+  stochD: 'Stochastic %D',
+  adx: 'ADX 14',
+  plusDI: '+DI',
+  minusDI: '-DI',
+  atr: 'ATR 14',
+  sma: `SMA ${SNAPSHOT_SMA_PERIOD}`,
+  ema: `EMA ${SNAPSHOT_EMA_PERIOD}`,
+  bollingerUpper: 'Bollinger Upper',
+  bollingerMiddle: 'Bollinger Middle',
+  bollingerLower: 'Bollinger Lower',
+  vwap: 'VWAP',
+  pivot: 'Pivot',
+};
+
+export const calculateIndicatorSnapshot = (candles: ChartData[]): IndicatorSnapshot => {
+  const sma = createSMA(SNAPSHOT_SMA_PERIOD);
+  const ema = createEMA(SNAPSHOT_EMA_PERIOD);
+  const rsi = createRSI();
+  const macd = createMACD();
+  const bollinger = createBollinger();
+  const atr = createATR();
+  const stochastic = createStochastic();
+  const adx = createADX();
+  const vwap = createVWAP();
+  const pivots = createPivotPoints();
+  const indicators = [sma, ema, rsi, macd, bollinger, atr, stochastic, adx, vwap, pivots];
+  candles.forEach(candle => indicators.forEach(indicator => indicator.next(candle)));
+
+  return {
+    rsi: rsi.value(),
+    macd: macd.value()?.macd ?? null,
+    macdSignal: macd.value()?.signal ?? null,
+    macdHistogram: macd.value()?.histogram ?? null,
+    stochK: stochastic.value()?.k ?? null,
+    stochD: stochastic.value()?.d ?? null,
+    adx: adx.value()?.adx ?? null,
+    plusDI: adx.value()?.plusDI ?? null,
+    minusDI: adx.value()?.minusDI ?? null,
+    atr: atr.value(),
+    sma: sma.value(),
+    ema: ema.value(),
+    bollingerUpper: bollinger.value()?.upper ?? null,
+    bollingerMiddle: bollinger.value()?.middle ?? null,
+    bollingerLower: bollinger.value()?.lower ?? null,
+    vwap: vwap.value(),
+    pivot: pivots.value()?.pivot ?? null,
+  };
+};
@@ -0,0 +1,52 @@
+// Sound and desktop delivery for notifications that should reach the user
+// outside the app's own notification list
+
+let audioContext: AudioContext | null = null;
+
+// A short two-tone chime, synthesized so no audio asset is needed. Browsers
+// keep the context suspended until the user has interacted with the page.
+export const playNotificationSound = () => {
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+    audioContext = audioContext || new AudioContextClass();
+    const context = audioContext;
+    if (context.state === 'suspended') context.resume().catch(() => undefined);
+
+    [880, 1320].forEach((frequency, i) => {
+      const start = context.currentTime + i * 0.15;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.3);
+    });
+  } catch (error) {
+    console.warn('Failed to play notification sound:', error);
+  }
+};
+
+export const desktopNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestDesktopPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!desktopNotificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Only shown once the user has granted permission; clicking one focuses the app
+export const showDesktopNotification = (title: string, body: string, tag?: string) => {
+  if (!desktopNotificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    const notification = new Notification(title, { body, tag });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    console.warn('Failed to show desktop notification:', error);
+  }
+};
@@ -0,0 +1,55 @@
+import type { PendingOrder } from '../types';
+
+export const ORDER_TYPE_LABELS: Record<PendingOrder['orderType'], string> = {
+  limit: 'Limit',
+  stop: 'Stop Entry',
+};
+
+/**
+ * Whether the price has reached the order's level. A buy limit waits for price
+ * to fall to the level and a buy stop for it to rise through it; sells mirror.
+ */
+export function isOrderTriggered(order: PendingOrder, price: number): boolean {
+  if (!(price > 0)) return false;
+  const buy = order.side === 'BUY';
+  if (order.orderType === 'limit') {
+    return buy ? price <= order.price : price >= order.price;
+  }
+  return buy ? price >= order.price : price <= order.price;
+}
+
+export function isOrderExpired(order: PendingOrder, now: Date = new Date()): boolean {
+  return !!order.expiresAt && new Date(order.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Checks an order before it is placed or modified. Returns the problems found,
+ * empty when the order is valid. With a market price, also rejects orders that
+ * would fill immediately.
+ */
+export function validatePendingOrder(order: PendingOrder, marketPrice?: number): string[] {
+  const errors: string[] = [];
+  const buy = order.side === 'BUY';
+
+  if (!order.symbol) errors.push('Symbol is required');
+  if (!(order.price > 0)) errors.push('Order price must be positive');
+  if (!(order.quantity > 0)) errors.push('Quantity must be positive');
+  if (order.expiresAt && isOrderExpired(order)) errors.push('Expiry is in the past');
+
+  if (order.takeProfit !== undefined && (buy ? order.takeProfit <= order.price : order.takeProfit >= order.price)) {
+    errors.push(`Take profit must be ${buy ? 'above' : 'below'} the order price`);
+  }
+  if (order.stopLoss !== undefined && (buy ? order.stopLoss >= order.price : order.stopLoss <= order.price)) {
+    errors.push(`Stop loss must be ${buy ? 'below' : 'above'} the order price`);
+  }
+
+  if (marketPrice && marketPrice > 0 && isOrderTriggered(order, marketPrice)) {
+    errors.push(
+      order.orderType === 'limit'
+        ? `A ${order.side.toLowerCase()} limit must be ${buy ? 'below' : 'above'} the market price (${marketPrice})`
+        : `A ${order.side.toLowerCase()} stop must be ${buy ? 'above' : 'below'} the market price (${marketPrice})`
+    );
+  }
+
+  return errors;
+}
@@ -0,0 +1,58 @@
+import type { PriceAlert } from '../types';
+import { createPriceAlertTracker, evaluatePriceAlert, findAlertPosition } from './priceAlerts';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const makeAlert = (changes: Partial<PriceAlert>): PriceAlert => ({
+  id: 'alert',
+  symbol: 'EURUSD',
+  condition: 'crosses_above',
+  mode: 'recurring',
+  enabled: true,
+  createdAt: new Date(START).toISOString(),
+  triggerCount: 0,
+  ...changes,
+});
+
+// Feeds prices a minute apart and returns which of them fired the alert
+const fired = (alert: PriceAlert, prices: number[], position?: { stopLoss?: number; targetPrice?: number }) => {
+  const tracker = createPriceAlertTracker();
+  return prices.map((price, i) => evaluatePriceAlert(alert, tracker, price, START + i * MINUTE, position) !== null);
+};
+
+test('a cross fires when the price moves through the level, not when it starts beyond it', () => {
+  const above = makeAlert({ condition: 'crosses_above', price: 1.085 });
+  expect(fired(above, [1.09, 1.08, 1.084, 1.085, 1.086, 1.08, 1.09])).toEqual([false, false, false, true, false, false, true]);
+
+  const below = makeAlert({ condition: 'crosses_below', price: 100 });
+  expect(fired(below, [101, 99, 98, 101])).toEqual([false, true, false, false]);
+});
+
+test('a percent move fires within the window and then restarts it', () => {
+  const alert = makeAlert({ condition: 'percent_move', percent: 2, windowMinutes: 3 });
+  // 100 -> 102 is +2% inside three minutes; the window then starts at 102
+  expect(fired(alert, [100, 101, 102, 103, 104])).toEqual([false, false, true, false, false]);
+  // The same drift spread over more than the window never fires
+  expect(fired(alert, [100, 100.6, 101.2, 101.8, 102.4, 103])).toEqual([false, false, false, false, false, false]);
+  // Drops count as well
+  expect(fired(alert, [100, 97.5])).toEqual([false, true]);
+});
+
+test('stop and target alerts fire on entering the distance and re-arm on leaving it', () => {
+  const alert = makeAlert({ condition: 'near_stop', percent: 1, positionId: 'p1' });
+  const position = { stopLoss: 100 };
+  expect(fired(alert, [105, 100.5, 100.2, 103, 100.9], position)).toEqual([false, true, false, false, true]);
+  expect(fired(makeAlert({ condition: 'near_target', percent: 1 }), [99.5], position)).toEqual([false]);
+});
+
+test('position alerts look up the position in the account they were set on', () => {
+  const accounts = [
+    { _id: 'main', openPositions: [{ id: 'p1', stopLoss: 100 }] },
+    { _id: 'swing', openPositions: [{ id: 'p2', stopLoss: 50 }] },
+  ];
+  expect(findAlertPosition({ positionId: 'p2', accountId: 'swing' }, accounts)).toBe(accounts[1].openPositions[0]);
+  expect(findAlertPosition({ positionId: 'p2', accountId: 'main' }, accounts)).toBeUndefined();
+  // Alerts without an account look through all of them
+  expect(findAlertPosition({ positionId: 'p2' }, accounts)).toBe(accounts[1].openPositions[0]);
+});
@@ -0,0 +1,126 @@
+import type { PriceAlert, PriceAlertCondition } from '../types';
+
+export const PRICE_ALERT_CONDITIONS: Record<PriceAlertCondition, string> = {
+  crosses_above: 'Crosses above',
+  crosses_below: 'Crosses below',
+  percent_move: 'Moves by percent',
+  near_stop: 'Nears position stop',
+  near_target: 'Nears position target',
+};
+
+// Percent-move windows keep at most one price per interval
+const SAMPLE_INTERVAL_MS = 1000;
+
+// What an alert remembers between ticks. Held in memory only, so alerts
+// start watching afresh after a reload.
+export interface PriceAlertTracker {
+  lastPrice?: number;
+  samples: { at: number; price: number }[];
+  near: boolean;
+}
+
+export const createPriceAlertTracker = (): PriceAlertTracker => ({ samples: [], near: false });
+
+export interface AlertPosition {
+  stopLoss?: number;
+  activeStop?: number;
+  targetPrice?: number;
+}
+
+// The position a stop or target alert watches, in the account it was set on.
+// Alerts from before accounts were recorded look through every account.
+export const findAlertPosition = <P extends { id?: string; _id?: string }>(
+  alert: Pick<PriceAlert, 'positionId' | 'accountId'>,
+  accounts: { _id: string; openPositions: P[] }[]
+): P | undefined => {
+  if (!alert.positionId) return undefined;
+  const searched = alert.accountId ? accounts.filter(account => account._id === alert.accountId) : accounts;
+  for (const account of searched) {
+    const position = account.openPositions.find(p => (p.id ?? p._id) === alert.positionId);
+    if (position) return position;
+  }
+  return undefined;
+};
+
+// The stop an alert watches is the trailing or break-even stop once one is active
+export const alertLevel = (alert: PriceAlert, position?: AlertPosition): number | undefined => {
+  if (alert.condition === 'near_stop') return position?.activeStop ?? position?.stopLoss;
+  if (alert.condition === 'near_target') return position?.targetPrice;
+  return alert.price;
+};
+
+export const describePriceAlert = (alert: PriceAlert): string => {
+  switch (alert.condition) {
+    case 'crosses_above':
+      return `Crosses above ${alert.price}`;
+    case 'crosses_below':
+      return `Crosses below ${alert.price}`;
+    case 'percent_move':
+      return `Moves ${alert.percent}% within ${alert.windowMinutes} min`;
+    case 'near_stop':
+      return `Within ${alert.percent}% of the stop`;
+    case 'near_target':
+      return `Within ${alert.percent}% of the target`;
+  }
+};
+
+/**
+ * Feeds a price into an alert and returns the message to deliver when the
+ * alert fires, or null. Crosses fire when the price moves through the level
+ * from the other side, so the first price only sets the baseline. Moves fire
+ * when the price is the given percent away from where it was at the start of
+ * the window, which then restarts. Stop and target alerts fire on coming
+ * within the distance and re-arm once the price leaves it again.
+ */
+export const evaluatePriceAlert = (
+  alert: PriceAlert,
+  tracker: PriceAlertTracker,
+  price: number,
+  at: number,
+  position?: AlertPosition
+): string | null => {
+  const { symbol } = alert;
+
+  switch (alert.condition) {
+    case 'crosses_above':
+    case 'crosses_below': {
+      const previous = tracker.lastPrice;
+      tracker.lastPrice = price;
+      const level = alert.price;
+      if (previous === undefined || level === undefined) return null;
+      const crossed = alert.condition === 'crosses_above'
+        ? previous < level && price >= level
+        : previous > level && price <= level;
+      return crossed ? `${symbol} crossed ${alert.condition === 'crosses_above' ? 'above' : 'below'} ${level} at ${price}` : null;
+    }
+
+    case 'percent_move': {
+      const windowMs = (alert.windowMinutes ?? 0) * 60 * 1000;
+      tracker.samples = tracker.samples.filter(sample => sample.at >= at - windowMs);
+      const last = tracker.samples[tracker.samples.length - 1];
+      if (!last || at - last.at >= SAMPLE_INTERVAL_MS) tracker.samples.push({ at, price });
+      const start = tracker.samples[0];
+      if (!alert.percent || start.price === 0) return null;
+      const move = ((price - start.price) / start.price) * 100;
+      if (Math.abs(move) < alert.percent) return null;
+      tracker.samples = [{ at, price }];
+      return `${symbol} moved ${move > 0 ? '+' : ''}${move.toFixed(2)}% to ${price} within ${alert.windowMinutes} min`;
+    }
+
+    case 'near_stop':
+    case 'near_target': {
+      const level = alertLevel(alert, position);
+      if (!level || alert.percent === undefined) {
+        tracker.near = false;
+        return null;
+      }
+      const distance = (Math.abs(price - level) / level) * 100;
+      const near = distance <= alert.percent;
+      const entered = near && !tracker.near;
+      tracker.near = near;
+      return entered
+        ? `${symbol} at ${price} is ${distance.toFixed(2)}% from its ${alert.condition === 'near_stop' ? 'stop' : 'target'} at ${level}`
+        : null;
+    }
+  }
+};
@@ -0,0 +1,127 @@
+// Built-in price providers. Each one only talks to its API; batching, rate
+// limiting and fallback between providers are handled by priceService.
+import axios from 'axios';
+import { API_CONFIG } from '../config/api';
+import { MarketType, PriceProvider } from '../types';
+
+const toFinite = (value: unknown): number | null => {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : null;
+};
+
+// Our own backend price endpoint, one symbol per request
+export const backendPriceProvider: PriceProvider = {
+  id: 'BACKEND',
+  markets: ['crypto', 'forex', 'stocks', 'commodities'],
+  maxBatchSize: 1,
+  fetchPrices: async (symbols) => {
+    const prices: Record<string, number> = {};
+    const [symbol] = symbols;
+    const res = await axios.get(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.PRICE}/${symbol}`);
+    const price = toFinite(res.data?.price);
+    if (price !== null) prices[symbol] = price;
+    return prices;
+  },
+};
+
+export const binancePriceProvider: PriceProvider = {
+  id: 'BINANCE',
+  markets: ['crypto'],
+  maxBatchSize: 100,
+  fetchPrices: async (symbols) => {
+    const prices: Record<string, number> = {};
+    const res = await axios.get(`${API_CONFIG.EXTERNAL_APIS.BINANCE}/ticker/price`, {
+      params: { symbols: JSON.stringify(symbols) },
+    });
+    (Array.isArray(res.data) ? res.data : [res.data]).forEach((ticker: any) => {
+      const price = toFinite(ticker?.price);
+      if (ticker?.symbol && price !== null) prices[ticker.symbol] = price;
+    });
+    return prices;
+  },
+};
+
+// Pairs such as EURUSD or XAUUSD are priced as base -> quote conversion rates.
+// A request covers one base currency, so batches are split by base.
+export const exchangeRateHostPriceProvider: PriceProvider = {
+  id: 'EXCHANGE_RATE_HOST',
+  markets: ['forex', 'commodities'],
+  maxBatchSize: 50,
+  batchKey: symbol => symbol.slice(0, 3),
+  fetchPrices: async (symbols) => {
+    const prices: Record<string, number> = {};
+    const base = symbols[0].slice(0, 3);
+    const res = await axios.get(`${API_CONFIG.EXTERNAL_APIS.EXCHANGE_RATE_HOST}/latest`, {
+      params: { base, symbols: symbols.map(pair => pair.slice(3, 6)).join(',') },
+    });
+    symbols.forEach(pair => {
+      const price = toFinite(res.data?.rates?.[pair.slice(3, 6)]);
+      if (price !== null) prices[pair] = price;
+    });
+    return prices;
+  },
+};
+
+export const yahooFinancePriceProvider: PriceProvider = {
+  id: 'YAHOO_FINANCE',
+  markets: ['stocks'],
+  maxBatchSize: 50,
+  fetchPrices: async (symbols) => {
+    const prices: Record<string, number> = {};
+    const res = await axios.get(`${API_CONFIG.EXTERNAL_APIS.YAHOO_FINANCE}/quote`, {
+      params: { symbols: symbols.join(',') },
+    });
+    (res.data?.quoteResponse?.result || []).forEach((quote: any) => {
+      const price = toFinite(quote?.regularMarketPrice);
+      if (quote?.symbol && price !== null) prices[quote.symbol] = price;
+    });
+    return prices;
+  },
+};
+
+const MOCK_BASE_PRICES: Record<string, number> = {
+  BTCUSDT: 65000,
+  BTCUSD: 65000,
+  ETHUSDT: 3200,
+  ETHUSD: 3200,
+  SOLUSDT: 150,
+  EURUSD: 1.085,
+  GBPUSD: 1.27,
+  USDJPY: 151.5,
+  XAUUSD: 2350,
+  AAPL: 190,
+  GOOGL: 170,
+  TSLA: 180,
+};
+
+const MOCK_DEFAULT_PRICE: Record<MarketType, number> = {
+  crypto: 100,
+  forex: 1,
+  stocks: 100,
+  commodities: 50,
+};
+
+// Local random-walk prices for offline use. Each call moves every symbol by at
+// most `volatility` (fraction of price) from its previous mock price.
+export const createMockPriceProvider = (
+  basePrices: Record<string, number> = MOCK_BASE_PRICES,
+  volatility: number = 0.002
+): PriceProvider => {
+  const lastPrices: Record<string, number> = {};
+
+  return {
+    id: 'MOCK',
+    markets: ['crypto', 'forex', 'stocks', 'commodities'],
+    maxBatchSize: 1000,
+    fetchPrices: async (symbols, market) => {
+      const prices: Record<string, number> = {};
+      symbols.forEach(symbol => {
+        const previous = lastPrices[symbol] ?? basePrices[symbol] ?? MOCK_DEFAULT_PRICE[market];
+        const next = previous * (1 + (Math.random() * 2 - 1) * volatility);
+        lastPrices[symbol] = next;
+        prices[symbol] = next;
+      });
+      return prices;
+    },
+  };
+};
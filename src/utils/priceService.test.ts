@@ -0,0 +1,96 @@
+import axios from 'axios';
+import type { PriceProvider } from '../types';
+import { RateLimiter } from './rateLimiter';
+import { createMockPriceProvider, exchangeRateHostPriceProvider } from './priceProviders';
+import {
+  clearPriceProviders,
+  enableMockPriceProviders,
+  fetchMultiMarketPrices,
+  registerPriceProvider,
+} from './priceService';
+
+// Tests never reach the network; the one built-in provider used here gets canned rates
+jest.mock('axios', () => ({ get: jest.fn() }));
+const mockedGet = axios.get as jest.Mock;
+
+const fakeProvider = (id: string, prices: Record<string, number>, changes: Partial<PriceProvider> = {}) => {
+  const calls: string[][] = [];
+  const provider: PriceProvider = {
+    id,
+    markets: ['forex'],
+    maxBatchSize: 10,
+    fetchPrices: async (symbols) => {
+      calls.push(symbols);
+      return Object.fromEntries(symbols.filter(symbol => symbol in prices).map(symbol => [symbol, prices[symbol]]));
+    },
+    ...changes,
+  };
+  return { provider, calls };
+};
+
+beforeEach(() => {
+  clearPriceProviders();
+  mockedGet.mockReset();
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('symbols a provider fails or cannot price go to the next one in the chain', async () => {
+  const failing = fakeProvider('FAILING', {}, { fetchPrices: async () => { throw new Error('down'); } });
+  const partial = fakeProvider('PARTIAL', { EURUSD: 1.08 });
+  const last = fakeProvider('LAST', { EURUSD: 2, GBPUSD: 1.27 });
+  [failing, partial, last].forEach(({ provider }) => registerPriceProvider('forex', provider));
+
+  const prices = await fetchMultiMarketPrices([
+    { symbol: 'EURUSD', market: 'forex' },
+    { symbol: 'GBPUSD', market: 'forex' },
+    { symbol: 'USDCHF', market: 'forex' },
+  ]);
+  expect(prices).toEqual({ EURUSD: 1.08, GBPUSD: 1.27 });
+  expect(last.calls).toEqual([['GBPUSD', 'USDCHF']]);
+});
+
+test('batches follow the provider batch key and size', async () => {
+  const keyed = fakeProvider('KEYED', {}, { maxBatchSize: 2, batchKey: symbol => symbol.slice(0, 3) });
+  registerPriceProvider('forex', keyed.provider);
+
+  await fetchMultiMarketPrices(['EURUSD', 'GBPUSD', 'EURJPY', 'EURCHF'].map(symbol => ({ symbol, market: 'forex' })));
+  expect(keyed.calls).toEqual([['EURUSD', 'EURJPY'], ['EURCHF'], ['GBPUSD']]);
+});
+
+test('exchange rates take one rate-limited request per base currency', async () => {
+  const acquire = jest.spyOn(RateLimiter.prototype, 'acquire');
+  mockedGet.mockImplementation(async (_url: string, { params }: { params: { base: string } }) => ({
+    data: { rates: params.base === 'EUR' ? { USD: 1.08, JPY: 163 } : { USD: 1.27 } },
+  }));
+  registerPriceProvider('forex', exchangeRateHostPriceProvider);
+
+  const prices = await fetchMultiMarketPrices(['EURUSD', 'GBPUSD', 'EURJPY'].map(symbol => ({ symbol, market: 'forex' })));
+  expect(prices).toEqual({ EURUSD: 1.08, GBPUSD: 1.27, EURJPY: 163 });
+  expect(mockedGet).toHaveBeenCalledTimes(2);
+  expect(acquire).toHaveBeenCalledTimes(2);
+});
+
+test('the mock provider walks prices within its volatility and prices unknown symbols', async () => {
+  const provider = createMockPriceProvider({ BTCUSD: 100 }, 0.01);
+  const first = await provider.fetchPrices(['BTCUSD', 'NEWCOIN'], 'crypto');
+  expect(Math.abs(first.BTCUSD - 100)).toBeLessThanOrEqual(1);
+  expect(Math.abs(first.NEWCOIN - 100)).toBeLessThanOrEqual(1);
+
+  const second = await provider.fetchPrices(['BTCUSD'], 'crypto');
+  expect(Math.abs(second.BTCUSD - first.BTCUSD)).toBeLessThanOrEqual(first.BTCUSD * 0.01);
+});
+
+test('mock providers price every market offline', async () => {
+  enableMockPriceProviders({ EURUSD: 1.1, AAPL: 190 });
+  const prices = await fetchMultiMarketPrices([
+    { symbol: 'EURUSD', market: 'forex' },
+    { symbol: 'AAPL', market: 'stocks' },
+    { symbol: 'XAGUSD', market: 'commodities' },
+  ]);
+  expect(Object.keys(prices).sort()).toEqual(['AAPL', 'EURUSD', 'XAGUSD']);
+  expect(mockedGet).not.toHaveBeenCalled();
+});
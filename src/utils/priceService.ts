@@ -1,91 +1,177 @@
-// Create a dedicated price service
-import axios from 'axios';
+// Market price service: routes symbols to per-market provider chains, batching
+// requests, limiting concurrency and enforcing each provider's rate limit.
+import { API_CONFIG, RATE_LIMITS, RateLimitKey } from '../config/api';
+import { MarketType, PriceProvider } from '../types';
+import { getRateLimiter, runWithConcurrency } from './rateLimiter';
+import {
+  backendPriceProvider,
+  binancePriceProvider,
+  createMockPriceProvider,
+  exchangeRateHostPriceProvider,
+  yahooFinancePriceProvider,
+} from './priceProviders';
 
-export const fetchMultiMarketPrices = async (positions: any[]) => {
-  const prices: Record<string, number> = {};
+export interface PricedInstrument {
+  symbol: string;
+  market?: string;
+}
 
-  // Group symbols by market
-  const cryptoSymbols = positions.filter(p => p.market === 'crypto').map(p => p.symbol);
-  const forexSymbols = positions.filter(p => p.market === 'forex').map(p => p.symbol);
-  const stockSymbols = positions.filter(p => p.market === 'stocks').map(p => p.symbol);
-  const commoditySymbols = positions.filter(p => p.market === 'commodities').map(p => p.symbol);
-
-  // Crypto (Binance) - Add error handling and logging
-  for (const symbol of cryptoSymbols) {
-    try {
-      console.log(`Fetching crypto price for: ${symbol}`);
-      const res = await axios.get(`https://api.binance.com/api/v3/ticker/price?symbol=${symbol}`);
-      prices[symbol] = Number(res.data.price);
-      console.log(`${symbol} price: ${prices[symbol]}`);
-    } catch (error) {
-      console.error(`Failed to fetch crypto price for ${symbol}:`, error);
-      prices[symbol] = NaN;
-    }
-  }
+const MARKETS: MarketType[] = ['crypto', 'forex', 'stocks', 'commodities'];
+
+const BUILT_IN_PROVIDERS: Record<string, PriceProvider> = {
+  [backendPriceProvider.id]: backendPriceProvider,
+  [binancePriceProvider.id]: binancePriceProvider,
+  [exchangeRateHostPriceProvider.id]: exchangeRateHostPriceProvider,
+  [yahooFinancePriceProvider.id]: yahooFinancePriceProvider,
+};
+
+const providerChains: Record<MarketType, PriceProvider[]> = {
+  crypto: [],
+  forex: [],
+  stocks: [],
+  commodities: [],
+};
+
+const isMarket = (market: string): market is MarketType =>
+  MARKETS.includes(market as MarketType);
+
+// Registers a provider for a market. Providers are tried in registration
+// order; pass `prepend` to put one ahead of the existing chain.
+export const registerPriceProvider = (
+  market: MarketType,
+  provider: PriceProvider,
+  options: { prepend?: boolean } = {}
+) => {
+  const chain = providerChains[market].filter(p => p.id !== provider.id);
+  providerChains[market] = options.prepend ? [provider, ...chain] : [...chain, provider];
+};
+
+export const unregisterPriceProvider = (market: MarketType, providerId: string) => {
+  providerChains[market] = providerChains[market].filter(p => p.id !== providerId);
+};
 
-  // Forex - Fix the API structure
-  for (const symbol of forexSymbols) {
-    const base = symbol.slice(0, 3);
-    const quote = symbol.slice(3, 6);
-    try {
-      console.log(`Fetching forex price for: ${symbol} (${base}/${quote})`);
-      const res = await axios.get(`https://api.exchangerate.host/latest?base=${base}&symbols=${quote}`);
-      if (res.data.rates && res.data.rates[quote]) {
-        prices[symbol] = res.data.rates[quote];
-        console.log(`${symbol} price: ${prices[symbol]}`);
+export const getPriceProviders = (market: MarketType): PriceProvider[] => [...providerChains[market]];
+
+export const clearPriceProviders = () => {
+  MARKETS.forEach(market => {
+    providerChains[market] = [];
+  });
+};
+
+// Restores the chains configured in API_CONFIG.PRICE_PROVIDERS
+export const resetPriceProviders = () => {
+  clearPriceProviders();
+  MARKETS.forEach(market => {
+    (API_CONFIG.PRICE_PROVIDERS[market] || []).forEach(id => {
+      const provider = BUILT_IN_PROVIDERS[id];
+      if (provider) {
+        registerPriceProvider(market, provider);
       } else {
-        console.error(`No rate found for ${symbol}`);
-        prices[symbol] = NaN;
+        console.warn(`Unknown price provider "${id}" configured for ${market}`);
       }
-    } catch (error) {
-      console.error(`Failed to fetch forex price for ${symbol}:`, error);
-      prices[symbol] = NaN;
-    }
+    });
+  });
+};
+
+// Replaces every chain with a single local mock provider
+export const enableMockPriceProviders = (basePrices?: Record<string, number>) => {
+  const mockProvider = createMockPriceProvider(basePrices);
+  clearPriceProviders();
+  MARKETS.forEach(market => registerPriceProvider(market, mockProvider));
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += Math.max(size, 1)) {
+    chunks.push(items.slice(i, i + Math.max(size, 1)));
   }
+  return chunks;
+};
 
-  // Stocks - Add CORS proxy and better error handling
-  for (const symbol of stockSymbols) {
-    try {
-      console.log(`Fetching stock price for: ${symbol}`);
-      // Yahoo Finance often blocks CORS, consider using a proxy or alternative API
-      const res = await axios.get(`https://query1.finance.yahoo.com/v7/finance/quote?symbols=${symbol}`, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-      const quote = res.data.quoteResponse.result[0];
-      if (quote && quote.regularMarketPrice) {
-        prices[symbol] = quote.regularMarketPrice;
-        console.log(`${symbol} price: ${prices[symbol]}`);
-      } else {
-        console.error(`No price data for ${symbol}`);
-        prices[symbol] = NaN;
-      }
-    } catch (error) {
-      console.error(`Failed to fetch stock price for ${symbol}:`, error);
-      prices[symbol] = NaN;
-    }
+// One batch per request: symbols are grouped by the provider's batch key,
+// then split to its batch size
+const batchesFor = (provider: PriceProvider, symbols: string[]): string[][] => {
+  if (!provider.batchKey) return chunk(symbols, provider.maxBatchSize);
+  const groups = new Map<string, string[]>();
+  symbols.forEach(symbol => {
+    const key = provider.batchKey!(symbol);
+    groups.set(key, [...(groups.get(key) || []), symbol]);
+  });
+  return Array.from(groups.values()).flatMap(group => chunk(group, provider.maxBatchSize));
+};
+
+// Each batch is a single request, so one acquisition covers it
+const fetchBatch = async (provider: PriceProvider, symbols: string[], market: MarketType) => {
+  // Providers without a configured limit (e.g. mocks) are not throttled
+  if (provider.id in RATE_LIMITS) {
+    await getRateLimiter(provider.id as RateLimitKey).acquire();
   }
+  return provider.fetchPrices(symbols, market);
+};
+
+const fetchMarketPrices = async (market: MarketType, symbols: string[]) => {
+  const prices: Record<string, number> = {};
+  let remaining = symbols;
+
+  for (const provider of providerChains[market]) {
+    if (remaining.length === 0) break;
 
-  // Commodities - Similar to forex
-  for (const symbol of commoditySymbols) {
-    const base = symbol.slice(0, 3);
-    const quote = symbol.slice(3, 6);
-    try {
-      console.log(`Fetching commodity price for: ${symbol} (${base}/${quote})`);
-      const res = await axios.get(`https://api.exchangerate.host/latest?base=${base}&symbols=${quote}`);
-      if (res.data.rates && res.data.rates[quote]) {
-        prices[symbol] = res.data.rates[quote];
-        console.log(`${symbol} price: ${prices[symbol]}`);
+    const batches = batchesFor(provider, remaining);
+    const results = await runWithConcurrency(
+      batches.map(batch => () => fetchBatch(provider, batch, market)),
+      API_CONFIG.MAX_CONCURRENT_PRICE_REQUESTS
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        Object.entries(result.value).forEach(([symbol, price]) => {
+          if (Number.isFinite(price)) prices[symbol] = price;
+        });
       } else {
-        prices[symbol] = NaN;
+        console.warn(`${provider.id} failed for ${batches[index].join(', ')}:`, result.reason?.message || result.reason);
       }
-    } catch (error) {
-      console.error(`Failed to fetch commodity price for ${symbol}:`, error);
-      prices[symbol] = NaN;
-    }
+    });
+
+    remaining = remaining.filter(symbol => prices[symbol] === undefined);
   }
 
-  console.log('All fetched prices:', prices);
+  if (remaining.length > 0) {
+    console.warn(`No ${market} price available for: ${remaining.join(', ')}`);
+  }
   return prices;
-};
\ No newline at end of file
+};
+
+// Fetches latest prices for the given instruments. Symbols no provider could
+// price are left out of the result, so callers can keep their previous price.
+export const fetchMultiMarketPrices = async (
+  instruments: PricedInstrument[]
+): Promise<Record<string, number>> => {
+  const symbolsByMarket: Partial<Record<MarketType, string[]>> = {};
+
+  instruments.forEach(({ symbol, market }) => {
+    if (!symbol) return;
+    const resolvedMarket = market && isMarket(market) ? market : 'crypto';
+    const symbols = symbolsByMarket[resolvedMarket] || [];
+    if (!symbols.includes(symbol)) symbols.push(symbol);
+    symbolsByMarket[resolvedMarket] = symbols;
+  });
+
+  const results = await Promise.all(
+    Object.entries(symbolsByMarket).map(([market, symbols]) =>
+      fetchMarketPrices(market as MarketType, symbols || [])
+    )
+  );
+
+  return Object.assign({}, ...results);
+};
+
+export const fetchPrice = async (symbol: string, market?: string): Promise<number | undefined> => {
+  const prices = await fetchMultiMarketPrices([{ symbol, market }]);
+  return prices[symbol];
+};
+
+if (API_CONFIG.USE_MOCK_PRICES) {
+  enableMockPriceProviders();
+} else {
+  resetPriceProviders();
+}
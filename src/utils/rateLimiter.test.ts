@@ -0,0 +1,55 @@
+import { RateLimitError, RateLimiter, runWithConcurrency } from './rateLimiter';
+
+const START = Date.UTC(2024, 0, 1);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(START);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('calls beyond the limit wait until the oldest one leaves the window', async () => {
+  const limiter = new RateLimiter('TEST', 2, 1000);
+  await limiter.acquire();
+  jest.advanceTimersByTime(300);
+  await limiter.acquire();
+  expect(limiter.getWaitTime()).toBe(700);
+
+  const third = limiter.acquire();
+  jest.advanceTimersByTime(700);
+  await third;
+  // The second call is still in the window, joined by the third
+  expect(limiter.getWaitTime()).toBe(300);
+});
+
+test('a wait longer than allowed rejects instead of stalling', async () => {
+  const limiter = new RateLimiter('TEST', 1, 60 * 1000);
+  await limiter.acquire();
+  await expect(limiter.acquire(5000)).rejects.toBeInstanceOf(RateLimitError);
+
+  limiter.reset();
+  await expect(limiter.acquire(5000)).resolves.toBeUndefined();
+});
+
+test('tasks run at most the limit at a time and results keep their order', async () => {
+  jest.useRealTimers();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const tasks = [1, 2, 3, 4, 5].map(n => async () => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, (6 - n) * 5));
+    inFlight--;
+    if (n === 3) throw new Error('three');
+    return n * 10;
+  });
+
+  const results = await runWithConcurrency(tasks, 2);
+  expect(maxInFlight).toBe(2);
+  expect(results.map(result => (result.status === 'fulfilled' ? result.value : result.reason.message))).toEqual([
+    10, 20, 'three', 40, 50,
+  ]);
+});
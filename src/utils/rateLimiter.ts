@@ -0,0 +1,88 @@
+import { RATE_LIMITS, RateLimitKey } from '../config/api';
+
+export class RateLimitError extends Error {
+  constructor(public key: string, public retryAfter: number) {
+    super(`Rate limit exceeded for ${key}, retry in ${Math.ceil(retryAfter / 1000)}s`);
+    this.name = 'RateLimitError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Sliding-window limiter: at most `maxCalls` acquisitions per `intervalMs`.
+export class RateLimiter {
+  private calls: number[] = [];
+
+  constructor(
+    private key: string,
+    private maxCalls: number,
+    private intervalMs: number
+  ) {}
+
+  private prune(now: number) {
+    while (this.calls.length > 0 && now - this.calls[0] >= this.intervalMs) {
+      this.calls.shift();
+    }
+  }
+
+  public getWaitTime(now: number = Date.now()): number {
+    this.prune(now);
+    if (this.calls.length < this.maxCalls) return 0;
+    return this.calls[0] + this.intervalMs - now;
+  }
+
+  // Waits for a free slot, or rejects when the wait would exceed `maxWaitMs`
+  // so callers can fall back to another source instead of stalling.
+  public async acquire(maxWaitMs: number = 5000): Promise<void> {
+    let wait = this.getWaitTime();
+    while (wait > 0) {
+      if (wait > maxWaitMs) {
+        throw new RateLimitError(this.key, wait);
+      }
+      await sleep(wait);
+      wait = this.getWaitTime();
+    }
+    this.calls.push(Date.now());
+  }
+
+  public reset() {
+    this.calls = [];
+  }
+}
+
+const limiters = new Map<RateLimitKey, RateLimiter>();
+
+export const getRateLimiter = (key: RateLimitKey): RateLimiter => {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    const { calls, intervalMs } = RATE_LIMITS[key];
+    limiter = new RateLimiter(key, calls, intervalMs);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+};
+
+// Runs tasks with at most `limit` in flight, preserving result order.
+export const runWithConcurrency = async <T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), tasks.length) }, () => worker())
+  );
+  return results;
+};
@@ -0,0 +1,95 @@
+import type { MarketType, SignalRisk, TradingSignal } from '../types';
+
+// What an analyst fills in to publish a manual signal
+export interface SignalDraft {
+  symbol: string;
+  market: MarketType;
+  type: 'BUY' | 'SELL';
+  entryPrice: number;
+  targetPrice: number;
+  stopLoss: number;
+  timeframe: string;
+  expiresAt: string;
+  confidence: number;
+  reasoning: string;
+}
+
+// Stop distances, as a percentage of entry, up to which a call counts as low
+// and medium risk
+export const RISK_STOP_DISTANCE = { low: 1.5, medium: 4 };
+
+// Reward per unit of risk; 0 when the levels don't describe a trade
+export const calculateRiskReward = (draft: Pick<SignalDraft, 'entryPrice' | 'targetPrice' | 'stopLoss'>): number => {
+  const risk = Math.abs(draft.entryPrice - draft.stopLoss);
+  const reward = Math.abs(draft.targetPrice - draft.entryPrice);
+  return risk > 0 && Number.isFinite(reward) ? reward / risk : 0;
+};
+
+/**
+ * Buckets a call by how far its stop sits from entry. Calls risking more than
+ * they stand to gain move up a bucket.
+ */
+export function classifySignalRisk(draft: Pick<SignalDraft, 'entryPrice' | 'targetPrice' | 'stopLoss'>): SignalRisk {
+  const stopDistance = draft.entryPrice > 0 ? (Math.abs(draft.entryPrice - draft.stopLoss) / draft.entryPrice) * 100 : 0;
+  const buckets: SignalRisk[] = ['low', 'medium', 'high'];
+  let index = stopDistance <= RISK_STOP_DISTANCE.low ? 0 : stopDistance <= RISK_STOP_DISTANCE.medium ? 1 : 2;
+  if (calculateRiskReward(draft) < 1) index = Math.min(index + 1, 2);
+  return buckets[index];
+}
+
+/**
+ * Checks a draft before it is published. Returns the problems found, empty
+ * when the draft is valid. Levels must sit on the right side of entry: a BUY
+ * has its stop below and target above, a SELL the reverse.
+ */
+export function validateSignalDraft(draft: SignalDraft, now: number = Date.now()): string[] {
+  const errors: string[] = [];
+  const buy = draft.type === 'BUY';
+
+  if (!draft.symbol.trim()) errors.push('Symbol is required');
+  if (!draft.timeframe) errors.push('Timeframe is required');
+  if (!(draft.entryPrice > 0)) errors.push('Entry price must be positive');
+  if (!(draft.targetPrice > 0)) errors.push('Target price must be positive');
+  if (!(draft.stopLoss > 0)) errors.push('Stop loss must be positive');
+  if (!(draft.confidence >= 0 && draft.confidence <= 100)) errors.push('Confidence must be between 0 and 100');
+
+  const expiresAt = Date.parse(draft.expiresAt);
+  if (Number.isNaN(expiresAt)) errors.push('Expiry is required');
+  else if (expiresAt <= now) errors.push('Expiry is in the past');
+
+  if (draft.entryPrice > 0) {
+    if (draft.stopLoss > 0 && (buy ? draft.stopLoss >= draft.entryPrice : draft.stopLoss <= draft.entryPrice)) {
+      errors.push(`Stop loss must be ${buy ? 'below' : 'above'} the entry price for a ${draft.type}`);
+    }
+    if (draft.targetPrice > 0 && (buy ? draft.targetPrice <= draft.entryPrice : draft.targetPrice >= draft.entryPrice)) {
+      errors.push(`Target must be ${buy ? 'above' : 'below'} the entry price for a ${draft.type}`);
+    }
+  }
+
+  if (draft.reasoning.trim().length < 10) errors.push('Explain the reasoning in at least 10 characters');
+
+  return errors;
+}
+
+// The createCustomSignal payload for a valid draft
+export const draftToSignal = (
+  draft: SignalDraft
+): Omit<TradingSignal, 'id' | 'createdAt' | 'status' | 'source'> => {
+  const riskReward = calculateRiskReward(draft);
+  return {
+    symbol: draft.symbol.trim().toUpperCase(),
+    type: draft.type,
+    confidence: draft.confidence,
+    entryPrice: draft.entryPrice,
+    targetPrice: draft.targetPrice,
+    stopLoss: draft.stopLoss,
+    timeframe: draft.timeframe,
+    market: draft.market,
+    description: `Manual ${draft.type} call on ${draft.symbol.trim().toUpperCase()} (R:R ${riskReward.toFixed(2)})`,
+    reasoning: draft.reasoning.trim(),
+    technicalIndicators: {},
+    expiresAt: new Date(draft.expiresAt).toISOString(),
+    tags: ['manual'],
+    risk: classifySignalRisk(draft),
+  };
+};
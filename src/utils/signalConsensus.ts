@@ -0,0 +1,136 @@
+import type { SignalSource, SignalType, TradingSignal } from '../types';
+
+export type ConsensusDirection = 'BUY' | 'SELL' | 'NEUTRAL';
+
+// The latest active signal of one source for a symbol and timeframe
+export interface ConsensusVote {
+  signalId: string;
+  source: SignalSource;
+  type: SignalType;
+  confidence: number;
+  createdAt: string;
+}
+
+export interface SignalConsensus {
+  key: string;
+  symbol: string;
+  timeframe: string;
+  market: TradingSignal['market'];
+  votes: ConsensusVote[];
+  buySources: number;
+  sellSources: number;
+  holdSources: number;
+  netScore: number; // -1 (every source sells) to 1 (every source buys), confidence-weighted
+  direction: ConsensusDirection;
+  agreement: number; // Percentage of sources voting with the direction
+  conflict: boolean; // Some sources buy while others sell
+}
+
+// Net scores closer to zero than this read as no clear direction
+export const NEUTRAL_BAND = 0.2;
+
+const DIRECTION_SIGN: Record<SignalType, number> = { BUY: 1, SELL: -1, HOLD: 0 };
+
+export const consensusKey = (symbol: string, timeframe: string) =>
+  `${symbol.toUpperCase()}|${timeframe.toUpperCase()}`;
+
+const isLive = (signal: TradingSignal, now: number) =>
+  signal.status === 'active' && !(Date.parse(signal.expiresAt) <= now);
+
+// Each source gets one vote per symbol and timeframe: its most recent signal
+const latestBySource = (signals: TradingSignal[]) => {
+  const votes = new Map<SignalSource, TradingSignal>();
+  signals.forEach(signal => {
+    const current = votes.get(signal.source);
+    if (!current || Date.parse(signal.createdAt) > Date.parse(current.createdAt)) {
+      votes.set(signal.source, signal);
+    }
+  });
+  return Array.from(votes.values());
+};
+
+const summarize = (key: string, signals: TradingSignal[]): SignalConsensus => {
+  const latest = latestBySource(signals);
+  const votes: ConsensusVote[] = latest.map(signal => ({
+    signalId: signal.id,
+    source: signal.source,
+    type: signal.type,
+    confidence: signal.confidence,
+    createdAt: signal.createdAt,
+  }));
+  const count = (type: SignalType) => votes.filter(vote => vote.type === type).length;
+  const buySources = count('BUY');
+  const sellSources = count('SELL');
+  const holdSources = count('HOLD');
+
+  // HOLD votes carry weight but no direction, so they pull the score to zero
+  const totalWeight = votes.reduce((sum, vote) => sum + vote.confidence, 0);
+  const netScore = totalWeight > 0
+    ? votes.reduce((sum, vote) => sum + DIRECTION_SIGN[vote.type] * vote.confidence, 0) / totalWeight
+    : 0;
+  const direction: ConsensusDirection = netScore >= NEUTRAL_BAND ? 'BUY' : netScore <= -NEUTRAL_BAND ? 'SELL' : 'NEUTRAL';
+  const agreeing = direction === 'BUY' ? buySources : direction === 'SELL' ? sellSources : holdSources;
+
+  return {
+    key,
+    symbol: latest[0].symbol,
+    timeframe: latest[0].timeframe,
+    market: latest[0].market,
+    votes,
+    buySources,
+    sellSources,
+    holdSources,
+    netScore,
+    direction,
+    agreement: votes.length ? (agreeing / votes.length) * 100 : 0,
+    conflict: buySources > 0 && sellSources > 0,
+  };
+};
+
+/**
+ * Groups live signals by symbol and timeframe and weighs each source's
+ * latest call by its confidence. Conflicting groups come first, then groups
+ * with more sources.
+ */
+export function buildSignalConsensus(signals: TradingSignal[], now: number = Date.now()): SignalConsensus[] {
+  const groups = new Map<string, TradingSignal[]>();
+  signals
+    .filter(signal => isLive(signal, now))
+    .forEach(signal => {
+      const key = consensusKey(signal.symbol, signal.timeframe);
+      groups.set(key, [...(groups.get(key) || []), signal]);
+    });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => summarize(key, group))
+    .sort((a, b) =>
+      Number(b.conflict) - Number(a.conflict) ||
+      b.votes.length - a.votes.length ||
+      a.symbol.localeCompare(b.symbol)
+    );
+}
+
+/**
+ * How many distinct sources currently call the same direction as the signal
+ * for its symbol and timeframe, and how many call the opposite. The signal's
+ * own source counts as agreeing even if it is not among `signals`.
+ */
+export function countSourceAgreement(
+  signal: TradingSignal,
+  signals: TradingSignal[],
+  now: number = Date.now()
+): { agreeing: number; opposing: number } {
+  const key = consensusKey(signal.symbol, signal.timeframe);
+  const peers = signals.filter(other =>
+    other.id !== signal.id &&
+    other.source !== signal.source &&
+    isLive(other, now) &&
+    consensusKey(other.symbol, other.timeframe) === key
+  );
+  const votes = latestBySource(peers);
+  const direction = DIRECTION_SIGN[signal.type];
+  return {
+    agreeing: 1 + votes.filter(vote => vote.type === signal.type).length,
+    opposing: direction === 0 ? 0 : votes.filter(vote => DIRECTION_SIGN[vote.type] === -direction).length,
+  };
+}
@@ -0,0 +1,31 @@
+import type { TradingSignal } from '../types';
+
+// How long before expiry a watched signal triggers a warning
+export const EXPIRY_WARNING_MINUTES = 15;
+
+// Milliseconds left until the signal expires, negative once it has.
+// Signals without a readable expiry never expire.
+export const msUntilExpiry = (signal: Pick<TradingSignal, 'expiresAt'>, now: number = Date.now()): number => {
+  const expiresAt = Date.parse(signal.expiresAt);
+  return Number.isNaN(expiresAt) ? Infinity : expiresAt - now;
+};
+
+export const isSignalExpired = (signal: Pick<TradingSignal, 'expiresAt'>, now: number = Date.now()) =>
+  msUntilExpiry(signal, now) <= 0;
+
+// Compact countdown with the two largest units, e.g. "2d 4h", "3h 05m", "4m 09s"
+export const formatTimeLeft = (ms: number): string => {
+  if (!Number.isFinite(ms)) return '';
+  if (ms <= 0) return 'Expired';
+
+  const seconds = Math.floor(ms / 1000);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  if (minutes > 0) return `${minutes}m ${pad(seconds % 60)}s`;
+  return `${seconds}s`;
+};
@@ -0,0 +1,88 @@
+import type { SignalAnnotation, SignalFilter, TradingSignal } from '../types';
+
+export const EMPTY_SIGNAL_FILTER: SignalFilter = {
+  markets: [],
+  types: [],
+  confidence: [0, 100],
+  risk: [],
+  status: [],
+  timeframes: [],
+  symbols: [],
+  tags: [],
+  sources: [],
+  starred: false,
+  hasNotes: false,
+};
+
+// Filters saved before a field existed still load with every field present
+export const normalizeSignalFilter = (filter: Partial<SignalFilter> = {}): SignalFilter => ({
+  ...EMPTY_SIGNAL_FILTER,
+  ...filter,
+});
+
+const includesIgnoringCase = (values: string[], value: string | undefined) =>
+  !!value && values.some(v => v.toLowerCase() === value.toLowerCase());
+
+/**
+ * Whether a signal meets every criterion of the filter. Symbols, types and
+ * tags compare case-insensitively; a signal matches the tag criterion when it
+ * or the user's annotation carries any of the listed tags. The optional
+ * search text matches the symbol, description, reasoning, a tag or the note.
+ */
+export function matchesSignalFilter(
+  signal: TradingSignal,
+  filter: SignalFilter,
+  search = '',
+  annotation?: SignalAnnotation
+): boolean {
+  const tags = annotation?.tags.length ? [...(signal.tags || []), ...annotation.tags] : signal.tags || [];
+
+  if (filter.markets.length > 0 && !filter.markets.includes(signal.market)) return false;
+  if (filter.types.length > 0 && !includesIgnoringCase(filter.types, signal.type)) return false;
+  if (signal.confidence < filter.confidence[0] || signal.confidence > filter.confidence[1]) return false;
+  if (filter.risk.length > 0 && !filter.risk.includes(signal.risk)) return false;
+  if (filter.status.length > 0 && !filter.status.includes(signal.status)) return false;
+  if (filter.timeframes.length > 0 && !includesIgnoringCase(filter.timeframes, signal.timeframe)) return false;
+  if (filter.symbols.length > 0 && !includesIgnoringCase(filter.symbols, signal.symbol)) return false;
+  if (filter.sources.length > 0 && !filter.sources.includes(signal.source)) return false;
+  if (filter.tags.length > 0 && !tags.some(tag => includesIgnoringCase(filter.tags, tag))) return false;
+  if (filter.starred && !annotation?.starred) return false;
+  if (filter.hasNotes && !annotation?.note.trim()) return false;
+
+  const query = search.trim().toLowerCase();
+  if (query) {
+    return (
+      signal.symbol.toLowerCase().includes(query) ||
+      !!signal.description?.toLowerCase().includes(query) ||
+      !!signal.reasoning?.toLowerCase().includes(query) ||
+      !!annotation?.note.toLowerCase().includes(query) ||
+      tags.some(tag => tag.toLowerCase().includes(query))
+    );
+  }
+
+  return true;
+}
+
+export const countActiveFilters = (filter: SignalFilter): number => {
+  const lists: (keyof SignalFilter)[] = ['markets', 'types', 'risk', 'status', 'timeframes', 'symbols', 'tags', 'sources'];
+  const listCount = lists.filter(key => (filter[key] as string[]).length > 0).length;
+  const confidenceActive = filter.confidence[0] > 0 || filter.confidence[1] < 100;
+  return listCount + (confidenceActive ? 1 : 0) + (filter.starred ? 1 : 0) + (filter.hasNotes ? 1 : 0);
+};
+
+// Short human-readable summary, e.g. for a screener list or an alert
+export const describeSignalFilter = (filter: SignalFilter): string => {
+  const parts: string[] = [];
+  if (filter.types.length) parts.push(filter.types.map(t => t.toUpperCase()).join('/'));
+  if (filter.symbols.length) parts.push(filter.symbols.join(', '));
+  if (filter.markets.length) parts.push(filter.markets.join(', '));
+  if (filter.confidence[0] > 0 || filter.confidence[1] < 100) parts.push(`${filter.confidence[0]}-${filter.confidence[1]}%`);
+  if (filter.risk.length) parts.push(`${filter.risk.join('/')} risk`);
+  if (filter.timeframes.length) parts.push(filter.timeframes.join(', '));
+  if (filter.sources.length) parts.push(filter.sources.map(s => s.replace('_', ' ')).join(', '));
+  if (filter.tags.length) parts.push(filter.tags.map(t => `#${t}`).join(' '));
+  if (filter.status.length) parts.push(filter.status.join('/'));
+  if (filter.starred) parts.push('starred');
+  if (filter.hasNotes) parts.push('with notes');
+  return parts.length ? parts.join(' · ') : 'All signals';
+};
@@ -0,0 +1,164 @@
+// Resolves signals to what the market did after them: the target was reached,
+// the stop was reached, or the signal expired with neither. Outcomes are
+// measured on OHLC candles from the signal's creation onwards.
+import type { TradingSignal } from '../types';
+import type { ChartData } from '../store/slices/marketSlice';
+
+export type SignalOutcomeStatus = 'open' | 'target_hit' | 'stop_hit' | 'expired_flat';
+
+export interface SignalOutcome {
+  signalId: string;
+  status: SignalOutcomeStatus;
+  exitPrice: number; // Level hit, or the last close while open or at expiry
+  returnPercentage: number; // From entry to exitPrice, in the signal's direction
+  mfe: number; // Maximum favourable excursion, % of entry
+  mae: number; // Maximum adverse excursion, % of entry (positive)
+  resolvedAt?: string;
+  evaluatedAt: string;
+}
+
+export interface OutcomeGroupStats {
+  key: string;
+  total: number; // Signals with an outcome, including open ones
+  resolved: number;
+  targetHits: number;
+  stopHits: number;
+  expiredFlat: number;
+  hitRate: number; // Target hits / resolved, %
+  winRate: number; // Resolved with a positive return, %
+  avgReturn: number;
+  avgMfe: number;
+  avgMae: number;
+}
+
+export const OUTCOME_LABELS: Record<SignalOutcomeStatus, string> = {
+  open: 'Open',
+  target_hit: 'Target Hit',
+  stop_hit: 'Stop Hit',
+  expired_flat: 'Expired',
+};
+
+export const isResolved = (outcome?: SignalOutcome) => !!outcome && outcome.status !== 'open';
+
+// Candles judge a signal only if they go back to when it was created;
+// live-built or cached candles often cover just the last few periods
+export const coversSignal = (signal: TradingSignal, candles?: ChartData[]) =>
+  !!candles?.length && candles[0].timestamp <= new Date(signal.createdAt).getTime();
+
+/**
+ * Walks the candles after the signal was created. When one candle spans both
+ * levels the stop is assumed to have been hit first, as in the backtester.
+ * Returns null for HOLD signals and when the candles do not reach back to
+ * the signal's creation, since a partial history would misjudge it.
+ */
+export function evaluateSignalOutcome(
+  signal: TradingSignal,
+  candles: ChartData[],
+  now: number = Date.now()
+): SignalOutcome | null {
+  if (signal.type === 'HOLD' || !(signal.entryPrice > 0) || !coversSignal(signal, candles)) return null;
+
+  const isBuy = signal.type === 'BUY';
+  const entry = signal.entryPrice;
+  const createdAt = new Date(signal.createdAt).getTime();
+  const expiry = signal.expiresAt ? new Date(signal.expiresAt).getTime() : Infinity;
+  const toPercent = (move: number) => (move / entry) * 100;
+  const directional = (price: number) => toPercent(isBuy ? price - entry : entry - price);
+
+  let mfe = 0;
+  let mae = 0;
+  let lastCandle: ChartData | null = null;
+
+  const outcome = (
+    status: SignalOutcomeStatus,
+    exitPrice: number,
+    resolvedAt?: number
+  ): SignalOutcome => ({
+    signalId: signal.id,
+    status,
+    exitPrice,
+    returnPercentage: directional(exitPrice),
+    mfe,
+    mae,
+    resolvedAt: resolvedAt !== undefined ? new Date(resolvedAt).toISOString() : undefined,
+    evaluatedAt: new Date(now).toISOString(),
+  });
+
+  for (const candle of candles) {
+    if (candle.timestamp < createdAt) continue;
+    if (candle.timestamp > expiry) break;
+
+    const favourable = isBuy ? candle.high - entry : entry - candle.low;
+    const adverse = isBuy ? entry - candle.low : candle.high - entry;
+
+    const stopHit = signal.stopLoss > 0 && (isBuy ? candle.low <= signal.stopLoss : candle.high >= signal.stopLoss);
+    if (stopHit) {
+      mae = Math.max(mae, -directional(signal.stopLoss));
+      return outcome('stop_hit', signal.stopLoss, candle.timestamp);
+    }
+
+    mae = Math.max(mae, toPercent(adverse));
+    const targetHit = signal.targetPrice > 0 && (isBuy ? candle.high >= signal.targetPrice : candle.low <= signal.targetPrice);
+    if (targetHit) {
+      mfe = Math.max(mfe, directional(signal.targetPrice));
+      return outcome('target_hit', signal.targetPrice, candle.timestamp);
+    }
+
+    mfe = Math.max(mfe, toPercent(favourable));
+    lastCandle = candle;
+  }
+
+  if (!lastCandle) return null;
+  return expiry <= now
+    ? outcome('expired_flat', lastCandle.close, expiry)
+    : outcome('open', lastCandle.close);
+}
+
+/**
+ * Hit rates and excursions of signal outcomes grouped by key. A signal can
+ * belong to several groups, e.g. one per model that produced it.
+ */
+export function aggregateOutcomes(
+  signals: TradingSignal[],
+  outcomes: Record<string, SignalOutcome>,
+  getKeys: (signal: TradingSignal) => string[]
+): OutcomeGroupStats[] {
+  const groups: Record<string, SignalOutcome[]> = {};
+
+  signals.forEach(signal => {
+    const outcome = outcomes[signal.id];
+    if (!outcome) return;
+    getKeys(signal).forEach(key => {
+      (groups[key] = groups[key] || []).push(outcome);
+    });
+  });
+
+  return Object.entries(groups)
+    .map(([key, group]) => {
+      const resolved = group.filter(isResolved);
+      const count = (status: SignalOutcomeStatus) => resolved.filter(o => o.status === status).length;
+      const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+      const targetHits = count('target_hit');
+      return {
+        key,
+        total: group.length,
+        resolved: resolved.length,
+        targetHits,
+        stopHits: count('stop_hit'),
+        expiredFlat: count('expired_flat'),
+        hitRate: resolved.length ? (targetHits / resolved.length) * 100 : 0,
+        winRate: resolved.length ? (resolved.filter(o => o.returnPercentage > 0).length / resolved.length) * 100 : 0,
+        avgReturn: average(resolved.map(o => o.returnPercentage)),
+        avgMfe: average(resolved.map(o => o.mfe)),
+        avgMae: average(resolved.map(o => o.mae)),
+      };
+    })
+    .sort((a, b) => b.resolved - a.resolved);
+}
+
+// Models behind a signal: the ensemble list when present, else the single model
+export const getSignalModels = (signal: TradingSignal): string[] => {
+  const models = signal.metadata?.modelsUsed?.filter(Boolean);
+  if (models && models.length > 0) return models;
+  return [signal.technicalIndicators?.modelUsed || 'unknown'];
+};
@@ -0,0 +1,62 @@
+import { normalizeSignal } from './signalValidation';
+
+const payload = (changes: Record<string, unknown> = {}) => ({
+  _id: 'abc123',
+  symbol: 'eurusd',
+  type: 'buy',
+  confidence: 0.87,
+  entry_price: '1.085',
+  target_price: 1.09,
+  stop_loss: 1.08,
+  market: 'fx',
+  created_at: '2024-01-02T12:00:00Z',
+  expires_at: '2024-01-03T12:00:00Z',
+  ...changes,
+});
+
+test('a snake_case payload is normalized, with model confidence scaled to a percentage', () => {
+  const result = normalizeSignal(payload({ current_price: '1.086', position_size: 0.1 }));
+  expect(result).toMatchObject({
+    valid: true,
+    signal: {
+      id: 'abc123',
+      symbol: 'EURUSD',
+      type: 'BUY',
+      confidence: 87,
+      entryPrice: 1.085,
+      market: 'forex',
+      status: 'active',
+      source: 'ai',
+      createdAt: '2024-01-02T12:00:00.000Z',
+      expiresAt: '2024-01-03T12:00:00.000Z',
+      currentPrice: 1.086,
+      positionSize: 0.1,
+    },
+  });
+  // Percentages are kept as they are
+  expect(normalizeSignal(payload({ confidence: 72 }))).toMatchObject({ signal: { confidence: 72 } });
+});
+
+test('a confidence of exactly 1 is a full-confidence fraction', () => {
+  expect(normalizeSignal(payload({ confidence: 1 }))).toMatchObject({ signal: { confidence: 100 } });
+  expect(normalizeSignal(payload({ confidence: '1.0' }))).toMatchObject({ signal: { confidence: 100 } });
+  expect(normalizeSignal(payload({ confidence: 1.5 }))).toMatchObject({ signal: { confidence: 1.5 } });
+});
+
+test('optional numbers missing from the payload are left unset', () => {
+  const result = normalizeSignal(payload({ pnl: 'n/a' }));
+  expect(result.valid).toBe(true);
+  expect(result).not.toHaveProperty('signal.pnl');
+  expect(result).not.toHaveProperty('signal.executedPrice');
+});
+
+test('a payload without an expiry or with an unknown type is rejected', () => {
+  expect(normalizeSignal(payload({ expires_at: undefined }))).toEqual({
+    valid: false,
+    errors: ['invalid expiresAt "undefined"'],
+  });
+  expect(normalizeSignal(payload({ type: 'wait' }))).toEqual({
+    valid: false,
+    errors: ['invalid type "wait"'],
+  });
+});
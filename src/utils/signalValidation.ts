@@ -0,0 +1,235 @@
+// Runtime validation for signals arriving from REST, WebSocket and Supabase.
+// Payloads are normalized into the canonical TradingSignal shape: Mongo `_id`
+// and snake_case columns are mapped, enum casing is fixed, numeric strings are
+// coerced and dates are converted to ISO strings.
+import {
+  MarketType,
+  SignalRisk,
+  SignalSource,
+  SignalStatus,
+  SignalType,
+  TradingSignal,
+} from '../types';
+
+export type SignalValidationResult =
+  | { valid: true; signal: TradingSignal }
+  | { valid: false; errors: string[] };
+
+export interface RejectedSignal {
+  payload: unknown;
+  errors: string[];
+}
+
+const SIGNAL_TYPES: SignalType[] = ['BUY', 'SELL', 'HOLD'];
+const MARKETS: MarketType[] = ['forex', 'crypto', 'stocks', 'commodities'];
+const RISKS: SignalRisk[] = ['low', 'medium', 'high'];
+const SOURCES: SignalSource[] = ['ai', 'manual', 'copy_trading', 'enterprise_ml'];
+const STATUSES: SignalStatus[] = ['active', 'executed', 'expired', 'cancelled'];
+
+const MARKET_ALIASES: Record<string, MarketType> = {
+  stock: 'stocks',
+  equity: 'stocks',
+  equities: 'stocks',
+  commodity: 'commodities',
+  fx: 'forex',
+};
+
+type RawSignal = Record<string, any>;
+
+// Optional numeric fields, set only when the payload has a usable value
+type OptionalNumberField = 'executedPrice' | 'currentPrice' | 'pnl' | 'pnlPercentage' | 'accuracy' | 'positionSize';
+
+const isObject = (value: unknown): value is RawSignal =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// First defined value among camelCase and snake_case spellings of a field
+const pick = (raw: RawSignal, ...keys: string[]) => {
+  for (const key of keys) {
+    if (raw[key] !== undefined && raw[key] !== null) return raw[key];
+  }
+  return undefined;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : undefined;
+};
+
+const toIsoDate = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const toEnum = <T extends string>(value: unknown, allowed: T[], casing: 'lower' | 'upper'): T | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim().replace(/[\s-]+/g, '_');
+  const normalized = casing === 'upper' ? trimmed.toUpperCase() : trimmed.toLowerCase();
+  return allowed.includes(normalized as T) ? (normalized as T) : undefined;
+};
+
+const toText = (value: unknown): string => {
+  if (Array.isArray(value)) return value.filter(item => item !== undefined && item !== null).join('; ');
+  return value === undefined || value === null ? '' : String(value);
+};
+
+const toTags = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(tag => String(tag).trim()).filter(Boolean);
+  if (typeof value === 'string') return value.split(',').map(tag => tag.trim()).filter(Boolean);
+  return [];
+};
+
+const toNumberRecord = (value: unknown): Record<string, number> | undefined => {
+  if (!isObject(value)) return undefined;
+  const record: Record<string, number> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    const num = toNumber(entry);
+    if (num !== undefined) record[key] = num;
+  });
+  return record;
+};
+
+// Confidence is a 0-100 percentage; model outputs in the 0-1 range are scaled
+// up, including a fully confident 1, so a 1% confidence can't be expressed
+const toConfidence = (value: unknown): number | undefined => {
+  const num = toNumber(value);
+  if (num === undefined) return undefined;
+  return num > 0 && num <= 1 ? Math.round(num * 10000) / 100 : num;
+};
+
+export const normalizeSignal = (payload: unknown): SignalValidationResult => {
+  if (!isObject(payload)) {
+    return { valid: false, errors: ['payload is not an object'] };
+  }
+
+  const errors: string[] = [];
+  const raw = payload;
+
+  const idValue = pick(raw, 'id', '_id');
+  const id = idValue !== undefined ? String(idValue) : '';
+  if (!id) errors.push('missing id');
+
+  const symbol = typeof raw.symbol === 'string' ? raw.symbol.trim().toUpperCase() : '';
+  if (!symbol) errors.push('missing symbol');
+
+  const type = toEnum(pick(raw, 'type', 'signal', 'direction'), SIGNAL_TYPES, 'upper');
+  if (!type) errors.push(`invalid type "${pick(raw, 'type', 'signal', 'direction')}"`);
+
+  const confidence = toConfidence(raw.confidence);
+  if (confidence === undefined || confidence < 0 || confidence > 100) {
+    errors.push(`invalid confidence "${raw.confidence}"`);
+  }
+
+  const entryPrice = toNumber(pick(raw, 'entryPrice', 'entry_price'));
+  const targetPrice = toNumber(pick(raw, 'targetPrice', 'target_price', 'takeProfit', 'take_profit'));
+  const stopLoss = toNumber(pick(raw, 'stopLoss', 'stop_loss'));
+  if (entryPrice === undefined || entryPrice <= 0) errors.push('invalid entryPrice');
+  if (targetPrice === undefined || targetPrice < 0) errors.push('invalid targetPrice');
+  if (stopLoss === undefined || stopLoss < 0) errors.push('invalid stopLoss');
+
+  const rawMarket = typeof raw.market === 'string' ? raw.market.trim().toLowerCase() : raw.market;
+  const market = toEnum(MARKET_ALIASES[rawMarket] || rawMarket, MARKETS, 'lower');
+  if (!market) errors.push(`invalid market "${raw.market}"`);
+
+  const rawStatus = pick(raw, 'status');
+  const status = rawStatus === undefined ? 'active' : toEnum(rawStatus, STATUSES, 'lower');
+  if (!status) errors.push(`invalid status "${rawStatus}"`);
+
+  const rawSource = pick(raw, 'source');
+  const source = rawSource === undefined ? 'ai' : toEnum(rawSource, SOURCES, 'lower');
+  if (!source) errors.push(`invalid source "${rawSource}"`);
+
+  // Accepts both the lowercase signal risk and the uppercase RiskLevel spelling
+  const rawRisk = pick(raw, 'risk', 'riskLevel', 'risk_level');
+  const risk = rawRisk === undefined ? 'medium' : toEnum(rawRisk, RISKS, 'lower');
+  if (!risk) errors.push(`invalid risk "${rawRisk}"`);
+
+  const rawCreatedAt = pick(raw, 'createdAt', 'created_at', 'timestamp');
+  const createdAt = rawCreatedAt === undefined ? new Date().toISOString() : toIsoDate(rawCreatedAt);
+  if (!createdAt) errors.push(`invalid createdAt "${rawCreatedAt}"`);
+
+  const rawExpiresAt = pick(raw, 'expiresAt', 'expires_at');
+  const expiresAt = toIsoDate(rawExpiresAt);
+  if (!expiresAt) errors.push(`invalid expiresAt "${rawExpiresAt}"`);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const signal: TradingSignal = {
+    id,
+    symbol,
+    type: type!,
+    confidence: confidence!,
+    entryPrice: entryPrice!,
+    targetPrice: targetPrice!,
+    stopLoss: stopLoss!,
+    timeframe: toText(pick(raw, 'timeframe', 'time_frame')) || '1h',
+    market: market!,
+    description: toText(raw.description),
+    reasoning: toText(raw.reasoning),
+    technicalIndicators: isObject(pick(raw, 'technicalIndicators', 'technical_indicators'))
+      ? pick(raw, 'technicalIndicators', 'technical_indicators')
+      : {},
+    status: status!,
+    createdAt: createdAt!,
+    expiresAt: expiresAt!,
+    tags: toTags(raw.tags),
+    source: source!,
+    risk: risk!,
+  };
+
+  const updatedAt = toIsoDate(pick(raw, 'updatedAt', 'updated_at'));
+  if (updatedAt) signal.updatedAt = updatedAt;
+
+  const executedAt = toIsoDate(pick(raw, 'executedAt', 'executed_at'));
+  if (executedAt) signal.executedAt = executedAt;
+
+  const optionalNumbers: [OptionalNumberField, string[]][] = [
+    ['executedPrice', ['executedPrice', 'executed_price']],
+    ['currentPrice', ['currentPrice', 'current_price']],
+    ['pnl', ['pnl']],
+    ['pnlPercentage', ['pnlPercentage', 'pnl_percentage']],
+    ['accuracy', ['accuracy']],
+    ['positionSize', ['positionSize', 'position_size']],
+  ];
+  optionalNumbers.forEach(([field, keys]) => {
+    const value = toNumber(pick(raw, ...keys));
+    if (value !== undefined) signal[field] = value;
+  });
+
+  const featureImportance = toNumberRecord(pick(raw, 'featureImportance', 'feature_importance'));
+  if (featureImportance) signal.featureImportance = featureImportance;
+
+  const counterfactuals = pick(raw, 'counterfactuals');
+  if (isObject(counterfactuals)) signal.counterfactuals = counterfactuals;
+
+  const metadata = pick(raw, 'metadata');
+  if (isObject(metadata)) {
+    signal.metadata = {
+      processingTime: toNumber(metadata.processingTime),
+      modelsUsed: Array.isArray(metadata.modelsUsed) ? metadata.modelsUsed.map(String) : undefined,
+      latency: toNumber(metadata.latency),
+    };
+  }
+
+  return { valid: true, signal };
+};
+
+// Splits a batch into normalized signals and rejected payloads
+export const partitionSignals = (payloads: unknown[]) => {
+  const signals: TradingSignal[] = [];
+  const rejected: RejectedSignal[] = [];
+
+  payloads.forEach(payload => {
+    const result = normalizeSignal(payload);
+    if (result.valid) {
+      signals.push(result.signal);
+    } else {
+      rejected.push({ payload, errors: result.errors });
+    }
+  });
+
+  return { signals, rejected };
+};
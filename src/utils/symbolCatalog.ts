@@ -0,0 +1,61 @@
+import type { MarketType } from '../types';
+
+export interface SymbolInfo {
+  symbol: string;
+  market: MarketType;
+  name: string;
+}
+
+export const MARKET_LABELS: Record<MarketType, string> = {
+  crypto: 'Crypto',
+  forex: 'Forex',
+  stocks: 'Stocks',
+  commodities: 'Commodities',
+};
+
+// Symbols the feed and the backend's trading assets know about
+export const SYMBOL_CATALOG: SymbolInfo[] = [
+  { symbol: 'BTCUSD', market: 'crypto', name: 'Bitcoin' },
+  { symbol: 'ETHUSD', market: 'crypto', name: 'Ethereum' },
+  { symbol: 'BTCUSDT', market: 'crypto', name: 'Bitcoin / Tether' },
+  { symbol: 'ETHUSDT', market: 'crypto', name: 'Ethereum / Tether' },
+  { symbol: 'BNBUSDT', market: 'crypto', name: 'Binance Coin' },
+  { symbol: 'ADAUSDT', market: 'crypto', name: 'Cardano' },
+  { symbol: 'SOLUSDT', market: 'crypto', name: 'Solana' },
+  { symbol: 'EURUSD', market: 'forex', name: 'Euro / US Dollar' },
+  { symbol: 'GBPUSD', market: 'forex', name: 'British Pound / US Dollar' },
+  { symbol: 'USDJPY', market: 'forex', name: 'US Dollar / Japanese Yen' },
+  { symbol: 'AUDUSD', market: 'forex', name: 'Australian Dollar / US Dollar' },
+  { symbol: 'USDCHF', market: 'forex', name: 'US Dollar / Swiss Franc' },
+  { symbol: 'USDCAD', market: 'forex', name: 'US Dollar / Canadian Dollar' },
+  { symbol: 'AAPL', market: 'stocks', name: 'Apple Inc.' },
+  { symbol: 'GOOGL', market: 'stocks', name: 'Alphabet Inc.' },
+  { symbol: 'TSLA', market: 'stocks', name: 'Tesla Inc.' },
+  { symbol: 'MSFT', market: 'stocks', name: 'Microsoft Corp.' },
+  { symbol: 'AMZN', market: 'stocks', name: 'Amazon.com Inc.' },
+  { symbol: 'NVDA', market: 'stocks', name: 'NVIDIA Corp.' },
+  { symbol: 'GOLD', market: 'commodities', name: 'Gold' },
+  { symbol: 'SILVER', market: 'commodities', name: 'Silver' },
+  { symbol: 'OIL', market: 'commodities', name: 'Crude Oil' },
+];
+
+const CATALOG_BY_SYMBOL = new Map(SYMBOL_CATALOG.map(info => [info.symbol, info]));
+
+/**
+ * The catalog plus any other symbols the app has seen, e.g. from signals, so
+ * search covers every market the user trades. Unknown symbols keep their
+ * market when it is given and fall back to crypto otherwise.
+ */
+export const buildSymbolCatalog = (extra: { symbol: string; market?: MarketType }[] = []): SymbolInfo[] => {
+  const catalog = [...SYMBOL_CATALOG];
+  const known = new Set(CATALOG_BY_SYMBOL.keys());
+  extra.forEach(({ symbol, market }) => {
+    const upper = symbol.toUpperCase();
+    if (known.has(upper)) return;
+    known.add(upper);
+    catalog.push({ symbol: upper, market: market || 'crypto', name: upper });
+  });
+  return catalog.sort((a, b) => a.market.localeCompare(b.market) || a.symbol.localeCompare(b.symbol));
+};
+
+export const findSymbol = (symbol: string): SymbolInfo | undefined => CATALOG_BY_SYMBOL.get(symbol.toUpperCase());